@@ -24,9 +24,26 @@ module.exports = {
     },
     package: "com.odoo.reactnative",
     permissions: [
-      "INTERNET"
+      "INTERNET",
+      "RECORD_AUDIO"
     ]
   },
+  plugins: [
+    [
+      "@react-native-voice/voice",
+      {
+        microphonePermission: "Allow $(PRODUCT_NAME) to use the microphone for voice commands.",
+        speechRecognitionPermission: "Allow $(PRODUCT_NAME) to transcribe your voice commands."
+      }
+    ],
+    "expo-secure-store",
+    [
+      "expo-local-authentication",
+      {
+        faceIDPermission: "Allow $(PRODUCT_NAME) to use Face ID to unlock the app."
+      }
+    ]
+  ],
   web: {
     favicon: "./assets/favicon.png"
   }
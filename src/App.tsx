@@ -1,24 +1,93 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { StatusBar, Platform } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { Provider as PaperProvider } from 'react-native-paper';
 import { Provider as ReduxProvider } from 'react-redux';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
 import { store } from './state/store';
+import { statePersistence } from './state/persistence';
+import { settingsStore } from './api/settingsStore';
+import { authService } from './api/authService';
+import { authEvents } from './api/authEvents';
+import { checkAuthStatus, tokenRefreshed, expireSession, subscribeToAppLock } from './state/slices/authSlice';
+import { subscribeToMCPService, disconnectMCP } from './state/slices/connectionSlice';
 import LoginScreen from './screens/LoginScreen';
+import LockScreen from './screens/LockScreen';
 import MainScreen from './screens/MainScreen';
-import { theme, colors } from './utils/theme';
+import RecordDetailScreen from './screens/RecordDetailScreen';
+import SettingsScreen from './screens/SettingsScreen';
+import { RecordModel } from './api/odooDataService';
+import { usePreferences } from './hooks/usePreferences';
+import { createTheme, colors } from './utils/theme';
 
 export type RootStackParamList = {
-  Login: undefined;
+  Login: { addAccount?: boolean } | undefined;
+  Lock: { mode?: 'unlock' | 'setup' } | undefined;
   Main: undefined;
+  RecordDetail: { model: RecordModel; id: number; title?: string }; // title shows while the record loads
+  Settings: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
 
 export default function App() {
+  const [initialRoute, setInitialRoute] = useState<keyof RootStackParamList | null>(null);
+  const { theme: themeName } = usePreferences();
+  const theme = useMemo(() => createTheme(themeName), [themeName]);
+
+  // Proxy settings must be known and tokens moved to secure storage before the first request,
+  // and the saved state restored before the first screen renders.
+  // A saved session opens Main directly, behind the lock screen when the app lock is on.
+  useEffect(() => {
+    let stopPersistence: (() => void) | null = null;
+
+    Promise.all([
+      settingsStore.load(),
+      authService.migrateTokenStorage(),
+      statePersistence.rehydrate(store.dispatch),
+    ])
+      .then(() => store.dispatch(checkAuthStatus()))
+      .finally(() => {
+        stopPersistence = statePersistence.start(store);
+        const { isLoggedIn, isLocked } = store.getState().auth;
+        setInitialRoute(!isLoggedIn ? 'Login' : isLocked ? 'Lock' : 'Main');
+      });
+
+    return () => stopPersistence?.();
+  }, []);
+
+  // Keep the store in sync with refreshed tokens and the MCP connection,
+  // return to Login once the session cannot be refreshed,
+  // and ask for the PIN again after too long in the background, whichever screen is open
+  useEffect(() => {
+    const unsubscribeMCP = store.dispatch(subscribeToMCPService());
+    const unsubscribeAppLock = store.dispatch(subscribeToAppLock(navigationRef));
+    const removeTokenListener = authEvents.addTokenListener((tokens) => {
+      store.dispatch(tokenRefreshed(tokens));
+    });
+    const removeExpiredListener = authEvents.addSessionExpiredListener(async () => {
+      await store.dispatch(disconnectMCP());
+      await store.dispatch(expireSession());
+      if (navigationRef.isReady()) {
+        navigationRef.reset({ index: 0, routes: [{ name: 'Login' }] });
+      }
+    });
+
+    return () => {
+      unsubscribeMCP();
+      unsubscribeAppLock();
+      removeTokenListener();
+      removeExpiredListener();
+    };
+  }, []);
+
+  if (!initialRoute) {
+    return null;
+  }
+
   return (
     <ReduxProvider store={store}>
       <SafeAreaProvider>
@@ -28,10 +97,11 @@ export default function App() {
             barStyle="light-content"
           />
           <NavigationContainer
+            ref={navigationRef}
             theme={{
               dark: true,
               colors: {
-                primary: colors.primary,
+                primary: theme.colors.primary,
                 background: colors.backgroundDark,
                 card: colors.backgroundMedium,
                 text: colors.textPrimary,
@@ -41,7 +111,7 @@ export default function App() {
             }}
           >
             <Stack.Navigator 
-              initialRouteName="Login" 
+              initialRouteName={initialRoute}
               screenOptions={{ 
                 headerShown: false,
                 animation: 'fade_from_bottom',
@@ -49,7 +119,10 @@ export default function App() {
               }}
             >
               <Stack.Screen name="Login" component={LoginScreen} />
+              <Stack.Screen name="Lock" component={LockScreen} options={{ gestureEnabled: false }} />
               <Stack.Screen name="Main" component={MainScreen} />
+              <Stack.Screen name="RecordDetail" component={RecordDetailScreen} />
+              <Stack.Screen name="Settings" component={SettingsScreen} />
             </Stack.Navigator>
           </NavigationContainer>
         </PaperProvider>
@@ -0,0 +1,72 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { appLockService, validatePin } from '../appLockService';
+import { secureStorage, createMemoryStorage } from '../secureStorage';
+import { MAX_UNLOCK_ATTEMPTS } from '../../utils/config';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('appLockService', () => {
+  beforeEach(() => {
+    secureStorage.setAdapter(createMemoryStorage());
+  });
+
+  afterEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('validates PINs', () => {
+    expect(validatePin('12a4')).toBe('PIN must contain only digits');
+    expect(validatePin('123')).toMatch(/^PIN must be/);
+    expect(validatePin('1234')).toBeNull();
+  });
+
+  it('is enabled once a PIN is set and off again after disabling', async () => {
+    expect(await appLockService.isEnabled()).toBe(false);
+
+    await appLockService.setPin('2468');
+    expect(await appLockService.isEnabled()).toBe(true);
+    expect(await AsyncStorage.getItem('app_lock_pin')).toBeNull();
+
+    await appLockService.disable();
+    expect(await appLockService.isEnabled()).toBe(false);
+  });
+
+  it('counts failed attempts until the right PIN is entered', async () => {
+    await appLockService.setPin('2468');
+
+    expect(await appLockService.verifyPin('0000')).toEqual({
+      unlocked: false,
+      attemptsLeft: MAX_UNLOCK_ATTEMPTS - 1,
+    });
+    expect(await appLockService.verifyPin('1111')).toEqual({
+      unlocked: false,
+      attemptsLeft: MAX_UNLOCK_ATTEMPTS - 2,
+    });
+
+    expect(await appLockService.verifyPin('2468')).toEqual({ unlocked: true, attemptsLeft: MAX_UNLOCK_ATTEMPTS });
+    expect(await appLockService.getAttemptsLeft()).toBe(MAX_UNLOCK_ATTEMPTS);
+  });
+
+  it('runs out of attempts', async () => {
+    await appLockService.setPin('2468');
+
+    let result = await appLockService.verifyPin('0000');
+    for (let attempt = 1; attempt < MAX_UNLOCK_ATTEMPTS; attempt++) {
+      result = await appLockService.verifyPin('0000');
+    }
+    expect(result).toEqual({ unlocked: false, attemptsLeft: 0 });
+  });
+
+  it('locks on resume only after the timeout', async () => {
+    await appLockService.setPin('2468');
+    await appLockService.updateSettings({ timeoutMs: 60000 });
+
+    expect(await appLockService.shouldLockOnResume(1000, 30000)).toBe(false);
+    expect(await appLockService.shouldLockOnResume(1000, 61000)).toBe(true);
+
+    await appLockService.disable();
+    expect(await appLockService.shouldLockOnResume(1000, 61000)).toBe(false);
+  });
+});
@@ -0,0 +1,415 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { authService, getSessionId, isTwoFactorChallenge, TwoFactorChallenge } from '../authService';
+import { settingsStore } from '../settingsStore';
+import { secureStorage, createMemoryStorage } from '../secureStorage';
+import { authEvents } from '../authEvents';
+import { getTokenExpiry, isTokenExpiring } from '../../utils/jwt';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const jsonResponse = (body: any, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+// Resolves once the mock has been called
+const waitForCall = async (mock: jest.Mock) => {
+  while (mock.mock.calls.length === 0) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+};
+
+describe('authService sessions', () => {
+  const originalFetch = global.fetch;
+  let tokenCounter = 0;
+
+  beforeEach(async () => {
+    tokenCounter = 0;
+    secureStorage.setAdapter(createMemoryStorage());
+    await settingsStore.setProxySettings({ customUrl: 'https://proxy.example.com' });
+    global.fetch = jest.fn(async (url: string, init?: any) => {
+      if (String(url).endsWith('/auth/login')) {
+        const { username } = JSON.parse(init.body);
+        tokenCounter += 1;
+        return jsonResponse({
+          accessToken: `access-${tokenCounter}`,
+          refreshToken: `refresh-${tokenCounter}`,
+          user: { id: tokenCounter, username, name: username },
+        });
+      }
+      return jsonResponse({});
+    }) as any;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  it('saves a session per account and server on login', async () => {
+    await authService.login('alice', 'secret', 'https://a.example.com');
+    await authService.login('alice', 'secret', 'https://b.example.com');
+
+    const sessions = await authService.getSessions();
+    expect(sessions.map(session => session.id)).toEqual([
+      getSessionId('alice', 'https://a.example.com'),
+      getSessionId('alice', 'https://b.example.com'),
+    ]);
+
+    const status = await authService.checkAuthStatus();
+    expect(status.sessionId).toBe(getSessionId('alice', 'https://b.example.com'));
+    expect(status.token).toBe('access-2');
+  });
+
+  it('swaps tokens when switching sessions', async () => {
+    await authService.login('alice', 'secret', 'https://a.example.com');
+    await authService.login('bob', 'secret', 'https://b.example.com');
+
+    const switched = await authService.switchSession(getSessionId('alice', 'https://a.example.com'));
+    expect(switched).toMatchObject({
+      isLoggedIn: true,
+      token: 'access-1',
+      refreshToken: 'refresh-1',
+      username: 'alice',
+      serverUrl: 'https://a.example.com',
+    });
+    expect(await secureStorage.getItem('access_token')).toBe('access-1');
+
+    const back = await authService.switchSession(getSessionId('bob', 'https://b.example.com'));
+    expect(back.token).toBe('access-2');
+  });
+
+  it('stores a refresh that finishes after a switch with the session that started it', async () => {
+    await authService.login('alice', 'secret', 'https://a.example.com');
+    await authService.login('bob', 'secret', 'https://b.example.com');
+
+    const loginFetch = global.fetch;
+    let finishRefresh: (response: unknown) => void = () => {};
+    global.fetch = jest.fn((url: string, init?: any) =>
+      String(url).endsWith('/auth/refresh')
+        ? new Promise(resolve => { finishRefresh = resolve; })
+        : loginFetch(url, init)
+    ) as any;
+    const listener = jest.fn();
+    const removeListener = authEvents.addTokenListener(listener);
+
+    const refresh = authService.refreshToken();
+    await waitForCall(global.fetch as jest.Mock);
+    await authService.switchSession(getSessionId('alice', 'https://a.example.com'));
+    finishRefresh(jsonResponse({ accessToken: 'access-bob-2', refreshToken: 'refresh-bob-2' }));
+    expect(await refresh).toBe('access-bob-2');
+    removeListener();
+
+    // Alice keeps her own tokens and is not told about Bob's
+    expect(await secureStorage.getItem('access_token')).toBe('access-1');
+    expect(await secureStorage.getItem('refresh_token')).toBe('refresh-1');
+    expect(listener).not.toHaveBeenCalled();
+
+    const back = await authService.switchSession(getSessionId('bob', 'https://b.example.com'));
+    expect(back).toMatchObject({ token: 'access-bob-2', refreshToken: 'refresh-bob-2' });
+  });
+
+  it('rejects switching to an unknown session', async () => {
+    await expect(authService.switchSession('nobody@https://x.example.com')).rejects.toMatchObject({
+      code: 'SESSION_NOT_FOUND',
+    });
+  });
+
+  it('keeps other sessions on logout and removes inactive ones on request', async () => {
+    await authService.login('alice', 'secret', 'https://a.example.com');
+    await authService.login('bob', 'secret', 'https://b.example.com');
+    await authService.login('carol', 'secret', 'https://c.example.com');
+
+    await authService.logout();
+    expect((await authService.checkAuthStatus()).isLoggedIn).toBe(false);
+    expect((await authService.getSessions()).map(session => session.username)).toEqual(['alice', 'bob']);
+
+    await authService.switchSession(getSessionId('bob', 'https://b.example.com'));
+    await authService.removeSession(getSessionId('alice', 'https://a.example.com'));
+
+    expect((await authService.getSessions()).map(session => session.username)).toEqual(['bob']);
+    expect(await secureStorage.getItem('session_tokens:alice@https://a.example.com')).toBeNull();
+    expect((await authService.checkAuthStatus()).username).toBe('bob');
+  });
+
+  it('keeps the same login on two databases apart and sends the database', async () => {
+    await authService.login('alice', 'secret', 'https://a.example.com', 'prod');
+    await authService.login('alice', 'secret', 'https://a.example.com', 'staging');
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+    expect(body.database).toBe('staging');
+    expect((await authService.getSessions()).map(session => session.database)).toEqual(['prod', 'staging']);
+
+    const status = await authService.switchSession(getSessionId('alice', 'https://a.example.com', 'prod'));
+    expect(status.database).toBe('prod');
+    expect((await authService.checkAuthStatus()).database).toBe('prod');
+  });
+
+  it('remembers recently used servers, most recent first', async () => {
+    await authService.login('alice', 'secret', 'https://a.example.com', 'prod');
+    await authService.login('bob', 'secret', 'https://b.example.com');
+    await authService.login('carol', 'secret', 'https://a.example.com', 'staging');
+
+    expect(await authService.getRecentServers()).toEqual([
+      expect.objectContaining({ url: 'https://a.example.com', database: 'staging' }),
+      expect.objectContaining({ url: 'https://b.example.com' }),
+    ]);
+  });
+});
+
+describe('authService server discovery', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(async () => {
+    await settingsStore.setProxySettings({ customUrl: 'https://proxy.example.com' });
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    await AsyncStorage.clear();
+  });
+
+  it('lists the databases and version of a server', async () => {
+    global.fetch = jest.fn(async () => jsonResponse({ version: '17.0', databases: ['prod', 'staging'] })) as any;
+
+    const info = await authService.discoverServer('https://a.example.com');
+    expect(info).toEqual({ serverUrl: 'https://a.example.com', version: '17.0', databases: ['prod', 'staging'] });
+    expect(String((global.fetch as jest.Mock).mock.calls[0][0])).toContain('/auth/discover?odooUrl=https%3A%2F%2Fa.example.com');
+  });
+
+  it('treats a hidden database list as empty', async () => {
+    global.fetch = jest.fn(async () => jsonResponse({ version: '16.0' })) as any;
+
+    expect(await authService.discoverServer('https://a.example.com')).toEqual({
+      serverUrl: 'https://a.example.com',
+      version: '16.0',
+      databases: [],
+    });
+  });
+
+  it('fails when the proxy cannot reach the server', async () => {
+    global.fetch = jest.fn(async () => jsonResponse({ error: 'Server not found' }, 502)) as any;
+
+    await expect(authService.discoverServer('https://a.example.com')).rejects.toMatchObject({
+      code: 'DISCOVERY_FAILED',
+      status: 502,
+      message: 'Server not found',
+    });
+  });
+});
+
+describe('authService two-factor login', () => {
+  const originalFetch = global.fetch;
+  const user = { id: 7, username: 'alice', name: 'Alice' };
+
+  const challengeFor = async () => {
+    global.fetch = jest.fn(async () =>
+      jsonResponse({ twoFactorRequired: true, challengeToken: 'challenge-1' }, 401)
+    ) as any;
+    return await authService.login('alice', 'secret', 'https://a.example.com', 'prod') as TwoFactorChallenge;
+  };
+
+  beforeEach(async () => {
+    secureStorage.setAdapter(createMemoryStorage());
+    await settingsStore.setProxySettings({ customUrl: 'https://proxy.example.com' });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  it('returns a challenge without signing in when the proxy asks for a code', async () => {
+    const challenge = await challengeFor();
+
+    expect(isTwoFactorChallenge(challenge)).toBe(true);
+    expect(challenge).toEqual({
+      twoFactorRequired: true,
+      challengeToken: 'challenge-1',
+      username: 'alice',
+      serverUrl: 'https://a.example.com',
+      database: 'prod',
+    });
+    expect((await authService.checkAuthStatus()).isLoggedIn).toBe(false);
+    expect(await authService.getSessions()).toEqual([]);
+  });
+
+  it('still signs in directly when 2FA is off', async () => {
+    global.fetch = jest.fn(async () => jsonResponse({ accessToken: 'access-1', user })) as any;
+
+    const result = await authService.login('alice', 'secret', 'https://a.example.com');
+    expect(isTwoFactorChallenge(result)).toBe(false);
+    expect((await authService.checkAuthStatus()).token).toBe('access-1');
+  });
+
+  it('completes the session with a valid code', async () => {
+    const challenge = await challengeFor();
+    global.fetch = jest.fn(async () =>
+      jsonResponse({ accessToken: 'access-2fa', refreshToken: 'refresh-2fa', user })
+    ) as any;
+
+    await authService.verifyTwoFactor(challenge, '123 456');
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('https://proxy.example.com/api/auth/2fa/verify');
+    expect(JSON.parse(init.body)).toMatchObject({ challengeToken: 'challenge-1', code: '123456' });
+
+    const status = await authService.checkAuthStatus();
+    expect(status.sessionId).toBe(getSessionId('alice', 'https://a.example.com', 'prod'));
+    expect(status.token).toBe('access-2fa');
+    expect(status.refreshToken).toBe('refresh-2fa');
+  });
+
+  it('rejects malformed codes without calling the proxy', async () => {
+    const challenge = await challengeFor();
+    (global.fetch as jest.Mock).mockClear();
+
+    await expect(authService.verifyTwoFactor(challenge, '12ab')).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('reports a wrong code', async () => {
+    const challenge = await challengeFor();
+    global.fetch = jest.fn(async () => jsonResponse({}, 401)) as any;
+
+    await expect(authService.verifyTwoFactor(challenge, '000000')).rejects.toMatchObject({
+      code: 'INVALID_2FA_CODE',
+      message: 'Invalid verification code',
+    });
+    expect((await authService.checkAuthStatus()).isLoggedIn).toBe(false);
+  });
+
+  it('reports an expired challenge', async () => {
+    const challenge = await challengeFor();
+    global.fetch = jest.fn(async () => jsonResponse({}, 410)) as any;
+
+    await expect(authService.verifyTwoFactor(challenge, '123456')).rejects.toMatchObject({
+      code: 'TWO_FACTOR_EXPIRED',
+    });
+  });
+});
+
+describe('authService token storage', () => {
+  beforeEach(() => {
+    secureStorage.setAdapter(createMemoryStorage());
+  });
+
+  afterEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('keeps tokens out of AsyncStorage', async () => {
+    await secureStorage.setItem('access_token', 'secret-token');
+
+    expect(await authService.getAccessToken()).toBe('secret-token');
+    expect(await AsyncStorage.getItem('access_token')).toBeNull();
+  });
+
+  it('moves tokens from AsyncStorage once and wipes the old keys', async () => {
+    await AsyncStorage.multiSet([
+      ['access_token', 'old-access'],
+      ['refresh_token', 'old-refresh'],
+      ['session_tokens:bob@https://b.example.com', '{"token":"bob-access"}'],
+      ['username', 'alice'],
+    ]);
+
+    await authService.migrateTokenStorage();
+
+    expect(await secureStorage.getItem('access_token')).toBe('old-access');
+    expect(await secureStorage.getItem('refresh_token')).toBe('old-refresh');
+    expect(await secureStorage.getItem('session_tokens:bob@https://b.example.com')).toBe('{"token":"bob-access"}');
+    expect(await AsyncStorage.getItem('access_token')).toBeNull();
+    expect(await AsyncStorage.getItem('refresh_token')).toBeNull();
+    expect(await AsyncStorage.getItem('session_tokens:bob@https://b.example.com')).toBeNull();
+    expect(await AsyncStorage.getItem('username')).toBe('alice');
+
+    // Later launches leave secure storage alone
+    await AsyncStorage.setItem('access_token', 'stale');
+    await authService.migrateTokenStorage();
+    expect(await secureStorage.getItem('access_token')).toBe('old-access');
+  });
+});
+
+describe('authService token refresh', () => {
+  const originalFetch = global.fetch;
+
+  // Unsigned JWT with the given expiry
+  const makeToken = (expiresAt: number) =>
+    `header.${btoa(JSON.stringify({ exp: Math.floor(expiresAt / 1000) })).replace(/=+$/, '')}.signature`;
+
+  beforeEach(async () => {
+    secureStorage.setAdapter(createMemoryStorage());
+    await settingsStore.setProxySettings({ customUrl: 'https://proxy.example.com' });
+    await secureStorage.setItem('refresh_token', 'refresh-1');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  it('reads the expiry of JWT access tokens', () => {
+    const expiresAt = Date.now() + 30000;
+    expect(getTokenExpiry(makeToken(expiresAt))).toBe(Math.floor(expiresAt / 1000) * 1000);
+    expect(getTokenExpiry('opaque-token')).toBeNull();
+    expect(isTokenExpiring(makeToken(expiresAt), 60000)).toBe(true);
+    expect(isTokenExpiring(makeToken(expiresAt), 0)).toBe(false);
+  });
+
+  it('shares one refresh between concurrent callers and announces the new token', async () => {
+    const fresh = makeToken(Date.now() + 3600000);
+    global.fetch = jest.fn(async () => jsonResponse({ accessToken: fresh, refreshToken: 'refresh-2' })) as any;
+    const listener = jest.fn();
+    const removeListener = authEvents.addTokenListener(listener);
+
+    const tokens = await Promise.all([authService.refreshToken(), authService.refreshToken()]);
+    removeListener();
+
+    expect(tokens).toEqual([fresh, fresh]);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ accessToken: fresh, refreshToken: 'refresh-2' });
+    expect(await secureStorage.getItem('refresh_token')).toBe('refresh-2');
+  });
+
+  it('refreshes a token that is about to expire before using it', async () => {
+    const fresh = makeToken(Date.now() + 3600000);
+    await secureStorage.setItem('access_token', makeToken(Date.now() + 10000));
+    global.fetch = jest.fn(async () => jsonResponse({ accessToken: fresh })) as any;
+
+    expect(await authService.getValidAccessToken()).toBe(fresh);
+  });
+
+  it('reports an expired session when the refresh token is rejected', async () => {
+    global.fetch = jest.fn(async () => jsonResponse({ error: 'Invalid refresh token' }, 401)) as any;
+    const listener = jest.fn();
+    const removeListener = authEvents.addSessionExpiredListener(listener);
+
+    await expect(authService.refreshToken()).rejects.toMatchObject({ code: 'REFRESH_FAILED', status: 401 });
+    removeListener();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the session when the proxy is unreachable', async () => {
+    global.fetch = jest.fn(async () => {
+      throw new TypeError('Network request failed');
+    }) as any;
+    const listener = jest.fn();
+    const removeListener = authEvents.addSessionExpiredListener(listener);
+
+    await expect(authService.refreshToken()).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    removeListener();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
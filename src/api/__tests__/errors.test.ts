@@ -0,0 +1,76 @@
+import {
+  AppError,
+  AuthenticationError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  createError,
+  fromHttpStatus,
+  getErrorGuidance,
+  toAppError,
+  toErrorInfo,
+} from '../errors';
+
+describe('errors', () => {
+  it('creates the class matching a code', () => {
+    expect(createError('NOT_CONNECTED', 'Offline')).toBeInstanceOf(NetworkError);
+    expect(createError('SESSION_EXPIRED', 'Expired')).toBeInstanceOf(AuthenticationError);
+    expect(createError('EMPTY_QUERY', 'Empty')).toBeInstanceOf(ValidationError);
+    expect(createError('STREAM_TIMEOUT', 'Slow')).toBeInstanceOf(TimeoutError);
+    expect(createError('REST_API_ERROR', 'Failed')).toBeInstanceOf(ServerError);
+
+    const error = createError('STREAM_TIMEOUT', 'Slow');
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toMatchObject({ kind: 'timeout', code: 'STREAM_TIMEOUT', message: 'Slow' });
+  });
+
+  it('maps HTTP statuses, preferring the server message', () => {
+    expect(fromHttpStatus(401, { error: 'Token revoked' }, 'Failed')).toMatchObject({
+      kind: 'auth',
+      code: 'SESSION_EXPIRED',
+      message: 'Token revoked',
+      status: 401,
+    });
+    expect(getErrorGuidance(fromHttpStatus(401, {}, 'Failed').code).action).toBe('login');
+    expect(fromHttpStatus(401, {}, 'Failed', 'AUTH_FAILED')).toMatchObject({ code: 'AUTH_FAILED' });
+    expect(fromHttpStatus(422, {}, 'Invalid data')).toMatchObject({ kind: 'validation', message: 'Invalid data' });
+    expect(fromHttpStatus(504, {}, 'Failed')).toMatchObject({ kind: 'timeout' });
+    expect(fromHttpStatus(500, {}, 'Failed')).toMatchObject({ kind: 'server', code: 'SERVER_ERROR' });
+    expect(fromHttpStatus(404, {}, 'Not found', 'DISCOVERY_FAILED')).toMatchObject({ code: 'DISCOVERY_FAILED' });
+  });
+
+  it('turns thrown values into typed errors', () => {
+    const typed = new ValidationError('Bad PIN', { field: 'pin' });
+    expect(toAppError(typed)).toBe(typed);
+
+    expect(toAppError(new TypeError('Network request failed'))).toBeInstanceOf(NetworkError);
+    expect(toAppError(Object.assign(new Error('Expired'), { code: 'NO_REFRESH_TOKEN' }))).toMatchObject({
+      kind: 'auth',
+      code: 'NO_REFRESH_TOKEN',
+    });
+    expect(toAppError(new Error('Socket response timeout'))).toBeInstanceOf(TimeoutError);
+    expect(toAppError('boom', { code: 'PROCESSING_ERROR', message: 'Failed' })).toMatchObject({
+      kind: 'server',
+      code: 'PROCESSING_ERROR',
+      message: 'Failed',
+    });
+  });
+
+  it('serializes errors with their field', () => {
+    expect(toErrorInfo(new ValidationError('Username is required', { field: 'username' }))).toEqual({
+      code: 'INVALID_INPUT',
+      kind: 'validation',
+      message: 'Username is required',
+      field: 'username',
+    });
+  });
+
+  it('offers guidance per code, falling back to the kind', () => {
+    expect(getErrorGuidance('NO_PROXY').action).toBe('settings');
+    expect(getErrorGuidance('NETWORK_ERROR').action).toBe('retry');
+    expect(getErrorGuidance('SESSION_EXPIRED').action).toBe('login');
+    expect(getErrorGuidance('EMPTY_QUERY').action).toBeUndefined();
+    expect(getErrorGuidance(undefined).action).toBe('retry');
+  });
+});
@@ -0,0 +1,175 @@
+import { validateMCPResponse } from '../mcpResponseValidator';
+
+// Payloads as the proxy may send them
+const fixtures = {
+  text: { type: 'text', content: 'Revenue this month is $42,000' },
+  image: { type: 'image', content: 'https://example.com/chart.png' },
+  list: { type: 'list', content: { title: 'Top customers', items: ['Acme', 'Globex'] } },
+  table: { type: 'table', content: { headers: ['Order', 'Total'], rows: [['S001', '10.00']] } },
+  chart: {
+    type: 'chart',
+    content: {
+      chartType: 'line',
+      title: 'Sales by month',
+      labels: ['Jan', 'Feb', 'Mar'],
+      series: [{ name: 'Revenue', data: [1200, 1500, 900] }],
+      yAxisPrefix: '$',
+    },
+  },
+  action: {
+    type: 'action',
+    content: {
+      actionId: 'act-1',
+      title: 'Confirm quotation S00042',
+      model: 'sale.order',
+      recordId: 42,
+      recordName: 'S00042',
+      operation: 'action_confirm',
+      changes: [{ field: 'state', label: 'Status', oldValue: 'draft', newValue: 'sale' }],
+      signature: 'signed-by-proxy',
+    },
+  },
+  error: { type: 'error', content: 'Odoo is unreachable', code: 'ODOO_DOWN' },
+};
+
+const expectInvalid = (payload: unknown) => {
+  const result = validateMCPResponse(payload);
+  expect(result).toMatchObject({ type: 'error', code: 'INVALID_RESPONSE' });
+  return result as { details: string[] };
+};
+
+describe('validateMCPResponse', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each(Object.entries(fixtures))('accepts a well-formed %s response', (_, payload) => {
+    expect(validateMCPResponse(payload)).toEqual(payload);
+  });
+
+  describe('normalization', () => {
+    it('treats plain strings and untyped text as text responses', () => {
+      expect(validateMCPResponse('Hello')).toEqual({ type: 'text', content: 'Hello' });
+      expect(validateMCPResponse({ content: 'Hello' })).toEqual({ type: 'text', content: 'Hello' });
+      expect(validateMCPResponse({ type: 'TEXT', content: 42 })).toEqual({ type: 'text', content: '42' });
+    });
+
+    it('fills in missing list and table fields', () => {
+      expect(validateMCPResponse({ type: 'list', content: ['a', 2] })).toEqual({
+        type: 'list',
+        content: { title: '', items: ['a', '2'] },
+      });
+      expect(validateMCPResponse({ type: 'table', content: { rows: [[1, null, true]] } })).toEqual({
+        type: 'table',
+        content: { headers: [], rows: [['1', '', 'true']] },
+      });
+    });
+
+    it('coerces chart labels and names unnamed series', () => {
+      const result = validateMCPResponse({
+        type: 'chart',
+        content: { chartType: 'pie', labels: [2023, 2024], series: [{ data: [60, 40], extra: true }] },
+      });
+
+      expect(result).toEqual({
+        type: 'chart',
+        content: { chartType: 'pie', labels: ['2023', '2024'], series: [{ name: 'Series 1', data: [60, 40] }] },
+      });
+    });
+
+    it('keeps only #RRGGBB series colors', () => {
+      const result = validateMCPResponse({
+        type: 'chart',
+        content: {
+          chartType: 'line',
+          labels: ['Q1'],
+          series: [
+            { name: 'Hex', data: [1], color: '#36D399' },
+            { name: 'Named', data: [2], color: 'red' },
+            { name: 'RGB', data: [3], color: 'rgb(255, 0, 0)' },
+          ],
+        },
+      });
+
+      expect(result.type === 'chart' && result.content.series.map(item => item.color))
+        .toEqual(['#36D399', undefined, undefined]);
+    });
+
+    it('defaults action titles and missing field values', () => {
+      const result = validateMCPResponse({
+        type: 'action',
+        content: {
+          actionId: 'act-2',
+          model: 'stock.quant',
+          recordId: '7',
+          operation: 'write',
+          changes: [{ field: 'quantity', newValue: 12 }],
+          signature: 'sig',
+        },
+      });
+
+      expect(result).toEqual({
+        type: 'action',
+        content: {
+          actionId: 'act-2',
+          title: 'write on stock.quant',
+          model: 'stock.quant',
+          recordId: 7,
+          operation: 'write',
+          changes: [{ field: 'quantity', oldValue: null, newValue: 12 }],
+          signature: 'sig',
+        },
+      });
+    });
+
+    it('gives error responses a message', () => {
+      expect(validateMCPResponse({ type: 'error' })).toEqual({ type: 'error', content: 'Unknown error' });
+    });
+  });
+
+  describe('rejection', () => {
+    it.each([
+      ['undefined', undefined],
+      ['null', null],
+      ['an array', [fixtures.text]],
+    ])('rejects %s', (_, payload) => {
+      expectInvalid(payload);
+    });
+
+    it('rejects unknown and missing types', () => {
+      expect(expectInvalid({ type: 'video', content: 'x' }).details).toEqual(['unknown response type "video"']);
+      expect(expectInvalid({ content: { items: [] } }).details).toEqual(['response type is missing']);
+    });
+
+    it.each([
+      ['image without a URL', { type: 'image' }],
+      ['list with non-list items', { type: 'list', content: { items: 'a, b' } }],
+      ['list with object items', { type: 'list', content: { items: [{ name: 'Acme' }] } }],
+      ['table with non-list rows', { type: 'table', content: { headers: ['A'], rows: ['x'] } }],
+      ['action without a signature', { type: 'action', content: { ...fixtures.action.content, signature: undefined } }],
+      ['action with an invalid record id', { type: 'action', content: { ...fixtures.action.content, recordId: 'abc' } }],
+      ['action with nested field values', {
+        type: 'action',
+        content: { ...fixtures.action.content, changes: [{ field: 'partner_id', oldValue: [1, 'Acme'], newValue: null }] },
+      }],
+    ])('rejects %s', (_, payload) => {
+      expectInvalid(payload);
+    });
+
+    it.each([
+      ['missing content', { type: 'chart' }],
+      ['unknown chart type', { type: 'chart', content: { ...fixtures.chart.content, chartType: 'radar' } }],
+      ['empty labels', { type: 'chart', content: { ...fixtures.chart.content, labels: [] } }],
+      ['no series', { type: 'chart', content: { ...fixtures.chart.content, series: [] } }],
+      ['non-numeric data', { type: 'chart', content: { ...fixtures.chart.content, series: [{ name: 'x', data: [1, '2', 3] }] } }],
+      ['mismatched lengths', { type: 'chart', content: { ...fixtures.chart.content, series: [{ name: 'x', data: [1, 2] }] } }],
+      ['negative pie slices', { type: 'chart', content: { chartType: 'pie', labels: ['A', 'B'], series: [{ name: 'x', data: [5, -1] }] } }],
+    ])('rejects a chart with %s', (_, payload) => {
+      expect(expectInvalid(payload)).toMatchObject({ content: 'The chart in this response could not be displayed' });
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MCPService, applyStreamChunk } from '../mcpService';
+import { secureStorage, createMemoryStorage } from '../secureStorage';
+import { settingsStore } from '../settingsStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Release profiles have no built-in proxy; REST requests need an absolute URL
+beforeAll(async () => {
+  await settingsStore.setProxySettings({ customUrl: 'https://proxy.example.com' });
+});
+
+// Sent with every query, from the default preferences
+const queryOptions = { verbosity: 'normal', language: 'en-US' };
+
+// Minimal socket.io stand-in recording emitted events
+const createFakeSocket = () => {
+  const handlers: Record<string, Array<(payload: any) => void>> = {};
+  return {
+    emitted: [] as Array<{ event: string; payload: any }>,
+    on(event: string, handler: (payload: any) => void) {
+      (handlers[event] = handlers[event] || []).push(handler);
+    },
+    off(event: string, handler: (payload: any) => void) {
+      handlers[event] = (handlers[event] || []).filter(item => item !== handler);
+    },
+    acks: {} as Record<string, (response: any) => void>,
+    emit(event: string, payload: any, ack?: (response: any) => void) {
+      this.emitted.push({ event, payload });
+      if (ack && payload?.requestId) {
+        this.acks[payload.requestId] = ack;
+      }
+    },
+    serverEmit(event: string, payload: any) {
+      (handlers[event] || []).forEach(handler => handler(payload));
+    },
+    listenerCount(event: string) {
+      return (handlers[event] || []).length;
+    },
+    removeAllListeners: jest.fn(() => {
+      Object.keys(handlers).forEach(event => delete handlers[event]);
+    }),
+    disconnect: jest.fn(),
+  };
+};
+
+const createConnectedService = () => {
+  const service = new MCPService();
+  const socket = createFakeSocket();
+  Object.assign(service as any, { socket, socketReady: true, isConnected: true });
+  return { service, socket };
+};
+
+describe('applyStreamChunk', () => {
+  it('appends text, list items and table rows', () => {
+    const text = applyStreamChunk(applyStreamChunk(null, { type: 'text', content: 'Hello' }), { type: 'text', content: ' world' });
+    expect(text).toEqual({ type: 'text', content: 'Hello world' });
+
+    const list = applyStreamChunk(
+      applyStreamChunk(null, { type: 'list', content: { title: 'Top customers', items: ['Acme'] } }),
+      { type: 'list', content: { items: ['Globex'] } }
+    );
+    expect(list).toEqual({ type: 'list', content: { title: 'Top customers', items: ['Acme', 'Globex'] } });
+
+    const table = applyStreamChunk(
+      applyStreamChunk(null, { type: 'table', content: { headers: ['Order', 'Total'], rows: [['S001', '10']] } }),
+      { type: 'table', content: { rows: [['S002', '20']] } }
+    );
+    expect(table).toEqual({ type: 'table', content: { headers: ['Order', 'Total'], rows: [['S001', '10'], ['S002', '20']] } });
+  });
+
+  it('replaces the partial response when the type changes', () => {
+    const result = applyStreamChunk({ type: 'text', content: 'partial' }, { type: 'error', content: 'boom' });
+    expect(result).toEqual({ type: 'error', content: 'boom' });
+  });
+});
+
+describe('MCPService.streamQuery', () => {
+  it('emits partial updates keyed by request id until completion', async () => {
+    const { service, socket } = createConnectedService();
+    const updates: any[] = [];
+
+    const stream = service.streamQuery('sales by month', { requestId: 'req-1', onUpdate: update => updates.push(update) });
+    expect(socket.emitted[0]).toEqual({ event: 'process_query', payload: { query: 'sales by month', requestId: 'req-1', stream: true, ...queryOptions } });
+
+    socket.serverEmit('query_chunk', { requestId: 'req-1', chunk: { type: 'text', content: 'Sales ' } });
+    socket.serverEmit('query_chunk', { requestId: 'other', chunk: { type: 'text', content: 'ignored' } });
+    socket.serverEmit('query_chunk', { requestId: 'req-1', chunk: { type: 'text', content: 'grew' } });
+    socket.serverEmit('query_complete', { requestId: 'req-1' });
+
+    await expect(stream.response).resolves.toEqual({ type: 'text', content: 'Sales grew' });
+    expect(updates.map(update => update.content)).toEqual(['Sales ', 'Sales grew', 'Sales grew']);
+    expect(socket.listenerCount('query_chunk')).toBe(0);
+  });
+
+  it('cancels a running stream', async () => {
+    const { service, socket } = createConnectedService();
+    const stream = service.streamQuery('long report', { requestId: 'req-2' });
+
+    stream.cancel();
+
+    await expect(stream.response).resolves.toMatchObject({ type: 'error', code: 'CANCELLED' });
+    expect(socket.emitted).toContainEqual({ event: 'cancel_query', payload: { requestId: 'req-2' } });
+    expect(socket.listenerCount('query_complete')).toBe(0);
+  });
+
+  it('reports stream errors from the proxy', async () => {
+    const { service, socket } = createConnectedService();
+    const stream = service.streamQuery('broken', { requestId: 'req-3' });
+
+    socket.serverEmit('query_error', { requestId: 'req-3', error: 'Odoo is unavailable' });
+
+    await expect(stream.response).resolves.toEqual({ type: 'error', content: 'Odoo is unavailable', code: 'STREAM_ERROR' });
+  });
+});
+
+describe('MCPService query cancellation', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('sends a cancel_query event for socket queries', async () => {
+    const { service, socket } = createConnectedService();
+    const controller = new AbortController();
+
+    const pending = service.processQuery('open invoices', { requestId: 'req-4', signal: controller.signal });
+    expect(socket.emitted[0]).toEqual({ event: 'process_query', payload: { query: 'open invoices', requestId: 'req-4', ...queryOptions } });
+    expect(service.getPendingQueryIds()).toEqual(['req-4']);
+
+    controller.abort();
+
+    await expect(pending).resolves.toMatchObject({ type: 'error', code: 'CANCELLED' });
+    expect(socket.emitted).toContainEqual({ event: 'cancel_query', payload: { requestId: 'req-4' } });
+    expect(service.getPendingQueryIds()).toEqual([]);
+  });
+
+  it('resolves socket queries from the acknowledgement', async () => {
+    const { service, socket } = createConnectedService();
+
+    const pending = service.processQuery('revenue', { requestId: 'req-5' });
+    socket.acks['req-5']({ result: { type: 'text', content: '42' } });
+
+    await expect(pending).resolves.toEqual({ type: 'text', content: '42' });
+  });
+
+  it('stops listening to the caller signal once the query settles', async () => {
+    const { service, socket } = createConnectedService();
+    const controller = new AbortController();
+    const addListener = jest.spyOn(controller.signal, 'addEventListener');
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+    const pending = service.processQuery('revenue', { requestId: 'req-8', signal: controller.signal });
+    socket.acks['req-8']({ result: { type: 'text', content: '42' } });
+    await pending;
+
+    const [, listener, options] = addListener.mock.calls[0];
+    expect(options).toEqual({ once: true });
+    expect(removeListener).toHaveBeenCalledWith('abort', listener);
+  });
+
+  it('validates acknowledged results before returning them', async () => {
+    const { service, socket } = createConnectedService();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const pending = service.processQuery('revenue', { requestId: 'req-7' });
+    socket.acks['req-7']({ result: { type: 'table', content: { rows: 'oops' } } });
+
+    await expect(pending).resolves.toMatchObject({ type: 'error', code: 'INVALID_RESPONSE' });
+  });
+
+  it('aborts the REST request when cancelled by id', async () => {
+    const service = new MCPService();
+    Object.assign(service as any, { isConnected: true });
+    secureStorage.setAdapter(createMemoryStorage());
+    await secureStorage.setItem('access_token', 'token');
+
+    let fetchSignal: AbortSignal | undefined;
+    global.fetch = jest.fn((_url: any, init: any) => {
+      fetchSignal = init.signal;
+      return new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new Error('Aborted')));
+      });
+    }) as any;
+
+    const pending = service.processQuery('stock levels', { requestId: 'req-6' });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)).toMatchObject({ requestId: 'req-6' });
+    expect(service.cancelQuery('req-6')).toBe(true);
+
+    await expect(pending).resolves.toMatchObject({ type: 'error', code: 'CANCELLED' });
+    expect(fetchSignal?.aborted).toBe(true);
+    expect(service.cancelQuery('req-6')).toBe(false);
+  });
+});
+
+describe('MCPService.disconnect', () => {
+  it('closes a socket that is still reconnecting', async () => {
+    const { service, socket } = createConnectedService();
+    Object.assign(service as any, { socketReady: false });
+    const reconnected = jest.fn();
+    socket.on('reconnect', reconnected);
+
+    await service.disconnect();
+    socket.serverEmit('reconnect', 1);
+
+    expect(socket.removeAllListeners).toHaveBeenCalled();
+    expect(socket.disconnect).toHaveBeenCalled();
+    expect(reconnected).not.toHaveBeenCalled();
+    expect(service.isActive()).toBe(false);
+  });
+});
+
+describe('MCPService offline outbox', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  it('fails immediately while offline unless queueing is requested', async () => {
+    const service = new MCPService();
+
+    await expect(service.processQuery('sales today')).resolves.toMatchObject({ code: 'NOT_CONNECTED' });
+    await expect(service.processQuery('sales today', { requestId: 'req-1', queueIfOffline: true }))
+      .resolves.toMatchObject({ type: 'error', code: 'QUEUED' });
+
+    const stored = JSON.parse((await AsyncStorage.getItem('mcp_outbox')) as string);
+    expect(stored).toEqual([expect.objectContaining({ id: 'req-1', query: 'sales today', status: 'queued', attempts: 0 })]);
+  });
+
+  it('rejects duplicates of a queued query', async () => {
+    const service = new MCPService();
+
+    await service.processQuery('Low stock items', { requestId: 'req-1', queueIfOffline: true });
+    await expect(service.processQuery('low stock items ', { requestId: 'req-2', queueIfOffline: true }))
+      .resolves.toMatchObject({ code: 'ALREADY_QUEUED' });
+    await expect(service.processQuery('other query', { requestId: 'req-1', queueIfOffline: true }))
+      .resolves.toMatchObject({ code: 'ALREADY_QUEUED' });
+
+    expect(await service.getOutbox()).toHaveLength(1);
+  });
+
+  it('replays queued queries in order when the service reconnects', async () => {
+    const service = new MCPService();
+    const updates: Array<{ id: string; status: string }> = [];
+    service.addOutboxListener(item => updates.push({ id: item.id, status: item.status }));
+
+    await service.processQuery('first', { requestId: 'req-1', queueIfOffline: true });
+    await service.processQuery('second', { requestId: 'req-2', queueIfOffline: true });
+
+    const socket = createFakeSocket();
+    Object.assign(service as any, { socket, socketReady: true, isConnected: true });
+    (service as any).notifyConnectionListeners();
+    await flushPromises();
+
+    // Only the first query is in flight until it is answered
+    expect(socket.emitted).toEqual([{ event: 'process_query', payload: { query: 'first', requestId: 'req-1', ...queryOptions } }]);
+    socket.acks['req-1']({ result: { type: 'text', content: 'one' } });
+    await flushPromises();
+
+    expect(socket.emitted[1]).toEqual({ event: 'process_query', payload: { query: 'second', requestId: 'req-2', ...queryOptions } });
+    socket.acks['req-2']({ error: 'Unknown model' });
+    await service.replayOutbox();
+
+    expect(updates).toEqual([
+      { id: 'req-1', status: 'queued' },
+      { id: 'req-2', status: 'queued' },
+      { id: 'req-1', status: 'sent' },
+      { id: 'req-2', status: 'failed' },
+    ]);
+    expect(await service.getOutbox()).toEqual([]);
+  });
+
+  it('queues a query whose REST request fails for network reasons and sends it once the proxy answers', async () => {
+    const service = new MCPService();
+    Object.assign(service as any, { isConnected: true });
+    secureStorage.setAdapter(createMemoryStorage());
+    await secureStorage.setItem('access_token', 'token');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const updates: Array<{ id: string; status: string }> = [];
+    service.addOutboxListener(item => updates.push({ id: item.id, status: item.status }));
+
+    global.fetch = jest.fn().mockRejectedValue(new TypeError('Network request failed')) as any;
+    await expect(service.processQuery('sales today', { requestId: 'req-1', queueIfOffline: true }))
+      .resolves.toMatchObject({ type: 'error', code: 'QUEUED' });
+    expect(await service.getOutbox()).toEqual([expect.objectContaining({ id: 'req-1', status: 'queued' })]);
+
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ result: { type: 'text', content: 'answer' } }),
+    }) as any;
+    await service.processQuery('open invoices', { requestId: 'req-2', queueIfOffline: true });
+    await service.replayOutbox();
+
+    expect((global.fetch as jest.Mock).mock.calls.map(([, init]) => JSON.parse(init.body).requestId))
+      .toEqual(['req-2', 'req-1']);
+    expect(updates).toEqual([{ id: 'req-1', status: 'queued' }, { id: 'req-1', status: 'sent' }]);
+    expect(await service.getOutbox()).toEqual([]);
+  });
+
+  it('restores the outbox from storage and drops cancelled items', async () => {
+    await AsyncStorage.setItem('mcp_outbox', JSON.stringify([
+      { id: 'req-1', query: 'saved query', status: 'queued', attempts: 1, queuedAt: 1 },
+    ]));
+    const service = new MCPService();
+    const listener = jest.fn();
+    service.addOutboxListener(listener);
+
+    expect(await service.getOutbox()).toHaveLength(1);
+    expect(service.cancelQuery('req-1')).toBe(true);
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'req-1',
+      status: 'failed',
+      response: expect.objectContaining({ code: 'CANCELLED' }),
+    }));
+    expect(await service.getOutbox()).toEqual([]);
+  });
+});
+
+describe('MCPService.confirmAction', () => {
+  const action = {
+    actionId: 'act-1',
+    title: 'Confirm quotation S00042',
+    model: 'sale.order',
+    recordId: 42,
+    operation: 'action_confirm',
+    changes: [{ field: 'state', oldValue: 'draft', newValue: 'sale' }],
+    signature: 'signed-by-proxy',
+  };
+
+  it('sends the decision with the proposal signature', async () => {
+    const { service, socket } = createConnectedService();
+    socket.emit = jest.fn((_event: string, _payload: any, ack: (response: any) => void) => {
+      ack({ result: { type: 'text', content: 'Quotation confirmed' } });
+    }) as any;
+
+    await expect(service.confirmAction(action, true)).resolves.toEqual({ type: 'text', content: 'Quotation confirmed' });
+    expect(socket.emit).toHaveBeenCalledWith(
+      'confirm_action',
+      { actionId: 'act-1', signature: 'signed-by-proxy', approved: true },
+      expect.any(Function)
+    );
+  });
+
+  it('reports proxy errors as an error response', async () => {
+    const { service, socket } = createConnectedService();
+    socket.emit = jest.fn((_event: string, _payload: any, ack: (response: any) => void) => {
+      ack({ error: 'Signature mismatch' });
+    }) as any;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(service.confirmAction(action, false)).resolves.toEqual({
+      type: 'error',
+      content: 'Signature mismatch',
+      code: 'ACTION_CONFIRMATION_ERROR',
+    });
+  });
+});
@@ -0,0 +1,334 @@
+import {
+  odooDataService,
+  buildSalesData,
+  buildInventoryData,
+  buildCustomersData,
+  getStockStatus,
+  CustomerSegmentDetail,
+} from '../odooDataService';
+import { authService } from '../authService';
+
+jest.mock('../authService', () => ({
+  authService: {
+    createApiClient: jest.fn(),
+  },
+}));
+
+describe('odooDataService aggregation', () => {
+  it('builds a 12 month sales series ending at the reference month', () => {
+    const now = new Date(2025, 2, 15); // March 2025
+    const data = buildSalesData(
+      [
+        { 'date_order:month': 'February 2025', amount_total: 50000, __count: 10 },
+        { 'date_order:month': 'March 2025', amount_total: 75000, __count: 12 },
+      ],
+      100000,
+      now
+    );
+
+    expect(data.monthlyDetails).toHaveLength(12);
+    expect(data.monthlySales.labels[11]).toBe('Mar');
+    expect(data.monthlySales.labels[0]).toBe('Apr');
+    expect(data.monthlySales.currentMonth).toBe('March');
+    expect(data.monthlySales.currentValue).toBe(75000);
+    expect(data.monthlySales.data[11]).toBe(75);
+    expect(data.monthlySales.totalRevenue).toBe(125000);
+    expect(data.monthlySales.yearGrowth).toBe(25);
+    expect(data.monthlyDetails[11]).toEqual({
+      month: 'March',
+      start: new Date(2025, 2, 1).toISOString().slice(0, 19).replace('T', ' '),
+      end: new Date(2025, 3, 1).toISOString().slice(0, 19).replace('T', ' '),
+      revenue: 75000,
+      orders: 12,
+      growth: 50,
+    });
+  });
+
+  it('matches months by their range, whatever the language of the labels', () => {
+    const now = new Date(2025, 2, 15); // March 2025
+    const data = buildSalesData(
+      [
+        {
+          'date_order:month': 'Februar 2025',
+          __range: { 'date_order:month': { from: '2025-02-01 00:00:00', to: '2025-03-01 00:00:00' } },
+          amount_total: 50000,
+          __count: 10,
+        },
+        {
+          'date_order:month': 'März 2025',
+          __domain: [
+            '&',
+            ['date_order', '>=', '2025-03-01 00:00:00'],
+            ['date_order', '<', '2025-04-01 00:00:00'],
+            ['date_order', '>=', '2024-04-01 00:00:00'],
+          ],
+          amount_total: 75000,
+          __count: 12,
+        },
+      ],
+      100000,
+      now
+    );
+
+    expect(data.monthlyDetails[10]).toMatchObject({ month: 'February', revenue: 50000, orders: 10 });
+    expect(data.monthlyDetails[11]).toMatchObject({ month: 'March', revenue: 75000, orders: 12 });
+  });
+
+  it('derives stock status from quantity and reorder point', () => {
+    expect(getStockStatus(0, 10)).toBe('Out');
+    expect(getStockStatus(4, 10)).toBe('Critical');
+    expect(getStockStatus(8, 10)).toBe('Low');
+    expect(getStockStatus(20, 10)).toBe('Good');
+    expect(getStockStatus(3, 0)).toBe('Good');
+  });
+
+  it('groups inventory items per category', () => {
+    const data = buildInventoryData({
+      products: [
+        { id: 2, display_name: 'Chair', categ_id: [1, 'Furniture'], qty_available: 0, reordering_min_qty: 5 },
+        { id: 3, display_name: 'Cable', categ_id: false, qty_available: 7, reordering_min_qty: 10 },
+        { id: 3, display_name: 'Cable', categ_id: false, qty_available: 7, reordering_min_qty: 10 },
+      ],
+      categoryGroups: [
+        { categ_id: [1, 'Furniture'], __count: 30 },
+        { categ_id: false, __count: 12 },
+      ],
+      outOfStockGroups: [{ categ_id: [1, 'Furniture'], __count: 6 }],
+      totalProducts: 42,
+      incomingShipments: 3,
+    });
+
+    // Counts come from the groups, not from the products listed
+    expect(data.summary).toEqual({ totalProducts: 42, lowStock: 1, outOfStock: 6, incomingShipments: 3 });
+    expect(data.stockLevels.categories).toEqual(['Furniture', 'Uncategorized']);
+    expect(data.stockLevels.values).toEqual([0.8, 11 / 12]);
+    expect(data.itemsData[0].name).toBe('Chair');
+  });
+
+  it('folds small customer segments into Other', () => {
+    const data = buildCustomersData({
+      partnerGroups: [
+        { industry_id: [1, 'Retail'], __count: 50 },
+        { industry_id: [2, 'Banking'], __count: 20 },
+        { industry_id: [3, 'Energy'], __count: 10 },
+        { industry_id: [4, 'Mining'], __count: 10 },
+        { industry_id: false, __count: 10 },
+      ],
+      revenueGroups: [
+        { industry_id: [1, 'Retail'], price_total: 5000 },
+        { industry_id: [2, 'Banking'], price_total: 4000 },
+        { industry_id: [3, 'Energy'], price_total: 3000 },
+        { industry_id: [4, 'Mining'], price_total: 2000 },
+      ],
+      previousRevenueGroups: [{ industry_id: [1, 'Retail'], price_total: 4000 }],
+      totalCustomers: 100,
+      newThisMonth: 4,
+      activeCustomers: 80,
+    });
+
+    expect(data.customerSegments.map(segment => segment.name)).toEqual(['Retail', 'Banking', 'Energy', 'Other']);
+    expect(data.customerSegments[0].percentage).toBe(50);
+    expect(data.detailedData[0]).toEqual({
+      segment: 'Retail',
+      industryIds: [1],
+      count: 50,
+      revenue: 5000,
+      growth: 25,
+      avgValue: 100,
+    });
+    expect(data.detailedData[3]).toMatchObject({ segment: 'Other', industryIds: [4, null], count: 20, revenue: 2000 });
+    expect(data.summary.retentionRate).toBe(80);
+    expect(data.summary.lifetimeValue).toBe(140);
+  });
+});
+
+describe('odooDataService filters', () => {
+  const callOdooMethod = jest.fn();
+
+  beforeEach(() => {
+    callOdooMethod.mockReset();
+    callOdooMethod.mockResolvedValue([]);
+    (authService.createApiClient as jest.Mock).mockReturnValue({ callOdooMethod });
+  });
+
+  it('limits sales to the date range and salesperson', async () => {
+    const data = await odooDataService.getSalesData({
+      dateFrom: '2025-01-10',
+      dateTo: '2025-03-31',
+      salesperson: { id: 2, name: 'Mitchell Admin' },
+    });
+
+    const [periodDomain] = callOdooMethod.mock.calls[0][2];
+    expect(periodDomain).toEqual([
+      ['state', 'in', ['sale', 'done']],
+      ['user_id', '=', 2],
+      ['date_order', '>=', new Date(2025, 0, 10).toISOString().slice(0, 19).replace('T', ' ')],
+      ['date_order', '<', new Date(2025, 3, 1).toISOString().slice(0, 19).replace('T', ' ')],
+    ]);
+    expect(callOdooMethod.mock.calls[0][3]).toMatchObject({ context: { lang: 'en_US' } });
+    expect(data.monthlyDetails.map(detail => detail.month)).toEqual(['January', 'February', 'March']);
+  });
+
+  it('counts stock of the chosen warehouse with domains and keeps the chosen status', async () => {
+    const desk = { id: 1, display_name: 'Desk', categ_id: [5, 'Office'], qty_available: 0, reordering_min_qty: 5 };
+    const lamp = { id: 2, display_name: 'Lamp', categ_id: [5, 'Office'], qty_available: 3, reordering_min_qty: 5 };
+    callOdooMethod.mockImplementation((model: string, method: string, [domain]: any[]) => {
+      if (method === 'search_read') {
+        return Promise.resolve(domain.some(([field, operator]: any[]) => field === 'qty_available' && operator === '<=')
+          ? [desk]
+          : [lamp]);
+      }
+      if (method === 'read_group') {
+        return Promise.resolve([{ categ_id: [5, 'Office'], __count: domain.length > 2 ? 4 : 9 }]);
+      }
+      return Promise.resolve(model === 'product.product' ? 9 : 0);
+    });
+
+    const data = await odooDataService.getInventoryData({
+      warehouse: { id: 3, name: 'Main Warehouse' },
+      category: { id: 5, name: 'Office' },
+      status: 'Out',
+    });
+
+    const productDomain = [['type', '=', 'product'], ['categ_id', 'child_of', 5]];
+    expect(callOdooMethod).toHaveBeenCalledWith('product.product', 'search_read', [[
+      ...productDomain,
+      ['qty_available', '<=', 0],
+    ]], expect.objectContaining({ context: { warehouse: 3 } }));
+    expect(callOdooMethod).toHaveBeenCalledWith('product.product', 'read_group', [[
+      ...productDomain,
+      ['qty_available', '<=', 0],
+    ], ['categ_id'], ['categ_id']], { lazy: false, context: { warehouse: 3 } });
+    expect(data.summary).toMatchObject({ totalProducts: 9, outOfStock: 4, lowStock: 1 });
+    expect(data.itemsData.map(item => item.name)).toEqual(['Desk']);
+  });
+});
+
+describe('odooDataService bulk actions', () => {
+  const callOdooMethod = jest.fn();
+
+  beforeEach(() => {
+    callOdooMethod.mockReset();
+    (authService.createApiClient as jest.Mock).mockReturnValue({ callOdooMethod });
+  });
+
+  it('replenishes the products that have a reordering rule', async () => {
+    callOdooMethod
+      .mockResolvedValueOnce({ result: [{ id: 30, product_id: [1, 'Desk'] }, { id: 31, product_id: [3, 'Lamp'] }] })
+      .mockResolvedValueOnce({ result: true });
+
+    const result = await odooDataService.reorderProducts([1, 2, 3]);
+
+    expect(result).toEqual({ reordered: [1, 3], skipped: [2] });
+    expect(callOdooMethod).toHaveBeenLastCalledWith('stock.warehouse.orderpoint', 'action_replenish', [[30, 31]]);
+  });
+
+  it('mass-mails the customers of the selected segments', async () => {
+    callOdooMethod
+      .mockResolvedValueOnce([11, 12])
+      .mockResolvedValueOnce(90)
+      .mockResolvedValueOnce(true);
+    const segments = [
+      { segment: 'Retail', industryIds: [1] },
+      { segment: 'Other', industryIds: [4, null] },
+    ] as CustomerSegmentDetail[];
+
+    const recipients = await odooDataService.emailCustomerSegments(segments, {
+      subject: 'Spring offer',
+      body: 'Hello <team>\nSee you',
+    });
+
+    expect(recipients).toBe(2);
+    expect(callOdooMethod.mock.calls[0]).toEqual(['res.partner', 'search', [[
+      ['customer_rank', '>', 0],
+      ['email', '!=', false],
+      '|', ['industry_id', 'in', [1, 4]], ['industry_id', '=', false],
+    ]]]);
+    expect(callOdooMethod.mock.calls[1][2][0]).toMatchObject({
+      composition_mode: 'mass_mail',
+      body: 'Hello &lt;team&gt;<br/>See you',
+    });
+    expect(callOdooMethod.mock.calls[1][2][0]).not.toHaveProperty('res_ids');
+    expect(callOdooMethod.mock.calls[1][3]).toEqual({ context: { active_model: 'res.partner', active_ids: [11, 12] } });
+    expect(callOdooMethod.mock.calls[2]).toEqual([
+      'mail.compose.message',
+      'action_send_mail',
+      [[90]],
+      { context: { active_model: 'res.partner', active_ids: [11, 12] } },
+    ]);
+  });
+
+  it('counts the customers of the selected segments that have an email address', async () => {
+    callOdooMethod.mockResolvedValueOnce({ result: 42 });
+
+    const count = await odooDataService.countSegmentRecipients([
+      { segment: 'Retail', industryIds: [1] } as CustomerSegmentDetail,
+    ]);
+
+    expect(count).toBe(42);
+    expect(callOdooMethod).toHaveBeenCalledWith('res.partner', 'search_count', [[
+      ['customer_rank', '>', 0],
+      ['email', '!=', false],
+      ['industry_id', 'in', [1]],
+    ]], undefined);
+  });
+
+  it('sends nothing when no customer has an email address', async () => {
+    callOdooMethod.mockResolvedValueOnce([]);
+
+    const recipients = await odooDataService.emailCustomerSegments(
+      [{ segment: 'Retail', industryIds: [1] } as CustomerSegmentDetail],
+      { subject: 'Hi', body: '' }
+    );
+
+    expect(recipients).toBe(0);
+    expect(callOdooMethod).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('odooDataService record detail', () => {
+  const callOdooMethod = jest.fn();
+
+  beforeEach(() => {
+    callOdooMethod.mockReset();
+    (authService.createApiClient as jest.Mock).mockReturnValue({ callOdooMethod });
+  });
+
+  it('reads a sale order with its lines', async () => {
+    callOdooMethod.mockImplementation((model: string) => Promise.resolve(
+      model === 'sale.order'
+        ? [{
+          id: 42,
+          name: 'S00042',
+          partner_id: [7, 'Azure Interior'],
+          date_order: '2025-03-04 10:00:00',
+          state: 'sale',
+          user_id: false,
+          amount_untaxed: 1000,
+          amount_tax: 150,
+          amount_total: 1150,
+          currency_id: [1, 'USD'],
+        }]
+        : { result: [{ id: 1, name: 'Desk', product_uom_qty: 2, price_unit: 500, price_subtotal: 1000, currency_id: [1, 'USD'] }] }
+    ));
+
+    const detail = await odooDataService.getRecordDetail('sale.order', 42);
+
+    expect(callOdooMethod).toHaveBeenCalledWith('sale.order', 'read', [[42]], expect.objectContaining({
+      fields: expect.arrayContaining(['partner_id', 'amount_total']),
+    }));
+    expect(callOdooMethod.mock.calls[1].slice(0, 3)).toEqual(['sale.order.line', 'search_read', [[['order_id', '=', 42]]]]);
+    expect(detail).toMatchObject({ model: 'sale.order', id: 42, kind: 'Sale order', name: 'S00042', linesTitle: 'Order lines' });
+    expect(detail.fields).toContainEqual({ label: 'Customer', value: 'Azure Interior' });
+    expect(detail.fields).toContainEqual({ label: 'Date', value: '2025-03-04' });
+    expect(detail.fields).toContainEqual({ label: 'Salesperson', value: '—' });
+    expect(detail.fields).toContainEqual({ label: 'Total', value: '1,150.00 USD' });
+    expect(detail.lines).toEqual([{ id: 1, name: 'Desk', description: '2 × 500.00', value: '1,000.00 USD' }]);
+  });
+
+  it('fails with RECORD_NOT_FOUND when the record cannot be read', async () => {
+    callOdooMethod.mockResolvedValue([]);
+
+    await expect(odooDataService.getRecordDetail('res.partner', 9)).rejects.toMatchObject({ code: 'RECORD_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,48 @@
+import * as SecureStore from 'expo-secure-store';
+import { createPlatformStorage } from '../secureStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-secure-store', () => ({
+  AFTER_FIRST_UNLOCK: 0,
+  isAvailableAsync: jest.fn(),
+  getItemAsync: jest.fn(),
+  setItemAsync: jest.fn(),
+  deleteItemAsync: jest.fn(),
+}));
+
+describe('createPlatformStorage', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('uses SecureStore where the platform offers it', async () => {
+    jest.mocked(SecureStore.isAvailableAsync).mockResolvedValue(true);
+    jest.mocked(SecureStore.getItemAsync).mockResolvedValue('token-1');
+    const storage = createPlatformStorage();
+
+    await storage.setItem('access_token', 'token-1');
+
+    expect(await storage.getItem('access_token')).toBe('token-1');
+    expect(SecureStore.setItemAsync).toHaveBeenCalledWith('access_5ftoken', 'token-1', { keychainAccessible: 0 });
+    expect(SecureStore.isAvailableAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps secrets in memory when secure storage is unavailable, as on web', async () => {
+    jest.mocked(SecureStore.isAvailableAsync).mockResolvedValue(false);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = createPlatformStorage();
+
+    await storage.setItem('access_token', 'token-1');
+    expect(await storage.getItem('access_token')).toBe('token-1');
+    await storage.removeItem('access_token');
+    expect(await storage.getItem('access_token')).toBeNull();
+
+    expect(SecureStore.setItemAsync).not.toHaveBeenCalled();
+    expect(SecureStore.getItemAsync).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,107 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { settingsStore, normalizeProxyUrl, validateProxyUrl, DEFAULT_PREFERENCES } from '../settingsStore';
+import { PROXY_PROFILES, DEFAULT_PROFILE } from '../../utils/config';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('settingsStore', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    await settingsStore.setProxySettings({ profile: 'dev', customUrl: null });
+    await AsyncStorage.clear();
+  });
+
+  it('normalizes and validates proxy URLs', () => {
+    expect(normalizeProxyUrl(' https://proxy.example.com/api/ ')).toBe('https://proxy.example.com');
+    expect(validateProxyUrl('proxy.example.com')).toBe('URL must start with http:// or https://');
+    expect(validateProxyUrl('')).toBe('Proxy URL is required');
+    expect(validateProxyUrl('http://10.0.2.2:3000')).toBeNull();
+  });
+
+  it('derives API and socket URLs from the active profile or custom URL', async () => {
+    await settingsStore.setProxySettings({ profile: 'dev', customUrl: null });
+    expect(settingsStore.getApiUrl()).toBe(`${PROXY_PROFILES.dev}/api`);
+
+    await settingsStore.setProxySettings({ customUrl: 'https://proxy.example.com/' });
+    expect(settingsStore.getApiUrl()).toBe('https://proxy.example.com/api');
+    expect(settingsStore.getSocketUrl()).toBe('https://proxy.example.com');
+  });
+
+  it('refuses to build request URLs without a proxy', async () => {
+    // Staging has no built-in proxy URL
+    await settingsStore.setProxySettings({ profile: 'staging', customUrl: null });
+
+    expect(settingsStore.isProxyConfigured()).toBe(false);
+    expect(() => settingsStore.getApiUrl()).toThrow('No proxy server is configured');
+    expect(() => settingsStore.getSocketUrl()).toThrow('No proxy server is configured');
+  });
+
+  it('persists settings and notifies listeners', async () => {
+    const listener = jest.fn();
+    const removeListener = settingsStore.addListener(listener);
+
+    await settingsStore.setProxySettings({ profile: 'staging', customUrl: 'https://staging.example.com' });
+    removeListener();
+
+    expect(listener).toHaveBeenCalledWith({ profile: 'staging', customUrl: 'https://staging.example.com' });
+    expect(JSON.parse((await AsyncStorage.getItem('proxy_settings')) as string)).toEqual({
+      profile: 'staging',
+      customUrl: 'https://staging.example.com',
+    });
+
+    // Reloading restores what was saved, ignoring unknown profiles
+    await AsyncStorage.setItem('proxy_settings', JSON.stringify({ profile: 'qa', customUrl: 'https://qa.example.com' }));
+    await settingsStore.load();
+    expect(settingsStore.getProxySettings()).toEqual({ profile: DEFAULT_PROFILE, customUrl: 'https://qa.example.com' });
+  });
+
+  it('persists valid preferences, keeping the current value for invalid ones', async () => {
+    const listener = jest.fn();
+    const removeListener = settingsStore.addPreferencesListener(listener);
+
+    await settingsStore.setPreferences({ voiceLanguage: 'fr-FR', historySize: 50 });
+    await settingsStore.setPreferences({ theme: 'neon' as any, historySize: 7, defaultServerUrl: 'https://erp.example.com/' });
+    removeListener();
+
+    const expected = {
+      ...DEFAULT_PREFERENCES,
+      voiceLanguage: 'fr-FR',
+      historySize: 50,
+      defaultServerUrl: 'https://erp.example.com',
+    };
+    expect(settingsStore.getPreferences()).toEqual(expected);
+    expect(listener).toHaveBeenLastCalledWith(expected);
+    expect(JSON.parse((await AsyncStorage.getItem('app_preferences')) as string)).toEqual(expected);
+
+    // Saved values are checked again on load, and a reset returns to the defaults
+    await AsyncStorage.setItem('app_preferences', JSON.stringify({ verbosity: 'detailed', voiceLanguage: 'xx-XX' }));
+    await settingsStore.load();
+    expect(settingsStore.getPreferences()).toEqual({ ...DEFAULT_PREFERENCES, verbosity: 'detailed' });
+
+    settingsStore.reset();
+    expect(settingsStore.getPreferences()).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it('reports proxy health from the health endpoint', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({ version: '2.1.0' }) }) as any;
+
+    const health = await settingsStore.checkProxyHealth('https://proxy.example.com');
+
+    expect(global.fetch).toHaveBeenCalledWith('https://proxy.example.com/api/health', expect.objectContaining({ method: 'GET' }));
+    expect(health).toMatchObject({ ok: true, version: '2.1.0' });
+  });
+
+  it('reports unreachable proxies without throwing', async () => {
+    global.fetch = jest.fn().mockRejectedValue(new TypeError('Network request failed')) as any;
+
+    await expect(settingsStore.checkProxyHealth('https://proxy.example.com')).resolves.toEqual({
+      ok: false,
+      error: 'Cannot reach the proxy. Check the URL and your network connection.',
+    });
+    await expect(settingsStore.checkProxyHealth('not a url')).resolves.toMatchObject({ ok: false });
+  });
+});
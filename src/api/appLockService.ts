@@ -0,0 +1,191 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { secureStorage } from './secureStorage';
+import { ValidationError } from './errors';
+import { MIN_PIN_LENGTH, MAX_UNLOCK_ATTEMPTS, DEFAULT_LOCK_TIMEOUT_MS } from '../utils/config';
+
+export interface AppLockSettings {
+  enabled: boolean;
+  biometricsEnabled: boolean;
+  timeoutMs: number; // Time in background before the app locks again
+}
+
+export interface UnlockResult {
+  unlocked: boolean;
+  attemptsLeft: number; // Zero means the attempts are used up
+}
+
+// Storage keys; the PIN itself lives in secure storage
+const STORAGE_KEYS = {
+  PIN: 'app_lock_pin',
+  SETTINGS: 'app_lock_settings',
+  FAILED_ATTEMPTS: 'app_lock_failed_attempts',
+};
+
+const DEFAULT_SETTINGS: AppLockSettings = {
+  enabled: false,
+  biometricsEnabled: false,
+  timeoutMs: DEFAULT_LOCK_TIMEOUT_MS,
+};
+
+const MAX_PIN_LENGTH = 8;
+
+const readSettings = async (): Promise<AppLockSettings> => {
+  const json = await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS);
+  return json ? { ...DEFAULT_SETTINGS, ...JSON.parse(json) } : { ...DEFAULT_SETTINGS };
+};
+
+const writeSettings = async (settings: AppLockSettings) => {
+  await AsyncStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+};
+
+// Failed attempts are persisted so restarting the app does not reset the count
+const readFailedAttempts = async (): Promise<number> => {
+  return Number(await AsyncStorage.getItem(STORAGE_KEYS.FAILED_ATTEMPTS)) || 0;
+};
+
+const resetFailedAttempts = async () => {
+  await AsyncStorage.removeItem(STORAGE_KEYS.FAILED_ATTEMPTS);
+};
+
+/**
+ * Validates a new PIN
+ * @returns Error message, or null when valid
+ */
+export const validatePin = (pin: string): string | null => {
+  if (!/^\d+$/.test(pin)) {
+    return 'PIN must contain only digits';
+  }
+  if (pin.length < MIN_PIN_LENGTH || pin.length > MAX_PIN_LENGTH) {
+    return `PIN must be ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits`;
+  }
+  return null;
+};
+
+/**
+ * Local PIN / biometric lock guarding the app on cold start and after time in the background
+ */
+export const appLockService = {
+  getSettings: async (): Promise<AppLockSettings> => {
+    try {
+      return await readSettings();
+    } catch (error) {
+      console.error('Error reading app lock settings:', error);
+      return { ...DEFAULT_SETTINGS };
+    }
+  },
+
+  isEnabled: async (): Promise<boolean> => {
+    const [settings, pin] = await Promise.all([
+      appLockService.getSettings(),
+      secureStorage.getItem(STORAGE_KEYS.PIN),
+    ]);
+    return settings.enabled && !!pin;
+  },
+
+  /**
+   * Updates the biometrics and timeout options; use setPin to turn the lock on
+   */
+  updateSettings: async (changes: Partial<Omit<AppLockSettings, 'enabled'>>): Promise<AppLockSettings> => {
+    const settings = { ...(await readSettings()), ...changes };
+    await writeSettings(settings);
+    return settings;
+  },
+
+  /**
+   * Sets a new PIN and turns the lock on
+   * @throws {ValidationError} If the PIN is not valid
+   */
+  setPin: async (pin: string): Promise<void> => {
+    const error = validatePin(pin);
+    if (error) {
+      throw new ValidationError(error, { field: 'pin' });
+    }
+
+    await secureStorage.setItem(STORAGE_KEYS.PIN, pin);
+    await writeSettings({ ...(await readSettings()), enabled: true });
+    await resetFailedAttempts();
+  },
+
+  /**
+   * Turns the lock off and forgets the PIN
+   */
+  disable: async (): Promise<void> => {
+    await secureStorage.removeItem(STORAGE_KEYS.PIN);
+    await writeSettings({ ...(await readSettings()), enabled: false, biometricsEnabled: false });
+    await resetFailedAttempts();
+  },
+
+  /**
+   * Checks a PIN entered on the lock screen, counting failed attempts
+   * @returns Whether the app is unlocked and how many attempts remain
+   */
+  verifyPin: async (pin: string): Promise<UnlockResult> => {
+    const savedPin = await secureStorage.getItem(STORAGE_KEYS.PIN);
+    if (!savedPin) {
+      return { unlocked: true, attemptsLeft: MAX_UNLOCK_ATTEMPTS };
+    }
+
+    if (pin === savedPin) {
+      await resetFailedAttempts();
+      return { unlocked: true, attemptsLeft: MAX_UNLOCK_ATTEMPTS };
+    }
+
+    const failedAttempts = (await readFailedAttempts()) + 1;
+    await AsyncStorage.setItem(STORAGE_KEYS.FAILED_ATTEMPTS, String(failedAttempts));
+    return { unlocked: false, attemptsLeft: Math.max(0, MAX_UNLOCK_ATTEMPTS - failedAttempts) };
+  },
+
+  getAttemptsLeft: async (): Promise<number> => {
+    return Math.max(0, MAX_UNLOCK_ATTEMPTS - (await readFailedAttempts()));
+  },
+
+  /**
+   * Whether the device has biometrics set up
+   */
+  isBiometricAvailable: async (): Promise<boolean> => {
+    try {
+      const [hasHardware, isEnrolled] = await Promise.all([
+        LocalAuthentication.hasHardwareAsync(),
+        LocalAuthentication.isEnrolledAsync(),
+      ]);
+      return hasHardware && isEnrolled;
+    } catch (error) {
+      console.warn('Biometrics unavailable:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Prompts for Face ID / fingerprint when the user turned biometrics on
+   * @returns Whether the user was recognized
+   */
+  authenticateWithBiometrics: async (): Promise<boolean> => {
+    const settings = await appLockService.getSettings();
+    if (!settings.biometricsEnabled || !(await appLockService.isBiometricAvailable())) {
+      return false;
+    }
+
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage: 'Unlock Odoo Voice Assistant',
+      cancelLabel: 'Use PIN',
+      disableDeviceFallback: true,
+    });
+    if (result.success) {
+      await resetFailedAttempts();
+    }
+    return result.success;
+  },
+
+  /**
+   * Whether the app should lock when it returns to the foreground
+   * @param backgroundedAt When the app went to the background
+   */
+  shouldLockOnResume: async (backgroundedAt: number, now: number = Date.now()): Promise<boolean> => {
+    if (!(await appLockService.isEnabled())) {
+      return false;
+    }
+    const { timeoutMs } = await appLockService.getSettings();
+    return now - backgroundedAt >= timeoutMs;
+  },
+};
@@ -0,0 +1,57 @@
+export interface RefreshedTokens {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+export type TokenListener = (tokens: RefreshedTokens) => void;
+export type SessionExpiredListener = () => void;
+
+const tokenListeners: TokenListener[] = [];
+const sessionExpiredListeners: SessionExpiredListener[] = [];
+
+const addListener = <T>(listeners: T[], listener: T): (() => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+/**
+ * Token lifecycle events, shared by the REST client, the MCP socket and the store
+ */
+export const authEvents = {
+  /**
+   * Add a listener called after the access token was refreshed
+   * @returns Function to remove the listener
+   */
+  addTokenListener: (listener: TokenListener) => addListener(tokenListeners, listener),
+
+  /**
+   * Add a listener called when the session can no longer be refreshed and the user must log in again
+   * @returns Function to remove the listener
+   */
+  addSessionExpiredListener: (listener: SessionExpiredListener) => addListener(sessionExpiredListeners, listener),
+
+  emitTokenRefreshed: (tokens: RefreshedTokens) => {
+    for (const listener of [...tokenListeners]) {
+      try {
+        listener(tokens);
+      } catch (error) {
+        console.error('Error in token listener:', error);
+      }
+    }
+  },
+
+  emitSessionExpired: () => {
+    for (const listener of [...sessionExpiredListeners]) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in session expired listener:', error);
+      }
+    }
+  },
+};
@@ -1,8 +1,20 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform, Dimensions } from 'react-native';
-import { API_URL } from '../utils/config';
+import { settingsStore } from './settingsStore';
+import { secureStorage } from './secureStorage';
+import { authEvents } from './authEvents';
+import { isTokenExpiring } from '../utils/jwt';
+import {
+  AppError,
+  AuthenticationError,
+  NetworkError,
+  ServerError,
+  ValidationError,
+  fromHttpStatus,
+  isNetworkFailure,
+} from './errors';
 
-// API URL is imported from config
+// Proxy endpoints are read from the settings store at request time
 
 // Auth-related types
 export interface AuthResponse {
@@ -15,30 +27,119 @@ export interface AuthResponse {
   };
 }
 
+// Returned by login when the Odoo user has two-factor authentication on.
+// Keeps what is needed to finish the login once the code is entered.
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  username: string;
+  serverUrl: string;
+  database?: string;
+}
+
+export type LoginResult = AuthResponse | TwoFactorChallenge;
+
+export const isTwoFactorChallenge = (result: LoginResult): result is TwoFactorChallenge =>
+  (result as TwoFactorChallenge).twoFactorRequired === true;
+
+// An account on an Odoo server the user has signed in to.
+// Tokens for inactive sessions are kept separately and swapped in on switch.
+export interface SavedSession {
+  id: string;
+  username: string;
+  serverUrl: string;
+  database?: string;
+  user?: any;
+  lastUsedAt: number;
+}
+
 export interface AuthStatus {
   isLoggedIn: boolean;
+  sessionId?: string;
   token?: string;
   refreshToken?: string;
   username?: string;
   serverUrl?: string;
+  database?: string;
   user?: any;
 }
 
-export interface AuthError extends Error {
-  code?: string;
-  details?: string;
+// What the proxy found at an Odoo URL before login
+export interface ServerInfo {
+  serverUrl: string;
+  version: string | null;
+  databases: string[]; // Empty when the server hides its database list
 }
 
-// Storage keys
+export interface RecentServer {
+  url: string;
+  database?: string;
+  lastUsedAt: number;
+}
+
+// Storage keys; tokens are kept in secure storage, the rest in AsyncStorage
 const STORAGE_KEYS = {
   ACCESS_TOKEN: 'access_token',
   REFRESH_TOKEN: 'refresh_token',
   USERNAME: 'username',
   SERVER_URL: 'server_url',
+  DATABASE: 'database',
   USER: 'user',
+  SESSIONS: 'sessions',
+  ACTIVE_SESSION: 'active_session',
+  RECENT_SERVERS: 'recent_servers',
+};
+
+// Tokens of a saved session while another session is active
+const SESSION_TOKENS_PREFIX = 'session_tokens:';
+const getSessionTokensKey = (sessionId: string) => `${SESSION_TOKENS_PREFIX}${sessionId}`;
+
+const isTokenKey = (key: string) =>
+  key === STORAGE_KEYS.ACCESS_TOKEN || key === STORAGE_KEYS.REFRESH_TOKEN || key.startsWith(SESSION_TOKENS_PREFIX);
+
+/**
+ * Identifies a session by server, database and user, so the same login on two databases stays separate
+ */
+export const getSessionId = (username: string, serverUrl: string, database?: string | null) =>
+  `${username}@${serverUrl}${database ? `/${database}` : ''}`;
+
+const readSessions = async (): Promise<SavedSession[]> => {
+  const json = await AsyncStorage.getItem(STORAGE_KEYS.SESSIONS);
+  const sessions = json ? JSON.parse(json) : [];
+  return Array.isArray(sessions) ? sessions : [];
 };
 
-import { APP_VERSION, APP_NAME } from '../utils/config';
+const writeSessions = async (sessions: SavedSession[]) => {
+  await AsyncStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+};
+
+// Moves a server to the front of the recently used list
+const rememberServer = async (url: string, database?: string) => {
+  try {
+    const json = await AsyncStorage.getItem(STORAGE_KEYS.RECENT_SERVERS);
+    const servers: RecentServer[] = json ? JSON.parse(json) : [];
+    await AsyncStorage.setItem(STORAGE_KEYS.RECENT_SERVERS, JSON.stringify([
+      { url, ...(database ? { database } : {}), lastUsedAt: Date.now() },
+      ...servers.filter(server => server.url !== url),
+    ].slice(0, MAX_RECENT_SERVERS)));
+  } catch (error) {
+    console.warn('Error saving recent server:', error);
+  }
+};
+
+// Copies the active tokens into the session's own slot before another session takes over
+const stashActiveTokens = async () => {
+  const [sessionId, token, refreshToken] = await Promise.all([
+    AsyncStorage.getItem(STORAGE_KEYS.ACTIVE_SESSION),
+    secureStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN),
+    secureStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN),
+  ]);
+  if (sessionId && token) {
+    await secureStorage.setItem(getSessionTokensKey(sessionId), JSON.stringify({ token, refreshToken }));
+  }
+};
+
+import { APP_VERSION, APP_NAME, TOKEN_REFRESH_MARGIN_MS, MAX_RECENT_SERVERS } from '../utils/config';
 
 // Device info for authentication
 const getDeviceInfo = () => {
@@ -59,6 +160,136 @@ const getDeviceInfo = () => {
   };
 };
 
+// Device details sent with login and refresh requests
+const getDeviceInfoPayload = () => {
+  const deviceInfo = getDeviceInfo();
+  return {
+    name: deviceInfo.deviceName,
+    type: deviceInfo.deviceType,
+    os: deviceInfo.os,
+    osVersion: deviceInfo.osVersion,
+    appVersion: deviceInfo.appVersion,
+  };
+};
+
+const networkError = () =>
+  new NetworkError(`Cannot connect to proxy server at ${settingsStore.getProxyUrl()}. Please check your network connection.`);
+
+// Saves the tokens of a completed login and makes it the active session
+const completeLogin = async (data: AuthResponse, username: string, serverUrl: string, database?: string) => {
+  // Keep the previous session available for switching back
+  await stashActiveTokens();
+
+  // Save authentication data
+  const sessionId = getSessionId(username, serverUrl, database);
+  await Promise.all([
+    secureStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.accessToken),
+    data.refreshToken
+      ? secureStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, data.refreshToken)
+      : secureStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN),
+    AsyncStorage.setItem(STORAGE_KEYS.USERNAME, username),
+    AsyncStorage.setItem(STORAGE_KEYS.SERVER_URL, serverUrl),
+    database
+      ? AsyncStorage.setItem(STORAGE_KEYS.DATABASE, database)
+      : AsyncStorage.removeItem(STORAGE_KEYS.DATABASE),
+    AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(data.user)),
+    AsyncStorage.setItem(STORAGE_KEYS.ACTIVE_SESSION, sessionId),
+  ]);
+
+  const sessions = await readSessions();
+  await writeSessions([
+    ...sessions.filter(session => session.id !== sessionId),
+    { id: sessionId, username, serverUrl, ...(database ? { database } : {}), user: data.user, lastUsedAt: Date.now() },
+  ]);
+  await rememberServer(serverUrl, database);
+};
+
+/**
+ * Whether a refresh failed because the proxy refused the refresh token,
+ * as opposed to a network or server failure
+ */
+export const isSessionRejected = (error: unknown) => {
+  const { code, status } = (error || {}) as Partial<AppError>;
+  return code === 'NO_REFRESH_TOKEN' || (code === 'REFRESH_FAILED' && !!status && status < 500 && status !== 429);
+};
+
+// Shared by concurrent refreshes of the same session
+const refreshesInFlight = new Map<string, Promise<string>>();
+
+// Exchanges the refresh token of the given session for new tokens and announces the result
+const requestTokenRefresh = async (sessionId: string | null): Promise<string> => {
+  try {
+    const refreshToken = await secureStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
+    
+    if (!refreshToken) {
+      throw new AuthenticationError('No refresh token available', { code: 'NO_REFRESH_TOKEN' });
+    }
+    
+    // Call the Odoo Proxy server
+    const response = await fetch(`${settingsStore.getApiUrl()}/auth/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        refreshToken,
+        deviceInfo: getDeviceInfoPayload(),
+      }),
+    });
+    
+    // If server returns error
+    if (!response.ok) {
+      // Parse error message from the server if available
+      const errorData = await response.json().catch(() => ({}));
+      const errorMessage = errorData.error || errorData.message || `Token refresh failed with status ${response.status}`;
+      const options = { code: 'REFRESH_FAILED', status: response.status, details: JSON.stringify(errorData) };
+      
+      // Only a 4xx means the refresh token itself was refused
+      throw response.status < 500
+        ? new AuthenticationError(errorMessage, options)
+        : new ServerError(errorMessage, options);
+    }
+    
+    const data = await response.json();
+
+    // Another session took over while the request was running; keep the tokens with their own session
+    const activeSessionId = await AsyncStorage.getItem(STORAGE_KEYS.ACTIVE_SESSION);
+    if (sessionId && activeSessionId !== sessionId) {
+      await secureStorage.setItem(getSessionTokensKey(sessionId), JSON.stringify({
+        token: data.accessToken,
+        refreshToken: data.refreshToken || refreshToken,
+      }));
+      return data.accessToken;
+    }
+    
+    // Store new tokens
+    await secureStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.accessToken);
+    
+    // Store new refresh token if provided
+    if (data.refreshToken) {
+      await secureStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, data.refreshToken);
+    }
+    
+    authEvents.emitTokenRefreshed({ accessToken: data.accessToken, refreshToken: data.refreshToken });
+    return data.accessToken;
+  } catch (error) {
+    console.error('Token refresh error:', error);
+
+    // A rejected or missing refresh token means the user has to log in again, unless another session took over
+    if (isSessionRejected(error)
+      && (!sessionId || await AsyncStorage.getItem(STORAGE_KEYS.ACTIVE_SESSION) === sessionId)) {
+      authEvents.emitSessionExpired();
+    }
+    
+    // Handle network errors specifically
+    if (isNetworkFailure(error)) {
+      throw networkError();
+    }
+    
+    throw error;
+  }
+};
+
 /**
  * Authentication service for Odoo Proxy integration
  */
@@ -68,47 +299,41 @@ export const authService = {
    * @param username User's login name
    * @param password User's password
    * @param serverUrl Odoo server URL
-   * @returns Authentication response with tokens and user info
-   * @throws {AuthError} If authentication fails
+   * @param database Odoo database; the server default is used when omitted
+   * @returns Authentication response with tokens and user info, or a two-factor challenge
+   *   to pass to verifyTwoFactor when the user has 2FA enabled
+   * @throws {AppError} If authentication fails
    */
-  login: async (username: string, password: string, serverUrl: string): Promise<AuthResponse> => {
+  login: async (username: string, password: string, serverUrl: string, database?: string): Promise<LoginResult> => {
     try {
       // Validate inputs
       if (!username.trim()) {
-        throw Object.assign(new Error('Username is required'), { code: 'INVALID_INPUT' });
+        throw new ValidationError('Username is required', { field: 'username' });
       }
       if (!password.trim()) {
-        throw Object.assign(new Error('Password is required'), { code: 'INVALID_INPUT' });
+        throw new ValidationError('Password is required', { field: 'password' });
       }
       if (!serverUrl.trim()) {
-        throw Object.assign(new Error('Server URL is required'), { code: 'INVALID_INPUT' });
+        throw new ValidationError('Server URL is required', { field: 'serverUrl' });
       }
 
       // In development mode, if the proxy server isn't available, use mock data
       let response;
       try {
-        // Get device info for authentication
-        const deviceInfo = getDeviceInfo();
-        
-        console.log(`Calling proxy server at ${API_URL}/auth/login`);
+        console.log(`Calling proxy server at ${settingsStore.getApiUrl()}/auth/login`);
         
         // Call the Odoo Proxy server
-        response = await fetch(`${API_URL}/auth/login`, {
+        response = await fetch(`${settingsStore.getApiUrl()}/auth/login`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
             odooUrl: serverUrl,     // The actual Odoo server URL the user wants to connect to
+            ...(database ? { database } : {}),
             username,               // The Odoo username
             password,               // The Odoo password
-            deviceInfo: {
-              name: deviceInfo.deviceName,
-              type: deviceInfo.deviceType,
-              os: deviceInfo.os,
-              osVersion: deviceInfo.osVersion,
-              appVersion: deviceInfo.appVersion,
-            }
+            deviceInfo: getDeviceInfoPayload(),
           }),
         });
         
@@ -116,35 +341,35 @@ export const authService = {
         if (!response.ok) {
           // Parse error message from the server if available
           const errorData = await response.json().catch(() => ({}));
-          const errorMessage = errorData.error || errorData.message || `Authentication failed with status ${response.status}`;
-          
-          // Throw a more informative error
-          throw Object.assign(new Error(errorMessage), { 
-            code: 'AUTH_FAILED',
-            details: JSON.stringify(errorData)
-          });
+
+          // Password accepted, the proxy now wants the user's 2FA code
+          if (errorData.twoFactorRequired && errorData.challengeToken) {
+            return { twoFactorRequired: true, challengeToken: errorData.challengeToken, username, serverUrl, database };
+          }
+
+          // Rejected credentials are AUTH_FAILED; proxy or Odoo outages keep their server kind
+          throw fromHttpStatus(
+            response.status,
+            errorData,
+            `Authentication failed with status ${response.status}`,
+            response.status < 500 ? 'AUTH_FAILED' : undefined
+          );
         }
         
         const data = await response.json();
+
+        if (data.twoFactorRequired && data.challengeToken) {
+          return { twoFactorRequired: true, challengeToken: data.challengeToken, username, serverUrl, database };
+        }
         
-        // Save authentication data
-        await Promise.all([
-          AsyncStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.accessToken),
-          AsyncStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, data.refreshToken),
-          AsyncStorage.setItem(STORAGE_KEYS.USERNAME, username),
-          AsyncStorage.setItem(STORAGE_KEYS.SERVER_URL, serverUrl),
-          AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(data.user)),
-        ]);
-        
+        await completeLogin(data, username, serverUrl, database);
         return data;
       } catch (error) {
         console.error('Authentication error:', error);
         
         // Handle network errors specifically
-        if (error instanceof TypeError && error.message.includes('Network request failed')) {
-          throw Object.assign(new Error(`Cannot connect to proxy server at ${API_URL}. Please check your network connection.`), { 
-            code: 'NETWORK_ERROR' 
-          });
+        if (isNetworkFailure(error)) {
+          throw networkError();
         }
         
         // Re-throw the error to be handled by the caller
@@ -160,89 +385,114 @@ export const authService = {
   },
   
   /**
-   * Refreshes the access token using the refresh token
-   * @returns New access token
-   * @throws {Error} If refresh fails
+   * Completes a login that returned a two-factor challenge
+   * @param challenge Challenge returned by login
+   * @param code One-time code from the user's authenticator app
+   * @returns Authentication response with tokens and user info
+   * @throws {AppError} INVALID_2FA_CODE for a wrong code, TWO_FACTOR_EXPIRED when the login has to start over
    */
-  refreshToken: async (): Promise<string> => {
+  verifyTwoFactor: async (challenge: TwoFactorChallenge, code: string): Promise<AuthResponse> => {
+    const trimmedCode = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(trimmedCode)) {
+      throw new ValidationError('Enter the 6-digit code from your authenticator app', { field: 'code' });
+    }
+
     try {
-      const refreshToken = await AsyncStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
-      
-      if (!refreshToken) {
-        throw new Error('No refresh token available');
-      }
-      
-      const deviceInfo = getDeviceInfo();
-      
-      // Call the Odoo Proxy server
-      const response = await fetch(`${API_URL}/auth/refresh`, {
+      const response = await fetch(`${settingsStore.getApiUrl()}/auth/2fa/verify`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          refreshToken,
-          deviceInfo: {
-            name: deviceInfo.deviceName,
-            type: deviceInfo.deviceType,
-            os: deviceInfo.os,
-            osVersion: deviceInfo.osVersion,
-            appVersion: deviceInfo.appVersion,
-          }
+          challengeToken: challenge.challengeToken,
+          code: trimmedCode,
+          deviceInfo: getDeviceInfoPayload(),
         }),
       });
-      
-      // If server returns error
+
       if (!response.ok) {
-        // Parse error message from the server if available
         const errorData = await response.json().catch(() => ({}));
-        const errorMessage = errorData.error || errorData.message || `Token refresh failed with status ${response.status}`;
-        
-        // Throw a more informative error
-        throw Object.assign(new Error(errorMessage), { 
-          code: 'REFRESH_FAILED',
-          details: JSON.stringify(errorData)
-        });
-      }
-      
-      const data = await response.json();
-      
-      // Store new tokens
-      await AsyncStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.accessToken);
-      
-      // Store new refresh token if provided
-      if (data.refreshToken) {
-        await AsyncStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, data.refreshToken);
+
+        // The challenge is short-lived; the password has to be entered again
+        if (response.status === 410) {
+          throw fromHttpStatus(
+            response.status,
+            errorData,
+            'The verification code request has expired. Please log in again.',
+            'TWO_FACTOR_EXPIRED'
+          );
+        }
+
+        if (response.status < 500) {
+          throw fromHttpStatus(response.status, errorData, 'Invalid verification code', 'INVALID_2FA_CODE');
+        }
+        throw fromHttpStatus(response.status, errorData, `Verification failed with status ${response.status}`);
       }
-      
-      return data.accessToken;
+
+      const data: AuthResponse = await response.json();
+      await completeLogin(data, challenge.username, challenge.serverUrl, challenge.database);
+      return data;
     } catch (error) {
-      console.error('Token refresh error:', error);
-      
-      // Handle network errors specifically
-      if (error instanceof TypeError && error.message.includes('Network request failed')) {
-        throw Object.assign(new Error(`Cannot connect to proxy server at ${API_URL}. Please check your network connection.`), { 
-          code: 'NETWORK_ERROR' 
-        });
+      console.error('Two-factor verification error:', error);
+
+      if (isNetworkFailure(error)) {
+        throw networkError();
       }
-      
       throw error;
     }
   },
   
+  /**
+   * Refreshes the access token using the refresh token.
+   * Concurrent callers (REST client, MCP socket, scheduler) share a single request.
+   * The result is stored with the session that was active when the refresh started.
+   * @returns New access token
+   * @throws {Error} If refresh fails; the session expired event is emitted when the proxy rejects the refresh token
+   */
+  refreshToken: async (): Promise<string> => {
+    const sessionId = await AsyncStorage.getItem(STORAGE_KEYS.ACTIVE_SESSION);
+    const key = sessionId ?? '';
+    let refresh = refreshesInFlight.get(key);
+    if (!refresh) {
+      refresh = requestTokenRefresh(sessionId).finally(() => {
+        refreshesInFlight.delete(key);
+      });
+      refreshesInFlight.set(key, refresh);
+    }
+    return refresh;
+  },
+
+  /**
+   * Reads the access token, refreshing it first when it is about to expire
+   * @returns Access token, or null when not logged in
+   */
+  getValidAccessToken: async (): Promise<string | null> => {
+    const token = await secureStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+    if (!token || !isTokenExpiring(token, TOKEN_REFRESH_MARGIN_MS)) {
+      return token;
+    }
+
+    try {
+      return await authService.refreshToken();
+    } catch (error) {
+      // Not expired yet, the request may still succeed
+      return isTokenExpiring(token, 0) ? null : token;
+    }
+  },
+  
   /**
    * Logs out the current user and clears authentication data
    * @throws {Error} If logout fails
    */
   logout: async (): Promise<void> => {
     try {
-      const token = await AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
-      const refreshToken = await AsyncStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
+      const token = await secureStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+      const refreshToken = await secureStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
       
       if (token && refreshToken) {
         try {
           // Call logout endpoint
-          await fetch(`${API_URL}/auth/logout`, {
+          await fetch(`${settingsStore.getApiUrl()}/auth/logout`, {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -258,13 +508,23 @@ export const authService = {
         }
       }
       
+      // Forget the active session; other saved sessions stay available
+      const sessionId = await AsyncStorage.getItem(STORAGE_KEYS.ACTIVE_SESSION);
+      if (sessionId) {
+        const sessions = await readSessions();
+        await writeSessions(sessions.filter(session => session.id !== sessionId));
+        await secureStorage.removeItem(getSessionTokensKey(sessionId));
+      }
+
       // Clear stored auth info
       await Promise.all([
-        AsyncStorage.removeItem(STORAGE_KEYS.ACCESS_TOKEN),
-        AsyncStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN),
+        secureStorage.removeItem(STORAGE_KEYS.ACCESS_TOKEN),
+        secureStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN),
         AsyncStorage.removeItem(STORAGE_KEYS.USERNAME),
         AsyncStorage.removeItem(STORAGE_KEYS.SERVER_URL),
+        AsyncStorage.removeItem(STORAGE_KEYS.DATABASE),
         AsyncStorage.removeItem(STORAGE_KEYS.USER),
+        AsyncStorage.removeItem(STORAGE_KEYS.ACTIVE_SESSION),
       ]);
     } catch (error) {
       console.error('Logout error:', error);
@@ -278,11 +538,12 @@ export const authService = {
    */
   checkAuthStatus: async (): Promise<AuthStatus> => {
     try {
-      const [token, refreshToken, username, serverUrl, userJson] = await Promise.all([
-        AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN),
-        AsyncStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN),
+      const [token, refreshToken, username, serverUrl, database, userJson] = await Promise.all([
+        secureStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN),
+        secureStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN),
         AsyncStorage.getItem(STORAGE_KEYS.USERNAME),
         AsyncStorage.getItem(STORAGE_KEYS.SERVER_URL),
+        AsyncStorage.getItem(STORAGE_KEYS.DATABASE),
         AsyncStorage.getItem(STORAGE_KEYS.USER),
       ]);
       
@@ -290,10 +551,12 @@ export const authService = {
         const user = userJson ? JSON.parse(userJson) : undefined;
         return { 
           isLoggedIn: true, 
+          sessionId: getSessionId(username, serverUrl, database),
           token, 
           refreshToken: refreshToken || undefined,
           username, 
           serverUrl,
+          database: database || undefined,
           user 
         };
       }
@@ -306,66 +569,214 @@ export const authService = {
   },
   
   /**
-   * Creates an authenticated API client for making requests to the Odoo Proxy
-   * @returns API client object
+   * Asks the proxy which Odoo version and databases a server offers
+   * @param serverUrl Odoo server URL entered by the user
+   * @returns Server version and database names
+   * @throws {AppError} If the server cannot be reached through the proxy
    */
-  createApiClient: () => {
-    let accessToken: string | null = null;
-    let tokenRefreshPromise: Promise<string> | null = null;
-    
-    const getToken = async (): Promise<string> => {
-      if (!accessToken) {
-        accessToken = await AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+  discoverServer: async (serverUrl: string): Promise<ServerInfo> => {
+    try {
+      const response = await fetch(
+        `${settingsStore.getApiUrl()}/auth/discover?${new URLSearchParams({ odooUrl: serverUrl })}`
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw fromHttpStatus(response.status, errorData, `No Odoo server found at ${serverUrl}`, 'DISCOVERY_FAILED');
       }
-      if (!accessToken) {
-        throw new Error('Not authenticated');
+
+      const data = await response.json();
+      return {
+        serverUrl,
+        version: typeof data.version === 'string' && data.version ? data.version : null,
+        databases: Array.isArray(data.databases) ? data.databases.map(String) : [],
+      };
+    } catch (error) {
+      if (isNetworkFailure(error)) {
+        throw networkError();
       }
-      return accessToken;
+      throw error;
+    }
+  },
+
+  /**
+   * Lists the servers logged in to recently, most recent first
+   */
+  getRecentServers: async (): Promise<RecentServer[]> => {
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEYS.RECENT_SERVERS);
+      const servers = json ? JSON.parse(json) : [];
+      return Array.isArray(servers) ? servers : [];
+    } catch (error) {
+      console.error('Error reading recent servers:', error);
+      return [];
+    }
+  },
+  
+  /**
+   * Moves tokens saved in AsyncStorage by earlier versions into secure storage.
+   * Call once on startup before reading the auth status.
+   */
+  migrateTokenStorage: async (): Promise<void> => {
+    try {
+      await secureStorage.migrateFromAsyncStorage(isTokenKey);
+    } catch (error) {
+      // The plain tokens are left in place and the migration retried next launch
+      console.error('Error migrating tokens to secure storage:', error);
+    }
+  },
+
+  /**
+   * Reads the access token of the active session
+   */
+  getAccessToken: (): Promise<string | null> => secureStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN),
+
+  /**
+   * Lists the sessions saved on this device, most recently used last
+   */
+  getSessions: async (): Promise<SavedSession[]> => {
+    try {
+      return await readSessions();
+    } catch (error) {
+      console.error('Error reading saved sessions:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Makes a saved session the active one, swapping its tokens into place
+   * @param sessionId Id of the saved session
+   * @returns Auth status of the new active session
+   * @throws {AppError} If the session or its tokens are missing
+   */
+  switchSession: async (sessionId: string): Promise<AuthStatus> => {
+    const sessions = await readSessions();
+    const session = sessions.find(item => item.id === sessionId);
+    const tokensJson = await secureStorage.getItem(getSessionTokensKey(sessionId));
+    if (!session || !tokensJson) {
+      throw new AuthenticationError('This account is no longer signed in. Please log in again.', { 
+        code: 'SESSION_NOT_FOUND' 
+      });
+    }
+
+    await stashActiveTokens();
+
+    const { token, refreshToken } = JSON.parse(tokensJson);
+    await Promise.all([
+      secureStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, token),
+      refreshToken
+        ? secureStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, refreshToken)
+        : secureStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN),
+      AsyncStorage.setItem(STORAGE_KEYS.USERNAME, session.username),
+      AsyncStorage.setItem(STORAGE_KEYS.SERVER_URL, session.serverUrl),
+      session.database
+        ? AsyncStorage.setItem(STORAGE_KEYS.DATABASE, session.database)
+        : AsyncStorage.removeItem(STORAGE_KEYS.DATABASE),
+      AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(session.user ?? null)),
+      AsyncStorage.setItem(STORAGE_KEYS.ACTIVE_SESSION, sessionId),
+    ]);
+    await writeSessions([
+      ...sessions.filter(item => item.id !== sessionId),
+      { ...session, lastUsedAt: Date.now() },
+    ]);
+
+    return {
+      isLoggedIn: true,
+      sessionId,
+      token,
+      refreshToken: refreshToken || undefined,
+      username: session.username,
+      serverUrl: session.serverUrl,
+      database: session.database,
+      user: session.user,
     };
+  },
+
+  /**
+   * Signs out of a saved session that is not the active one
+   * @param sessionId Id of the saved session
+   */
+  removeSession: async (sessionId: string): Promise<void> => {
+    const tokensJson = await secureStorage.getItem(getSessionTokensKey(sessionId));
+    if (tokensJson) {
+      const { token, refreshToken } = JSON.parse(tokensJson);
+      try {
+        await fetch(`${settingsStore.getApiUrl()}/auth/logout`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            refreshToken,
+          }),
+        });
+      } catch (error) {
+        // Log but don't block on logout errors
+        console.warn('Logout request failed:', error);
+      }
+    }
+
+    const sessions = await readSessions();
+    await writeSessions(sessions.filter(session => session.id !== sessionId));
+    await secureStorage.removeItem(getSessionTokensKey(sessionId));
+  },
+  
+  /**
+   * Signs out of every saved session, e.g. after too many failed unlock attempts
+   */
+  logoutAll: async (): Promise<void> => {
+    const [sessions, activeSessionId] = await Promise.all([
+      readSessions(),
+      AsyncStorage.getItem(STORAGE_KEYS.ACTIVE_SESSION),
+    ]);
+    for (const session of sessions) {
+      if (session.id !== activeSessionId) {
+        await authService.removeSession(session.id);
+      }
+    }
+    await authService.logout();
+  },
+  
+  /**
+   * Creates an authenticated API client for making requests to the Odoo Proxy
+   * @returns API client object
+   */
+  createApiClient: () => {
+    const send = (url: string, options: RequestInit, token: string) =>
+      fetch(url, {
+        ...options,
+        headers: {
+          ...options.headers,
+          'Authorization': `Bearer ${token}`,
+        },
+      });
     
     // Fetch with automatic token refresh
     const fetchWithAuth = async (url: string, options: RequestInit = {}) => {
-      // If there's already a token refresh in progress, wait for it to complete
-      if (tokenRefreshPromise) {
-        await tokenRefreshPromise;
+      // Tokens close to expiry are refreshed before the request goes out
+      const token = await authService.getValidAccessToken();
+      if (!token) {
+        throw new AuthenticationError('Not authenticated', { code: 'NOT_AUTHENTICATED' });
       }
       
-      const token = await getToken();
-      
-      const headers = {
-        ...options.headers,
-        'Authorization': `Bearer ${token}`,
-      };
-      
       try {
-        const response = await fetch(url, {
-          ...options,
-          headers,
-        });
+        let response = await send(url, options, token);
         
-        // If unauthorized, try to refresh token
+        // The token can still be rejected, e.g. when revoked; refresh once and retry
         if (response.status === 401) {
+          let refreshedToken: string;
           try {
-            // Create a single refresh promise to prevent multiple refresh attempts
-            tokenRefreshPromise = authService.refreshToken();
-            accessToken = await tokenRefreshPromise;
-            tokenRefreshPromise = null;
-            
-            // Retry request with new token
-            return fetch(url, {
-              ...options,
-              headers: {
-                ...options.headers,
-                'Authorization': `Bearer ${accessToken}`,
-              },
-            });
+            // Shared with any refresh already in progress
+            refreshedToken = await authService.refreshToken();
           } catch (refreshError) {
-            // If refresh fails, clear tokens
-            accessToken = null;
-            tokenRefreshPromise = null;
-            await authService.logout();
-            throw new Error('Session expired. Please log in again.');
+            // Logging out is handled by the session expired listener
+            if (isSessionRejected(refreshError)) {
+              throw new AuthenticationError('Session expired. Please log in again.', { code: 'SESSION_EXPIRED' });
+            }
+            throw refreshError;
           }
+          response = await send(url, options, refreshedToken);
         }
         
         // Parse JSON response
@@ -378,10 +789,13 @@ export const authService = {
         } else {
           // Handle error responses
           const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || errorData.message || `Request failed with status ${response.status}`);
+          throw fromHttpStatus(response.status, errorData, `Request failed with status ${response.status}`);
         }
       } catch (error) {
         console.error('API request error:', error);
+        if (isNetworkFailure(error)) {
+          throw networkError();
+        }
         throw error;
       }
     };
@@ -389,33 +803,33 @@ export const authService = {
     return {
       // Generic Odoo model access
       getRecords: (model: string, params = {}) => 
-        fetchWithAuth(`${API_URL}/odoo/models/${model}?${new URLSearchParams(params as Record<string, string>)}`),
+        fetchWithAuth(`${settingsStore.getApiUrl()}/odoo/models/${model}?${new URLSearchParams(params as Record<string, string>)}`),
       
       getRecord: (model: string, id: number, params = {}) => 
-        fetchWithAuth(`${API_URL}/odoo/models/${model}/${id}?${new URLSearchParams(params as Record<string, string>)}`),
+        fetchWithAuth(`${settingsStore.getApiUrl()}/odoo/models/${model}/${id}?${new URLSearchParams(params as Record<string, string>)}`),
       
       createRecord: (model: string, data: any) => 
-        fetchWithAuth(`${API_URL}/odoo/models/${model}`, {
+        fetchWithAuth(`${settingsStore.getApiUrl()}/odoo/models/${model}`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(data),
         }),
       
       updateRecord: (model: string, id: number, data: any) => 
-        fetchWithAuth(`${API_URL}/odoo/models/${model}/${id}`, {
+        fetchWithAuth(`${settingsStore.getApiUrl()}/odoo/models/${model}/${id}`, {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(data),
         }),
       
       deleteRecord: (model: string, id: number) => 
-        fetchWithAuth(`${API_URL}/odoo/models/${model}/${id}`, {
+        fetchWithAuth(`${settingsStore.getApiUrl()}/odoo/models/${model}/${id}`, {
           method: 'DELETE',
         }),
       
       // Direct Odoo API call (more flexible)
       callOdooMethod: (model: string, method: string, args: any[] = [], kwargs: Record<string, any> = {}) => 
-        fetchWithAuth(`${API_URL}/odoo/call`, {
+        fetchWithAuth(`${settingsStore.getApiUrl()}/odoo/call`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -428,10 +842,10 @@ export const authService = {
       
       // Standard REST methods
       get: (url: string, options: RequestInit = {}) => 
-        fetchWithAuth(`${API_URL}${url}`, { ...options, method: 'GET' }),
+        fetchWithAuth(`${settingsStore.getApiUrl()}${url}`, { ...options, method: 'GET' }),
       
       post: (url: string, data: any, options: RequestInit = {}) => 
-        fetchWithAuth(`${API_URL}${url}`, {
+        fetchWithAuth(`${settingsStore.getApiUrl()}${url}`, {
           ...options,
           method: 'POST',
           headers: {
@@ -442,7 +856,7 @@ export const authService = {
         }),
       
       put: (url: string, data: any, options: RequestInit = {}) => 
-        fetchWithAuth(`${API_URL}${url}`, {
+        fetchWithAuth(`${settingsStore.getApiUrl()}${url}`, {
           ...options,
           method: 'PUT',
           headers: {
@@ -453,7 +867,7 @@ export const authService = {
         }),
       
       delete: (url: string, options: RequestInit = {}) => 
-        fetchWithAuth(`${API_URL}${url}`, { ...options, method: 'DELETE' }),
+        fetchWithAuth(`${settingsStore.getApiUrl()}${url}`, { ...options, method: 'DELETE' }),
     };
   }
 };
\ No newline at end of file
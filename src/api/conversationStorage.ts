@@ -0,0 +1,74 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MCPResponse, MCPOutboxStatus } from './mcpService';
+import { settingsStore } from './settingsStore';
+
+export type ConversationTurnStatus = 'pending' | 'queued' | 'complete' | 'error' | 'cancelled';
+
+// Decision on an 'action' response proposing an Odoo write
+export interface ConversationActionState {
+  status: 'submitting' | 'approved' | 'rejected' | 'failed';
+  result?: MCPResponse;
+}
+
+export interface ConversationTurn {
+  id: string;
+  query: string;
+  response: MCPResponse | null;
+  status: ConversationTurnStatus;
+  createdAt: number;
+  outboxStatus?: MCPOutboxStatus; // Set when the query went through the offline outbox
+  actionState?: ConversationActionState;
+}
+
+// History is stored per session so switching accounts or servers never mixes conversations
+const STORAGE_KEY_PREFIX = 'conversation_history:';
+
+const getStorageKey = (sessionId: string) => `${STORAGE_KEY_PREFIX}${sessionId}`;
+
+/**
+ * Persistence for conversation history in AsyncStorage
+ */
+export const conversationStorage = {
+  /**
+   * Loads the saved turns for a session
+   * @param sessionId Session the history belongs to
+   * @returns Saved turns, oldest first
+   */
+  load: async (sessionId: string): Promise<ConversationTurn[]> => {
+    try {
+      const json = await AsyncStorage.getItem(getStorageKey(sessionId));
+      if (!json) {
+        return [];
+      }
+      const turns = JSON.parse(json);
+      return Array.isArray(turns) ? turns : [];
+    } catch (error) {
+      console.error('Error loading conversation history:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Saves the last completed turns for a session, as many as the history size preference
+   * @param sessionId Session the history belongs to
+   * @param turns Full conversation, oldest first
+   */
+  save: async (sessionId: string, turns: ConversationTurn[]): Promise<void> => {
+    try {
+      // Pending turns cannot be resumed after a restart, so only finished ones are kept.
+      // Queued turns are kept: the outbox sends them after a restart too.
+      const finished = turns.filter(turn => turn.status !== 'pending').slice(-settingsStore.getPreferences().historySize);
+      await AsyncStorage.setItem(getStorageKey(sessionId), JSON.stringify(finished));
+    } catch (error) {
+      console.error('Error saving conversation history:', error);
+    }
+  },
+
+  /**
+   * Removes the saved history for a session
+   * @param sessionId Session the history belongs to
+   */
+  clear: async (sessionId: string): Promise<void> => {
+    await AsyncStorage.removeItem(getStorageKey(sessionId));
+  },
+};
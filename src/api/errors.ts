@@ -0,0 +1,285 @@
+/**
+ * Error types shared by the auth, data and MCP services.
+ * Every error carries a code; the code decides its kind and what the user is told.
+ */
+
+export type ErrorKind = 'network' | 'auth' | 'validation' | 'server' | 'timeout';
+
+// What a screen can offer the user for an error
+export type ErrorAction = 'retry' | 'login' | 'settings';
+
+export interface ErrorGuidance {
+  title: string;
+  message: string; // What the user can do about it
+  action?: ErrorAction;
+}
+
+// Plain-object form, for Redux state and thunk rejections
+export interface ErrorInfo {
+  code: string;
+  kind: ErrorKind;
+  message: string;
+  status?: number;
+  field?: string;
+}
+
+interface ErrorOptions {
+  code?: string;
+  status?: number;
+  details?: string;
+}
+
+// Known codes by kind; unknown codes are treated as server errors
+const CODE_KINDS: Record<string, ErrorKind> = {
+  NETWORK_ERROR: 'network',
+  NOT_CONNECTED: 'network',
+  NO_PROXY: 'network',
+  AUTH_FAILED: 'auth',
+  INVALID_2FA_CODE: 'auth',
+  TWO_FACTOR_EXPIRED: 'auth',
+  NO_REFRESH_TOKEN: 'auth',
+  REFRESH_FAILED: 'auth',
+  SESSION_EXPIRED: 'auth',
+  SESSION_NOT_FOUND: 'auth',
+  NOT_AUTHENTICATED: 'auth',
+  INVALID_INPUT: 'validation',
+  EMPTY_QUERY: 'validation',
+  ALREADY_QUEUED: 'validation',
+  TIMEOUT: 'timeout',
+  STREAM_TIMEOUT: 'timeout',
+};
+
+const KIND_GUIDANCE: Record<ErrorKind, ErrorGuidance> = {
+  network: {
+    title: 'Connection problem',
+    message: 'Check your internet connection and that the proxy server is reachable.',
+    action: 'retry',
+  },
+  auth: {
+    title: 'Sign-in required',
+    message: 'Your session is no longer valid. Please log in again.',
+    action: 'login',
+  },
+  validation: {
+    title: 'Check your input',
+    message: 'Correct the highlighted information and try again.',
+  },
+  server: {
+    title: 'Something went wrong',
+    message: 'The server could not complete the request. Try again in a moment.',
+    action: 'retry',
+  },
+  timeout: {
+    title: 'No response',
+    message: 'The server took too long to respond. Try again in a moment.',
+    action: 'retry',
+  },
+};
+
+// Codes whose guidance differs from the rest of their kind
+const CODE_GUIDANCE: Record<string, ErrorGuidance> = {
+  NO_PROXY: {
+    title: 'No proxy configured',
+    message: 'Set the proxy URL in the connection settings.',
+    action: 'settings',
+  },
+  AUTH_FAILED: {
+    title: 'Login failed',
+    message: 'Check your username, password and server, then try again.',
+  },
+  INVALID_2FA_CODE: {
+    title: 'Wrong code',
+    message: 'Enter the current code from your authenticator app.',
+  },
+  TWO_FACTOR_EXPIRED: {
+    title: 'Code request expired',
+    message: 'Log in again to get a new code request.',
+    action: 'login',
+  },
+  DISCOVERY_FAILED: {
+    title: 'Server not found',
+    message: 'Check the Odoo server URL. You can still log in with the server\'s default database.',
+  },
+  INVALID_RESPONSE: {
+    title: 'Unreadable response',
+    message: 'The answer could not be displayed. Try asking in a different way.',
+    action: 'retry',
+  },
+  CANCELLED: {
+    title: 'Cancelled',
+    message: 'You stopped this query.',
+    action: 'retry',
+  },
+  QUEUED: {
+    title: 'Waiting for connection',
+    message: 'Your query will be sent when the connection is restored.',
+  },
+  ALREADY_QUEUED: {
+    title: 'Already queued',
+    message: 'This query is already waiting to be sent.',
+  },
+};
+
+/**
+ * Base class of the app's typed errors
+ */
+export class AppError extends Error {
+  readonly kind: ErrorKind;
+  readonly code: string;
+  readonly status?: number;
+  readonly details?: string;
+
+  constructor(kind: ErrorKind, message: string, { code, status, details }: ErrorOptions = {}) {
+    super(message);
+    this.name = 'AppError';
+    this.kind = kind;
+    this.code = code || 'SERVER_ERROR';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export class NetworkError extends AppError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super('network', message, { code: 'NETWORK_ERROR', ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+export class AuthenticationError extends AppError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super('auth', message, { code: 'AUTH_FAILED', ...options });
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class ValidationError extends AppError {
+  readonly field?: string; // Form field the message belongs to
+
+  constructor(message: string, options: ErrorOptions & { field?: string } = {}) {
+    super('validation', message, { code: 'INVALID_INPUT', ...options });
+    this.name = 'ValidationError';
+    this.field = options.field;
+  }
+}
+
+export class ServerError extends AppError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super('server', message, { code: 'SERVER_ERROR', ...options });
+    this.name = 'ServerError';
+  }
+}
+
+export class TimeoutError extends AppError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super('timeout', message, { code: 'TIMEOUT', ...options });
+    this.name = 'TimeoutError';
+  }
+}
+
+export const getErrorKind = (code?: string): ErrorKind => (code && CODE_KINDS[code]) || 'server';
+
+/**
+ * Creates the error class matching a code's kind
+ */
+export const createError = (code: string, message: string, options: Omit<ErrorOptions, 'code'> = {}): AppError => {
+  switch (getErrorKind(code)) {
+    case 'network':
+      return new NetworkError(message, { ...options, code });
+    case 'auth':
+      return new AuthenticationError(message, { ...options, code });
+    case 'validation':
+      return new ValidationError(message, { ...options, code });
+    case 'timeout':
+      return new TimeoutError(message, { ...options, code });
+    default:
+      return new ServerError(message, { ...options, code });
+  }
+};
+
+/**
+ * Whether a fetch failed before reaching the server
+ */
+export const isNetworkFailure = (error: unknown): boolean =>
+  error instanceof TypeError && error.message.includes('Network request failed');
+
+/**
+ * Maps a failed HTTP status to an error, using the server's message when it sent one
+ * @param status HTTP status
+ * @param body Parsed error body, if any
+ * @param fallbackMessage Used when the body has no message
+ * @param code Overrides the code derived from the status
+ */
+export const fromHttpStatus = (
+  status: number,
+  body: any,
+  fallbackMessage: string,
+  code?: string
+): AppError => {
+  const message = body?.error || body?.message || fallbackMessage;
+  const options = { status, details: JSON.stringify(body ?? {}) };
+
+  if (code) {
+    return createError(code, message, options);
+  }
+  // Login passes AUTH_FAILED itself; anywhere else a 401 means the session is gone
+  if (status === 401) {
+    return new AuthenticationError(message, { ...options, code: 'SESSION_EXPIRED' });
+  }
+  if (status === 403) {
+    return new AuthenticationError(message, options);
+  }
+  if (status === 408 || status === 504) {
+    return new TimeoutError(message, options);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, options);
+  }
+  return new ServerError(message, options);
+};
+
+/**
+ * Turns anything thrown into an AppError.
+ * Errors tagged with a code by older code paths keep that code.
+ * @param fallback Code and message for errors without one
+ */
+export const toAppError = (
+  error: unknown,
+  fallback: { code?: string; message: string } = { message: 'Something went wrong' }
+): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+  if (isNetworkFailure(error)) {
+    return new NetworkError((error as Error).message);
+  }
+
+  const { code, status, details, message } = (error || {}) as Partial<AppError>;
+  if (code) {
+    return createError(code, message || fallback.message, { status, details });
+  }
+  if (error instanceof Error && /timeout|timed out/i.test(error.message)) {
+    return new TimeoutError(error.message);
+  }
+  return createError(fallback.code || 'SERVER_ERROR', (error instanceof Error && error.message) || fallback.message);
+};
+
+/**
+ * Serializable summary of an error for Redux
+ */
+export const toErrorInfo = (error: unknown, fallback?: { code?: string; message: string }): ErrorInfo => {
+  const appError = toAppError(error, fallback);
+  return {
+    code: appError.code,
+    kind: appError.kind,
+    message: appError.message,
+    ...(appError.status ? { status: appError.status } : {}),
+    ...(appError instanceof ValidationError && appError.field ? { field: appError.field } : {}),
+  };
+};
+
+/**
+ * User-facing title, advice and action for an error code
+ */
+export const getErrorGuidance = (code?: string): ErrorGuidance =>
+  (code && CODE_GUIDANCE[code]) || KIND_GUIDANCE[getErrorKind(code)];
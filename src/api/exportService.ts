@@ -0,0 +1,89 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as Print from 'expo-print';
+import { AppError } from './errors';
+import {
+  ExportDocument,
+  ExportFormat,
+  EXPORT_MIME_TYPES,
+  exportFileName,
+  toCSV,
+  toXLSX,
+  toReportHTML,
+} from '../utils/exportData';
+
+// iOS share sheet types of each format
+const UTIS: Record<ExportFormat, string> = {
+  csv: 'public.comma-separated-values-text',
+  xlsx: 'org.openxmlformats.spreadsheetml.sheet',
+  pdf: 'com.adobe.pdf',
+};
+
+const EXPORT_DIRECTORY = `${FileSystem.cacheDirectory}exports/`;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked to stay under the argument limit of fromCharCode
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 0x8000)));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Writes an export document to the cache directory and opens the share sheet
+ */
+export const exportService = {
+  /**
+   * Writes the document in a format
+   * @returns File URI
+   */
+  writeFile: async (document: ExportDocument, format: ExportFormat): Promise<string> => {
+    await FileSystem.makeDirectoryAsync(EXPORT_DIRECTORY, { intermediates: true });
+    const uri = `${EXPORT_DIRECTORY}${exportFileName(document, format)}`;
+
+    switch (format) {
+      case 'csv':
+        await FileSystem.writeAsStringAsync(uri, toCSV(document), { encoding: FileSystem.EncodingType.UTF8 });
+        break;
+      case 'xlsx':
+        await FileSystem.writeAsStringAsync(uri, toBase64(toXLSX(document)), {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        break;
+      case 'pdf': {
+        // Printed to a temporary file first; moved to get a readable name
+        const { uri: printed } = await Print.printToFileAsync({ html: toReportHTML(document) });
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+        await FileSystem.moveAsync({ from: printed, to: uri });
+        break;
+      }
+    }
+
+    return uri;
+  },
+
+  /**
+   * Exports the document and lets the user send or save it
+   * @throws AppError SHARING_UNAVAILABLE when the device has no share sheet
+   */
+  share: async (document: ExportDocument, format: ExportFormat): Promise<void> => {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new AppError('server', 'Sharing files is not available on this device', { code: 'SHARING_UNAVAILABLE' });
+    }
+
+    const uri = await exportService.writeFile(document, format);
+    await Sharing.shareAsync(uri, {
+      mimeType: EXPORT_MIME_TYPES[format],
+      UTI: UTIS[format],
+      dialogTitle: document.title,
+    });
+  },
+
+  /**
+   * Deletes earlier exports
+   */
+  clear: async (): Promise<void> => {
+    await FileSystem.deleteAsync(EXPORT_DIRECTORY, { idempotent: true });
+  },
+};
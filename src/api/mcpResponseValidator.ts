@@ -0,0 +1,263 @@
+import {
+  MCPResponse,
+  MCPChartKind,
+  MCPChartResponse,
+  MCPChartSeries,
+  MCPActionResponse,
+  MCPFieldChange,
+  MCPFieldValue,
+  MCPErrorResponse,
+} from './mcpService';
+
+const CHART_KINDS: MCPChartKind[] = ['line', 'bar', 'pie'];
+
+// Charts add an alpha channel to series colors, so only #RRGGBB is kept; others use the palette
+const SERIES_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Thrown by the variant validators and turned into an INVALID_RESPONSE error
+class InvalidResponseError extends Error {}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const fail = (reason: string): never => {
+  throw new InvalidResponseError(reason);
+};
+
+// Scalars are shown as text; anything else cannot be displayed in a cell or list item
+const toText = (value: unknown, path: string): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return fail(`${path} must be text`);
+};
+
+const requireString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string' || !value) {
+    return fail(`${path} is required`);
+  }
+  return value;
+};
+
+const invalidResponse = (reason: string, content: string): MCPErrorResponse => {
+  console.warn('[MCP] Invalid response:', reason);
+  return {
+    type: 'error',
+    content,
+    code: 'INVALID_RESPONSE',
+    details: [reason],
+  };
+};
+
+const validateText = (content: unknown): MCPResponse => ({
+  type: 'text',
+  content: toText(content, 'content'),
+});
+
+const validateImage = (content: unknown): MCPResponse => ({
+  type: 'image',
+  content: requireString(content, 'image URL'),
+});
+
+const validateList = (content: unknown): MCPResponse => {
+  // A bare array is accepted as an untitled list
+  const list = Array.isArray(content) ? { items: content } : content;
+  if (!isRecord(list)) {
+    return fail('list content must be an object');
+  }
+  if (list.items !== undefined && !Array.isArray(list.items)) {
+    return fail('list items must be a list');
+  }
+
+  return {
+    type: 'list',
+    content: {
+      title: toText(list.title, 'list title'),
+      items: (list.items || []).map((item: unknown, index: number) => toText(item, `list item ${index}`)),
+    },
+  };
+};
+
+const validateTable = (content: unknown): MCPResponse => {
+  if (!isRecord(content)) {
+    return fail('table content must be an object');
+  }
+  const { headers = [], rows = [] } = content;
+  if (!Array.isArray(headers) || !Array.isArray(rows)) {
+    return fail('table headers and rows must be lists');
+  }
+
+  return {
+    type: 'table',
+    content: {
+      headers: headers.map((header: unknown, index: number) => toText(header, `header ${index}`)),
+      rows: rows.map((row: unknown, rowIndex: number) => {
+        if (!Array.isArray(row)) {
+          return fail(`row ${rowIndex} must be a list`);
+        }
+        return row.map((cell: unknown, cellIndex: number) => toText(cell, `cell ${rowIndex}:${cellIndex}`));
+      }),
+    },
+  };
+};
+
+const validateChart = (content: unknown): MCPChartResponse => {
+  if (!isRecord(content)) {
+    return fail('missing chart content');
+  }
+
+  const { chartType, title, labels, series, yAxisPrefix, yAxisSuffix } = content;
+  if (!CHART_KINDS.includes(chartType)) {
+    return fail(`unsupported chart type ${chartType}`);
+  }
+  if (!Array.isArray(labels) || labels.length === 0) {
+    return fail('labels must be a non-empty list');
+  }
+  const validLabels = labels.map((label: unknown, index: number) => toText(label, `label ${index}`));
+  if (!Array.isArray(series) || series.length === 0) {
+    return fail('at least one series is required');
+  }
+
+  const validSeries: MCPChartSeries[] = series.map((item: unknown, index: number) => {
+    if (!isRecord(item) || !Array.isArray(item.data) || !item.data.every(isFiniteNumber)) {
+      return fail(`series ${index} must contain numeric data`);
+    }
+    if (item.data.length !== labels.length) {
+      return fail(`series ${index} has ${item.data.length} values for ${labels.length} labels`);
+    }
+    return {
+      name: typeof item.name === 'string' && item.name ? item.name : `Series ${index + 1}`,
+      data: item.data,
+      ...(typeof item.color === 'string' && SERIES_COLOR.test(item.color) ? { color: item.color } : {}),
+    };
+  });
+
+  if (chartType === 'pie' && validSeries[0].data.some(value => value < 0)) {
+    return fail('pie charts cannot have negative values');
+  }
+
+  return {
+    type: 'chart',
+    content: {
+      chartType,
+      labels: validLabels,
+      series: validSeries,
+      ...(typeof title === 'string' ? { title } : {}),
+      ...(typeof yAxisPrefix === 'string' ? { yAxisPrefix } : {}),
+      ...(typeof yAxisSuffix === 'string' ? { yAxisSuffix } : {}),
+    },
+  };
+};
+
+const toFieldValue = (value: unknown, path: string): MCPFieldValue => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'boolean' || isFiniteNumber(value)) return value;
+  return fail(`${path} must be a simple value`);
+};
+
+const validateAction = (content: unknown): MCPActionResponse => {
+  if (!isRecord(content)) {
+    return fail('action content must be an object');
+  }
+
+  const recordId = typeof content.recordId === 'string' ? Number(content.recordId) : content.recordId;
+  if (!Number.isInteger(recordId) || recordId <= 0) {
+    return fail('action record id must be a positive integer');
+  }
+  if (content.changes !== undefined && !Array.isArray(content.changes)) {
+    return fail('action changes must be a list');
+  }
+
+  const model = requireString(content.model, 'action model');
+  const operation = requireString(content.operation, 'action operation');
+  const changes: MCPFieldChange[] = (content.changes || []).map((change: unknown, index: number) => {
+    if (!isRecord(change)) {
+      return fail(`change ${index} must be an object`);
+    }
+    return {
+      field: requireString(change.field, `change ${index} field`),
+      ...(typeof change.label === 'string' ? { label: change.label } : {}),
+      oldValue: toFieldValue(change.oldValue, `change ${index} old value`),
+      newValue: toFieldValue(change.newValue, `change ${index} new value`),
+    };
+  });
+
+  return {
+    type: 'action',
+    content: {
+      actionId: requireString(content.actionId, 'action id'),
+      title: typeof content.title === 'string' && content.title ? content.title : `${operation} on ${model}`,
+      model,
+      recordId,
+      operation,
+      changes,
+      signature: requireString(content.signature, 'action signature'),
+      ...(typeof content.description === 'string' ? { description: content.description } : {}),
+      ...(typeof content.recordName === 'string' ? { recordName: content.recordName } : {}),
+      ...(isFiniteNumber(content.expiresAt) ? { expiresAt: content.expiresAt } : {}),
+    },
+  };
+};
+
+const validateError = (payload: Record<string, any>): MCPResponse => ({
+  type: 'error',
+  content: typeof payload.content === 'string' && payload.content ? payload.content : 'Unknown error',
+  ...(typeof payload.code === 'string' ? { code: payload.code } : {}),
+  ...(Array.isArray(payload.details) ? { details: payload.details.map(String) } : {}),
+});
+
+/**
+ * Checks a response from the proxy before it reaches the renderer.
+ * Missing optional fields are filled in and scalar values coerced to the expected types;
+ * payloads that cannot be displayed become an INVALID_RESPONSE error response.
+ * @param payload Raw result from the socket or REST API
+ * @returns A well-formed MCP response
+ */
+export const validateMCPResponse = (payload: unknown): MCPResponse => {
+  // Plain strings are treated as text answers
+  if (typeof payload === 'string') {
+    return { type: 'text', content: payload };
+  }
+  if (!isRecord(payload)) {
+    return invalidResponse('response must be an object', 'The server sent an empty or unreadable response');
+  }
+
+  const type = typeof payload.type === 'string' ? payload.type.toLowerCase() : undefined;
+  try {
+    switch (type) {
+      case 'text':
+        return validateText(payload.content);
+      case 'image':
+        return validateImage(payload.content);
+      case 'list':
+        return validateList(payload.content);
+      case 'table':
+        return validateTable(payload.content);
+      case 'chart':
+        return validateChart(payload.content);
+      case 'action':
+        return validateAction(payload.content);
+      case 'error':
+        return validateError(payload);
+      case undefined:
+        // Untyped text content is the only shape that can be inferred safely
+        if (typeof payload.content === 'string') {
+          return { type: 'text', content: payload.content };
+        }
+        return fail('response type is missing');
+      default:
+        return fail(`unknown response type "${payload.type}"`);
+    }
+  } catch (error) {
+    if (!(error instanceof InvalidResponseError)) {
+      throw error;
+    }
+    const content = type === 'chart'
+      ? 'The chart in this response could not be displayed'
+      : 'The server sent a response that could not be displayed';
+    return invalidResponse(error.message, content);
+  }
+};
@@ -4,7 +4,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 // npm install socket.io-client
 
 // MCP Response Types
-export type MCPResponseType = 'text' | 'image' | 'list' | 'table' | 'error';
+export type MCPResponseType = 'text' | 'image' | 'list' | 'table' | 'chart' | 'action' | 'error';
 
 export interface MCPTextResponse {
   type: 'text';
@@ -32,10 +32,59 @@ export interface MCPTableResponse {
   };
 }
 
+export type MCPChartKind = 'line' | 'bar' | 'pie';
+
+export interface MCPChartSeries {
+  name: string;
+  data: number[]; // One value per label
+  color?: string; // #RRGGBB
+}
+
+// Line charts plot every series; bar and pie charts use the first series,
+// with pie slices named after the labels
+export interface MCPChartResponse {
+  type: 'chart';
+  content: {
+    chartType: MCPChartKind;
+    title?: string;
+    labels: string[];
+    series: MCPChartSeries[];
+    yAxisPrefix?: string;
+    yAxisSuffix?: string;
+  };
+}
+
+export type MCPFieldValue = string | number | boolean | null;
+
+export interface MCPFieldChange {
+  field: string; // Technical field name
+  label?: string;
+  oldValue: MCPFieldValue;
+  newValue: MCPFieldValue;
+}
+
+// A write the assistant proposes; nothing is applied in Odoo until the user approves it
+export interface MCPActionResponse {
+  type: 'action';
+  content: {
+    actionId: string;
+    title: string;
+    description?: string;
+    model: string; // e.g. 'sale.order'
+    recordId: number;
+    recordName?: string;
+    operation: string; // 'write', 'create', 'unlink' or a workflow method such as 'action_confirm'
+    changes: MCPFieldChange[];
+    signature: string; // Issued by the proxy for this exact proposal
+    expiresAt?: number;
+  };
+}
+
 export interface MCPErrorResponse {
   type: 'error';
   content: string;
   code?: string;
+  details?: string[];
 }
 
 export type MCPResponse = 
@@ -43,12 +92,140 @@ export type MCPResponse =
   | MCPImageResponse 
   | MCPListResponse 
   | MCPTableResponse 
+  | MCPChartResponse
+  | MCPActionResponse
+  | MCPErrorResponse;
+
+// Incremental update emitted by the proxy while a streamed query is running.
+// Text content is appended, list items and table rows are added to the partial response,
+// and any other type replaces it.
+export type MCPStreamChunk =
+  | { type: 'text'; content: string }
+  | { type: 'list'; content: { title?: string; items: string[] } }
+  | { type: 'table'; content: { headers?: string[]; rows: string[][] } }
+  | MCPImageResponse
+  | MCPChartResponse
   | MCPErrorResponse;
 
+export interface MCPQueryOptions {
+  requestId?: string;
+  signal?: AbortSignal;
+  // Hold the query in the outbox instead of failing while offline
+  queueIfOffline?: boolean;
+}
+
+export interface MCPStreamOptions extends MCPQueryOptions {
+  onUpdate?: (partial: MCPResponse) => void;
+}
+
+export interface MCPQueryStream {
+  requestId: string;
+  response: Promise<MCPResponse>;
+  cancel: () => void;
+}
+
+// Queries held while offline and replayed on reconnect
+export type MCPOutboxStatus = 'queued' | 'sent' | 'failed';
+
+export interface MCPOutboxItem {
+  id: string; // Request id, reused on every replay attempt
+  query: string;
+  status: MCPOutboxStatus;
+  attempts: number;
+  queuedAt: number;
+  response?: MCPResponse;
+}
+
+export type MCPOutboxListener = (item: MCPOutboxItem) => void;
+
+const OUTBOX_STORAGE_KEY = 'mcp_outbox';
+const MAX_OUTBOX_ATTEMPTS = 3;
+// Error codes meaning the query never reached the proxy, so it stays queued
+const OFFLINE_ERROR_CODES = ['NOT_CONNECTED', 'NETWORK_ERROR'];
+
+/**
+ * Merges a stream chunk into the partial response received so far
+ * @param current Partial response, or null before the first chunk
+ * @param chunk Incremental update from the proxy
+ * @returns New partial response
+ */
+export const applyStreamChunk = (current: MCPResponse | null, chunk: MCPStreamChunk): MCPResponse => {
+  switch (chunk.type) {
+    case 'text':
+      return {
+        type: 'text',
+        content: (current?.type === 'text' ? current.content : '') + chunk.content,
+      };
+    case 'list': {
+      const previous = current?.type === 'list' ? current.content : { title: '', items: [] };
+      return {
+        type: 'list',
+        content: {
+          title: chunk.content.title ?? previous.title,
+          items: [...previous.items, ...(chunk.content.items || [])],
+        },
+      };
+    }
+    case 'table': {
+      const previous = current?.type === 'table' ? current.content : { headers: [], rows: [] };
+      return {
+        type: 'table',
+        content: {
+          headers: chunk.content.headers ?? previous.headers,
+          rows: [...previous.rows, ...(chunk.content.rows || [])],
+        },
+      };
+    }
+    default:
+      return chunk;
+  }
+};
+
+/**
+ * Generates a unique id used to correlate query events with their request
+ */
+const createRequestId = (): string => {
+  return `q-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+/**
+ * Turns a thrown error into an error response, keeping the code of typed errors
+ * @param error Anything thrown while handling a query or action
+ * @param fallback Code and message for untyped errors
+ */
+export const toMCPErrorResponse = (
+  error: unknown,
+  fallback: { code: string; message: string }
+): MCPErrorResponse => {
+  const appError = toAppError(error, fallback);
+  return {
+    type: 'error',
+    content: appError.message,
+    code: appError.code
+  };
+};
+
+/**
+ * Whether a response only reports that the query waits in the offline outbox
+ * (QUEUED, or ALREADY_QUEUED for a repeated query); the answer comes later
+ */
+export const isQueuedResponse = (response: MCPResponse): boolean =>
+  response.type === 'error' && (response.code === 'QUEUED' || response.code === 'ALREADY_QUEUED');
+
+/**
+ * Response returned for queries cancelled by the user
+ */
+const createCancelledResponse = (): MCPErrorResponse => ({
+  type: 'error',
+  content: 'Query cancelled',
+  code: 'CANCELLED'
+});
+
 export interface MCPConnectionOptions {
   reconnectAttempts?: number;
   reconnectInterval?: number;
   timeout?: number;
+  sessionId?: string; // Keeps the outbox of each signed-in account separate
 }
 
 // Import socket.io-client for WebSocket communication
@@ -61,8 +238,20 @@ try {
   console.warn('Failed to import socket.io-client:', error);
 }
 
-// Import configuration from config file
-import { API_URL, SOCKET_URL } from '../utils/config';
+// Proxy endpoints come from the runtime settings
+import { settingsStore } from './settingsStore';
+import { authService } from './authService';
+import { authEvents } from './authEvents';
+import { validateMCPResponse } from './mcpResponseValidator';
+import { AuthenticationError, NetworkError, TimeoutError, fromHttpStatus, isNetworkFailure, toAppError } from './errors';
+
+/**
+ * Answer length and language picked in the settings, sent with every query
+ */
+const getQueryOptions = () => {
+  const { verbosity, voiceLanguage } = settingsStore.getPreferences();
+  return { verbosity, language: voiceLanguage };
+};
 
 /**
  * Model Context Protocol Service
@@ -74,12 +263,41 @@ export class MCPService {
   private token: string | null = null;
   private socket: any = null;
   private socketReady: boolean = false;
+  // Whether the proxy answered lately. REST fallback counts as connected, so this
+  // follows socket events and query outcomes instead.
+  private reachable: boolean = true;
   private connectionOptions: MCPConnectionOptions = {
     reconnectAttempts: 5,
     reconnectInterval: 2000,
     timeout: 10000
   };
   private connectionListeners: Array<(connected: boolean) => void> = [];
+  // In-flight queries with the function unlinking the caller's abort signal
+  private pendingQueries: Map<string, { controller: AbortController; unlink: () => void }> = new Map();
+  private outbox: MCPOutboxItem[] = [];
+  private outboxKey: string = OUTBOX_STORAGE_KEY;
+  private outboxLoaded: Promise<void> | null = null;
+  private outboxReplay: Promise<void> | null = null;
+  private outboxListeners: MCPOutboxListener[] = [];
+
+  constructor() {
+    // Replay queries queued while offline as soon as the service is connected again
+    this.addConnectionListener((connected) => {
+      if (connected) {
+        this.replayOutbox();
+      }
+    });
+
+    // Reconnect with the latest token after a proactive refresh
+    authEvents.addTokenListener(({ accessToken }) => {
+      if (this.token) {
+        this.token = accessToken;
+        if (this.socket?.auth) {
+          this.socket.auth.token = accessToken;
+        }
+      }
+    });
+  }
   
   /**
    * Connects to the MCP service endpoint
@@ -99,14 +317,18 @@ export class MCPService {
         this.connectionOptions = { ...this.connectionOptions, ...options };
       }
       
+      // A socket still reconnecting for a previous session must not come back with its token
+      this.teardownSocket();
+
       this.serverUrl = serverUrl;
       this.token = token;
+      this.useOutboxFor(this.connectionOptions.sessionId);
       
       // If Socket.IO is available, try to connect
       if (io) {
         try {
           // Initialize socket with authentication
-          this.socket = io(SOCKET_URL, {
+          this.socket = io(settingsStore.getSocketUrl(), {
             auth: {
               token,
             },
@@ -175,11 +397,12 @@ export class MCPService {
    */
   async disconnect(): Promise<void> {
     try {
-      if (this.socket && this.socketReady) {
-        this.socket.disconnect();
-        this.socket = null;
-        this.socketReady = false;
+      // Cancel queries still waiting on this connection
+      for (const { controller } of this.pendingQueries.values()) {
+        controller.abort();
       }
+
+      this.teardownSocket();
       
       this.isConnected = false;
       this.serverUrl = null;
@@ -195,15 +418,44 @@ export class MCPService {
     }
   }
 
+  /**
+   * Closes the socket whatever its state, including while it is still reconnecting
+   */
+  private teardownSocket(): void {
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+    }
+    this.socketReady = false;
+  }
+
+  /**
+   * Records whether the proxy can be reached; queued queries are sent once it can again
+   */
+  private setReachable(reachable: boolean): void {
+    const restored = reachable && !this.reachable;
+    this.reachable = reachable;
+    if (restored && this.isConnected) {
+      this.replayOutbox();
+    }
+  }
+
   /**
    * Set up socket event handlers
    */
   private setupSocketEventHandlers(): void {
     if (!this.socket) return;
     
+    this.socket.on('connect', () => {
+      this.socketReady = true;
+      this.setReachable(true);
+    });
+
     this.socket.on('disconnect', (reason: string) => {
       console.log('[MCP] Socket disconnected:', reason);
       this.socketReady = false;
+      this.setReachable(false);
       // Do not set isConnected to false here, as the socket may reconnect
       // Let socket.io handle reconnections
     });
@@ -215,6 +467,8 @@ export class MCPService {
     this.socket.on('reconnect', (attemptNumber: number) => {
       console.log(`[MCP] Socket reconnected after ${attemptNumber} attempts`);
       this.socketReady = true;
+      this.isConnected = true;
+      this.notifyConnectionListeners();
     });
     
     this.socket.on('reconnect_attempt', (attemptNumber: number) => {
@@ -225,27 +479,21 @@ export class MCPService {
       console.error('[MCP] Socket reconnection error:', error);
     });
     
+    // Queries fall back to REST, like a socket that never connected;
+    // the outbox is replayed after the first one that gets through
     this.socket.on('reconnect_failed', () => {
       console.error('[MCP] Socket reconnection failed');
-      this.isConnected = false;
-      this.socketReady = false;
-      this.notifyConnectionListeners();
+      this.teardownSocket();
+      this.setReachable(false);
     });
     
-    // Handle token refresh
+    // The proxy rejected the token; refresh it (shared with the REST client) and reconnect
     this.socket.on('auth_error', async () => {
       try {
-        // Get new token from AsyncStorage
-        const token = await AsyncStorage.getItem('access_token');
-        if (token) {
-          this.socket.auth.token = token;
-          this.socket.connect();
-        } else {
-          console.error('[MCP] No token available for auth refresh');
-          this.isConnected = false;
-          this.socketReady = false;
-          this.notifyConnectionListeners();
-        }
+        const token = await authService.refreshToken();
+        this.token = token;
+        this.socket.auth.token = token;
+        this.socket.connect();
       } catch (error) {
         console.error('[MCP] Socket authentication error:', error);
         this.isConnected = false;
@@ -297,10 +545,16 @@ export class MCPService {
 
   /**
    * Process a voice query through the MCP
+   * While offline, queries sent with queueIfOffline are held in the outbox and
+   * answered with a QUEUED error response; the result is reported to outbox listeners.
    * @param query User query string
+   * @param options Optional request id, abort signal and offline queueing
    * @returns Structured response based on query content
    */
-  async processQuery(query: string): Promise<MCPResponse> {
+  async processQuery(query: string, options: MCPQueryOptions = {}): Promise<MCPResponse> {
+    const requestId = options.requestId || createRequestId();
+    const controller = this.registerQuery(requestId, options.signal);
+
     try {
       // Validate input
       if (!query.trim()) {
@@ -312,6 +566,99 @@ export class MCPService {
       }
       
       // Check connection
+      if (!this.isConnected) {
+        if (options.queueIfOffline) {
+          return await this.enqueueQuery(query, requestId);
+        }
+        return {
+          type: 'error',
+          content: 'Not connected to MCP service',
+          code: 'NOT_CONNECTED'
+        };
+      }
+
+      let response: MCPResponse;
+      try {
+        response = await this.sendQuery(query, requestId, controller.signal);
+      } catch (error) {
+        console.error('[MCP] Query processing error:', error);
+        response = toMCPErrorResponse(error, { code: 'PROCESSING_ERROR', message: 'Failed to process your query' });
+      }
+
+      if (response.type === 'error' && response.code === 'CANCELLED') {
+        return response;
+      }
+      // A query that never reached the proxy is kept rather than lost
+      const offline = response.type === 'error' && OFFLINE_ERROR_CODES.includes(response.code || '');
+      this.setReachable(!offline);
+      if (offline && options.queueIfOffline) {
+        return await this.enqueueQuery(query, requestId);
+      }
+      return response;
+    } catch (error) {
+      console.error('[MCP] Query processing error:', error);
+      return toMCPErrorResponse(error, { code: 'PROCESSING_ERROR', message: 'Failed to process your query' });
+    } finally {
+      this.releaseQuery(requestId);
+    }
+  }
+
+  /**
+   * Sends a query over the socket when it is ready, otherwise or after a socket failure over REST
+   */
+  private async sendQuery(query: string, requestId: string, signal: AbortSignal): Promise<MCPResponse> {
+    if (this.socket && this.socketReady) {
+      try {
+        return await this.processQueryViaWebSocket(query, requestId, signal);
+      } catch (socketError) {
+        if (signal.aborted) {
+          return createCancelledResponse();
+        }
+        console.error('[MCP] Socket query failed:', socketError);
+        // Try REST API fallback if WebSocket fails
+      }
+    }
+    return await this.processQueryViaREST(query, requestId, signal);
+  }
+
+  /**
+   * Cancels an in-flight query
+   * The pending call resolves with a CANCELLED error response.
+   * @param requestId Id of the query to cancel
+   * @returns True if a pending query was found
+   */
+  cancelQuery(requestId: string): boolean {
+    const pending = this.pendingQueries.get(requestId);
+    if (pending) {
+      pending.controller.abort();
+      return true;
+    }
+
+    // Queries still waiting in the outbox are dropped before they are sent
+    const queued = this.outbox.find(item => item.id === requestId && item.status === 'queued');
+    if (queued) {
+      this.settleOutboxItem(queued, 'failed', createCancelledResponse());
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Sends the user's decision on a proposed write back to the proxy.
+   * The proposal signature is returned unchanged so the proxy only applies
+   * the exact change the user saw and approved.
+   * @param action Action proposed in an 'action' response
+   * @param approved Whether the user approved the change
+   * @returns Result of the operation, or the proxy's acknowledgement of the rejection
+   */
+  async confirmAction(action: MCPActionResponse['content'], approved: boolean): Promise<MCPResponse> {
+    const confirmation = {
+      actionId: action.actionId,
+      signature: action.signature,
+      approved,
+    };
+
+    try {
       if (!this.isConnected) {
         return {
           type: 'error',
@@ -320,54 +667,411 @@ export class MCPService {
         };
       }
 
-      // Try to use WebSocket if available
+      // Writes are never retried over another transport, so the proxy sees each decision once
       if (this.socket && this.socketReady) {
-        try {
-          return await this.processQueryViaWebSocket(query);
-        } catch (socketError) {
-          console.error('[MCP] Socket query failed:', socketError);
-          // Try REST API fallback if WebSocket fails
-          return this.processQueryViaREST(query);
+        const socket = this.socket;
+        const response = await new Promise<any>((resolve, reject) => {
+          const timeout = setTimeout(() => {
+            reject(new TimeoutError('The server did not confirm your decision in time'));
+          }, this.connectionOptions.timeout);
+
+          socket.emit('confirm_action', confirmation, (ack: any) => {
+            clearTimeout(timeout);
+            resolve(ack);
+          });
+        });
+
+        if (response?.error) {
+          throw new Error(response.error);
         }
-      } else {
-        // Use REST API if socket is not available
-        return this.processQueryViaREST(query);
+        return validateMCPResponse(response.result);
       }
+
+      const token = await authService.getValidAccessToken();
+      if (!token) {
+        throw new AuthenticationError('No authentication token available', { code: 'NOT_AUTHENTICATED' });
+      }
+
+      const response = await fetch(`${settingsStore.getApiUrl()}/mcp/actions/confirm`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(confirmation)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw fromHttpStatus(response.status, errorData, `Confirmation failed with status ${response.status}`);
+      }
+
+      const data = await response.json();
+      return validateMCPResponse(data.result);
     } catch (error) {
-      console.error('[MCP] Query processing error:', error);
+      console.error('[MCP] Action confirmation error:', error);
+      return toMCPErrorResponse(error, { code: 'ACTION_CONFIRMATION_ERROR', message: 'Failed to send your decision' });
+    }
+  }
+
+  /**
+   * Ids of queries that are still waiting for a response
+   */
+  getPendingQueryIds(): string[] {
+    return Array.from(this.pendingQueries.keys());
+  }
+
+  /**
+   * Returns the queries currently held in the outbox, oldest first
+   */
+  async getOutbox(): Promise<MCPOutboxItem[]> {
+    await this.loadOutbox();
+    return this.outbox.map(item => ({ ...item }));
+  }
+
+  /**
+   * Add an outbox listener, called whenever a queued item changes status
+   * @param listener Function receiving the updated item
+   * @returns Function to remove the listener
+   */
+  addOutboxListener(listener: MCPOutboxListener): () => void {
+    this.outboxListeners.push(listener);
+
+    return () => {
+      const index = this.outboxListeners.indexOf(listener);
+      if (index !== -1) {
+        this.outboxListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Sends queued queries in the order they were queued.
+   * Only one replay runs at a time so an item is never sent twice, and each attempt
+   * reuses the item id as request id so the proxy can recognise retries.
+   */
+  replayOutbox(): Promise<void> {
+    if (!this.outboxReplay) {
+      this.outboxReplay = this.sendQueuedQueries().finally(() => {
+        this.outboxReplay = null;
+      });
+    }
+    return this.outboxReplay;
+  }
+
+  private async sendQueuedQueries(): Promise<void> {
+    await this.loadOutbox();
+
+    for (const item of this.outbox.filter(entry => entry.status === 'queued')) {
+      if (!this.isConnected) break;
+      // Skip items cancelled while earlier ones were being sent
+      if (!this.outbox.includes(item)) continue;
+
+      const attempt = { ...item, attempts: item.attempts + 1 };
+      this.replaceOutboxItem(item, attempt);
+      const response = await this.processQuery(item.query, { requestId: item.id });
+
+      const offline = response.type === 'error' && OFFLINE_ERROR_CODES.includes(response.code || '');
+      if (offline && attempt.attempts < MAX_OUTBOX_ATTEMPTS) {
+        // Still unreachable; keep this and later items queued for the next reconnect
+        await this.saveOutbox();
+        this.notifyOutboxListeners(attempt);
+        break;
+      }
+
+      this.settleOutboxItem(attempt, response.type === 'error' ? 'failed' : 'sent', response);
+    }
+  }
+
+  /**
+   * Adds a query to the outbox while offline
+   * @returns Error response with code QUEUED, or ALREADY_QUEUED for a duplicate
+   */
+  private async enqueueQuery(query: string, requestId: string): Promise<MCPResponse> {
+    await this.loadOutbox();
+
+    const normalized = query.trim().toLowerCase();
+    const duplicate = this.outbox.some(item =>
+      item.id === requestId || (item.status === 'queued' && item.query.trim().toLowerCase() === normalized)
+    );
+    if (duplicate) {
       return {
         type: 'error',
-        content: error instanceof Error ? error.message : 'Failed to process your query',
-        code: 'PROCESSING_ERROR'
+        content: 'This query is already waiting to be sent',
+        code: 'ALREADY_QUEUED'
       };
     }
+
+    const item: MCPOutboxItem = {
+      id: requestId,
+      query,
+      status: 'queued',
+      attempts: 0,
+      queuedAt: Date.now(),
+    };
+    this.outbox.push(item);
+    await this.saveOutbox();
+    this.notifyOutboxListeners(item);
+
+    return {
+      type: 'error',
+      content: 'You are offline. Your query will be sent when the connection is restored.',
+      code: 'QUEUED'
+    };
+  }
+
+  /**
+   * Removes a finished item from the outbox and reports its final status
+   */
+  private settleOutboxItem(item: MCPOutboxItem, status: MCPOutboxStatus, response: MCPResponse): void {
+    this.outbox = this.outbox.filter(entry => entry.id !== item.id);
+    this.saveOutbox();
+    this.notifyOutboxListeners({ ...item, status, response });
+  }
+
+  private replaceOutboxItem(item: MCPOutboxItem, next: MCPOutboxItem): void {
+    this.outbox = this.outbox.map(entry => (entry === item ? next : entry));
+  }
+
+  /**
+   * Switches to the outbox of another session; it is loaded on first use
+   */
+  private useOutboxFor(sessionId?: string): void {
+    const key = sessionId ? `${OUTBOX_STORAGE_KEY}:${sessionId}` : OUTBOX_STORAGE_KEY;
+    if (key !== this.outboxKey) {
+      this.outboxKey = key;
+      this.outbox = [];
+      this.outboxLoaded = null;
+    }
+  }
+
+  private loadOutbox(): Promise<void> {
+    if (!this.outboxLoaded) {
+      const key = this.outboxKey;
+      this.outboxLoaded = AsyncStorage.getItem(key)
+        .then((json) => {
+          const items = json ? JSON.parse(json) : [];
+          if (Array.isArray(items) && key === this.outboxKey) {
+            this.outbox = items;
+          }
+        })
+        .catch((error) => {
+          console.error('[MCP] Error loading outbox:', error);
+        });
+    }
+    return this.outboxLoaded;
+  }
+
+  private async saveOutbox(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.outboxKey, JSON.stringify(this.outbox));
+    } catch (error) {
+      console.error('[MCP] Error saving outbox:', error);
+    }
+  }
+
+  private notifyOutboxListeners(item: MCPOutboxItem): void {
+    for (const listener of this.outboxListeners) {
+      try {
+        listener(item);
+      } catch (error) {
+        console.error('[MCP] Error in outbox listener:', error);
+      }
+    }
+  }
+
+  /**
+   * Tracks an in-flight query, linking an optional caller signal to its abort controller
+   */
+  private registerQuery(requestId: string, signal?: AbortSignal): AbortController {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+    this.pendingQueries.set(requestId, {
+      controller,
+      unlink: () => signal?.removeEventListener('abort', abort),
+    });
+    return controller;
+  }
+
+  /**
+   * Forgets a settled query; a long-lived caller signal must not keep its listener
+   */
+  private releaseQuery(requestId: string): void {
+    this.pendingQueries.get(requestId)?.unlink();
+    this.pendingQueries.delete(requestId);
+  }
+
+  /**
+   * Process a query with incremental updates.
+   * Over the socket the proxy emits 'query_chunk' events keyed by request id until
+   * 'query_complete'; without a socket the full REST response is delivered as a single update.
+   * @param query User query string
+   * @param options Update callback, optional request id and abort signal
+   * @returns Stream handle with the final response and a cancel function
+   */
+  streamQuery(query: string, options: MCPStreamOptions = {}): MCPQueryStream {
+    const requestId = options.requestId || createRequestId();
+    const onUpdate = options.onUpdate || (() => {});
+
+    // Streaming requires the socket; otherwise deliver the full response at once
+    if (!query.trim() || !this.isConnected || !this.socket || !this.socketReady) {
+      const response = this.processQuery(query, {
+        requestId,
+        signal: options.signal,
+        queueIfOffline: options.queueIfOffline,
+      }).then((result) => {
+        // Cancelled and queued queries have no answer to show yet
+        if (!(result.type === 'error' && result.code === 'CANCELLED') && !isQueuedResponse(result)) {
+          onUpdate(result);
+        }
+        return result;
+      });
+
+      return {
+        requestId,
+        response,
+        cancel: () => this.cancelQuery(requestId),
+      };
+    }
+
+    const socket = this.socket;
+    const controller = this.registerQuery(requestId, options.signal);
+
+    const response = new Promise<MCPResponse>((resolve) => {
+      let partial: MCPResponse | null = null;
+      let timeout: ReturnType<typeof setTimeout> | null = null;
+      let settled = false;
+
+      const cleanup = () => {
+        if (timeout) clearTimeout(timeout);
+        socket.off('query_chunk', handleChunk);
+        socket.off('query_complete', handleComplete);
+        socket.off('query_error', handleError);
+        controller.signal.removeEventListener('abort', handleAbort);
+        this.releaseQuery(requestId);
+      };
+
+      const settle = (result: MCPResponse) => {
+        if (settled) return;
+        settled = true;
+        cleanup();
+        resolve(result);
+      };
+
+      // The timeout applies to inactivity, so long answers can keep streaming
+      const resetTimeout = () => {
+        if (timeout) clearTimeout(timeout);
+        timeout = setTimeout(() => {
+          settle({
+            type: 'error',
+            content: 'The server stopped responding',
+            code: 'STREAM_TIMEOUT'
+          });
+        }, this.connectionOptions.timeout);
+      };
+
+      const handleChunk = (payload: { requestId: string; chunk: MCPStreamChunk }) => {
+        if (payload?.requestId !== requestId || settled || !payload.chunk) return;
+        partial = validateMCPResponse(applyStreamChunk(partial, payload.chunk));
+        onUpdate(partial);
+        resetTimeout();
+      };
+
+      const handleComplete = (payload: { requestId: string; result?: MCPResponse }) => {
+        if (payload?.requestId !== requestId || settled) return;
+        const result = validateMCPResponse(payload.result || partial || { type: 'text', content: '' });
+        onUpdate(result);
+        settle(result);
+      };
+
+      const handleError = (payload: { requestId: string; error?: string; code?: string }) => {
+        if (payload?.requestId !== requestId || settled) return;
+        const result: MCPResponse = {
+          type: 'error',
+          content: payload.error || 'Failed to process your query',
+          code: payload.code || 'STREAM_ERROR'
+        };
+        onUpdate(result);
+        settle(result);
+      };
+
+      const handleAbort = () => {
+        // Let the proxy stop generating the answer
+        socket.emit('cancel_query', { requestId });
+        settle(createCancelledResponse());
+      };
+
+      if (controller.signal.aborted) {
+        settle(createCancelledResponse());
+        return;
+      }
+
+      socket.on('query_chunk', handleChunk);
+      socket.on('query_complete', handleComplete);
+      socket.on('query_error', handleError);
+      controller.signal.addEventListener('abort', handleAbort);
+
+      resetTimeout();
+      socket.emit('process_query', { query, requestId, stream: true, ...getQueryOptions() });
+    });
+
+    return {
+      requestId,
+      response,
+      cancel: () => this.cancelQuery(requestId),
+    };
   }
 
   /**
    * Process a query via WebSocket
    * @param query The query to process
+   * @param requestId Id sent with the query and used to cancel it
+   * @param signal Abort signal for cancellation
    * @returns MCP response
    */
-  private processQueryViaWebSocket(query: string): Promise<MCPResponse> {
+  private processQueryViaWebSocket(query: string, requestId: string, signal: AbortSignal): Promise<MCPResponse> {
     return new Promise<MCPResponse>((resolve, reject) => {
       if (!this.socket || !this.socketReady) {
         reject(new Error('Socket not connected'));
         return;
       }
       
+      const socket = this.socket;
+
+      const handleAbort = () => {
+        clearTimeout(timeout);
+        socket.emit('cancel_query', { requestId });
+        reject(new Error('Query cancelled'));
+      };
+
       // Set timeout for socket response
       const timeout = setTimeout(() => {
-        reject(new Error('Socket response timeout'));
+        signal.removeEventListener('abort', handleAbort);
+        reject(new TimeoutError('Socket response timeout'));
       }, this.connectionOptions.timeout);
+
+      if (signal.aborted) {
+        handleAbort();
+        return;
+      }
+      signal.addEventListener('abort', handleAbort);
       
       // Emit query to socket
-      this.socket.emit('process_query', { query }, (response: any) => {
+      socket.emit('process_query', { query, requestId, ...getQueryOptions() }, (response: any) => {
         clearTimeout(timeout);
+        signal.removeEventListener('abort', handleAbort);
+        // Late acknowledgements for cancelled queries are ignored
+        if (signal.aborted) return;
         
         if (response.error) {
           reject(new Error(response.error));
         } else {
-          resolve(response.result);
+          resolve(validateMCPResponse(response.result));
         }
       });
     });
@@ -376,18 +1080,20 @@ export class MCPService {
   /**
    * Process a query via REST API
    * @param query The query to process
+   * @param requestId Id sent with the query
+   * @param signal Abort signal for cancellation
    * @returns MCP response
    */
-  private async processQueryViaREST(query: string): Promise<MCPResponse> {
+  private async processQueryViaREST(query: string, requestId: string, signal: AbortSignal): Promise<MCPResponse> {
     try {
       // Get token for authentication
-      const token = await AsyncStorage.getItem('access_token');
+      const token = await authService.getValidAccessToken();
       if (!token) {
-        throw new Error('No authentication token available');
+        throw new AuthenticationError('No authentication token available', { code: 'NOT_AUTHENTICATED' });
       }
 
       // Make REST API call
-      const response = await fetch(`${API_URL}/mcp/query`, {
+      const response = await fetch(`${settingsStore.getApiUrl()}/mcp/query`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -395,39 +1101,40 @@ export class MCPService {
         },
         body: JSON.stringify({
           query,
+          requestId,
+          ...getQueryOptions(),
           format: 'structured' // Request structured response format
-        })
+        }),
+        signal
       });
 
       // Handle errors
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        const errorMessage = errorData.error || errorData.message || `Query failed with status ${response.status}`;
-        
-        throw new Error(errorMessage);
+        throw fromHttpStatus(response.status, errorData, `Query failed with status ${response.status}`);
       }
 
       // Parse and return response
       const data = await response.json();
-      return data.result;
+      return validateMCPResponse(data.result);
     } catch (error) {
+      // Aborted fetches reject with an AbortError
+      if (signal.aborted) {
+        return createCancelledResponse();
+      }
+
       console.error('[MCP] REST API query error:', error);
       
       // Handle network errors
-      if (error instanceof TypeError && error.message.includes('Network request failed')) {
-        return {
-          type: 'error',
-          content: `Cannot connect to MCP API at ${API_URL}. Please check your network connection.`,
-          code: 'NETWORK_ERROR'
-        };
+      if (isNetworkFailure(error)) {
+        return toMCPErrorResponse(
+          new NetworkError(`Cannot connect to MCP API at ${settingsStore.getProxyUrl()}. Please check your network connection.`),
+          { code: 'NETWORK_ERROR', message: 'Network error' }
+        );
       }
       
       // Return error response
-      return {
-        type: 'error',
-        content: error instanceof Error ? error.message : 'Failed to process query via REST API',
-        code: 'REST_API_ERROR'
-      };
+      return toMCPErrorResponse(error, { code: 'REST_API_ERROR', message: 'Failed to process query via REST API' });
     }
   }
 }
@@ -0,0 +1,1084 @@
+import { authService } from './authService';
+import { ServerError } from './errors';
+
+// Dashboard data models consumed by the module charts and tables
+
+export interface SalesMonthDetail {
+  month: string;
+  start: string; // Odoo datetime of the first day of the month
+  end: string; // Odoo datetime of the first day of the next month
+  revenue: number;
+  orders: number;
+  growth: number;
+}
+
+export interface SalesData {
+  monthlySales: {
+    labels: string[];
+    data: number[]; // Revenue per month in thousands
+    totalRevenue: number;
+    yearGrowth: number;
+    currentMonth: string;
+    currentValue: number;
+  };
+  monthlyDetails: SalesMonthDetail[];
+}
+
+export interface InventoryCategoryLevel {
+  category: string;
+  level: number; // Share of products above their reorder point (0-1)
+  total: number;
+  warning: number;
+  critical: number;
+}
+
+export type StockStatus = 'Good' | 'Low' | 'Critical' | 'Out';
+
+export interface InventoryItem {
+  id: number;
+  name: string;
+  category: string;
+  stock: number;
+  status: StockStatus;
+  reorder: number;
+}
+
+export interface InventoryData {
+  summary: {
+    totalProducts: number;
+    lowStock: number;
+    outOfStock: number;
+    incomingShipments: number;
+  };
+  stockLevels: {
+    categories: string[];
+    values: number[];
+    details: InventoryCategoryLevel[];
+  };
+  itemsData: InventoryItem[];
+}
+
+export interface CustomerSegment {
+  name: string;
+  percentage: number;
+}
+
+export interface CustomerSegmentDetail {
+  segment: string;
+  industryIds: Array<number | null>; // Industries in the segment; null stands for customers without one
+  count: number;
+  revenue: number;
+  growth: number;
+  avgValue: number;
+}
+
+export interface ReorderResult {
+  reordered: number[]; // Products whose reordering rules were replenished
+  skipped: number[]; // Products without a reordering rule
+}
+
+export interface CustomerEmail {
+  subject: string;
+  body: string;
+}
+
+// A record a dashboard can be filtered by
+export interface FilterOption {
+  id: number;
+  name: string;
+}
+
+// Filters of each dashboard; a missing field does not filter
+export interface SalesFilters {
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string; // YYYY-MM-DD, inclusive
+  salesperson?: FilterOption;
+}
+
+export interface InventoryFilters {
+  warehouse?: FilterOption;
+  category?: FilterOption;
+  status?: StockStatus;
+}
+
+export interface CustomersFilters {
+  segment?: FilterOption; // Industry
+  country?: FilterOption;
+}
+
+// Choices offered by the filter sheet of each dashboard
+export interface SalesFilterOptions {
+  salespeople: FilterOption[];
+}
+
+export interface InventoryFilterOptions {
+  warehouses: FilterOption[];
+  categories: FilterOption[];
+}
+
+export interface CustomersFilterOptions {
+  segments: FilterOption[];
+  countries: FilterOption[];
+}
+
+// Records that open in the detail view
+export type RecordModel = 'sale.order' | 'product.product' | 'res.partner';
+
+// One record in a list leading to the detail view
+export interface RecordSummary {
+  model: RecordModel;
+  id: number;
+  name: string;
+  description: string;
+}
+
+export interface RecordField {
+  label: string;
+  value: string;
+}
+
+export interface RecordLine {
+  id: number;
+  name: string;
+  description: string;
+  value: string;
+}
+
+export interface RecordDetail {
+  model: RecordModel;
+  id: number;
+  kind: string; // What the record is, e.g. "Sale order"
+  name: string;
+  fields: RecordField[];
+  linesTitle: string;
+  lines: RecordLine[];
+}
+
+export interface CustomersData {
+  summary: {
+    totalCustomers: number;
+    newThisMonth: number;
+    activeCustomers: number;
+    retentionRate: number;
+    lifetimeValue: number;
+  };
+  customerSegments: CustomerSegment[];
+  detailedData: CustomerSegmentDetail[];
+}
+
+// Odoo domain filters are lists of [field, operator, value] triplets
+type OdooDomain = Array<[string, string, any] | string>;
+
+type ApiClient = ReturnType<typeof authService.createApiClient>;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Number of product categories / customer segments shown before grouping the rest as "Other"
+const MAX_CATEGORIES = 4;
+const MAX_SEGMENTS = 3;
+const INVENTORY_ITEMS_LIMIT = 50;
+const RECORD_LIST_LIMIT = 50;
+// Longest sales series a date range can produce
+const MAX_SALES_MONTHS = 24;
+const RECORD_LINES_LIMIT = 20;
+
+// Sale order states that count as confirmed revenue
+const CONFIRMED_SALE_STATES = ['sale', 'done'];
+
+/**
+ * Formats a date as an Odoo datetime string (UTC, "YYYY-MM-DD HH:MM:SS")
+ */
+const toOdooDate = (date: Date): string => {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+};
+
+/**
+ * Reads a YYYY-MM-DD filter date as local midnight
+ */
+const parseFilterDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * The proxy may wrap RPC results in a { result } envelope
+ */
+const unwrap = <T>(response: any): T => {
+  if (response && typeof response === 'object' && !Array.isArray(response) && 'result' in response) {
+    return response.result as T;
+  }
+  return response as T;
+};
+
+const readGroup = async (
+  client: ApiClient,
+  model: string,
+  domain: OdooDomain,
+  fields: string[],
+  groupby: string[],
+  context?: Record<string, any>
+): Promise<any[]> => {
+  const response = await client.callOdooMethod(model, 'read_group', [domain, fields, groupby], {
+    lazy: false,
+    ...(context && { context }),
+  });
+  return unwrap<any[]>(response) || [];
+};
+
+const searchCount = async (
+  client: ApiClient,
+  model: string,
+  domain: OdooDomain,
+  context?: Record<string, any>
+): Promise<number> => {
+  const response = await client.callOdooMethod(model, 'search_count', [domain], context && { context });
+  return Number(unwrap<number>(response)) || 0;
+};
+
+const searchRead = async (
+  client: ApiClient,
+  model: string,
+  domain: OdooDomain,
+  fields: string[],
+  kwargs: Record<string, any> = {}
+): Promise<any[]> => {
+  const response = await client.callOdooMethod(model, 'search_read', [domain], { fields, ...kwargs });
+  return unwrap<any[]>(response) || [];
+};
+
+/**
+ * Returns the display name of a many2one value ([id, name] or false)
+ */
+const many2oneName = (value: any, fallback: string): string => {
+  return Array.isArray(value) && value.length > 1 ? String(value[1]) : fallback;
+};
+
+/**
+ * Count of records in a read_group bucket (key differs between Odoo versions)
+ */
+const groupCount = (group: any, groupField?: string): number => {
+  if (typeof group.__count === 'number') return group.__count;
+  if (groupField && typeof group[`${groupField}_count`] === 'number') return group[`${groupField}_count`];
+  return 0;
+};
+
+/**
+ * Filter options from the many2one values of read_group buckets, skipping the empty bucket
+ */
+const groupOptions = (groups: any[], field: string): FilterOption[] =>
+  groups
+    .filter(group => Array.isArray(group[field]))
+    .map(group => ({ id: group[field][0], name: String(group[field][1]) }));
+
+/**
+ * Escapes plain text for an Odoo HTML field, keeping line breaks
+ */
+const textToHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br/>');
+
+const toMonthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Month ("YYYY-MM") of a read_group group on `<field>:month`.
+ * Labels follow the user's language, so the group's range or domain start is used first;
+ * the English label is only a fallback for servers sending neither.
+ */
+const getGroupMonth = (group: any, field: string): string | null => {
+  const groupField = `${field}:month`;
+  const range = group.__range?.[groupField] || group.__range?.[field];
+  // The group domain also holds the query's own lower bound, which is never later than the month
+  const domainStart = (Array.isArray(group.__domain) ? group.__domain : [])
+    .filter((clause: any) => Array.isArray(clause) && clause[0] === field && clause[1] === '>=')
+    .map((clause: any[]) => String(clause[2]))
+    .sort()
+    .pop();
+  const start = range?.from || domainStart;
+  if (typeof start === 'string' && /^\d{4}-\d{2}/.test(start)) {
+    return start.slice(0, 7);
+  }
+
+  const [monthName, year] = String(group[groupField] || group[field] || '').split(' ');
+  const month = MONTH_NAMES.indexOf(monthName);
+  return month !== -1 && /^\d{4}$/.test(year) ? `${year}-${String(month + 1).padStart(2, '0')}` : null;
+};
+
+const percentChange = (current: number, previous: number): number => {
+  if (!previous) return 0;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+};
+
+/**
+ * Aggregates monthly sale.order groups into the sales dashboard model
+ * @param groups read_group result grouped by date_order:month over the window
+ * @param previousYearRevenue Revenue of the same number of months before the window, used for growth
+ * @param now Reference date; the window ends with its month
+ * @param months Length of the window
+ */
+export const buildSalesData = (
+  groups: any[],
+  previousYearRevenue: number,
+  now: Date = new Date(),
+  months: number = 12
+): SalesData => {
+  // Index groups by "YYYY-MM"
+  const byMonth = new Map<string, { revenue: number; orders: number }>();
+  for (const group of groups) {
+    const key = getGroupMonth(group, 'date_order');
+    if (!key) continue;
+    byMonth.set(key, {
+      revenue: Number(group.amount_total) || 0,
+      orders: groupCount(group, 'date_order'),
+    });
+  }
+
+  const monthlyDetails: SalesMonthDetail[] = [];
+  for (let offset = months - 1; offset >= 0; offset--) {
+    const date = new Date(now.getFullYear(), now.getMonth() - offset, 1);
+    const monthName = MONTH_NAMES[date.getMonth()];
+    const bucket = byMonth.get(toMonthKey(date)) || { revenue: 0, orders: 0 };
+    const previous = monthlyDetails[monthlyDetails.length - 1];
+
+    monthlyDetails.push({
+      month: monthName,
+      start: toOdooDate(date),
+      end: toOdooDate(new Date(date.getFullYear(), date.getMonth() + 1, 1)),
+      revenue: bucket.revenue,
+      orders: bucket.orders,
+      growth: previous ? percentChange(bucket.revenue, previous.revenue) : 0,
+    });
+  }
+
+  const totalRevenue = monthlyDetails.reduce((sum, detail) => sum + detail.revenue, 0);
+  const current = monthlyDetails[monthlyDetails.length - 1];
+
+  return {
+    monthlySales: {
+      labels: monthlyDetails.map(detail => detail.month.slice(0, 3)),
+      data: monthlyDetails.map(detail => Math.round(detail.revenue / 1000)),
+      totalRevenue,
+      yearGrowth: percentChange(totalRevenue, previousYearRevenue),
+      currentMonth: current.month,
+      currentValue: current.revenue,
+    },
+    monthlyDetails,
+  };
+};
+
+/**
+ * Derives a stock status from on-hand quantity and reorder point
+ */
+export const getStockStatus = (stock: number, reorder: number): StockStatus => {
+  if (stock <= 0) return 'Out';
+  if (reorder > 0 && stock < reorder / 2) return 'Critical';
+  if (reorder > 0 && stock < reorder) return 'Low';
+  return 'Good';
+};
+
+/**
+ * Aggregates stock records and counts into the inventory dashboard model.
+ * Counts cover every product; the records are the ones that need attention,
+ * plus a sample of products in stock when only those are listed.
+ * @param status Only list the products in this stock status
+ */
+export const buildInventoryData = (input: {
+  products: any[]; // product.product records with qty_available, reordering_min_qty and categ_id
+  categoryGroups: any[]; // Products grouped by categ_id
+  outOfStockGroups: any[]; // Products out of stock grouped by categ_id
+  totalProducts: number;
+  incomingShipments: number;
+}, status?: StockStatus): InventoryData => {
+  const { products, categoryGroups, outOfStockGroups, totalProducts, incomingShipments } = input;
+
+  // The same product can be read by several queries
+  const itemsById = new Map<number, InventoryItem>();
+  for (const product of products) {
+    const stock = Number(product.qty_available) || 0;
+    const reorder = Number(product.reordering_min_qty) || 0;
+    itemsById.set(product.id, {
+      id: product.id,
+      name: product.display_name || product.name,
+      category: many2oneName(product.categ_id, 'Uncategorized'),
+      stock,
+      status: getStockStatus(stock, reorder),
+      reorder,
+    });
+  }
+  const allItems = Array.from(itemsById.values());
+  // Products below their reorder point are all read, so they can be counted here
+  const belowReorder = allItems.filter(item => item.status === 'Low' || item.status === 'Critical');
+  // The status is derived here, so it cannot be part of the query
+  const itemsData = status
+    ? allItems.filter(item => item.status === status)
+    : allItems.filter(item => item.status !== 'Good');
+
+  // Stock health per category: out of stock and critical products count as critical, low ones as warnings
+  const outOfStockByCategory = new Map(
+    outOfStockGroups.map(group => [many2oneName(group.categ_id, 'Uncategorized'), Number(group.__count) || 0])
+  );
+  const details: InventoryCategoryLevel[] = categoryGroups
+    .map(group => {
+      const category = many2oneName(group.categ_id, 'Uncategorized');
+      const total = Number(group.__count) || 0;
+      const warning = belowReorder.filter(item => item.category === category && item.status === 'Low').length;
+      const critical = (outOfStockByCategory.get(category) || 0)
+        + belowReorder.filter(item => item.category === category && item.status === 'Critical').length;
+      return {
+        category,
+        total,
+        warning,
+        critical,
+        level: total ? Math.max(0, total - warning - critical) / total : 0,
+      };
+    })
+    .sort((a, b) => b.total - a.total)
+    .slice(0, MAX_CATEGORIES);
+
+  return {
+    summary: {
+      totalProducts,
+      lowStock: belowReorder.length,
+      outOfStock: outOfStockGroups.reduce((sum, group) => sum + (Number(group.__count) || 0), 0),
+      incomingShipments,
+    },
+    stockLevels: {
+      categories: details.map(detail => detail.category),
+      values: details.map(detail => detail.level),
+      details,
+    },
+    // Surface the products that need attention first
+    itemsData: itemsData.sort((a, b) => (a.stock - a.reorder) - (b.stock - b.reorder)),
+  };
+};
+
+/**
+ * Aggregates partner and revenue groups (by industry) into the customers dashboard model
+ */
+export const buildCustomersData = (input: {
+  partnerGroups: any[];
+  revenueGroups: any[];
+  previousRevenueGroups: any[];
+  totalCustomers: number;
+  newThisMonth: number;
+  activeCustomers: number;
+}): CustomersData => {
+  const segmentName = (group: any) => many2oneName(group.industry_id, 'Other');
+  const industryId = (group: any): number | null => (Array.isArray(group.industry_id) ? group.industry_id[0] : null);
+
+  const revenueBySegment = new Map<string, number>();
+  for (const group of input.revenueGroups) {
+    revenueBySegment.set(segmentName(group), Number(group.price_total) || 0);
+  }
+  const previousRevenueBySegment = new Map<string, number>();
+  for (const group of input.previousRevenueGroups) {
+    previousRevenueBySegment.set(segmentName(group), Number(group.price_total) || 0);
+  }
+
+  const segments = input.partnerGroups
+    .map(group => {
+      const name = segmentName(group);
+      return {
+        segment: name,
+        industryIds: [industryId(group)],
+        count: groupCount(group, 'industry_id'),
+        revenue: revenueBySegment.get(name) || 0,
+        previousRevenue: previousRevenueBySegment.get(name) || 0,
+      };
+    })
+    .sort((a, b) => b.revenue - a.revenue || b.count - a.count);
+
+  // Keep the largest segments and fold the rest into "Other"
+  const top = segments.filter(segment => segment.segment !== 'Other').slice(0, MAX_SEGMENTS);
+  const rest = segments.filter(segment => !top.includes(segment));
+  if (rest.length > 0) {
+    top.push(rest.reduce(
+      (other, segment) => ({
+        segment: 'Other',
+        industryIds: [...other.industryIds, ...segment.industryIds],
+        count: other.count + segment.count,
+        revenue: other.revenue + segment.revenue,
+        previousRevenue: other.previousRevenue + segment.previousRevenue,
+      }),
+      { segment: 'Other', industryIds: [] as Array<number | null>, count: 0, revenue: 0, previousRevenue: 0 }
+    ));
+  }
+
+  const segmentedCustomers = top.reduce((sum, segment) => sum + segment.count, 0);
+  const totalRevenue = top.reduce((sum, segment) => sum + segment.revenue, 0);
+
+  const detailedData: CustomerSegmentDetail[] = top.map(segment => ({
+    segment: segment.segment,
+    industryIds: segment.industryIds,
+    count: segment.count,
+    revenue: segment.revenue,
+    growth: percentChange(segment.revenue, segment.previousRevenue),
+    avgValue: segment.count ? Math.round(segment.revenue / segment.count) : 0,
+  }));
+
+  return {
+    summary: {
+      totalCustomers: input.totalCustomers,
+      newThisMonth: input.newThisMonth,
+      activeCustomers: input.activeCustomers,
+      retentionRate: input.totalCustomers
+        ? Math.round((input.activeCustomers / input.totalCustomers) * 1000) / 10
+        : 0,
+      lifetimeValue: input.totalCustomers ? Math.round(totalRevenue / input.totalCustomers) : 0,
+    },
+    customerSegments: detailedData.map(detail => ({
+      name: detail.segment,
+      percentage: segmentedCustomers ? Math.round((detail.count / segmentedCustomers) * 100) : 0,
+    })),
+    detailedData,
+  };
+};
+
+/**
+ * Domain matching the partners of some customer segments
+ */
+const segmentDomain = (segments: CustomerSegmentDetail[]): OdooDomain => {
+  const industryIds = segments.flatMap(segment => segment.industryIds);
+  const ids = industryIds.filter((id): id is number => id !== null);
+  if (!industryIds.includes(null)) {
+    return [['industry_id', 'in', ids]];
+  }
+  return ids.length > 0
+    ? ['|', ['industry_id', 'in', ids], ['industry_id', '=', false]]
+    : [['industry_id', '=', false]];
+};
+
+// Customers of some segments that can receive an email
+const segmentRecipientsDomain = (segments: CustomerSegmentDetail[]): OdooDomain => [
+  ['customer_rank', '>', 0],
+  ['email', '!=', false],
+  ...segmentDomain(segments),
+];
+
+const SALE_STATE_LABELS: Record<string, string> = {
+  draft: 'Quotation',
+  sent: 'Quotation sent',
+  sale: 'Sales order',
+  done: 'Locked',
+  cancel: 'Cancelled',
+};
+
+const MOVE_STATE_LABELS: Record<string, string> = {
+  draft: 'New',
+  waiting: 'Waiting',
+  confirmed: 'Waiting',
+  partially_available: 'Partially available',
+  assigned: 'Ready',
+  done: 'Done',
+  cancel: 'Cancelled',
+};
+
+/**
+ * Formats an amount with the currency name of a many2one currency_id
+ */
+const formatAmount = (amount: any, currency?: any): string => {
+  const value = (Number(amount) || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const name = many2oneName(currency, '');
+  return name ? `${value} ${name}` : value;
+};
+
+const formatQuantity = (quantity: any): string => (Number(quantity) || 0).toLocaleString('en-US');
+
+// Odoo returns false for empty fields
+const displayText = (value: any, fallback = '—'): string =>
+  value === false || value == null || value === '' ? fallback : String(value);
+
+const dateOf = (value: any): string => displayText(typeof value === 'string' ? value.slice(0, 10) : value);
+
+interface RecordDefinition {
+  kind: string;
+  fields: string[];
+  describe: (record: any) => RecordField[];
+  lines: {
+    title: string;
+    model: string;
+    domain: (id: number) => OdooDomain;
+    fields: string[];
+    order: string;
+    toLine: (line: any) => RecordLine;
+  };
+}
+
+// What the detail view reads for each model, and the related lines shown under the fields
+const RECORD_DEFINITIONS: Record<RecordModel, RecordDefinition> = {
+  'sale.order': {
+    kind: 'Sale order',
+    fields: ['name', 'partner_id', 'date_order', 'state', 'user_id', 'amount_untaxed', 'amount_tax', 'amount_total', 'currency_id'],
+    describe: order => [
+      { label: 'Customer', value: many2oneName(order.partner_id, '—') },
+      { label: 'Date', value: dateOf(order.date_order) },
+      { label: 'Status', value: SALE_STATE_LABELS[order.state] || displayText(order.state) },
+      { label: 'Salesperson', value: many2oneName(order.user_id, '—') },
+      { label: 'Untaxed', value: formatAmount(order.amount_untaxed, order.currency_id) },
+      { label: 'Taxes', value: formatAmount(order.amount_tax, order.currency_id) },
+      { label: 'Total', value: formatAmount(order.amount_total, order.currency_id) },
+    ],
+    lines: {
+      title: 'Order lines',
+      model: 'sale.order.line',
+      domain: id => [['order_id', '=', id]],
+      fields: ['name', 'product_uom_qty', 'price_unit', 'price_subtotal', 'currency_id'],
+      order: 'sequence asc, id asc',
+      toLine: line => ({
+        id: line.id,
+        name: displayText(line.name),
+        description: `${formatQuantity(line.product_uom_qty)} × ${formatAmount(line.price_unit)}`,
+        value: formatAmount(line.price_subtotal, line.currency_id),
+      }),
+    },
+  },
+  'product.product': {
+    kind: 'Product',
+    fields: [
+      'display_name', 'default_code', 'categ_id', 'list_price', 'standard_price',
+      'qty_available', 'virtual_available', 'reordering_min_qty',
+    ],
+    describe: product => [
+      { label: 'Reference', value: displayText(product.default_code) },
+      { label: 'Category', value: many2oneName(product.categ_id, 'Uncategorized') },
+      { label: 'Sales price', value: formatAmount(product.list_price) },
+      { label: 'Cost', value: formatAmount(product.standard_price) },
+      { label: 'On hand', value: formatQuantity(product.qty_available) },
+      { label: 'Forecasted', value: formatQuantity(product.virtual_available) },
+      { label: 'Reorder point', value: formatQuantity(product.reordering_min_qty) },
+    ],
+    lines: {
+      title: 'Recent stock moves',
+      model: 'stock.move',
+      domain: id => [['product_id', '=', id]],
+      fields: ['reference', 'date', 'state', 'product_uom_qty', 'location_id', 'location_dest_id'],
+      order: 'date desc',
+      toLine: move => ({
+        id: move.id,
+        name: displayText(move.reference, 'Stock move'),
+        description: `${dateOf(move.date)} · ${many2oneName(move.location_id, '?')} → ${many2oneName(move.location_dest_id, '?')}`,
+        value: `${formatQuantity(move.product_uom_qty)} · ${MOVE_STATE_LABELS[move.state] || displayText(move.state)}`,
+      }),
+    },
+  },
+  'res.partner': {
+    kind: 'Customer',
+    fields: ['display_name', 'email', 'phone', 'city', 'country_id', 'industry_id', 'user_id'],
+    describe: partner => [
+      { label: 'Email', value: displayText(partner.email) },
+      { label: 'Phone', value: displayText(partner.phone) },
+      { label: 'City', value: displayText(partner.city) },
+      { label: 'Country', value: many2oneName(partner.country_id, '—') },
+      { label: 'Industry', value: many2oneName(partner.industry_id, '—') },
+      { label: 'Salesperson', value: many2oneName(partner.user_id, '—') },
+    ],
+    lines: {
+      title: 'Recent orders',
+      model: 'sale.order',
+      domain: id => [['partner_id', 'child_of', id]],
+      fields: ['name', 'date_order', 'state', 'amount_total', 'currency_id'],
+      order: 'date_order desc',
+      toLine: order => ({
+        id: order.id,
+        name: displayText(order.name),
+        description: `${dateOf(order.date_order)} · ${SALE_STATE_LABELS[order.state] || displayText(order.state)}`,
+        value: formatAmount(order.amount_total, order.currency_id),
+      }),
+    },
+  },
+};
+
+/**
+ * Builds the detail view model of a record and its related lines
+ * @param record Result of reading the fields of RECORD_DEFINITIONS[model]
+ * @param lines Related records read with the definition's lines fields
+ */
+export const buildRecordDetail = (model: RecordModel, record: any, lines: any[]): RecordDetail => {
+  const definition = RECORD_DEFINITIONS[model];
+  return {
+    model,
+    id: record.id,
+    kind: definition.kind,
+    name: displayText(record.display_name || record.name, `${definition.kind} #${record.id}`),
+    fields: definition.describe(record),
+    linesTitle: definition.lines.title,
+    lines: lines.map(definition.lines.toLine),
+  };
+};
+
+/**
+ * Dashboard data provider backed by the Odoo proxy
+ * Fetches and aggregates sale.order, product.product/stock and res.partner data
+ */
+export const odooDataService = {
+  /**
+   * Loads monthly revenue and order counts, for the last 12 months unless a date range is set
+   * @returns Sales dashboard data
+   */
+  getSalesData: async (filters: SalesFilters = {}): Promise<SalesData> => {
+    const client = authService.createApiClient();
+    const now = new Date();
+    const periodEnd = filters.dateTo ? parseFilterDate(filters.dateTo) : now;
+    const from = filters.dateFrom ? parseFilterDate(filters.dateFrom) : null;
+
+    // One point per month of the range, within the chart's limit
+    const rangeMonths = from
+      ? (periodEnd.getFullYear() - from.getFullYear()) * 12 + periodEnd.getMonth() - from.getMonth() + 1
+      : 12;
+    const months = Math.min(Math.max(rangeMonths, 1), MAX_SALES_MONTHS);
+    const windowStart = new Date(periodEnd.getFullYear(), periodEnd.getMonth() - months + 1, 1);
+    const periodStart = from && from > windowStart ? from : windowStart;
+    const previousStart = new Date(periodStart.getFullYear(), periodStart.getMonth() - months, periodStart.getDate());
+
+    const baseDomain: OdooDomain = [['state', 'in', CONFIRMED_SALE_STATES]];
+    if (filters.salesperson) {
+      baseDomain.push(['user_id', '=', filters.salesperson.id]);
+    }
+    const periodDomain: OdooDomain = [...baseDomain, ['date_order', '>=', toOdooDate(periodStart)]];
+    if (filters.dateTo) {
+      const dayAfter = new Date(periodEnd.getFullYear(), periodEnd.getMonth(), periodEnd.getDate() + 1);
+      periodDomain.push(['date_order', '<', toOdooDate(dayAfter)]);
+    }
+
+    const [groups, previousGroups] = await Promise.all([
+      // English month labels, for proxies that do not return the group ranges
+      readGroup(client, 'sale.order', periodDomain, ['amount_total:sum'], ['date_order:month'], { lang: 'en_US' }),
+      readGroup(
+        client,
+        'sale.order',
+        [
+          ...baseDomain,
+          ['date_order', '>=', toOdooDate(previousStart)],
+          ['date_order', '<', toOdooDate(periodStart)],
+        ],
+        ['amount_total:sum'],
+        []
+      ),
+    ]);
+
+    const previousYearRevenue = previousGroups.reduce((sum, group) => sum + (Number(group.amount_total) || 0), 0);
+    return buildSalesData(groups, previousYearRevenue, periodEnd, months);
+  },
+
+  /**
+   * Loads stock levels for storable products and pending receipts
+   * @param filters Quantities are those of the warehouse when one is set
+   * @returns Inventory dashboard data
+   */
+  getInventoryData: async (filters: InventoryFilters = {}): Promise<InventoryData> => {
+    const client = authService.createApiClient();
+    const productDomain: OdooDomain = [['type', '=', 'product']];
+    if (filters.category) {
+      productDomain.push(['categ_id', 'child_of', filters.category.id]);
+    }
+    const receiptDomain: OdooDomain = [
+      ['picking_type_code', '=', 'incoming'],
+      ['state', 'not in', ['done', 'cancel']],
+    ];
+    if (filters.warehouse) {
+      receiptDomain.push(['picking_type_id.warehouse_id', '=', filters.warehouse.id]);
+    }
+    // Quantities, and searches on them, are those of the warehouse when one is set
+    const context = filters.warehouse && { warehouse: filters.warehouse.id };
+    const fields = ['display_name', 'categ_id', 'qty_available', 'reordering_min_qty'];
+    const outOfStockDomain: OdooDomain = [...productDomain, ['qty_available', '<=', 0]];
+    // Reorder points differ per product, so every product in stock that has one is compared locally
+    const reorderDomain: OdooDomain = [...productDomain, ['orderpoint_ids', '!=', false], ['qty_available', '>', 0]];
+
+    const [
+      outOfStockProducts,
+      reorderProducts,
+      inStockProducts,
+      categoryGroups,
+      outOfStockGroups,
+      totalProducts,
+      incomingShipments,
+    ] = await Promise.all([
+      searchRead(client, 'product.product', outOfStockDomain, fields, {
+        limit: INVENTORY_ITEMS_LIMIT,
+        ...(context && { context }),
+      }),
+      searchRead(client, 'product.product', reorderDomain, fields, context && { context }),
+      // Products in good stock are only listed when asked for
+      filters.status === 'Good'
+        ? searchRead(client, 'product.product', [...productDomain, ['qty_available', '>', 0]], fields, {
+          limit: INVENTORY_ITEMS_LIMIT,
+          ...(context && { context }),
+        })
+        : Promise.resolve([]),
+      readGroup(client, 'product.product', productDomain, ['categ_id'], ['categ_id']),
+      readGroup(client, 'product.product', outOfStockDomain, ['categ_id'], ['categ_id'], context),
+      searchCount(client, 'product.product', productDomain),
+      searchCount(client, 'stock.picking', receiptDomain),
+    ]);
+
+    return buildInventoryData({
+      products: [...outOfStockProducts, ...reorderProducts, ...inStockProducts],
+      categoryGroups,
+      outOfStockGroups,
+      totalProducts,
+      incomingShipments,
+    }, filters.status);
+  },
+
+  /**
+   * Loads customer counts and revenue per industry segment
+   * @returns Customers dashboard data
+   */
+  getCustomersData: async (filters: CustomersFilters = {}): Promise<CustomersData> => {
+    const client = authService.createApiClient();
+    const now = new Date();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const yearStart = new Date(now.getFullYear() - 1, now.getMonth(), now.getDate());
+    const previousYearStart = new Date(now.getFullYear() - 2, now.getMonth(), now.getDate());
+    const confirmed: [string, string, any] = ['state', 'in', CONFIRMED_SALE_STATES];
+
+    // Partner fields filtered on, as seen from partners, the sales report and orders
+    const partnerFilters: Array<[string, number]> = [];
+    if (filters.segment) partnerFilters.push(['industry_id', filters.segment.id]);
+    if (filters.country) partnerFilters.push(['country_id', filters.country.id]);
+    const customerDomain: OdooDomain = [
+      ['customer_rank', '>', 0],
+      ...partnerFilters.map(([field, id]): [string, string, any] => [field, '=', id]),
+    ];
+    const reportDomain: OdooDomain = [
+      confirmed,
+      ...partnerFilters.map(([field, id]): [string, string, any] => [field, '=', id]),
+    ];
+    const orderDomain: OdooDomain = [
+      confirmed,
+      ...partnerFilters.map(([field, id]): [string, string, any] => [`partner_id.${field}`, '=', id]),
+    ];
+
+    const [partnerGroups, revenueGroups, previousRevenueGroups, totalCustomers, newThisMonth, activeGroups] =
+      await Promise.all([
+        readGroup(client, 'res.partner', customerDomain, ['industry_id'], ['industry_id']),
+        readGroup(
+          client,
+          'sale.report',
+          [...reportDomain, ['date', '>=', toOdooDate(yearStart)]],
+          ['price_total:sum'],
+          ['industry_id']
+        ),
+        readGroup(
+          client,
+          'sale.report',
+          [...reportDomain, ['date', '>=', toOdooDate(previousYearStart)], ['date', '<', toOdooDate(yearStart)]],
+          ['price_total:sum'],
+          ['industry_id']
+        ),
+        searchCount(client, 'res.partner', customerDomain),
+        searchCount(client, 'res.partner', [...customerDomain, ['create_date', '>=', toOdooDate(monthStart)]]),
+        readGroup(
+          client,
+          'sale.order',
+          [...orderDomain, ['date_order', '>=', toOdooDate(yearStart)]],
+          ['partner_id'],
+          ['partner_id']
+        ),
+      ]);
+
+    return buildCustomersData({
+      partnerGroups,
+      revenueGroups,
+      previousRevenueGroups,
+      totalCustomers,
+      newThisMonth,
+      // One group per distinct customer with a confirmed order this year
+      activeCustomers: activeGroups.length,
+    });
+  },
+
+  /**
+   * Salespeople with confirmed orders
+   */
+  getSalesFilterOptions: async (): Promise<SalesFilterOptions> => {
+    const client = authService.createApiClient();
+    const groups = await readGroup(client, 'sale.order', [['state', 'in', CONFIRMED_SALE_STATES]], ['user_id'], ['user_id']);
+    return { salespeople: groupOptions(groups, 'user_id') };
+  },
+
+  /**
+   * Warehouses and product categories
+   */
+  getInventoryFilterOptions: async (): Promise<InventoryFilterOptions> => {
+    const client = authService.createApiClient();
+    const [warehouses, categories] = await Promise.all([
+      searchRead(client, 'stock.warehouse', [], ['name'], { order: 'name asc' }),
+      searchRead(client, 'product.category', [], ['complete_name'], { order: 'complete_name asc' }),
+    ]);
+    return {
+      warehouses: warehouses.map(warehouse => ({ id: warehouse.id, name: displayText(warehouse.name) })),
+      categories: categories.map(category => ({ id: category.id, name: displayText(category.complete_name) })),
+    };
+  },
+
+  /**
+   * Industries and the countries customers are in
+   */
+  getCustomersFilterOptions: async (): Promise<CustomersFilterOptions> => {
+    const client = authService.createApiClient();
+    const [industries, countryGroups] = await Promise.all([
+      searchRead(client, 'res.partner.industry', [], ['name'], { order: 'name asc' }),
+      readGroup(client, 'res.partner', [['customer_rank', '>', 0]], ['country_id'], ['country_id']),
+    ]);
+    return {
+      segments: industries.map(industry => ({ id: industry.id, name: displayText(industry.name) })),
+      countries: groupOptions(countryGroups, 'country_id').sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  },
+
+  /**
+   * Replenishes products through their reordering rules, as the Replenishment report does
+   * @param productIds product.product ids
+   * @returns Products reordered and products skipped for lack of a rule
+   */
+  reorderProducts: async (productIds: number[]): Promise<ReorderResult> => {
+    const client = authService.createApiClient();
+    const orderpoints = await searchRead(
+      client,
+      'stock.warehouse.orderpoint',
+      [['product_id', 'in', productIds]],
+      ['product_id']
+    );
+
+    if (orderpoints.length > 0) {
+      await client.callOdooMethod('stock.warehouse.orderpoint', 'action_replenish', [
+        orderpoints.map(orderpoint => orderpoint.id),
+      ]);
+    }
+
+    const withRule = new Set(orderpoints.map(orderpoint => orderpoint.product_id?.[0]));
+    return {
+      reordered: productIds.filter(id => withRule.has(id)),
+      skipped: productIds.filter(id => !withRule.has(id)),
+    };
+  },
+
+  /**
+   * Counts the customers of some segments that have an email address
+   * @param segments Segments from the customers dashboard
+   */
+  countSegmentRecipients: async (segments: CustomerSegmentDetail[]): Promise<number> => {
+    const client = authService.createApiClient();
+    return searchCount(client, 'res.partner', segmentRecipientsDomain(segments));
+  },
+
+  /**
+   * Mass-mails every customer of some segments through the Odoo mail composer
+   * @param segments Segments from the customers dashboard
+   * @param email Subject and plain-text message
+   * @returns Number of customers emailed
+   */
+  emailCustomerSegments: async (segments: CustomerSegmentDetail[], email: CustomerEmail): Promise<number> => {
+    const client = authService.createApiClient();
+    const partnerIds = unwrap<number[]>(await client.callOdooMethod('res.partner', 'search', [
+      segmentRecipientsDomain(segments),
+    ])) || [];
+    if (partnerIds.length === 0) {
+      return 0;
+    }
+
+    // The recipients go in the context only: res_ids is a text field on Odoo 17+ and unknown before,
+    // while every version reads active_ids for mass mailing
+    const context = { active_model: 'res.partner', active_ids: partnerIds };
+    const composerId = unwrap<number>(await client.callOdooMethod(
+      'mail.compose.message',
+      'create',
+      [{
+        composition_mode: 'mass_mail',
+        model: 'res.partner',
+        subject: email.subject,
+        body: textToHtml(email.body),
+      }],
+      { context }
+    ));
+    await client.callOdooMethod('mail.compose.message', 'action_send_mail', [[composerId]], { context });
+
+    return partnerIds.length;
+  },
+
+  /**
+   * Lists the confirmed orders of one month of the sales dashboard
+   * @param month Row of the monthly details
+   * @param filters Filters the dashboard was loaded with
+   */
+  getMonthOrders: async (month: SalesMonthDetail, filters: SalesFilters = {}): Promise<RecordSummary[]> => {
+    const client = authService.createApiClient();
+    const domain: OdooDomain = [
+      ['state', 'in', CONFIRMED_SALE_STATES],
+      ['date_order', '>=', month.start],
+      ['date_order', '<', month.end],
+    ];
+    if (filters.salesperson) {
+      domain.push(['user_id', '=', filters.salesperson.id]);
+    }
+    const orders = await searchRead(
+      client,
+      'sale.order',
+      domain,
+      ['name', 'partner_id', 'amount_total', 'currency_id'],
+      { limit: RECORD_LIST_LIMIT, order: 'amount_total desc' }
+    );
+
+    return orders.map(order => ({
+      model: 'sale.order',
+      id: order.id,
+      name: displayText(order.name),
+      description: `${many2oneName(order.partner_id, 'No customer')} · ${formatAmount(order.amount_total, order.currency_id)}`,
+    }));
+  },
+
+  /**
+   * Lists the customers of a segment of the customers dashboard
+   * @param segment Row of the segment details
+   */
+  getSegmentCustomers: async (segment: CustomerSegmentDetail): Promise<RecordSummary[]> => {
+    const client = authService.createApiClient();
+    const partners = await searchRead(
+      client,
+      'res.partner',
+      [['customer_rank', '>', 0], ...segmentDomain([segment])],
+      ['display_name', 'city', 'country_id'],
+      { limit: RECORD_LIST_LIMIT, order: 'customer_rank desc, display_name asc' }
+    );
+
+    return partners.map(partner => ({
+      model: 'res.partner',
+      id: partner.id,
+      name: displayText(partner.display_name),
+      description: [displayText(partner.city, ''), many2oneName(partner.country_id, '')].filter(Boolean).join(', '),
+    }));
+  },
+
+  /**
+   * Loads a sale order, product or customer with its related lines
+   * @throws ServerError RECORD_NOT_FOUND when the record was deleted or is not readable
+   */
+  getRecordDetail: async (model: RecordModel, id: number): Promise<RecordDetail> => {
+    const client = authService.createApiClient();
+    const definition = RECORD_DEFINITIONS[model];
+
+    const [records, lines] = await Promise.all([
+      client.callOdooMethod(model, 'read', [[id]], { fields: definition.fields }).then(response => unwrap<any[]>(response) || []),
+      searchRead(
+        client,
+        definition.lines.model,
+        definition.lines.domain(id),
+        definition.lines.fields,
+        { limit: RECORD_LINES_LIMIT, order: definition.lines.order }
+      ),
+    ]);
+
+    if (records.length === 0) {
+      throw new ServerError(`${definition.kind} not found`, { code: 'RECORD_NOT_FOUND' });
+    }
+    return buildRecordDetail(model, records[0], lines);
+  },
+};
@@ -0,0 +1,121 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * Backend for secrets such as access and refresh tokens
+ */
+export interface SecureStorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// Set in AsyncStorage once tokens have been moved out of it
+const MIGRATION_FLAG_KEY = 'secure_storage_migrated';
+
+// SecureStore keys may only contain letters, digits, ".", "-" and "_",
+// so everything else (and "_" itself, to keep keys distinct) is hex-escaped
+const toSecureStoreKey = (key: string) =>
+  key.replace(/[^A-Za-z0-9.-]/g, char => `_${char.charCodeAt(0).toString(16).padStart(2, '0')}`);
+
+/**
+ * Keychain (iOS) / Keystore (Android) storage via expo-secure-store
+ */
+export const createSecureStoreAdapter = (): SecureStorageAdapter => ({
+  getItem: (key) => SecureStore.getItemAsync(toSecureStoreKey(key)),
+  setItem: (key, value) =>
+    SecureStore.setItemAsync(toSecureStoreKey(key), value, {
+      keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK,
+    }),
+  removeItem: (key) => SecureStore.deleteItemAsync(toSecureStoreKey(key)),
+});
+
+/**
+ * In-memory storage for tests and platforms without secure storage; nothing survives a restart
+ */
+export const createMemoryStorage = (): SecureStorageAdapter => {
+  const items = new Map<string, string>();
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+/**
+ * SecureStore where the platform offers it. On web, where it does not,
+ * secrets are kept in memory rather than written to plain storage.
+ */
+export const createPlatformStorage = (): SecureStorageAdapter => {
+  let resolved: Promise<SecureStorageAdapter> | null = null;
+  const resolve = () => {
+    if (!resolved) {
+      resolved = SecureStore.isAvailableAsync()
+        .catch(() => false)
+        .then(available => {
+          if (available) {
+            return createSecureStoreAdapter();
+          }
+          console.warn('Secure storage is not available on this platform; sign-ins will not survive a restart');
+          return createMemoryStorage();
+        });
+    }
+    return resolved;
+  };
+
+  return {
+    getItem: async (key) => (await resolve()).getItem(key),
+    setItem: async (key, value) => (await resolve()).setItem(key, value),
+    removeItem: async (key) => (await resolve()).removeItem(key),
+  };
+};
+
+let adapter: SecureStorageAdapter = createPlatformStorage();
+
+/**
+ * Storage for credentials. All token reads and writes go through here
+ * so they never land in plain AsyncStorage.
+ */
+export const secureStorage = {
+  getItem: (key: string): Promise<string | null> => adapter.getItem(key),
+
+  setItem: (key: string, value: string): Promise<void> => adapter.setItem(key, value),
+
+  removeItem: (key: string): Promise<void> => adapter.removeItem(key),
+
+  /**
+   * Replaces the storage backend, e.g. with createMemoryStorage() in tests
+   */
+  setAdapter: (next: SecureStorageAdapter): void => {
+    adapter = next;
+  },
+
+  /**
+   * Moves values written to AsyncStorage by earlier versions into secure storage
+   * and wipes the plain copies. Runs once; later calls return immediately.
+   * @param isSecret Selects the AsyncStorage keys to move
+   */
+  migrateFromAsyncStorage: async (isSecret: (key: string) => boolean): Promise<void> => {
+    if (await AsyncStorage.getItem(MIGRATION_FLAG_KEY)) {
+      return;
+    }
+
+    const keys = (await AsyncStorage.getAllKeys()).filter(isSecret);
+    for (const key of keys) {
+      const value = await AsyncStorage.getItem(key);
+      if (value !== null) {
+        await adapter.setItem(key, value);
+      }
+    }
+
+    // Only wipe once every value is safely stored
+    if (keys.length > 0) {
+      await AsyncStorage.multiRemove(keys);
+    }
+    await AsyncStorage.setItem(MIGRATION_FLAG_KEY, 'true');
+  },
+};
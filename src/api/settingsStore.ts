@@ -0,0 +1,286 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createError } from './errors';
+import {
+  EnvironmentProfile,
+  PROXY_PROFILES,
+  DEFAULT_PROFILE,
+  PROXY_HEALTH_TIMEOUT_MS,
+  DEFAULT_ODOO_URL,
+  DEFAULT_VOICE_LANGUAGE,
+  VOICE_LANGUAGES,
+  DEFAULT_THEME,
+  ThemeName,
+  MAX_PERSISTED_TURNS,
+  HISTORY_SIZE_OPTIONS,
+} from '../utils/config';
+
+export interface ProxySettings {
+  profile: EnvironmentProfile;
+  customUrl: string | null; // Overrides the profile URL when set
+}
+
+export type ResponseVerbosity = 'concise' | 'normal' | 'detailed';
+
+export interface AppPreferences {
+  defaultServerUrl: string; // Odoo server prefilled on the login screen
+  voiceLanguage: string; // Speech recognition locale, also sent with queries
+  verbosity: ResponseVerbosity;
+  theme: ThemeName; // Accent colors of Paper components and navigation
+  historySize: number; // Conversation turns kept on the device
+}
+
+export interface ProxyHealth {
+  ok: boolean;
+  latencyMs?: number;
+  version?: string;
+  error?: string;
+}
+
+export type ProxySettingsListener = (settings: ProxySettings) => void;
+export type PreferencesListener = (preferences: AppPreferences) => void;
+
+const STORAGE_KEY = 'proxy_settings';
+const PREFERENCES_KEY = 'app_preferences';
+
+const DEFAULT_PROXY_SETTINGS: ProxySettings = {
+  profile: DEFAULT_PROFILE,
+  customUrl: null,
+};
+
+export const DEFAULT_PREFERENCES: AppPreferences = {
+  defaultServerUrl: DEFAULT_ODOO_URL,
+  voiceLanguage: DEFAULT_VOICE_LANGUAGE,
+  verbosity: 'normal',
+  theme: DEFAULT_THEME,
+  historySize: MAX_PERSISTED_TURNS,
+};
+
+const VERBOSITY_LEVELS: ResponseVerbosity[] = ['concise', 'normal', 'detailed'];
+const THEME_NAMES: ThemeName[] = ['violet', 'ocean', 'emerald'];
+
+let proxySettings: ProxySettings = { ...DEFAULT_PROXY_SETTINGS };
+let preferences: AppPreferences = { ...DEFAULT_PREFERENCES };
+const listeners: ProxySettingsListener[] = [];
+const preferencesListeners: PreferencesListener[] = [];
+
+/**
+ * Strips trailing slashes and a trailing /api so users can paste either form
+ */
+export const normalizeProxyUrl = (url: string): string => {
+  return url.trim().replace(/\/+$/, '').replace(/\/api$/i, '');
+};
+
+/**
+ * Checks that a proxy URL is well-formed
+ * @returns Error message, or null when valid
+ */
+export const validateProxyUrl = (url: string): string | null => {
+  const normalized = normalizeProxyUrl(url);
+  if (!normalized) {
+    return 'Proxy URL is required';
+  }
+  if (!/^https?:\/\/[^\s/]+/i.test(normalized)) {
+    return 'URL must start with http:// or https://';
+  }
+  return null;
+};
+
+/**
+ * Keeps the valid preferences of a saved object
+ * @param fallback Values used in place of missing or invalid ones
+ */
+export const sanitizePreferences = (
+  saved: Record<string, any>,
+  fallback: AppPreferences = DEFAULT_PREFERENCES
+): AppPreferences => ({
+  defaultServerUrl: typeof saved.defaultServerUrl === 'string' && /^https?:\/\/\S+$/i.test(saved.defaultServerUrl.trim())
+    ? saved.defaultServerUrl.trim().replace(/\/+$/, '')
+    : fallback.defaultServerUrl,
+  voiceLanguage: VOICE_LANGUAGES.some(language => language.value === saved.voiceLanguage)
+    ? saved.voiceLanguage
+    : fallback.voiceLanguage,
+  verbosity: VERBOSITY_LEVELS.includes(saved.verbosity) ? saved.verbosity : fallback.verbosity,
+  theme: THEME_NAMES.includes(saved.theme) ? saved.theme : fallback.theme,
+  historySize: HISTORY_SIZE_OPTIONS.includes(saved.historySize) ? saved.historySize : fallback.historySize,
+});
+
+const notify = <T>(targets: Array<(value: T) => void>, value: T) => {
+  for (const listener of targets) {
+    try {
+      listener({ ...value });
+    } catch (error) {
+      console.error('Error in settings listener:', error);
+    }
+  }
+};
+
+const notifyListeners = () => notify(listeners, proxySettings);
+
+const notifyPreferencesListeners = () => notify(preferencesListeners, preferences);
+
+const addTo = <T>(targets: T[], listener: T): (() => void) => {
+  targets.push(listener);
+  return () => {
+    const index = targets.indexOf(listener);
+    if (index !== -1) {
+      targets.splice(index, 1);
+    }
+  };
+};
+
+// Requests must not fall back to relative URLs when staging or prod has no proxy
+const requireProxyUrl = (): string => {
+  const proxyUrl = settingsStore.getProxyUrl();
+  if (!proxyUrl) {
+    throw createError('NO_PROXY', 'No proxy server is configured. Set the proxy URL in the connection settings.');
+  }
+  return proxyUrl;
+};
+
+/**
+ * Runtime settings persisted in AsyncStorage.
+ * Services read the proxy endpoints through the getters at request time,
+ * so a change takes effect without restarting the app.
+ */
+export const settingsStore = {
+  /**
+   * Loads saved settings; call once before the first request
+   */
+  load: async (): Promise<void> => {
+    try {
+      const [json, preferencesJson] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEY),
+        AsyncStorage.getItem(PREFERENCES_KEY),
+      ]);
+      if (json) {
+        const saved = JSON.parse(json);
+        proxySettings = {
+          profile: saved.profile in PROXY_PROFILES ? saved.profile : DEFAULT_PROFILE,
+          customUrl: typeof saved.customUrl === 'string' && saved.customUrl ? saved.customUrl : null,
+        };
+        notifyListeners();
+      }
+      if (preferencesJson) {
+        const saved = JSON.parse(preferencesJson);
+        preferences = sanitizePreferences(typeof saved === 'object' && saved !== null ? saved : {});
+        notifyPreferencesListeners();
+      }
+    } catch (error) {
+      console.error('Error loading settings:', error);
+    }
+  },
+
+  getProxySettings: (): ProxySettings => ({ ...proxySettings }),
+
+  /**
+   * Base URL of the proxy server for the active profile or custom URL
+   */
+  getProxyUrl: (): string => {
+    return proxySettings.customUrl || PROXY_PROFILES[proxySettings.profile];
+  },
+
+  /**
+   * Base URL of the proxy REST API
+   * @throws {AppError} NO_PROXY when no proxy URL is configured
+   */
+  getApiUrl: (): string => `${requireProxyUrl()}/api`,
+
+  /**
+   * @throws {AppError} NO_PROXY when no proxy URL is configured
+   */
+  getSocketUrl: (): string => requireProxyUrl(),
+
+  /**
+   * Whether a proxy URL is available (staging and prod have no built-in default)
+   */
+  isProxyConfigured: (): boolean => !!settingsStore.getProxyUrl(),
+
+  /**
+   * Updates and persists the proxy settings
+   * @param settings Profile and/or custom URL; a null custom URL returns to the profile URL
+   */
+  setProxySettings: async (settings: Partial<ProxySettings>): Promise<void> => {
+    const customUrl = settings.customUrl === undefined ? proxySettings.customUrl : settings.customUrl;
+    proxySettings = {
+      profile: settings.profile || proxySettings.profile,
+      customUrl: customUrl ? normalizeProxyUrl(customUrl) : null,
+    };
+    notifyListeners();
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(proxySettings));
+  },
+
+  /**
+   * Add a listener called whenever the proxy settings change
+   * @returns Function to remove the listener
+   */
+  addListener: (listener: ProxySettingsListener): (() => void) => addTo(listeners, listener),
+
+  getPreferences: (): AppPreferences => ({ ...preferences }),
+
+  /**
+   * Updates and persists the app preferences
+   * @param changes Preferences to change; invalid values keep the current ones
+   */
+  setPreferences: async (changes: Partial<AppPreferences>): Promise<void> => {
+    preferences = sanitizePreferences({ ...preferences, ...changes }, preferences);
+    notifyPreferencesListeners();
+    await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  },
+
+  /**
+   * Add a listener called whenever the preferences change
+   * @returns Function to remove the listener
+   */
+  addPreferencesListener: (listener: PreferencesListener): (() => void) => addTo(preferencesListeners, listener),
+
+  /**
+   * Returns to the default proxy and preferences, e.g. after the app data was cleared.
+   * Nothing is written; the defaults apply until something is saved again.
+   */
+  reset: () => {
+    proxySettings = { ...DEFAULT_PROXY_SETTINGS };
+    preferences = { ...DEFAULT_PREFERENCES };
+    notifyListeners();
+    notifyPreferencesListeners();
+  },
+
+  /**
+   * Calls the proxy health endpoint
+   * @param proxyUrl Proxy to check, defaults to the active one
+   * @returns Health result; never throws
+   */
+  checkProxyHealth: async (proxyUrl: string = settingsStore.getProxyUrl()): Promise<ProxyHealth> => {
+    const validationError = validateProxyUrl(proxyUrl);
+    if (validationError) {
+      return { ok: false, error: validationError };
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), PROXY_HEALTH_TIMEOUT_MS);
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(`${normalizeProxyUrl(proxyUrl)}/api/health`, {
+        method: 'GET',
+        signal: controller.signal,
+      });
+      const latencyMs = Date.now() - startedAt;
+
+      if (!response.ok) {
+        return { ok: false, latencyMs, error: `Proxy responded with status ${response.status}` };
+      }
+
+      const data = await response.json().catch(() => ({}));
+      return { ok: true, latencyMs, ...(data.version ? { version: String(data.version) } : {}) };
+    } catch (error) {
+      return {
+        ok: false,
+        error: controller.signal.aborted
+          ? 'The proxy did not respond in time'
+          : 'Cannot reach the proxy. Check the URL and your network connection.',
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  },
+};
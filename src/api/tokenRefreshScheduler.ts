@@ -0,0 +1,65 @@
+import { authService, isSessionRejected } from './authService';
+import { authEvents } from './authEvents';
+import { getTokenExpiry } from '../utils/jwt';
+import { TOKEN_REFRESH_MARGIN_MS, TOKEN_REFRESH_RETRY_MS } from '../utils/config';
+
+// setTimeout overflows above ~24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+let removeTokenListener: (() => void) | null = null;
+
+const clearTimer = () => {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+};
+
+const scheduleFor = (token: string | null) => {
+  clearTimer();
+  const expiry = token ? getTokenExpiry(token) : null;
+  if (expiry === null) {
+    // Opaque tokens are only refreshed after a 401
+    return;
+  }
+
+  const delay = Math.max(0, expiry - TOKEN_REFRESH_MARGIN_MS - Date.now());
+  timer = setTimeout(refreshNow, Math.min(delay, MAX_TIMER_DELAY_MS));
+};
+
+const refreshNow = async () => {
+  timer = null;
+  try {
+    // Rescheduled by the token listener once the new token is stored
+    await authService.refreshToken();
+  } catch (error) {
+    // A rejected session is reported through the session expired event;
+    // network failures are retried while the current token may still be valid
+    if (removeTokenListener && !isSessionRejected(error)) {
+      timer = setTimeout(refreshNow, TOKEN_REFRESH_RETRY_MS);
+    }
+  }
+};
+
+/**
+ * Refreshes the access token shortly before it expires,
+ * so requests and socket reconnects do not fail first with a 401
+ */
+export const tokenRefreshScheduler = {
+  /**
+   * Starts scheduling refreshes for the stored access token
+   */
+  start: async (): Promise<void> => {
+    if (!removeTokenListener) {
+      removeTokenListener = authEvents.addTokenListener(({ accessToken }) => scheduleFor(accessToken));
+    }
+    scheduleFor(await authService.getAccessToken());
+  },
+
+  stop: (): void => {
+    clearTimer();
+    removeTokenListener?.();
+    removeTokenListener = null;
+  },
+};
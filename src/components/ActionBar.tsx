@@ -3,19 +3,19 @@ import { View, StyleSheet, TouchableOpacity, Text, Dimensions } from 'react-nati
 import { IconButton, Menu } from 'react-native-paper';
 import { LinearGradient } from 'expo-linear-gradient';
 import { colors, spacing, createShadow } from '../utils/theme';
+import { useAppDispatch } from '../hooks/useAppDispatch';
+import { useAppSelector } from '../hooks/useAppSelector';
+import { moduleChanged, selectCurrentModule, selectRecordingState } from '../state/slices/uiSlice';
 import MicrophoneButton from './MicrophoneButton';
 
-export type ModuleType = 'sales' | 'inventory' | 'customers';
-export type RecordingState = 'idle' | 'listening' | 'processing';
+export type { ModuleType, RecordingState } from '../state/slices/uiSlice';
 
 interface ActionBarProps {
   onRefresh: () => void;
   onExport: () => void;
   onFilter: () => void;
   onSettings: () => void;
-  currentModule: ModuleType;
-  onModuleChange: (module: ModuleType) => void;
-  recordingState?: RecordingState;
+  onHistory?: () => void;
   onMicrophonePress?: () => void;
 }
 
@@ -30,11 +30,13 @@ const ActionBar: React.FC<ActionBarProps> = ({
   onExport,
   onFilter,
   onSettings,
-  currentModule,
-  onModuleChange,
-  recordingState = 'idle',
+  onHistory,
   onMicrophonePress = () => {}
 }) => {
+  // The module and recording state are shared through the store
+  const dispatch = useAppDispatch();
+  const currentModule = useAppSelector(selectCurrentModule);
+  const recordingState = useAppSelector(selectRecordingState);
   const [menuVisible, setMenuVisible] = React.useState(false);
 
   const showMenu = () => setMenuVisible(true);
@@ -68,7 +70,7 @@ const ActionBar: React.FC<ActionBarProps> = ({
         >
           <Menu.Item 
             onPress={() => {
-              onModuleChange('sales');
+              dispatch(moduleChanged('sales'));
               hideMenu();
             }} 
             title="Sales" 
@@ -77,7 +79,7 @@ const ActionBar: React.FC<ActionBarProps> = ({
           />
           <Menu.Item 
             onPress={() => {
-              onModuleChange('inventory');
+              dispatch(moduleChanged('inventory'));
               hideMenu();
             }} 
             title="Inventory" 
@@ -86,7 +88,7 @@ const ActionBar: React.FC<ActionBarProps> = ({
           />
           <Menu.Item 
             onPress={() => {
-              onModuleChange('customers');
+              dispatch(moduleChanged('customers'));
               hideMenu();
             }} 
             title="Customers" 
@@ -104,6 +106,16 @@ const ActionBar: React.FC<ActionBarProps> = ({
           onPress={onSettings}
           color={colors.textPrimary}
         />
+
+        {/* Conversation history button */}
+        {onHistory && (
+          <ActionButton
+            icon="message-text-clock-outline"
+            label="History"
+            onPress={onHistory}
+            color={colors.textPrimary}
+          />
+        )}
         
         <View style={styles.spacer} />
         
@@ -0,0 +1,203 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Button, ActivityIndicator, Icon } from 'react-native-paper';
+import { MCPActionResponse, MCPFieldValue } from '../api/mcpService';
+import { ConversationActionState } from '../api/conversationStorage';
+import { colors, spacing } from '../utils/theme';
+
+interface ActionConfirmationCardProps {
+  action: MCPActionResponse['content'];
+  state?: ConversationActionState;
+  onDecision?: (approved: boolean) => void;
+}
+
+const formatValue = (value: MCPFieldValue) => {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const STATUS_DISPLAY = {
+  approved: { icon: 'check-circle', color: colors.success, text: 'Approved' },
+  rejected: { icon: 'close-circle', color: colors.textSecondary, text: 'Rejected' },
+  failed: { icon: 'alert-circle', color: colors.error, text: 'Could not send your decision' },
+};
+
+/**
+ * Confirmation card for a write proposed by the assistant.
+ * Shows the target record and field changes; nothing is written until Approve is pressed.
+ */
+const ActionConfirmationCard: React.FC<ActionConfirmationCardProps> = ({ action, state, onDecision }) => {
+  const expired = !!action.expiresAt && Date.now() > action.expiresAt && !state;
+  const canDecide = !!onDecision && !expired && (!state || state.status === 'failed');
+
+  const renderStatus = () => {
+    if (state?.status === 'submitting') {
+      return (
+        <View style={styles.status}>
+          <ActivityIndicator size="small" color={colors.primary} />
+          <Text style={styles.statusText}>Sending your decision...</Text>
+        </View>
+      );
+    }
+
+    if (state) {
+      const display = STATUS_DISPLAY[state.status];
+      const message = state.result && typeof state.result.content === 'string' ? state.result.content : null;
+      return (
+        <View>
+          <View style={styles.status}>
+            <Icon source={display.icon} size={18} color={display.color} />
+            <Text style={[styles.statusText, { color: display.color }]}>{display.text}</Text>
+          </View>
+          {message && <Text style={styles.resultText}>{message}</Text>}
+        </View>
+      );
+    }
+
+    if (expired) {
+      return (
+        <View style={styles.status}>
+          <Icon source="clock-alert-outline" size={18} color={colors.warning} />
+          <Text style={[styles.statusText, { color: colors.warning }]}>This proposal has expired</Text>
+        </View>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{action.title}</Text>
+      {action.description && <Text style={styles.description}>{action.description}</Text>}
+
+      <View style={styles.target}>
+        <Text style={styles.targetText}>
+          {action.model} · {action.recordName || `#${action.recordId}`}
+        </Text>
+        <Text style={styles.operation}>{action.operation}</Text>
+      </View>
+
+      {action.changes.map((change) => (
+        <View key={change.field} style={styles.change}>
+          <Text style={styles.fieldLabel}>{change.label || change.field}</Text>
+          <View style={styles.values}>
+            <Text style={styles.oldValue}>{formatValue(change.oldValue)}</Text>
+            <Icon source="arrow-right" size={14} color={colors.textMuted} />
+            <Text style={styles.newValue}>{formatValue(change.newValue)}</Text>
+          </View>
+        </View>
+      ))}
+
+      {renderStatus()}
+
+      {canDecide && (
+        <View style={styles.buttons}>
+          <Button
+            mode="outlined"
+            onPress={() => onDecision?.(false)}
+            textColor={colors.textSecondary}
+            style={styles.button}
+          >
+            Reject
+          </Button>
+          <Button
+            mode="contained"
+            onPress={() => onDecision?.(true)}
+            buttonColor={colors.primary}
+            style={styles.button}
+          >
+            Approve
+          </Button>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: spacing.lg,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  description: {
+    marginTop: spacing.xs,
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.textSecondary,
+  },
+  target: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  targetText: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  operation: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    color: colors.primary,
+  },
+  change: {
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: `${colors.textPrimary}10`,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  values: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+  },
+  oldValue: {
+    fontSize: 15,
+    color: colors.textMuted,
+    textDecorationLine: 'line-through',
+    marginRight: spacing.xs,
+  },
+  newValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginLeft: spacing.xs,
+  },
+  status: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  statusText: {
+    marginLeft: spacing.sm,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  resultText: {
+    marginTop: spacing.xs,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: spacing.lg,
+  },
+  button: {
+    marginLeft: spacing.sm,
+  },
+});
+
+export default ActionConfirmationCard;
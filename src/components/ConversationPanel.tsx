@@ -0,0 +1,300 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, ScrollView, Text, ActivityIndicator } from 'react-native';
+import { Icon, IconButton } from 'react-native-paper';
+import * as Clipboard from 'expo-clipboard';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { ConversationTurn } from '../api/conversationStorage';
+import MCPResponseRenderer from './MCPResponseRenderer';
+import { colors, spacing, createShadow } from '../utils/theme';
+
+interface ConversationPanelProps {
+  turns: ConversationTurn[];
+  onRerun: (query: string) => void;
+  onCancel: (turnId: string) => void;
+  onActionDecision: (turnId: string, approved: boolean) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Delivery labels for turns that went through the offline outbox
+const OUTBOX_LABELS = {
+  queued: { icon: 'cloud-upload-outline', text: 'Queued until you are back online' },
+  sent: { icon: 'cloud-check-outline', text: 'Sent after reconnecting' },
+  failed: { icon: 'cloud-alert', text: 'Could not be sent' },
+};
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+/**
+ * Scrollable conversation transcript pairing each user query with its MCP response
+ */
+const ConversationPanel: React.FC<ConversationPanelProps> = ({
+  turns,
+  onRerun,
+  onCancel,
+  onActionDecision,
+  onClear,
+  onClose,
+}) => {
+  const scrollRef = useRef<ScrollView>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    scrollRef.current?.scrollToEnd({ animated: true });
+  }, [turns.length]);
+
+  // Reset the copied indicator after a short delay
+  useEffect(() => {
+    if (!copiedId) return;
+    const timeout = setTimeout(() => setCopiedId(null), 1500);
+    return () => clearTimeout(timeout);
+  }, [copiedId]);
+
+  const handleCopy = async (turn: ConversationTurn) => {
+    try {
+      await Clipboard.setStringAsync(turn.query);
+      setCopiedId(turn.id);
+    } catch (error) {
+      console.error('Failed to copy query:', error);
+    }
+  };
+
+  const renderOutboxStatus = (turn: ConversationTurn) => {
+    const label = OUTBOX_LABELS[turn.outboxStatus!];
+    return (
+      <View style={styles.outboxStatus}>
+        <Icon
+          source={label.icon}
+          size={16}
+          color={turn.outboxStatus === 'failed' ? colors.error : colors.textSecondary}
+        />
+        <Text style={styles.outboxText}>{label.text}</Text>
+        {turn.status === 'queued' && (
+          <IconButton
+            icon="close"
+            size={16}
+            iconColor={colors.textSecondary}
+            style={styles.actionIcon}
+            onPress={() => onCancel(turn.id)}
+            accessibilityLabel="Remove queued query"
+          />
+        )}
+      </View>
+    );
+  };
+
+  const renderTurn = (turn: ConversationTurn) => (
+    <Animated.View key={turn.id} entering={FadeInDown.duration(250)} style={styles.turn}>
+      {/* User utterance */}
+      <View style={styles.queryBubble}>
+        <View style={styles.queryHeader}>
+          <Text style={styles.queryTime}>{formatTime(turn.createdAt)}</Text>
+          <View style={styles.queryActions}>
+            <IconButton
+              icon={copiedId === turn.id ? 'check' : 'content-copy'}
+              size={16}
+              iconColor={copiedId === turn.id ? colors.success : colors.textSecondary}
+              style={styles.actionIcon}
+              onPress={() => handleCopy(turn)}
+              accessibilityLabel="Copy query"
+            />
+            <IconButton
+              icon="replay"
+              size={16}
+              iconColor={colors.textSecondary}
+              style={styles.actionIcon}
+              onPress={() => onRerun(turn.query)}
+              disabled={turn.status === 'pending' || turn.status === 'queued'}
+              accessibilityLabel="Run query again"
+            />
+          </View>
+        </View>
+        <Text style={styles.queryText}>{turn.query}</Text>
+      </View>
+
+      {turn.outboxStatus && renderOutboxStatus(turn)}
+
+      {/* Assistant response, rendered progressively while streaming */}
+      {turn.status === 'queued' ? null : turn.status === 'pending' && !turn.response ? (
+        <View style={styles.pendingContainer}>
+          <ActivityIndicator size="small" color={colors.primary} />
+          <Text style={styles.pendingText}>Thinking...</Text>
+          <IconButton
+            icon="stop-circle-outline"
+            size={20}
+            iconColor={colors.textSecondary}
+            style={styles.actionIcon}
+            onPress={() => onCancel(turn.id)}
+            accessibilityLabel="Cancel query"
+          />
+        </View>
+      ) : (
+        <MCPResponseRenderer
+          response={turn.response}
+          streaming={turn.status === 'pending'}
+          onCancel={() => onCancel(turn.id)}
+          actionState={turn.actionState}
+          onActionDecision={(approved) => onActionDecision(turn.id, approved)}
+          onRetry={() => onRerun(turn.query)}
+        />
+      )}
+      {turn.status === 'cancelled' && (
+        <Text style={styles.cancelledText}>Cancelled</Text>
+      )}
+    </Animated.View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Conversation</Text>
+        <View style={styles.headerActions}>
+          <IconButton
+            icon="delete-sweep-outline"
+            size={20}
+            iconColor={colors.textSecondary}
+            onPress={onClear}
+            disabled={turns.length === 0}
+            accessibilityLabel="Clear conversation"
+          />
+          <IconButton
+            icon="close"
+            size={20}
+            iconColor={colors.textSecondary}
+            onPress={onClose}
+            accessibilityLabel="Close conversation"
+          />
+        </View>
+      </View>
+
+      <ScrollView
+        ref={scrollRef}
+        style={styles.scroll}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {turns.length > 0 ? (
+          turns.map(renderTurn)
+        ) : (
+          <Text style={styles.emptyText}>
+            Tap the microphone and ask about your sales, inventory or customers.
+          </Text>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: spacing.md,
+    left: spacing.sm,
+    right: spacing.sm,
+    bottom: 88, // Keep clear of the action bar
+    backgroundColor: `${colors.backgroundDark}F5`,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: `${colors.textPrimary}15`,
+    overflow: 'hidden',
+    ...createShadow(12, 'rgba(0,0,0,0.4)'),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingLeft: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: `${colors.textPrimary}10`,
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  scroll: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingVertical: spacing.md,
+  },
+  turn: {
+    marginBottom: spacing.sm,
+  },
+  queryBubble: {
+    alignSelf: 'flex-end',
+    maxWidth: '85%',
+    marginHorizontal: spacing.md,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+    borderRadius: 16,
+    borderBottomRightRadius: 4,
+    backgroundColor: `${colors.primary}30`,
+  },
+  queryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  queryActions: {
+    flexDirection: 'row',
+  },
+  actionIcon: {
+    margin: 0,
+  },
+  queryTime: {
+    fontSize: 11,
+    color: colors.textMuted,
+    marginRight: spacing.sm,
+  },
+  queryText: {
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  pendingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  pendingText: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  outboxStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.xs,
+    minHeight: 28,
+  },
+  outboxText: {
+    marginLeft: spacing.xs,
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  cancelledText: {
+    marginHorizontal: spacing.lg,
+    marginTop: -spacing.sm,
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: colors.textMuted,
+  },
+  emptyText: {
+    padding: spacing.xl,
+    textAlign: 'center',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
+
+export default ConversationPanel;
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+import { Portal, Dialog, Text, Button } from 'react-native-paper';
+import FloatingInput from './FloatingInput';
+import { odooDataService, CustomerSegmentDetail } from '../api/odooDataService';
+import { toAppError } from '../api/errors';
+import { colors, spacing, createShadow } from '../utils/theme';
+
+interface CustomerEmailDialogProps {
+  visible: boolean;
+  segments: CustomerSegmentDetail[];
+  onDismiss: () => void;
+  onSent: (recipients: number) => void;
+}
+
+/**
+ * Composes an email to every customer of the selected segments and sends it through Odoo.
+ * The recipients are counted when the dialog opens, so the user knows how many people get it.
+ */
+const CustomerEmailDialog: React.FC<CustomerEmailDialogProps> = ({ visible, segments, onDismiss, onSent }) => {
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [subjectError, setSubjectError] = useState('');
+  const [sendError, setSendError] = useState('');
+  const [sending, setSending] = useState(false);
+  const [recipientCount, setRecipientCount] = useState<number | null>(null);
+  const [counting, setCounting] = useState(false);
+
+  // Start from an empty message each time the dialog opens
+  useEffect(() => {
+    if (visible) {
+      setSubject('');
+      setBody('');
+      setSubjectError('');
+      setSendError('');
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    setRecipientCount(null);
+    setCounting(true);
+    odooDataService.countSegmentRecipients(segments)
+      .then(count => {
+        if (!cancelled) setRecipientCount(count);
+      })
+      .catch(error => console.warn('Could not count the email recipients:', error))
+      .finally(() => {
+        if (!cancelled) setCounting(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, segments]);
+
+  const segmentNames = segments.map(segment => segment.segment).join(', ');
+  // Falls back to the segment sizes, which include customers without an email address
+  const customerCount = segments.reduce((sum, segment) => sum + segment.count, 0);
+  const recipientsText = counting
+    ? 'Counting recipients…'
+    : recipientCount === null
+      ? `up to ${customerCount.toLocaleString()} recipients`
+      : `${recipientCount.toLocaleString()} ${recipientCount === 1 ? 'recipient' : 'recipients'}`;
+
+  const handleSend = async () => {
+    if (!subject.trim()) {
+      setSubjectError('Enter a subject');
+      return;
+    }
+
+    setSending(true);
+    setSendError('');
+    try {
+      const recipients = await odooDataService.emailCustomerSegments(segments, {
+        subject: subject.trim(),
+        body,
+      });
+      onSent(recipients);
+    } catch (error) {
+      setSendError(toAppError(error, { message: 'Could not send the email' }).message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={sending ? undefined : onDismiss} style={styles.dialog}>
+        <Dialog.Title style={styles.title}>Email customers</Dialog.Title>
+        <Dialog.Content>
+          <Text style={styles.recipients}>
+            Every customer with an email address in the {segments.length === 1 ? 'segment' : 'segments'} {segmentNames} receives this email · {recipientsText}
+          </Text>
+          <FloatingInput
+            label="Subject"
+            value={subject}
+            onChangeText={(text) => {
+              setSubject(text);
+              setSubjectError('');
+            }}
+            error={subjectError}
+          />
+          <FloatingInput
+            label="Message"
+            value={body}
+            onChangeText={setBody}
+            multiline
+            numberOfLines={5}
+            textAlignVertical="top"
+            error={sendError}
+          />
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={sending} textColor={colors.textSecondary}>
+            Cancel
+          </Button>
+          <Button
+            onPress={handleSend}
+            loading={sending}
+            disabled={sending || recipientCount === 0}
+            textColor={colors.primary}
+          >
+            Send
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  dialog: {
+    backgroundColor: colors.backgroundMedium,
+    borderRadius: 16,
+    ...createShadow(8, `${colors.primary}40`),
+  },
+  title: {
+    color: colors.textPrimary,
+  },
+  recipients: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+});
+
+export default CustomerEmailDialog;
@@ -1,28 +1,63 @@
-import React from 'react';
-import { 
-  StyleSheet, 
-  View, 
-  Text, 
-  ScrollView, 
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  FlatList,
+  TouchableOpacity,
   ViewStyle,
   Dimensions
 } from 'react-native';
+import { Searchbar, IconButton, Icon, Checkbox, Button } from 'react-native-paper';
 import { colors, spacing } from '../utils/theme';
+import { TABLE_PAGE_SIZE_OPTIONS, TABLE_MAX_HEIGHT } from '../utils/config';
+import {
+  TableColumnOptions,
+  SortState,
+  sortRows,
+  filterRows,
+  nextSort,
+  paginate,
+} from '../utils/tableData';
 
-export interface Column {
-  id: string;
+export interface Column extends TableColumnOptions {
   label: string;
   align?: 'left' | 'center' | 'right';
   renderCell?: (value: any, row: any, index: number) => React.ReactNode;
   width?: number | string;
 }
 
+export interface BulkAction {
+  key: string;
+  label: string;
+  icon: string;
+  // Reports its own errors. The selection is cleared once it resolves, unless it resolves to false.
+  onPress: (rows: any[]) => Promise<boolean | void> | boolean | void;
+}
+
+// Width of the checkbox column
+const SELECT_COLUMN_WIDTH = 40;
+
 interface DataTableProps {
   columns: Column[];
   data: any[];
   style?: ViewStyle;
   emptyMessage?: string;
   horizontalScrollEnabled?: boolean;
+  searchable?: boolean;
+  searchPlaceholder?: string;
+  // 'pages' shows one page at a time; 'infinite' scrolls the body and loads more rows at the end
+  pagination?: 'pages' | 'infinite';
+  pageSizeOptions?: number[];
+  maxHeight?: number; // Body height in 'infinite' mode
+  initialSort?: SortState | null;
+  keyExtractor?: (row: any, index: number) => string; // Defaults to row.id, then the index in `data`
+  selectionMode?: 'none' | 'single' | 'multiple';
+  onSelectionChange?: (rows: any[]) => void;
+  bulkActions?: BulkAction[]; // Shown in the toolbar while rows are selected
+  // Opens a row. With selection on, long press selects and a tap selects too once a row is selected.
+  onRowPress?: (row: any) => void;
 }
 
 const DataTable: React.FC<DataTableProps> = ({
@@ -30,9 +65,29 @@ const DataTable: React.FC<DataTableProps> = ({
   data,
   style,
   emptyMessage = 'No data to display',
-  horizontalScrollEnabled = true
+  horizontalScrollEnabled = true,
+  searchable = false,
+  searchPlaceholder = 'Search',
+  pagination = 'pages',
+  pageSizeOptions = TABLE_PAGE_SIZE_OPTIONS,
+  maxHeight = TABLE_MAX_HEIGHT,
+  initialSort = null,
+  keyExtractor,
+  selectionMode = 'none',
+  onSelectionChange,
+  bulkActions = [],
+  onRowPress,
 }) => {
   const { width } = Dimensions.get('window');
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<SortState | null>(initialSort);
+  const [pageSize, setPageSize] = useState(pageSizeOptions[0]);
+  const [page, setPage] = useState(0);
+  const [visibleCount, setVisibleCount] = useState(pageSizeOptions[0]);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(() => new Set());
+  const [runningAction, setRunningAction] = useState<string | null>(null);
+  const selectable = selectionMode !== 'none';
+
   const totalMinWidth = columns.reduce((acc, col) => {
     // If width is a percentage string, convert it to a number
     if (typeof col.width === 'string' && col.width.includes('%')) {
@@ -45,18 +100,117 @@ const DataTable: React.FC<DataTableProps> = ({
     }
     // Default width if none specified
     return acc + 100;
-  }, 0);
+  }, selectable ? SELECT_COLUMN_WIDTH : 0);
+
+  // Cells get the index of their row in `data`, whatever the sort order
+  const dataIndexes = useMemo(() => new Map(data.map((row, index) => [row, index])), [data]);
+
+  const getRowKey = useCallback((row: any) => {
+    const index = dataIndexes.get(row) ?? 0;
+    return keyExtractor ? keyExtractor(row, index) : String(row.id ?? index);
+  }, [dataIndexes, keyExtractor]);
+
+  // Rows that left `data` on a reload drop out of the selection
+  const selectedRows = useMemo(
+    () => data.filter(row => selectedKeys.has(getRowKey(row))),
+    [data, selectedKeys, getRowKey]
+  );
+
+  useEffect(() => {
+    onSelectionChange?.(selectedRows);
+  }, [selectedRows]);
+
+  const rows = useMemo(
+    () => sortRows(filterRows(data, columns, query), columns, sort),
+    [data, columns, query, sort]
+  );
+
+  const paged = paginate(rows, page, pageSize);
+  const visibleRows = pagination === 'pages' ? paged.rows : rows.slice(0, visibleCount);
+  const showPageControls = pagination === 'pages' && rows.length > pageSizeOptions[0];
+
+  // Any change to the row set starts again from the first rows
+  const resetPosition = useCallback(() => {
+    setPage(0);
+    setVisibleCount(pageSize);
+  }, [pageSize]);
+
+  const handleSearch = (text: string) => {
+    setQuery(text);
+    resetPosition();
+  };
+
+  const handleSort = (column: Column) => {
+    if (!column.sortable) return;
+    setSort(current => nextSort(current, column.id));
+    resetPosition();
+  };
+
+  const handlePageSize = (size: number) => {
+    setPageSize(size);
+    setPage(0);
+    setVisibleCount(size);
+  };
+
+  const toggleRow = (row: any) => {
+    const key = getRowKey(row);
+    setSelectedKeys(current => {
+      if (selectionMode === 'single') {
+        return current.has(key) ? new Set() : new Set([key]);
+      }
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  // Selects every row matching the search, or clears them when all are selected
+  const toggleAll = () => {
+    const keys = rows.map(getRowKey);
+    setSelectedKeys(current => {
+      const next = new Set(current);
+      if (keys.every(key => current.has(key))) {
+        keys.forEach(key => next.delete(key));
+      } else {
+        keys.forEach(key => next.add(key));
+      }
+      return next;
+    });
+  };
+
+  const runBulkAction = async (action: BulkAction) => {
+    setRunningAction(action.key);
+    try {
+      const result = await action.onPress(selectedRows);
+      if (result !== false) {
+        setSelectedKeys(new Set());
+      }
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  const handleEndReached = () => {
+    if (visibleCount < rows.length) {
+      setVisibleCount(count => count + pageSize);
+    }
+  };
 
   // Function to render cell content
-  const renderCellContent = (column: Column, row: any, rowIndex: number) => {
+  const renderCellContent = (column: Column, row: any) => {
+    const rowIndex = dataIndexes.get(row) ?? 0;
     if (column.renderCell) {
       return column.renderCell(row[column.id], row, rowIndex);
     }
-    
+
     return (
-      <Text 
+      <Text
         style={[
-          styles.cellText, 
+          styles.cellText,
           { textAlign: column.align || 'left' }
         ]}
       >
@@ -65,84 +219,270 @@ const DataTable: React.FC<DataTableProps> = ({
     );
   };
 
-  const tableContent = (
-    <>
-      {/* Table Header */}
-      <View style={styles.headerRow}>
-        {columns.map((column, index) => (
-          <View 
-            key={`header-${index}`} 
+  const renderHeaderCell = (column: Column, index: number) => {
+    const direction = sort?.columnId === column.id ? sort.direction : null;
+    const label = (
+      <Text
+        style={[
+          styles.headerText,
+          direction ? styles.headerTextActive : null,
+          { textAlign: column.align || 'left' }
+        ]}
+      >
+        {column.label}
+      </Text>
+    );
+
+    return (
+      <View
+        key={`header-${index}`}
+        style={[
+          styles.headerCell,
+          {
+            width: column.width,
+            flex: column.width ? undefined : 1,
+          }
+        ]}
+      >
+        {column.sortable ? (
+          <TouchableOpacity
+            onPress={() => handleSort(column)}
+            style={[
+              styles.sortButton,
+              column.align === 'right' && styles.sortButtonRight,
+              column.align === 'center' && styles.sortButtonCenter,
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel={`Sort by ${column.label}`}
+            activeOpacity={0.7}
+          >
+            {label}
+            {direction && (
+              <Icon
+                source={direction === 'asc' ? 'arrow-up' : 'arrow-down'}
+                size={14}
+                color={colors.primary}
+              />
+            )}
+          </TouchableOpacity>
+        ) : label}
+      </View>
+    );
+  };
+
+  const renderRow = ({ item, index }: { item: any; index: number }) => {
+    const selected = selectable && selectedKeys.has(getRowKey(item));
+    const cells = (
+      <>
+        {selectable && (
+          <View style={styles.selectCell}>
+            <Checkbox.Android
+              status={selected ? 'checked' : 'unchecked'}
+              onPress={() => toggleRow(item)}
+              color={colors.primary}
+              uncheckedColor={colors.textSecondary}
+            />
+          </View>
+        )}
+        {columns.map((column, colIndex) => (
+          <View
+            key={`cell-${colIndex}`}
             style={[
-              styles.headerCell, 
-              { 
-                width: column.width, 
+              styles.dataCell,
+              {
+                width: column.width,
                 flex: column.width ? undefined : 1,
               }
             ]}
           >
-            <Text 
-              style={[
-                styles.headerText, 
-                { textAlign: column.align || 'left' }
-              ]}
-            >
-              {column.label}
-            </Text>
+            {renderCellContent(column, item)}
           </View>
         ))}
+      </>
+    );
+    const rowStyle = [
+      styles.dataRow,
+      index % 2 === 0 ? styles.evenRow : null,
+      selected ? styles.selectedRow : null,
+    ];
+
+    if (!selectable && !onRowPress) {
+      return <View style={rowStyle}>{cells}</View>;
+    }
+    const opens = onRowPress && selectedRows.length === 0;
+    return (
+      <TouchableOpacity
+        style={rowStyle}
+        onPress={() => (opens ? onRowPress(item) : toggleRow(item))}
+        onLongPress={selectable ? () => toggleRow(item) : undefined}
+        activeOpacity={0.7}
+        accessibilityRole={opens ? 'button' : undefined}
+        accessibilityState={selectable ? { selected } : undefined}
+      >
+        {cells}
+      </TouchableOpacity>
+    );
+  };
+
+  const tableContent = (
+    <>
+      {/* Table Header */}
+      <View style={styles.headerRow}>
+        {selectable && (
+          <View style={styles.selectCell}>
+            {selectionMode === 'multiple' && rows.length > 0 && (
+              <Checkbox.Android
+                status={
+                  rows.every(row => selectedKeys.has(getRowKey(row)))
+                    ? 'checked'
+                    : rows.some(row => selectedKeys.has(getRowKey(row))) ? 'indeterminate' : 'unchecked'
+                }
+                onPress={toggleAll}
+                color={colors.primary}
+                uncheckedColor={colors.textSecondary}
+              />
+            )}
+          </View>
+        )}
+        {columns.map(renderHeaderCell)}
       </View>
-      
-      {/* Table Body */}
-      {data.length > 0 ? (
-        data.map((row, rowIndex) => (
-          <View 
-            key={`row-${rowIndex}`} 
-            style={[
-              styles.dataRow, 
-              rowIndex % 2 === 0 ? styles.evenRow : null
-            ]}
-          >
-            {columns.map((column, colIndex) => (
-              <View 
-                key={`cell-${rowIndex}-${colIndex}`} 
-                style={[
-                  styles.dataCell, 
-                  { 
-                    width: column.width, 
-                    flex: column.width ? undefined : 1,
-                  }
-                ]}
-              >
-                {renderCellContent(column, row, rowIndex)}
-              </View>
-            ))}
+
+      {/* Table Body. A page is short, so only the infinite mode scrolls by itself. */}
+      <FlatList
+        data={visibleRows}
+        renderItem={renderRow}
+        keyExtractor={getRowKey}
+        extraData={selectedKeys}
+        scrollEnabled={pagination === 'infinite'}
+        nestedScrollEnabled
+        style={pagination === 'infinite' ? { maxHeight } : undefined}
+        onEndReached={pagination === 'infinite' ? handleEndReached : undefined}
+        onEndReachedThreshold={0.5}
+        initialNumToRender={pageSizeOptions[0]}
+        windowSize={5}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>
+              {query.trim() && data.length > 0 ? `No rows match "${query.trim()}"` : emptyMessage}
+            </Text>
           </View>
-        ))
-      ) : (
-        <View style={styles.emptyContainer}>
-          <Text style={styles.emptyText}>{emptyMessage}</Text>
-        </View>
-      )}
+        }
+      />
     </>
   );
 
-  // If horizontal scrolling is enabled and table is wider than screen
-  if (horizontalScrollEnabled && totalMinWidth > width) {
+  // Selection count and bulk actions, in place of the search box while rows are selected
+  const renderSelectionToolbar = () => (
+    <View style={styles.selectionToolbar}>
+      <IconButton
+        icon="close"
+        size={20}
+        iconColor={colors.textPrimary}
+        onPress={() => setSelectedKeys(new Set())}
+        accessibilityLabel="Clear selection"
+        style={styles.pageButton}
+      />
+      <Text style={styles.selectionText}>{selectedRows.length} selected</Text>
+      <View style={styles.bulkActions}>
+        {bulkActions.map(action => (
+          <Button
+            key={action.key}
+            mode="text"
+            compact
+            icon={action.icon}
+            textColor={colors.primary}
+            loading={runningAction === action.key}
+            disabled={!!runningAction}
+            onPress={() => runBulkAction(action)}
+          >
+            {action.label}
+          </Button>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderFooter = () => {
+    if (pagination === 'infinite') {
+      return rows.length > 0 ? (
+        <View style={styles.footer}>
+          <Text style={styles.footerText}>
+            Showing {Math.min(visibleCount, rows.length)} of {rows.length}
+          </Text>
+        </View>
+      ) : null;
+    }
+
+    if (!showPageControls) return null;
+
+    const first = paged.page * pageSize + 1;
+    const last = Math.min(rows.length, first + pageSize - 1);
     return (
-      <View style={[styles.container, style]}>
-        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-          <View style={{ width: totalMinWidth }}>
-            {tableContent}
-          </View>
-        </ScrollView>
+      <View style={styles.footer}>
+        <View style={styles.pageSizes}>
+          {pageSizeOptions.map(size => (
+            <TouchableOpacity
+              key={size}
+              onPress={() => handlePageSize(size)}
+              style={[styles.pageSize, size === pageSize && styles.pageSizeActive]}
+              accessibilityRole="button"
+              accessibilityLabel={`${size} rows per page`}
+            >
+              <Text style={[styles.footerText, size === pageSize && styles.pageSizeTextActive]}>
+                {size}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.pageNav}>
+          <Text style={styles.footerText}>{first}–{last} of {rows.length}</Text>
+          <IconButton
+            icon="chevron-left"
+            size={20}
+            iconColor={colors.textPrimary}
+            disabled={paged.page === 0}
+            onPress={() => setPage(paged.page - 1)}
+            accessibilityLabel="Previous page"
+            style={styles.pageButton}
+          />
+          <IconButton
+            icon="chevron-right"
+            size={20}
+            iconColor={colors.textPrimary}
+            disabled={paged.page >= paged.pageCount - 1}
+            onPress={() => setPage(paged.page + 1)}
+            accessibilityLabel="Next page"
+            style={styles.pageButton}
+          />
+        </View>
       </View>
     );
-  }
-  
-  // Otherwise, render normally
+  };
+
+  // If horizontal scrolling is enabled and table is wider than screen
+  const table = horizontalScrollEnabled && totalMinWidth > width ? (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View style={{ width: totalMinWidth }}>
+        {tableContent}
+      </View>
+    </ScrollView>
+  ) : tableContent;
+
   return (
     <View style={[styles.container, style]}>
-      {tableContent}
+      {selectedRows.length > 0 ? renderSelectionToolbar() : searchable && (
+        <Searchbar
+          placeholder={searchPlaceholder}
+          value={query}
+          onChangeText={handleSearch}
+          style={styles.search}
+          inputStyle={styles.searchInput}
+          iconColor={colors.textSecondary}
+          placeholderTextColor={colors.textSecondary}
+        />
+      )}
+      {table}
+      {renderFooter()}
     </View>
   );
 };
@@ -152,6 +492,18 @@ const styles = StyleSheet.create({
     backgroundColor: colors.backgroundDark,
     borderRadius: 0,
   },
+  search: {
+    margin: spacing.md,
+    marginBottom: spacing.xs,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: `${colors.backgroundLight}50`,
+  },
+  searchInput: {
+    minHeight: 44,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
   headerRow: {
     flexDirection: 'row',
     borderBottomWidth: 1,
@@ -168,6 +520,20 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.textSecondary,
   },
+  headerTextActive: {
+    color: colors.primary,
+  },
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  sortButtonRight: {
+    justifyContent: 'flex-end',
+  },
+  sortButtonCenter: {
+    justifyContent: 'center',
+  },
   dataRow: {
     flexDirection: 'row',
     borderBottomWidth: 1,
@@ -178,6 +544,35 @@ const styles = StyleSheet.create({
   evenRow: {
     backgroundColor: `${colors.backgroundMedium}40`,
   },
+  selectedRow: {
+    backgroundColor: `${colors.primary}20`,
+  },
+  selectCell: {
+    width: SELECT_COLUMN_WIDTH,
+    marginLeft: -spacing.sm,
+    justifyContent: 'center',
+  },
+  selectionToolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 44,
+    margin: spacing.md,
+    marginBottom: spacing.xs,
+    paddingRight: spacing.xs,
+    borderRadius: 8,
+    backgroundColor: `${colors.primary}20`,
+  },
+  selectionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  bulkActions: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+  },
   dataCell: {
     paddingHorizontal: spacing.xs,
     justifyContent: 'center',
@@ -196,6 +591,41 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     fontStyle: 'italic',
   },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+  },
+  footerText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  pageSizes: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pageSize: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: 6,
+    marginRight: spacing.xs,
+  },
+  pageSizeActive: {
+    backgroundColor: `${colors.primary}30`,
+  },
+  pageSizeTextActive: {
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  pageNav: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pageButton: {
+    margin: 0,
+  },
 });
 
-export default DataTable;
\ No newline at end of file
+export default DataTable;
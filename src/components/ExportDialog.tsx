@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Portal, Dialog, Text, Button, Icon } from 'react-native-paper';
+import { exportService } from '../api/exportService';
+import { toAppError } from '../api/errors';
+import { ExportDocument, ExportFormat } from '../utils/exportData';
+import { colors, spacing, createShadow } from '../utils/theme';
+
+interface ExportDialogProps {
+  document: ExportDocument | null; // The dialog is shown while there is a document
+  onDismiss: () => void;
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string; description: string; icon: string }> = [
+  { format: 'csv', label: 'CSV', description: 'Table as comma-separated values', icon: 'file-delimited-outline' },
+  { format: 'xlsx', label: 'Excel', description: 'Workbook with the table and summary', icon: 'file-excel-outline' },
+  { format: 'pdf', label: 'PDF', description: 'Printable report', icon: 'file-pdf-box' },
+];
+
+/**
+ * Picks a format for the current module's data, then writes the file and opens the share sheet
+ */
+const ExportDialog: React.FC<ExportDialogProps> = ({ document, onDismiss }) => {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (document) {
+      setError('');
+    }
+  }, [document]);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!document) return;
+
+    setExporting(format);
+    setError('');
+    try {
+      await exportService.share(document, format);
+      onDismiss();
+    } catch (err) {
+      setError(toAppError(err, { message: 'Could not export the data' }).message);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={!!document} onDismiss={exporting ? undefined : onDismiss} style={styles.dialog}>
+        <Dialog.Title style={styles.title}>Export {document?.title}</Dialog.Title>
+        <Dialog.Content>
+          {FORMATS.map(item => (
+            <TouchableOpacity
+              key={item.format}
+              style={styles.format}
+              onPress={() => handleExport(item.format)}
+              disabled={!!exporting}
+              accessibilityRole="button"
+              activeOpacity={0.7}
+            >
+              <Icon source={item.icon} size={28} color={colors.primary} />
+              <View style={styles.formatText}>
+                <Text style={styles.formatLabel}>{item.label}</Text>
+                <Text style={styles.formatDescription}>{item.description}</Text>
+              </View>
+              {exporting === item.format && <ActivityIndicator color={colors.primary} />}
+            </TouchableOpacity>
+          ))}
+          {!!error && <Text style={styles.error}>{error}</Text>}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={!!exporting} textColor={colors.textSecondary}>
+            Cancel
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  dialog: {
+    backgroundColor: colors.backgroundMedium,
+    borderRadius: 16,
+    ...createShadow(8, `${colors.primary}40`),
+  },
+  title: {
+    color: colors.textPrimary,
+  },
+  format: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    marginBottom: spacing.xs,
+    borderRadius: 8,
+    backgroundColor: `${colors.backgroundLight}30`,
+  },
+  formatText: {
+    flex: 1,
+    marginLeft: spacing.md,
+  },
+  formatLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  formatDescription: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  error: {
+    marginTop: spacing.sm,
+    fontSize: 13,
+    color: colors.error,
+  },
+});
+
+export default ExportDialog;
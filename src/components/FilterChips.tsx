@@ -0,0 +1,89 @@
+import React from 'react';
+import { StyleSheet, ScrollView } from 'react-native';
+import { Chip } from 'react-native-paper';
+import { useAppDispatch } from '../hooks/useAppDispatch';
+import { useAppSelector } from '../hooks/useAppSelector';
+import {
+  filterRemoved,
+  filtersCleared,
+  describeFilters,
+  selectModuleFilters,
+} from '../state/slices/filtersSlice';
+import { ModuleType } from '../state/slices/uiSlice';
+import { colors, spacing } from '../utils/theme';
+
+interface FilterChipsProps {
+  module: ModuleType;
+  onPress: () => void; // Opens the filter sheet
+}
+
+/**
+ * Active filters of a module; each chip removes its filter, the row is hidden when nothing is filtered
+ */
+const FilterChips: React.FC<FilterChipsProps> = ({ module, onPress }) => {
+  const dispatch = useAppDispatch();
+  const filters = useAppSelector(state => selectModuleFilters(state, module));
+  const labels = describeFilters(module, filters);
+
+  if (labels.length === 0) {
+    return null;
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.container}
+      contentContainerStyle={styles.content}
+    >
+      {labels.map(({ key, label }) => (
+        <Chip
+          key={key}
+          icon="filter-variant"
+          onPress={onPress}
+          onClose={() => dispatch(filterRemoved({ module, key }))}
+          closeIcon="close"
+          style={styles.chip}
+          textStyle={styles.chipText}
+          accessibilityLabel={`Filter: ${label}`}
+        >
+          {label}
+        </Chip>
+      ))}
+      {labels.length > 1 && (
+        <Chip
+          onPress={() => dispatch(filtersCleared(module))}
+          style={styles.clearChip}
+          textStyle={styles.clearText}
+        >
+          Clear all
+        </Chip>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 0,
+    marginBottom: spacing.sm,
+  },
+  content: {
+    paddingHorizontal: spacing.md,
+  },
+  chip: {
+    marginRight: spacing.xs,
+    backgroundColor: `${colors.primary}30`,
+  },
+  chipText: {
+    color: colors.textPrimary,
+  },
+  clearChip: {
+    backgroundColor: 'transparent',
+  },
+  clearText: {
+    color: colors.textSecondary,
+  },
+});
+
+export default FilterChips;
@@ -0,0 +1,407 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, ScrollView, ActivityIndicator } from 'react-native';
+import { Portal, Modal, Text, Button, Chip } from 'react-native-paper';
+import FloatingInput from './FloatingInput';
+import {
+  odooDataService,
+  FilterOption,
+  SalesFilters,
+  InventoryFilters,
+  CustomersFilters,
+  StockStatus,
+  SalesFilterOptions,
+  InventoryFilterOptions,
+  CustomersFilterOptions,
+} from '../api/odooDataService';
+import { toAppError } from '../api/errors';
+import { useAppDispatch } from '../hooks/useAppDispatch';
+import { useAppSelector } from '../hooks/useAppSelector';
+import { selectActiveSessionId } from '../state/slices/authSlice';
+import { filtersApplied, selectModuleFilters, ModuleFiltersMap } from '../state/slices/filtersSlice';
+import { ModuleType } from '../state/slices/uiSlice';
+import { colors, spacing, createShadow } from '../utils/theme';
+
+interface FilterSheetProps {
+  visible: boolean;
+  module: ModuleType;
+  onDismiss: () => void;
+}
+
+interface FilterOptionsMap {
+  sales: SalesFilterOptions;
+  inventory: InventoryFilterOptions;
+  customers: CustomersFilterOptions;
+}
+
+const OPTION_LOADERS: { [K in ModuleType]: () => Promise<FilterOptionsMap[K]> } = {
+  sales: odooDataService.getSalesFilterOptions,
+  inventory: odooDataService.getInventoryFilterOptions,
+  customers: odooDataService.getCustomersFilterOptions,
+};
+
+const STATUSES: StockStatus[] = ['Good', 'Low', 'Critical', 'Out'];
+
+const TITLES: Record<ModuleType, string> = {
+  sales: 'Filter sales',
+  inventory: 'Filter inventory',
+  customers: 'Filter customers',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const formatDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// YYYY-MM-DD naming a real day
+const isValidDate = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+// Date ranges offered in one tap, ending today
+const DATE_PRESETS = [
+  { label: 'This month', from: (today: Date) => new Date(today.getFullYear(), today.getMonth(), 1) },
+  { label: 'Last 3 months', from: (today: Date) => new Date(today.getFullYear(), today.getMonth() - 2, 1) },
+  { label: 'This year', from: (today: Date) => new Date(today.getFullYear(), 0, 1) },
+];
+
+/**
+ * Chips to pick at most one option; tapping the selected one clears it
+ */
+const OptionChips = <T extends string | FilterOption>({
+  options,
+  selected,
+  onChange,
+  getLabel,
+}: {
+  options: T[];
+  selected?: T;
+  onChange: (value: T | undefined) => void;
+  getLabel: (option: T) => string;
+}) => {
+  const isSelected = (option: T) =>
+    typeof option === 'string' ? option === selected : (selected as FilterOption | undefined)?.id === option.id;
+
+  if (options.length === 0) {
+    return <Text style={styles.emptyText}>Nothing to choose from</Text>;
+  }
+  return (
+    <View style={styles.chips}>
+      {options.map(option => (
+        <Chip
+          key={typeof option === 'string' ? option : option.id}
+          selected={isSelected(option)}
+          showSelectedCheck={false}
+          onPress={() => onChange(isSelected(option) ? undefined : option)}
+          style={[styles.chip, isSelected(option) && styles.chipSelected]}
+          textStyle={[styles.chipText, isSelected(option) && styles.chipTextSelected]}
+        >
+          {getLabel(option)}
+        </Chip>
+      ))}
+    </View>
+  );
+};
+
+const optionName = (option: FilterOption) => option.name;
+
+/**
+ * Bottom sheet editing the filters of a module. Nothing is applied until Apply is pressed.
+ */
+const FilterSheet: React.FC<FilterSheetProps> = ({ visible, module, onDismiss }) => {
+  const dispatch = useAppDispatch();
+  const sessionId = useAppSelector(selectActiveSessionId);
+  const filters = useAppSelector(state => selectModuleFilters(state, module));
+
+  const [draft, setDraft] = useState<ModuleFiltersMap[ModuleType]>(filters);
+  const [options, setOptions] = useState<FilterOptionsMap[ModuleType] | null>(null);
+  const [optionsError, setOptionsError] = useState('');
+  const [dateError, setDateError] = useState('');
+
+  // Start from the applied filters and load the choices each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(filters);
+    setDateError('');
+    setOptions(null);
+    setOptionsError('');
+
+    let current = true;
+    OPTION_LOADERS[module]()
+      .then(result => {
+        if (current) setOptions(result);
+      })
+      .catch(err => {
+        if (current) setOptionsError(toAppError(err, { message: 'Could not load the filter choices' }).message);
+      });
+    return () => {
+      current = false;
+    };
+  }, [visible, module]);
+
+  const update = (changes: Partial<SalesFilters & InventoryFilters & CustomersFilters>) => {
+    setDraft(current => ({ ...current, ...changes }));
+  };
+
+  const handleApply = () => {
+    const sales = draft as SalesFilters;
+    if (module === 'sales') {
+      if ((sales.dateFrom && !isValidDate(sales.dateFrom)) || (sales.dateTo && !isValidDate(sales.dateTo))) {
+        setDateError('Enter dates as YYYY-MM-DD');
+        return;
+      }
+      if (sales.dateFrom && sales.dateTo && sales.dateFrom > sales.dateTo) {
+        setDateError('The start date is after the end date');
+        return;
+      }
+    }
+
+    if (sessionId) {
+      // Fields cleared in the sheet are left out rather than kept as empty values
+      const applied = Object.fromEntries(Object.entries(draft).filter(([, value]) => value !== undefined && value !== ''));
+      dispatch(filtersApplied({ sessionId, module, filters: applied }));
+    }
+    onDismiss();
+  };
+
+  const renderSalesFilters = (sales: SalesFilters, salesOptions: SalesFilterOptions | null) => {
+    const today = new Date();
+    return (
+      <>
+        <Text style={styles.sectionTitle}>Order date</Text>
+        <View style={styles.chips}>
+          {DATE_PRESETS.map(preset => (
+            <Chip
+              key={preset.label}
+              onPress={() => {
+                update({ dateFrom: formatDate(preset.from(today)), dateTo: formatDate(today) });
+                setDateError('');
+              }}
+              style={styles.chip}
+              textStyle={styles.chipText}
+            >
+              {preset.label}
+            </Chip>
+          ))}
+        </View>
+        <View style={styles.dateRow}>
+          <FloatingInput
+            label="From (YYYY-MM-DD)"
+            value={sales.dateFrom || ''}
+            onChangeText={(text) => {
+              update({ dateFrom: text.trim() || undefined });
+              setDateError('');
+            }}
+            keyboardType="numbers-and-punctuation"
+            containerStyle={styles.dateInput}
+          />
+          <FloatingInput
+            label="To (YYYY-MM-DD)"
+            value={sales.dateTo || ''}
+            onChangeText={(text) => {
+              update({ dateTo: text.trim() || undefined });
+              setDateError('');
+            }}
+            keyboardType="numbers-and-punctuation"
+            containerStyle={styles.dateInput}
+          />
+        </View>
+        {!!dateError && <Text style={styles.errorText}>{dateError}</Text>}
+
+        <Text style={styles.sectionTitle}>Salesperson</Text>
+        {salesOptions && (
+          <OptionChips
+            options={salesOptions.salespeople}
+            selected={sales.salesperson}
+            onChange={(salesperson) => update({ salesperson })}
+            getLabel={optionName}
+          />
+        )}
+      </>
+    );
+  };
+
+  const renderInventoryFilters = (inventory: InventoryFilters, inventoryOptions: InventoryFilterOptions | null) => (
+    <>
+      <Text style={styles.sectionTitle}>Stock status</Text>
+      <OptionChips
+        options={STATUSES}
+        selected={inventory.status}
+        onChange={(status) => update({ status })}
+        getLabel={(status) => status}
+      />
+      <Text style={styles.sectionTitle}>Warehouse</Text>
+      {inventoryOptions && (
+        <OptionChips
+          options={inventoryOptions.warehouses}
+          selected={inventory.warehouse}
+          onChange={(warehouse) => update({ warehouse })}
+          getLabel={optionName}
+        />
+      )}
+      <Text style={styles.sectionTitle}>Category</Text>
+      {inventoryOptions && (
+        <OptionChips
+          options={inventoryOptions.categories}
+          selected={inventory.category}
+          onChange={(category) => update({ category })}
+          getLabel={optionName}
+        />
+      )}
+    </>
+  );
+
+  const renderCustomersFilters = (customers: CustomersFilters, customersOptions: CustomersFilterOptions | null) => (
+    <>
+      <Text style={styles.sectionTitle}>Segment</Text>
+      {customersOptions && (
+        <OptionChips
+          options={customersOptions.segments}
+          selected={customers.segment}
+          onChange={(segment) => update({ segment })}
+          getLabel={optionName}
+        />
+      )}
+      <Text style={styles.sectionTitle}>Country</Text>
+      {customersOptions && (
+        <OptionChips
+          options={customersOptions.countries}
+          selected={customers.country}
+          onChange={(country) => update({ country })}
+          getLabel={optionName}
+        />
+      )}
+    </>
+  );
+
+  const renderFilters = () => {
+    switch (module) {
+      case 'sales':
+        return renderSalesFilters(draft as SalesFilters, options as SalesFilterOptions | null);
+      case 'inventory':
+        return renderInventoryFilters(draft as InventoryFilters, options as InventoryFilterOptions | null);
+      default:
+        return renderCustomersFilters(draft as CustomersFilters, options as CustomersFilterOptions | null);
+    }
+  };
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={onDismiss} contentContainerStyle={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{TITLES[module]}</Text>
+          {!options && !optionsError && <ActivityIndicator size="small" color={colors.primary} />}
+        </View>
+        {!!optionsError && <Text style={styles.errorText}>{optionsError}</Text>}
+
+        <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+          {renderFilters()}
+        </ScrollView>
+
+        <View style={styles.actions}>
+          <Button onPress={() => setDraft({})} textColor={colors.textSecondary}>
+            Reset
+          </Button>
+          <View style={styles.actionsRight}>
+            <Button onPress={onDismiss} textColor={colors.textSecondary}>
+              Cancel
+            </Button>
+            <Button mode="contained" onPress={handleApply} style={styles.applyButton}>
+              Apply
+            </Button>
+          </View>
+        </View>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  sheet: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    maxHeight: '85%',
+    padding: spacing.lg,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    backgroundColor: colors.backgroundMedium,
+    ...createShadow(8, `${colors.primary}40`),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  body: {
+    flexGrow: 0,
+  },
+  sectionTitle: {
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: spacing.xs,
+    marginBottom: spacing.xs,
+    backgroundColor: `${colors.backgroundLight}50`,
+  },
+  chipSelected: {
+    backgroundColor: `${colors.primary}40`,
+  },
+  chipText: {
+    color: colors.textPrimary,
+  },
+  chipTextSelected: {
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    marginTop: spacing.sm,
+  },
+  dateInput: {
+    flex: 1,
+    marginRight: spacing.xs,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.error,
+    marginBottom: spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  actionsRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  applyButton: {
+    marginLeft: spacing.xs,
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+  },
+});
+
+export default FilterSheet;
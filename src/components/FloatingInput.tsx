@@ -8,6 +8,7 @@ import {
   ViewStyle,
   TextStyle,
   Text,
+  TouchableOpacity,
   NativeSyntheticEvent,
   TextInputFocusEventData,
   TextInputProps,
@@ -25,8 +26,12 @@ interface InputProps extends TextInputProps {
   hint?: string;
   rightIcon?: React.ReactNode;
   leftIcon?: React.ReactNode;
+  suggestions?: string[]; // Autocomplete values shown while focused
+  onSelectSuggestion?: (value: string) => void;
 }
 
+const MAX_VISIBLE_SUGGESTIONS = 5;
+
 /**
  * Premium, minimal input with perfect alignment and spacing
  */
@@ -42,6 +47,10 @@ export const FloatingInput: React.FC<InputProps> = ({
   rightIcon,
   leftIcon,
   secureTextEntry,
+  suggestions,
+  onSelectSuggestion,
+  onFocus,
+  onBlur,
   ...restProps
 }) => {
   const [isFocused, setIsFocused] = useState(false);
@@ -59,17 +68,25 @@ export const FloatingInput: React.FC<InputProps> = ({
   // Handle focus and blur events
   const handleFocus = (e: NativeSyntheticEvent<TextInputFocusEventData>) => {
     setIsFocused(true);
-    if (restProps.onFocus) {
-      restProps.onFocus(e);
+    if (onFocus) {
+      onFocus(e);
     }
   };
   
   const handleBlur = (e: NativeSyntheticEvent<TextInputFocusEventData>) => {
     setIsFocused(false);
-    if (restProps.onBlur) {
-      restProps.onBlur(e);
+    if (onBlur) {
+      onBlur(e);
     }
   };
+
+  // Suggestions containing the typed text, excluding an exact match
+  const query = value.trim().toLowerCase();
+  const visibleSuggestions = isFocused && suggestions
+    ? suggestions
+        .filter(suggestion => suggestion !== value && suggestion.toLowerCase().includes(query))
+        .slice(0, MAX_VISIBLE_SUGGESTIONS)
+    : [];
   
   // Set color states
   const getLabelColor = () => {
@@ -135,6 +152,7 @@ export const FloatingInput: React.FC<InputProps> = ({
           selectionColor={colors.primary}
           placeholderTextColor={`${colors.textSecondary}80`}
           secureTextEntry={secureTextEntry}
+          accessibilityLabel={label}
           {...restProps}
         />
         
@@ -157,6 +175,23 @@ export const FloatingInput: React.FC<InputProps> = ({
         />
       </View>
       
+      {/* Autocomplete suggestions */}
+      {visibleSuggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {visibleSuggestions.map((suggestion) => (
+            <TouchableOpacity
+              key={suggestion}
+              style={styles.suggestion}
+              onPress={() => (onSelectSuggestion || onChangeText)(suggestion)}
+            >
+              <Text style={styles.suggestionText} numberOfLines={1}>
+                {suggestion}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      
       {/* Error or hint message */}
       {(error || hint) && (
         <Text 
@@ -232,6 +267,22 @@ const styles = StyleSheet.create({
   hintText: {
     color: colors.textSecondary,
   },
+  suggestions: {
+    marginTop: spacing.xs,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundMedium,
+    overflow: 'hidden',
+  },
+  suggestion: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: `${colors.textSecondary}20`,
+  },
+  suggestionText: {
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
 });
 
 export default FloatingInput;
\ No newline at end of file
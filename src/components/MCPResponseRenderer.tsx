@@ -9,23 +9,41 @@ import {
   Surface,
   Chip,
   Badge,
-  ActivityIndicator
+  ActivityIndicator,
+  Button
 } from 'react-native-paper';
 import Animated, { FadeIn, SlideInUp } from 'react-native-reanimated';
 import { Platform } from 'react-native';
 import { MCPResponse, MCPErrorResponse } from '../api/mcpService';
+import { ConversationActionState } from '../api/conversationStorage';
+import { getErrorGuidance } from '../api/errors';
 import { colors, spacing, createShadow } from '../utils/theme';
 import GlassCard from './GlassCard';
+import ResponseChart from './ResponseChart';
+import ActionConfirmationCard from './ActionConfirmationCard';
 
 interface MCPResponseRendererProps {
   response: MCPResponse | null;
+  streaming?: boolean;
+  onCancel?: () => void;
+  actionState?: ConversationActionState;
+  onActionDecision?: (approved: boolean) => void;
+  onRetry?: () => void; // Offered on errors the user can retry
 }
 
 /**
  * Component that renders different types of responses from the MCP service
- * Handles text, image, list, table, and error responses with appropriate UI
+ * Handles text, image, list, table, chart, action, and error responses with appropriate UI.
+ * While streaming, partial content is rendered progressively as it arrives.
  */
-const MCPResponseRenderer: React.FC<MCPResponseRendererProps> = ({ response }) => {
+const MCPResponseRenderer: React.FC<MCPResponseRendererProps> = ({
+  response,
+  streaming = false,
+  onCancel,
+  actionState,
+  onActionDecision,
+  onRetry,
+}) => {
   const [imageLoading, setImageLoading] = useState(false);
   const { width } = useWindowDimensions();
   
@@ -40,7 +58,7 @@ const MCPResponseRenderer: React.FC<MCPResponseRendererProps> = ({ response }) =
     (response.type === 'list' && (!response.content.items || response.content.items.length === 0)) ||
     (response.type === 'table' && (!response.content.rows || response.content.rows.length === 0));
 
-  if (isEmptyResponse) {
+  if (isEmptyResponse && !streaming) {
     return (
       <Animated.View entering={FadeIn.duration(300)}>
         <GlassCard style={styles.emptyContainer} elevation={2}>
@@ -55,6 +73,37 @@ const MCPResponseRenderer: React.FC<MCPResponseRendererProps> = ({ response }) =
     );
   }
 
+  // Type chip, or a progress indicator with cancel while the response is streaming
+  const renderHeaderStatus = () => {
+    if (streaming) {
+      return (
+        <View style={styles.streamingStatus}>
+          <ActivityIndicator size="small" color={colors.primary} />
+          {onCancel && (
+            <IconButton
+              icon="stop-circle-outline"
+              size={20}
+              iconColor={colors.textSecondary}
+              style={styles.cancelButton}
+              onPress={onCancel}
+              accessibilityLabel="Cancel response"
+            />
+          )}
+        </View>
+      );
+    }
+
+    return (
+      <Chip 
+        mode="outlined" 
+        style={styles.typeChip}
+        textStyle={{ color: colors.primary }}
+      >
+        {response.type}
+      </Chip>
+    );
+  };
+
   // Different rendering for web vs native for better compatibility
   if (Platform.OS === 'web') {
     return (
@@ -63,17 +112,11 @@ const MCPResponseRenderer: React.FC<MCPResponseRendererProps> = ({ response }) =
           <GlassCard style={styles.card} elevation={4}>
             <View style={styles.cardHeader}>
               <Text style={styles.cardTitle}>{getResponseTitle(response)}</Text>
-              <Chip 
-                mode="outlined" 
-                style={styles.typeChip}
-                textStyle={{ color: colors.primary }}
-              >
-                {response.type}
-              </Chip>
+              {renderHeaderStatus()}
             </View>
             <Divider style={styles.divider} />
             <View>
-              {renderContent(response, { setImageLoading, imageLoading, screenWidth: width })}
+              {renderContent(response, { setImageLoading, imageLoading, screenWidth: width, actionState, onActionDecision, onRetry })}
             </View>
           </GlassCard>
         </View>
@@ -88,17 +131,11 @@ const MCPResponseRenderer: React.FC<MCPResponseRendererProps> = ({ response }) =
         <GlassCard style={styles.card} elevation={4}>
           <View style={styles.cardHeader}>
             <Text style={styles.cardTitle}>{getResponseTitle(response)}</Text>
-            <Chip 
-              mode="outlined" 
-              style={styles.typeChip}
-              textStyle={{ color: colors.primary }}
-            >
-              {response.type}
-            </Chip>
+            {renderHeaderStatus()}
           </View>
           <Divider style={styles.divider} />
           <Animated.View entering={SlideInUp.duration(400).delay(200)}>
-            {renderContent(response, { setImageLoading, imageLoading, screenWidth: width })}
+            {renderContent(response, { setImageLoading, imageLoading, screenWidth: width, actionState, onActionDecision, onRetry })}
           </Animated.View>
         </GlassCard>
       </Animated.View>
@@ -117,8 +154,12 @@ const getResponseTitle = (response: MCPResponse): string => {
       return response.content.title || 'List';
     case 'table':
       return 'Table Data';
+    case 'chart':
+      return response.content.title || 'Chart';
+    case 'action':
+      return 'Confirm Change';
     case 'error':
-      return 'Error';
+      return getErrorGuidance(response.code).title;
     default:
       return 'Response';
   }
@@ -131,9 +172,12 @@ const renderContent = (
     setImageLoading: (loading: boolean) => void; 
     imageLoading: boolean;
     screenWidth: number; 
+    actionState?: ConversationActionState;
+    onActionDecision?: (approved: boolean) => void;
+    onRetry?: () => void;
   }
 ) => {
-  const { setImageLoading, imageLoading, screenWidth } = options;
+  const { setImageLoading, imageLoading, screenWidth, actionState, onActionDecision, onRetry } = options;
   
   switch (response.type) {
     case 'text':
@@ -200,8 +244,25 @@ const renderContent = (
         </Card.Content>
       );
     
+    case 'chart':
+      return (
+        <Card.Content style={styles.chartPadding}>
+          <ResponseChart content={response.content} width={screenWidth} />
+        </Card.Content>
+      );
+    
+    case 'action':
+      return (
+        <ActionConfirmationCard
+          action={response.content}
+          state={actionState}
+          onDecision={onActionDecision}
+        />
+      );
+    
     case 'error':
       const errorResponse = response as MCPErrorResponse;
+      const guidance = getErrorGuidance(errorResponse.code);
       return (
         <Card.Content style={styles.errorContent}>
           <View style={styles.errorContainer}>
@@ -213,9 +274,24 @@ const renderContent = (
             />
             <View style={styles.errorTextContainer}>
               <Text style={styles.errorText}>{errorResponse.content}</Text>
+              {guidance.message !== errorResponse.content && (
+                <Text style={styles.errorGuidance}>{guidance.message}</Text>
+              )}
               {errorResponse.code && (
                 <Text style={styles.errorCode}>Error code: {errorResponse.code}</Text>
               )}
+              {guidance.action === 'retry' && onRetry && (
+                <Button
+                  mode="outlined"
+                  icon="replay"
+                  compact
+                  onPress={onRetry}
+                  textColor={colors.primary}
+                  style={styles.retryButton}
+                >
+                  Try again
+                </Button>
+              )}
             </View>
           </View>
         </Card.Content>
@@ -266,6 +342,9 @@ const styles = StyleSheet.create({
   tablePadding: {
     padding: spacing.md,
   },
+  chartPadding: {
+    paddingHorizontal: spacing.sm,
+  },
   textResponse: {
     fontSize: 16,
     lineHeight: 24,
@@ -358,10 +437,20 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: spacing.xs,
   },
+  errorGuidance: {
+    color: colors.textPrimary,
+    fontSize: 14,
+    marginBottom: spacing.xs,
+  },
   errorCode: {
     color: colors.textSecondary,
     fontSize: 12,
   },
+  retryButton: {
+    alignSelf: 'flex-start',
+    marginTop: spacing.sm,
+    borderColor: `${colors.primary}60`,
+  },
   emptyContainer: {
     padding: spacing.xl,
     marginHorizontal: spacing.md,
@@ -378,6 +467,14 @@ const styles = StyleSheet.create({
     fontSize: 16,
     letterSpacing: 0.3,
   },
+  streamingStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  cancelButton: {
+    margin: 0,
+    marginLeft: spacing.xs,
+  },
   typeChip: {
     backgroundColor: `${colors.backgroundLight}50`,
     borderColor: `${colors.primary}40`,
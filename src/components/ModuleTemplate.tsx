@@ -6,8 +6,10 @@ import {
   Dimensions, 
   ScrollView, 
   ViewStyle,
-  ScrollViewProps
+  ScrollViewProps,
+  ActivityIndicator
 } from 'react-native';
+import { Button } from 'react-native-paper';
 import { colors, spacing, createShadow } from '../utils/theme';
 
 interface ModuleTemplateProps {
@@ -17,6 +19,11 @@ interface ModuleTemplateProps {
   summary?: React.ReactNode;
   style?: ViewStyle;
   scrollViewProps?: Partial<ScrollViewProps>;
+  loading?: boolean;
+  error?: string | null;
+  isEmpty?: boolean;
+  emptyMessage?: string;
+  onRetry?: () => void;
 }
 
 const ModuleTemplate: React.FC<ModuleTemplateProps> = ({
@@ -25,11 +32,53 @@ const ModuleTemplate: React.FC<ModuleTemplateProps> = ({
   table,
   summary,
   style,
-  scrollViewProps
+  scrollViewProps,
+  loading = false,
+  error = null,
+  isEmpty = false,
+  emptyMessage = 'No data available for this module yet',
+  onRetry
 }) => {
   const { width, height } = Dimensions.get('window');
   // Use the same fixed height for all modules
   const chartHeight = 300;
+
+  // Loading, error and empty states replace the module content
+  const renderState = () => {
+    if (loading) {
+      return (
+        <View style={styles.stateContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text style={styles.stateText}>Loading data from Odoo...</Text>
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.stateContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          {onRetry && (
+            <Button mode="outlined" onPress={onRetry} textColor={colors.primary} style={styles.retryButton}>
+              Retry
+            </Button>
+          )}
+        </View>
+      );
+    }
+
+    if (isEmpty) {
+      return (
+        <View style={styles.stateContainer}>
+          <Text style={styles.stateText}>{emptyMessage}</Text>
+        </View>
+      );
+    }
+
+    return null;
+  };
+
+  const stateContent = renderState();
   
   return (
     <ScrollView 
@@ -41,23 +90,29 @@ const ModuleTemplate: React.FC<ModuleTemplateProps> = ({
       <View style={styles.titleContainer}>
         <Text style={styles.title}>{title}</Text>
       </View>
+
+      {stateContent}
       
-      {/* Chart Section - Fixed height, full width */}
-      <View style={[styles.chartContainer, { height: chartHeight }]}>
-        {chart}
-      </View>
-      
-      {/* Optional Summary Section (acts as legend) */}
-      {summary && (
-        <View style={styles.summaryContainer}>
-          {summary}
-        </View>
+      {!stateContent && (
+        <>
+          {/* Chart Section - Fixed height, full width */}
+          <View style={[styles.chartContainer, { height: chartHeight }]}>
+            {chart}
+          </View>
+
+          {/* Optional Summary Section (acts as legend) */}
+          {summary && (
+            <View style={styles.summaryContainer}>
+              {summary}
+            </View>
+          )}
+
+          {/* Table Section - Scrollable */}
+          <View style={styles.tableContainer}>
+            {table}
+          </View>
+        </>
       )}
-      
-      {/* Table Section - Scrollable */}
-      <View style={styles.tableContainer}>
-        {table}
-      </View>
     </ScrollView>
   );
 };
@@ -102,6 +157,27 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     ...createShadow(8, 'rgba(0,0,0,0.2)'),
   },
+  stateContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.xxl,
+    paddingHorizontal: spacing.lg,
+  },
+  stateText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: spacing.md,
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: spacing.md,
+    borderColor: colors.primary,
+  },
 });
 
 export default ModuleTemplate;
\ No newline at end of file
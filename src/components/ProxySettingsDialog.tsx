@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Portal, Dialog, Text, SegmentedButtons, Button, ActivityIndicator, Icon } from 'react-native-paper';
+import FloatingInput from './FloatingInput';
+import { settingsStore, validateProxyUrl, ProxyHealth } from '../api/settingsStore';
+import { EnvironmentProfile, PROXY_PROFILES } from '../utils/config';
+import { colors, spacing, createShadow } from '../utils/theme';
+
+interface ProxySettingsDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  onSaved?: (proxyUrl: string) => void;
+}
+
+const PROFILE_BUTTONS = [
+  { value: 'dev', label: 'Dev' },
+  { value: 'staging', label: 'Staging' },
+  { value: 'prod', label: 'Prod' },
+];
+
+/**
+ * Lets the user pick an environment profile or enter a custom proxy URL,
+ * checking the proxy health endpoint before saving
+ */
+const ProxySettingsDialog: React.FC<ProxySettingsDialogProps> = ({ visible, onDismiss, onSaved }) => {
+  const [profile, setProfile] = useState<EnvironmentProfile>('dev');
+  const [customUrl, setCustomUrl] = useState('');
+  const [urlError, setUrlError] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [health, setHealth] = useState<ProxyHealth | null>(null);
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (visible) {
+      const settings = settingsStore.getProxySettings();
+      setProfile(settings.profile);
+      setCustomUrl(settings.customUrl || '');
+      setUrlError('');
+      setHealth(null);
+    }
+  }, [visible]);
+
+  const effectiveUrl = customUrl.trim() || PROXY_PROFILES[profile];
+
+  const checkHealth = async () => {
+    const error = validateProxyUrl(effectiveUrl);
+    if (error) {
+      setUrlError(customUrl.trim() ? error : `No proxy URL is set for the ${profile} profile`);
+      return null;
+    }
+
+    setChecking(true);
+    const result = await settingsStore.checkProxyHealth(effectiveUrl);
+    setChecking(false);
+    setHealth(result);
+    return result;
+  };
+
+  // An unreachable proxy can still be saved on a second press, e.g. when setting up offline
+  const handleSave = async () => {
+    if (!health) {
+      const result = await checkHealth();
+      if (!result?.ok) return;
+    }
+
+    await settingsStore.setProxySettings({
+      profile,
+      customUrl: customUrl.trim() || null,
+    });
+    onSaved?.(settingsStore.getProxyUrl());
+    onDismiss();
+  };
+
+  const renderHealth = () => {
+    if (checking) {
+      return (
+        <View style={styles.health}>
+          <ActivityIndicator size="small" color={colors.primary} />
+          <Text style={styles.healthText}>Checking proxy...</Text>
+        </View>
+      );
+    }
+    if (!health) return null;
+
+    return (
+      <View style={styles.health}>
+        <Icon
+          source={health.ok ? 'check-circle' : 'alert-circle'}
+          size={18}
+          color={health.ok ? colors.success : colors.error}
+        />
+        <Text style={[styles.healthText, { color: health.ok ? colors.success : colors.error }]}>
+          {health.ok
+            ? `Proxy reachable (${health.latencyMs} ms${health.version ? `, v${health.version}` : ''})`
+            : health.error}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss} style={styles.dialog}>
+        <Dialog.Title style={styles.title}>Proxy Server</Dialog.Title>
+        <Dialog.Content>
+          <SegmentedButtons
+            value={profile}
+            onValueChange={(value) => {
+              setProfile(value as EnvironmentProfile);
+              setHealth(null);
+              setUrlError('');
+            }}
+            buttons={PROFILE_BUTTONS}
+            style={styles.profiles}
+          />
+          <FloatingInput
+            label="Custom proxy URL (optional)"
+            value={customUrl}
+            onChangeText={(text) => {
+              setCustomUrl(text);
+              setHealth(null);
+              setUrlError('');
+            }}
+            autoCapitalize="none"
+            keyboardType="url"
+            error={urlError}
+            hint={customUrl.trim() ? undefined : PROXY_PROFILES[profile] || 'Not configured for this profile'}
+          />
+          {renderHealth()}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={checkHealth} disabled={checking} textColor={colors.textSecondary}>
+            Test
+          </Button>
+          <Button onPress={onDismiss} textColor={colors.textSecondary}>
+            Cancel
+          </Button>
+          <Button onPress={handleSave} disabled={checking} textColor={colors.primary}>
+            {health && !health.ok ? 'Save anyway' : 'Save'}
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  dialog: {
+    backgroundColor: colors.backgroundMedium,
+    borderRadius: 16,
+    ...createShadow(8, `${colors.primary}40`),
+  },
+  title: {
+    color: colors.textPrimary,
+  },
+  profiles: {
+    marginBottom: spacing.md,
+  },
+  health: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  healthText: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+});
+
+export default ProxySettingsDialog;
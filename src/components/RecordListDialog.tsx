@@ -0,0 +1,162 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { StyleSheet, ScrollView, TouchableOpacity, View, ActivityIndicator } from 'react-native';
+import { Portal, Dialog, Text, Button, Icon } from 'react-native-paper';
+import { RecordSummary } from '../api/odooDataService';
+import { toAppError } from '../api/errors';
+import { colors, spacing, createShadow } from '../utils/theme';
+
+interface RecordListDialogProps {
+  title: string | null; // The dialog is shown while there is a title
+  load: () => Promise<RecordSummary[]>;
+  emptyMessage: string;
+  onSelect: (record: RecordSummary) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Lists the records behind an aggregated table row, such as the orders of a month, to pick one to open
+ */
+const RecordListDialog: React.FC<RecordListDialogProps> = ({ title, load, emptyMessage, onSelect, onDismiss }) => {
+  const [records, setRecords] = useState<RecordSummary[] | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchRecords = useCallback(async (isCurrent: () => boolean = () => true) => {
+    setRecords(null);
+    setError('');
+    try {
+      const result = await load();
+      if (isCurrent()) setRecords(result);
+    } catch (err) {
+      if (isCurrent()) setError(toAppError(err, { message: 'Could not load the records' }).message);
+    }
+  }, [load]);
+
+  // Load again each time the dialog opens on another row
+  useEffect(() => {
+    if (!title) return;
+    let current = true;
+    fetchRecords(() => current);
+    return () => {
+      current = false;
+    };
+  }, [title, fetchRecords]);
+
+  const renderContent = () => {
+    if (error) {
+      return (
+        <View style={styles.message}>
+          <Text style={styles.errorText}>{error}</Text>
+          <Button onPress={() => fetchRecords()} textColor={colors.primary}>
+            Retry
+          </Button>
+        </View>
+      );
+    }
+    if (!records) {
+      return (
+        <View style={styles.message}>
+          <ActivityIndicator color={colors.primary} />
+        </View>
+      );
+    }
+    if (records.length === 0) {
+      return (
+        <View style={styles.message}>
+          <Text style={styles.emptyText}>{emptyMessage}</Text>
+        </View>
+      );
+    }
+    return (
+      <ScrollView>
+        {records.map(record => (
+          <TouchableOpacity
+            key={`${record.model}-${record.id}`}
+            style={styles.record}
+            onPress={() => onSelect(record)}
+            accessibilityRole="button"
+            activeOpacity={0.7}
+          >
+            <View style={styles.recordText}>
+              <Text style={styles.recordName} numberOfLines={1}>{record.name}</Text>
+              {!!record.description && (
+                <Text style={styles.recordDescription} numberOfLines={1}>{record.description}</Text>
+              )}
+            </View>
+            <Icon source="chevron-right" size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={!!title} onDismiss={onDismiss} style={styles.dialog}>
+        <Dialog.Title style={styles.title}>{title}</Dialog.Title>
+        <Dialog.ScrollArea style={styles.scrollArea}>
+          {renderContent()}
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={onDismiss} textColor={colors.textSecondary}>
+            Close
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  dialog: {
+    maxHeight: '80%',
+    backgroundColor: colors.backgroundMedium,
+    borderRadius: 16,
+    ...createShadow(8, `${colors.primary}40`),
+  },
+  title: {
+    color: colors.textPrimary,
+  },
+  scrollArea: {
+    paddingHorizontal: 0,
+    borderColor: `${colors.textPrimary}15`,
+  },
+  message: {
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+  },
+  record: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: `${colors.textPrimary}10`,
+  },
+  recordText: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  recordName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  recordDescription: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
+
+export default RecordListDialog;
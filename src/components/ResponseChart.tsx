@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { LineChart, BarChart, PieChart } from 'react-native-chart-kit';
+import { MCPChartResponse } from '../api/mcpService';
+import { colors, spacing } from '../utils/theme';
+import { chartConfig } from './SalesChart';
+
+interface ResponseChartProps {
+  content: MCPChartResponse['content'];
+  width: number;
+}
+
+const SERIES_COLORS = [colors.primary, colors.secondary, colors.accent, colors.info, colors.warning, colors.error];
+
+const getSeriesColor = (color: string | undefined, index: number) =>
+  color || SERIES_COLORS[index % SERIES_COLORS.length];
+
+// chart-kit expects color functions taking an opacity; series colors are #RRGGBB (see mcpResponseValidator)
+const toColorFunction = (hex: string) => (opacity = 1) => {
+  const alpha = Math.round(opacity * 255).toString(16).padStart(2, '0');
+  return `${hex}${alpha}`;
+};
+
+/**
+ * Renders a chart response from the assistant with the dashboard chart styling
+ */
+const ResponseChart: React.FC<ResponseChartProps> = ({ content, width }) => {
+  const { chartType, labels, series, yAxisPrefix = '', yAxisSuffix = '' } = content;
+  const chartWidth = width > 500 ? 500 : width - 60;
+
+  switch (chartType) {
+    case 'line':
+      return (
+        <View style={styles.chartContainer}>
+          <LineChart
+            data={{
+              labels,
+              datasets: series.map((item, index) => ({
+                data: item.data,
+                color: toColorFunction(getSeriesColor(item.color, index)),
+                strokeWidth: 2,
+              })),
+              legend: series.map(item => item.name),
+            }}
+            width={chartWidth}
+            height={220}
+            chartConfig={chartConfig}
+            bezier
+            style={styles.chart}
+            yAxisLabel={yAxisPrefix}
+            yAxisSuffix={yAxisSuffix}
+          />
+        </View>
+      );
+
+    case 'bar': {
+      const [first] = series;
+      return (
+        <View style={styles.chartContainer}>
+          <BarChart
+            data={{
+              labels,
+              datasets: [{ data: first.data }],
+            }}
+            width={chartWidth}
+            height={220}
+            chartConfig={{
+              ...chartConfig,
+              color: toColorFunction(getSeriesColor(first.color, 1)),
+            }}
+            style={styles.chart}
+            fromZero
+            showValuesOnTopOfBars
+            yAxisLabel={yAxisPrefix}
+            yAxisSuffix={yAxisSuffix}
+          />
+        </View>
+      );
+    }
+
+    case 'pie': {
+      const [first] = series;
+      const slices = labels.map((label, index) => ({
+        name: label,
+        value: first.data[index],
+        color: SERIES_COLORS[index % SERIES_COLORS.length],
+        legendFontColor: colors.textSecondary,
+        legendFontSize: 12,
+      }));
+      return (
+        <View style={styles.chartContainer}>
+          <PieChart
+            data={slices}
+            width={chartWidth}
+            height={180}
+            chartConfig={chartConfig}
+            accessor="value"
+            backgroundColor="transparent"
+            paddingLeft="15"
+            absolute={false}
+            style={styles.chart}
+          />
+        </View>
+      );
+    }
+
+    default:
+      return null;
+  }
+};
+
+const styles = StyleSheet.create({
+  chartContainer: {
+    alignItems: 'center',
+    marginVertical: spacing.md,
+    backgroundColor: `${colors.backgroundMedium}50`,
+    borderRadius: 12,
+    paddingVertical: spacing.md,
+  },
+  chart: {
+    borderRadius: 16,
+    marginVertical: spacing.sm,
+  },
+});
+
+export default ResponseChart;
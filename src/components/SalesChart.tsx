@@ -47,7 +47,8 @@ const formatCurrency = (value: number) => {
   return `$${(value / 1000).toFixed(0)}k`;
 };
 
-const chartConfig = {
+// Shared with MCPResponseRenderer so assistant charts match the dashboard
+export const chartConfig = {
   backgroundGradientFrom: `${colors.backgroundMedium}00`,
   backgroundGradientTo: `${colors.backgroundMedium}00`,
   backgroundGradientFromOpacity: 0,
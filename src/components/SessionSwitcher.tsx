@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Menu, Text, Avatar, Divider, Icon } from 'react-native-paper';
+import { SavedSession } from '../api/authService';
+import { colors, spacing } from '../utils/theme';
+
+interface SessionSwitcherProps {
+  sessions: SavedSession[];
+  activeSessionId: string | null;
+  username: string | null;
+  serverUrl: string | null;
+  onSwitch: (sessionId: string) => void;
+  onAddAccount: () => void;
+  onAppLock: () => void;
+  onLogout: () => void;
+}
+
+// Shows the host without the scheme, e.g. "erp.example.com"
+export const formatServerHost = (serverUrl: string | null) =>
+  serverUrl ? serverUrl.replace(/^https?:\/\//i, '').replace(/\/+$/, '') : '';
+
+const getInitials = (username: string | null) =>
+  (username || '?').replace(/@.*$/, '').slice(0, 2).toUpperCase();
+
+/**
+ * Header avatar that opens a menu of the accounts signed in on this device.
+ * Picking another account makes it the active session.
+ */
+const SessionSwitcher: React.FC<SessionSwitcherProps> = ({
+  sessions,
+  activeSessionId,
+  username,
+  serverUrl,
+  onSwitch,
+  onAddAccount,
+  onAppLock,
+  onLogout,
+}) => {
+  const [visible, setVisible] = useState(false);
+
+  // Close the menu before acting so it does not linger over the next screen
+  const select = (action: () => void) => () => {
+    setVisible(false);
+    action();
+  };
+
+  // Most recently used first
+  const orderedSessions = [...sessions].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+
+  return (
+    <Menu
+      visible={visible}
+      onDismiss={() => setVisible(false)}
+      contentStyle={styles.menu}
+      anchor={
+        <TouchableOpacity
+          onPress={() => setVisible(true)}
+          accessibilityLabel="Switch account"
+          style={styles.anchor}
+        >
+          <Avatar.Text
+            size={36}
+            label={getInitials(username)}
+            style={styles.avatar}
+            color={colors.textPrimary}
+          />
+          <View style={styles.identity}>
+            <Text style={styles.username} numberOfLines={1}>
+              {username || 'Not signed in'}
+            </Text>
+            <Text style={styles.server} numberOfLines={1}>
+              {formatServerHost(serverUrl)}
+            </Text>
+          </View>
+          <Icon source="chevron-down" size={18} color={colors.textSecondary} />
+        </TouchableOpacity>
+      }
+    >
+      {orderedSessions.map((session) => (
+        <Menu.Item
+          key={session.id}
+          title={`${session.username} · ${formatServerHost(session.serverUrl)}${session.database ? ` / ${session.database}` : ''}`}
+          titleStyle={styles.itemTitle}
+          leadingIcon={session.id === activeSessionId ? 'check' : 'account-circle-outline'}
+          onPress={session.id === activeSessionId ? () => setVisible(false) : select(() => onSwitch(session.id))}
+        />
+      ))}
+      {orderedSessions.length > 0 && <Divider />}
+      <Menu.Item
+        title="Add account"
+        titleStyle={styles.itemTitle}
+        leadingIcon="account-plus-outline"
+        onPress={select(onAddAccount)}
+      />
+      <Menu.Item
+        title="App lock"
+        titleStyle={styles.itemTitle}
+        leadingIcon="shield-lock-outline"
+        onPress={select(onAppLock)}
+      />
+      <Menu.Item
+        title="Log out"
+        titleStyle={[styles.itemTitle, { color: colors.error }]}
+        leadingIcon="logout"
+        onPress={select(onLogout)}
+      />
+    </Menu>
+  );
+};
+
+const styles = StyleSheet.create({
+  anchor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    backgroundColor: `${colors.primary}80`,
+  },
+  identity: {
+    marginLeft: spacing.sm,
+    marginRight: spacing.xs,
+    maxWidth: 160,
+  },
+  username: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  server: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  menu: {
+    backgroundColor: colors.backgroundMedium,
+  },
+  itemTitle: {
+    color: colors.textPrimary,
+  },
+});
+
+export default SessionSwitcher;
@@ -1,32 +1,18 @@
-import React from 'react';
+import React, { useState, useRef, useCallback } from 'react';
 import { StyleSheet, Text, View, Dimensions } from 'react-native';
 import { PieChart } from 'react-native-chart-kit';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { colors, spacing } from '../../utils/theme';
 import ModuleTemplate from '../ModuleTemplate';
-import DataTable, { Column } from '../DataTable';
-
-// Mock data for Customers module
-const CUSTOMERS_DATA = {
-  summary: {
-    totalCustomers: 1245,
-    newThisMonth: 37,
-    activeCustomers: 912,
-    retentionRate: 94.2,
-    lifetimeValue: 2850
-  },
-  customerSegments: [
-    { name: 'Enterprise', percentage: 15, color: colors.primary },
-    { name: 'Small Business', percentage: 35, color: colors.secondary },
-    { name: 'Retail', percentage: 45, color: colors.accent },
-    { name: 'Other', percentage: 5, color: colors.error }
-  ],
-  detailedData: [
-    { segment: 'Enterprise', count: 187, revenue: 855000, growth: 12.3, avgValue: 4572 },
-    { segment: 'Small Business', count: 436, revenue: 523000, growth: 8.7, avgValue: 1199 },
-    { segment: 'Retail', count: 560, revenue: 392000, growth: 5.2, avgValue: 700 },
-    { segment: 'Other', count: 62, revenue: 68000, growth: -1.8, avgValue: 1096 }
-  ]
-};
+import DataTable, { Column, BulkAction } from '../DataTable';
+import CustomerEmailDialog from '../CustomerEmailDialog';
+import RecordListDialog from '../RecordListDialog';
+import { odooDataService, CustomerSegmentDetail, RecordSummary } from '../../api/odooDataService';
+import { useModuleData } from '../../hooks/useModuleData';
+import { useAppDispatch } from '../../hooks/useAppDispatch';
+import { noticeShown } from '../../state/slices/uiSlice';
+import { RootStackParamList } from '../../App';
 
 const chartConfig = {
   backgroundGradientFrom: colors.backgroundMedium,
@@ -40,6 +26,14 @@ const chartConfig = {
   }
 };
 
+const SEGMENT_COLORS = [colors.primary, colors.secondary, colors.accent];
+
+// The catch-all "Other" segment keeps its own color regardless of position
+const getSegmentColor = (name: string, index: number) => {
+  if (name === 'Other') return colors.error;
+  return SEGMENT_COLORS[index % SEGMENT_COLORS.length];
+};
+
 const formatCurrency = (value: number) => {
   return `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
 };
@@ -58,13 +52,13 @@ const renderGrowth = (value: number) => {
 const tableColumns: Column[] = [
   {
     id: 'segment',
+    sortable: true,
     label: 'Segment',
     align: 'left',
-    renderCell: (value: string, row: any) => {
-      const segment = CUSTOMERS_DATA.customerSegments.find(s => s.name === value);
+    renderCell: (value: string, row: any, index: number) => {
       return (
         <View style={styles.segmentCell}>
-          <View style={[styles.segmentDot, { backgroundColor: segment?.color || colors.textSecondary }]} />
+          <View style={[styles.segmentDot, { backgroundColor: getSegmentColor(value, index) }]} />
           <Text style={styles.segmentText}>{value}</Text>
         </View>
       );
@@ -72,6 +66,7 @@ const tableColumns: Column[] = [
   },
   {
     id: 'count',
+    sortable: true,
     label: 'Customers',
     align: 'right',
     renderCell: (value: number) => (
@@ -82,6 +77,7 @@ const tableColumns: Column[] = [
   },
   {
     id: 'revenue',
+    sortable: true,
     label: 'Revenue',
     align: 'right',
     renderCell: (value: number) => (
@@ -92,6 +88,7 @@ const tableColumns: Column[] = [
   },
   {
     id: 'avgValue',
+    sortable: true,
     label: 'Avg. Value',
     align: 'right',
     renderCell: (value: number) => (
@@ -102,20 +99,85 @@ const tableColumns: Column[] = [
   },
   {
     id: 'growth',
+    sortable: true,
     label: 'Growth',
     align: 'right',
     renderCell: renderGrowth
   }
 ];
 
-const CustomersModule: React.FC = () => {
+interface CustomersModuleProps {
+  refreshKey?: number;
+}
+
+const CustomersModule: React.FC<CustomersModuleProps> = ({ refreshKey = 0 }) => {
   const { width } = Dimensions.get('window');
+  const { data, loading, error, reload } = useModuleData('customers', odooDataService.getCustomersData, refreshKey);
+  const dispatch = useAppDispatch();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  // Segment whose customers are listed, to open one of them
+  const [openSegment, setOpenSegment] = useState<CustomerSegmentDetail | null>(null);
+  const loadSegmentCustomers = useCallback(
+    () => (openSegment ? odooDataService.getSegmentCustomers(openSegment) : Promise.resolve([])),
+    [openSegment]
+  );
+
+  const openCustomer = useCallback((customer: RecordSummary) => {
+    setOpenSegment(null);
+    navigation.navigate('RecordDetail', { model: customer.model, id: customer.id, title: customer.name });
+  }, [navigation]);
+
+  // Segments being emailed, and how to settle the bulk action once the dialog closes
+  const [emailSegments, setEmailSegments] = useState<CustomerSegmentDetail[] | null>(null);
+  const settleEmailRef = useRef<((sent: boolean) => void) | null>(null);
+
+  const closeEmailDialog = useCallback((sent: boolean) => {
+    settleEmailRef.current?.(sent);
+    settleEmailRef.current = null;
+    setEmailSegments(null);
+  }, []);
+
+  const handleEmailSent = useCallback((recipients: number) => {
+    dispatch(noticeShown(
+      recipients > 0
+        ? `Email sent to ${recipients} ${recipients === 1 ? 'customer' : 'customers'}`
+        : 'No customers with an email address in the selected segments'
+    ));
+    closeEmailDialog(true);
+  }, [dispatch, closeEmailDialog]);
+
+  const bulkActions: BulkAction[] = [
+    {
+      key: 'email',
+      label: 'Email customers',
+      icon: 'email-outline',
+      // Keeps the selection when the dialog is cancelled
+      onPress: (rows: CustomerSegmentDetail[]) => new Promise<boolean>(resolve => {
+        settleEmailRef.current = resolve;
+        setEmailSegments(rows);
+      }),
+    },
+  ];
+
+  if (!data) {
+    return (
+      <ModuleTemplate
+        title="Customer Segments"
+        chart={null}
+        table={null}
+        loading={loading}
+        error={error}
+        onRetry={reload}
+      />
+    );
+  }
 
   // Format data for pie chart
-  const pieChartData = CUSTOMERS_DATA.customerSegments.map(item => ({
+  const pieChartData = data.customerSegments.map((item, index) => ({
     name: item.name,
     population: item.percentage,
-    color: item.color,
+    color: getSegmentColor(item.name, index),
     legendFontColor: colors.textPrimary,
     legendFontSize: 14
   }));
@@ -142,14 +204,14 @@ const CustomersModule: React.FC = () => {
     <View style={styles.statsContainer}>
       {/* Segment legend */}
       <View style={styles.legendContainer}>
-        {CUSTOMERS_DATA.customerSegments.map((segment, index) => (
+        {data.customerSegments.map((segment, index) => (
           <View key={index} style={styles.legendItem}>
-            <View style={[styles.legendDot, { backgroundColor: segment.color }]} />
+            <View style={[styles.legendDot, { backgroundColor: getSegmentColor(segment.name, index) }]} />
             <View style={styles.legendTextContainer}>
               <Text style={styles.legendText}>
                 {segment.name}
               </Text>
-              <Text style={[styles.legendPercentage, { color: segment.color }]}>
+              <Text style={[styles.legendPercentage, { color: getSegmentColor(segment.name, index) }]}>
                 {segment.percentage}%
               </Text>
             </View>
@@ -160,15 +222,15 @@ const CustomersModule: React.FC = () => {
       {/* Summary stats */}
       <View style={styles.statsRow}>
         <View style={styles.statItem}>
-          <Text style={styles.statValue}>{CUSTOMERS_DATA.summary.totalCustomers}</Text>
+          <Text style={styles.statValue}>{data.summary.totalCustomers}</Text>
           <Text style={styles.statLabel}>Total Customers</Text>
         </View>
         <View style={styles.statItem}>
-          <Text style={[styles.statValue, {color: colors.accent}]}>+{CUSTOMERS_DATA.summary.newThisMonth}</Text>
+          <Text style={[styles.statValue, {color: colors.accent}]}>+{data.summary.newThisMonth}</Text>
           <Text style={styles.statLabel}>New This Month</Text>
         </View>
         <View style={styles.statItem}>
-          <Text style={[styles.statValue, {color: colors.success}]}>{CUSTOMERS_DATA.summary.retentionRate}%</Text>
+          <Text style={[styles.statValue, {color: colors.success}]}>{data.summary.retentionRate}%</Text>
           <Text style={styles.statLabel}>Retention Rate</Text>
         </View>
       </View>
@@ -179,18 +241,44 @@ const CustomersModule: React.FC = () => {
   const renderTable = () => (
     <DataTable
       columns={tableColumns}
-      data={CUSTOMERS_DATA.detailedData}
+      data={data.detailedData}
       horizontalScrollEnabled={true}
+      searchable
+      searchPlaceholder="Search segments"
+      keyExtractor={(row: CustomerSegmentDetail) => row.segment}
+      selectionMode="multiple"
+      bulkActions={bulkActions}
+      onRowPress={setOpenSegment}
     />
   );
 
   return (
-    <ModuleTemplate
-      title="Customer Segments"
-      chart={renderChart()}
-      summary={renderSummary()}
-      table={renderTable()}
-    />
+    <>
+      <ModuleTemplate
+        title="Customer Segments"
+        chart={renderChart()}
+        summary={renderSummary()}
+        table={renderTable()}
+        loading={loading}
+        error={error}
+        isEmpty={data.summary.totalCustomers === 0}
+        emptyMessage="No customers found"
+        onRetry={reload}
+      />
+      <CustomerEmailDialog
+        visible={!!emailSegments}
+        segments={emailSegments || []}
+        onDismiss={() => closeEmailDialog(false)}
+        onSent={handleEmailSent}
+      />
+      <RecordListDialog
+        title={openSegment && `${openSegment.segment} customers`}
+        load={loadSegmentCustomers}
+        emptyMessage="No customers in this segment"
+        onSelect={openCustomer}
+        onDismiss={() => setOpenSegment(null)}
+      />
+    </>
   );
 };
 
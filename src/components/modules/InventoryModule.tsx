@@ -1,41 +1,18 @@
-import React from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { StyleSheet, View, Text, Dimensions } from 'react-native';
+import { Portal, Dialog, Button } from 'react-native-paper';
 import { ProgressChart } from 'react-native-chart-kit';
-import { colors } from '../../utils/theme';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { colors, spacing, createShadow } from '../../utils/theme';
 import ModuleTemplate from '../ModuleTemplate';
-import DataTable from '../DataTable';
-
-// Mock data for Inventory module
-const INVENTORY_DATA = {
-  summary: {
-    totalProducts: 1548,
-    lowStock: 32,
-    outOfStock: 8,
-    incomingShipments: 12
-  },
-  stockLevels: {
-    categories: ["Electronics", "Furniture", "Clothing", "Home Goods"],
-    values: [0.78, 0.62, 0.85, 0.44],
-    details: [
-      { category: "Electronics", level: 0.78, total: 487, warning: 32, critical: 8 },
-      { category: "Furniture", level: 0.62, total: 356, warning: 24, critical: 6 },
-      { category: "Clothing", level: 0.85, total: 512, warning: 12, critical: 2 },
-      { category: "Home Goods", level: 0.44, total: 193, warning: 42, critical: 18 }
-    ]
-  },
-  itemsData: [
-    { id: 1, name: 'iPhone 13 Pro', category: 'Electronics', stock: 124, status: 'Good', reorder: 25 },
-    { id: 2, name: 'Smart TV 55"', category: 'Electronics', stock: 58, status: 'Good', reorder: 15 },
-    { id: 3, name: 'Wireless Earbuds', category: 'Electronics', stock: 253, status: 'Good', reorder: 50 },
-    { id: 4, name: 'Leather Sofa', category: 'Furniture', stock: 14, status: 'Low', reorder: 10 },
-    { id: 5, name: 'Office Chair', category: 'Furniture', stock: 27, status: 'Good', reorder: 20 },
-    { id: 6, name: 'Coffee Table', category: 'Furniture', stock: 8, status: 'Critical', reorder: 15 },
-    { id: 7, name: 'Winter Jacket', category: 'Clothing', stock: 82, status: 'Good', reorder: 30 },
-    { id: 8, name: 'Cotton T-Shirt', category: 'Clothing', stock: 215, status: 'Good', reorder: 100 },
-    { id: 9, name: 'Kitchen Mixer', category: 'Home Goods', stock: 0, status: 'Out', reorder: 12 },
-    { id: 10, name: 'Blender', category: 'Home Goods', stock: 5, status: 'Critical', reorder: 15 }
-  ]
-};
+import DataTable, { Column, BulkAction } from '../DataTable';
+import { odooDataService, InventoryItem, ReorderResult } from '../../api/odooDataService';
+import { toAppError } from '../../api/errors';
+import { useModuleData } from '../../hooks/useModuleData';
+import { useAppDispatch } from '../../hooks/useAppDispatch';
+import { noticeShown, errorShown } from '../../state/slices/uiSlice';
+import { RootStackParamList } from '../../App';
 
 const chartConfig = {
   backgroundGradientFrom: colors.backgroundMedium,
@@ -98,23 +75,30 @@ const renderStatus = (status: string) => {
   );
 };
 
-const tableColumns = [
+// Most urgent status first in ascending order
+const STATUS_ORDER = ['Out', 'Critical', 'Low', 'Good'];
+
+const tableColumns: Column[] = [
   {
     id: 'name',
     label: 'Product',
-    align: 'left' as const,
+    sortable: true,
+    align: 'left',
     width: '35%',
   },
   {
     id: 'category',
     label: 'Category',
-    align: 'left' as const,
+    sortable: true,
+    align: 'left',
     width: '20%',
   },
   {
     id: 'stock',
     label: 'Stock',
-    align: 'right' as const,
+    sortable: true,
+    filter: false,
+    align: 'right',
     width: '15%',
     renderCell: (value: number) => (
       <Text style={[styles.cellText, { textAlign: 'right' }]}>
@@ -125,14 +109,18 @@ const tableColumns = [
   {
     id: 'status',
     label: 'Status',
-    align: 'center' as const,
+    sortable: true,
+    comparator: (a: string, b: string) => STATUS_ORDER.indexOf(a) - STATUS_ORDER.indexOf(b),
+    align: 'center',
     width: '15%',
     renderCell: renderStatus
   },
   {
     id: 'reorder',
     label: 'Reorder Point',
-    align: 'right' as const,
+    sortable: true,
+    filter: false,
+    align: 'right',
     width: '15%',
     renderCell: (value: number) => (
       <Text style={[styles.cellText, { textAlign: 'right' }]}>
@@ -142,13 +130,92 @@ const tableColumns = [
   }
 ];
 
-const InventoryModule: React.FC = () => {
+const describeReorder = ({ reordered, skipped }: ReorderResult) => {
+  const parts = [];
+  if (reordered.length > 0) {
+    parts.push(`Replenishment started for ${reordered.length} ${reordered.length === 1 ? 'product' : 'products'}.`);
+  }
+  if (skipped.length > 0) {
+    parts.push(`${skipped.length} ${skipped.length === 1 ? 'product has' : 'products have'} no reordering rule.`);
+  }
+  return parts.join(' ');
+};
+
+interface InventoryModuleProps {
+  refreshKey?: number;
+}
+
+const InventoryModule: React.FC<InventoryModuleProps> = ({ refreshKey = 0 }) => {
   const { width } = Dimensions.get('window');
+  const { data, loading, error, reload } = useModuleData('inventory', odooDataService.getInventoryData, refreshKey);
+  const dispatch = useAppDispatch();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const openProduct = useCallback((item: InventoryItem) => {
+    navigation.navigate('RecordDetail', { model: 'product.product', id: item.id, title: item.name });
+  }, [navigation]);
+
+  // Products waiting for confirmation, and how to settle the bulk action once the dialog closes
+  const [reorderItems, setReorderItems] = useState<InventoryItem[] | null>(null);
+  const [reordering, setReordering] = useState(false);
+  const settleReorderRef = useRef<((done: boolean) => void) | null>(null);
+
+  const closeReorderDialog = useCallback((done: boolean) => {
+    settleReorderRef.current?.(done);
+    settleReorderRef.current = null;
+    setReorderItems(null);
+  }, []);
+
+  // Replenish the confirmed products, then reload to show the incoming shipments
+  const handleReorder = useCallback(async () => {
+    if (!reorderItems) return;
+
+    setReordering(true);
+    try {
+      const result = await odooDataService.reorderProducts(reorderItems.map(item => item.id));
+      dispatch(noticeShown(describeReorder(result)));
+      if (result.reordered.length > 0) {
+        reload();
+      }
+      closeReorderDialog(true);
+    } catch (err) {
+      dispatch(errorShown(toAppError(err, { message: 'Could not reorder the selected products' }).message));
+      closeReorderDialog(false);
+    } finally {
+      setReordering(false);
+    }
+  }, [reorderItems, dispatch, reload, closeReorderDialog]);
+
+  const bulkActions: BulkAction[] = [
+    {
+      key: 'reorder',
+      label: 'Reorder',
+      icon: 'cart-arrow-down',
+      // Keeps the selection when the dialog is cancelled
+      onPress: (rows: InventoryItem[]) => new Promise<boolean>(resolve => {
+        settleReorderRef.current = resolve;
+        setReorderItems(rows);
+      }),
+    },
+  ];
+
+  if (!data) {
+    return (
+      <ModuleTemplate
+        title="Inventory Status"
+        chart={null}
+        table={null}
+        loading={loading}
+        error={error}
+        onRetry={reload}
+      />
+    );
+  }
   
   // Format data for progress chart
   const progressData = {
-    labels: INVENTORY_DATA.stockLevels.categories,
-    data: INVENTORY_DATA.stockLevels.values,
+    labels: data.stockLevels.categories,
+    data: data.stockLevels.values,
     colors: [
       colors.primary,
       colors.secondary,
@@ -185,7 +252,7 @@ const InventoryModule: React.FC = () => {
     <View style={styles.summaryContainer}>
       {/* Legend */}
       <View style={styles.legendGrid}>
-        {INVENTORY_DATA.stockLevels.details.map((category, index) => (
+        {data.stockLevels.details.map((category, index) => (
           <View key={index} style={styles.legendItem}>
             <View style={[styles.legendDot, { backgroundColor: getCategoryColor(index) }]} />
             <View style={styles.legendTextContainer}>
@@ -201,15 +268,15 @@ const InventoryModule: React.FC = () => {
       {/* Summary stats */}
       <View style={styles.summaryRow}>
         <View style={styles.summaryItem}>
-          <Text style={styles.summaryValue}>{formatQuantity(INVENTORY_DATA.summary.totalProducts)}</Text>
+          <Text style={styles.summaryValue}>{formatQuantity(data.summary.totalProducts)}</Text>
           <Text style={styles.summaryLabel}>Total Products</Text>
         </View>
         <View style={styles.summaryItem}>
-          <Text style={[styles.summaryValue, { color: colors.warning }]}>{INVENTORY_DATA.summary.lowStock}</Text>
+          <Text style={[styles.summaryValue, { color: colors.warning }]}>{data.summary.lowStock}</Text>
           <Text style={styles.summaryLabel}>Low Stock</Text>
         </View>
         <View style={styles.summaryItem}>
-          <Text style={[styles.summaryValue, { color: colors.error }]}>{INVENTORY_DATA.summary.outOfStock}</Text>
+          <Text style={[styles.summaryValue, { color: colors.error }]}>{data.summary.outOfStock}</Text>
           <Text style={styles.summaryLabel}>Out of Stock</Text>
         </View>
       </View>
@@ -220,18 +287,57 @@ const InventoryModule: React.FC = () => {
   const renderTable = () => (
     <DataTable
       columns={tableColumns}
-      data={INVENTORY_DATA.itemsData}
+      data={data.itemsData}
       horizontalScrollEnabled={true}
+      searchable
+      searchPlaceholder="Search products or categories"
+      selectionMode="multiple"
+      bulkActions={bulkActions}
+      onRowPress={openProduct}
     />
   );
 
+  const reorderCount = reorderItems?.length ?? 0;
+
   return (
-    <ModuleTemplate
-      title="Inventory Status"
-      chart={renderChart()}
-      summary={renderSummary()}
-      table={renderTable()}
-    />
+    <>
+      <ModuleTemplate
+        title="Inventory Status"
+        chart={renderChart()}
+        summary={renderSummary()}
+        table={renderTable()}
+        loading={loading}
+        error={error}
+        isEmpty={data.summary.totalProducts === 0}
+        emptyMessage="No storable products found"
+        onRetry={reload}
+      />
+      <Portal>
+        <Dialog
+          visible={!!reorderItems}
+          onDismiss={reordering ? undefined : () => closeReorderDialog(false)}
+          style={styles.dialog}
+        >
+          <Dialog.Title style={styles.dialogTitle}>
+            Reorder {reorderCount} {reorderCount === 1 ? 'product' : 'products'}?
+          </Dialog.Title>
+          <Dialog.Content>
+            <Text style={styles.dialogText}>
+              Odoo replenishes the selected products through their reordering rules right away, which can create
+              purchase or manufacturing orders. Products without a rule are skipped.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => closeReorderDialog(false)} disabled={reordering} textColor={colors.textSecondary}>
+              Cancel
+            </Button>
+            <Button onPress={handleReorder} loading={reordering} disabled={reordering} textColor={colors.primary}>
+              Reorder
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </>
   );
 };
 
@@ -318,7 +424,20 @@ const styles = StyleSheet.create({
   statusText: {
     fontSize: 14,
     fontWeight: '500',
-  }
+  },
+  dialog: {
+    backgroundColor: colors.backgroundMedium,
+    borderRadius: 16,
+    ...createShadow(8, `${colors.primary}40`),
+  },
+  dialogTitle: {
+    color: colors.textPrimary,
+  },
+  dialogText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.textSecondary,
+  },
 });
 
 export default InventoryModule;
\ No newline at end of file
@@ -1,35 +1,17 @@
-import React from 'react';
+import React, { useState, useCallback } from 'react';
 import { StyleSheet, View, Text, Dimensions } from 'react-native';
 import { LineChart } from 'react-native-chart-kit';
-import { colors } from '../../utils/theme';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { colors, spacing } from '../../utils/theme';
 import ModuleTemplate from '../ModuleTemplate';
 import DataTable from '../DataTable';
-
-// Mock data for Sales module
-const SALES_DATA = {
-  monthlySales: {
-    labels: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
-    data: [45, 52, 49, 62, 78, 84, 91, 86, 94, 105, 118, 123],
-    totalRevenue: 987000,
-    yearGrowth: 28.6,
-    currentMonth: 'December',
-    currentValue: 123000
-  },
-  monthlyDetails: [
-    { month: 'January', revenue: 45000, orders: 320, growth: -2.5 },
-    { month: 'February', revenue: 52000, orders: 380, growth: 15.6 },
-    { month: 'March', revenue: 49000, orders: 350, growth: -5.8 },
-    { month: 'April', revenue: 62000, orders: 410, growth: 26.5 },
-    { month: 'May', revenue: 78000, orders: 520, growth: 25.8 },
-    { month: 'June', revenue: 84000, orders: 580, growth: 7.7 },
-    { month: 'July', revenue: 91000, orders: 610, growth: 8.3 },
-    { month: 'August', revenue: 86000, orders: 590, growth: -5.5 },
-    { month: 'September', revenue: 94000, orders: 650, growth: 9.3 },
-    { month: 'October', revenue: 105000, orders: 720, growth: 11.7 },
-    { month: 'November', revenue: 118000, orders: 810, growth: 12.4 },
-    { month: 'December', revenue: 123000, orders: 850, growth: 4.2 }
-  ]
-};
+import RecordListDialog from '../RecordListDialog';
+import { odooDataService, SalesData, SalesMonthDetail, RecordSummary } from '../../api/odooDataService';
+import { useModuleData } from '../../hooks/useModuleData';
+import { useAppSelector } from '../../hooks/useAppSelector';
+import { selectModuleFilters, getFilterKey } from '../../state/slices/filtersSlice';
+import { RootStackParamList } from '../../App';
 
 const chartConfig = {
   backgroundGradientFrom: colors.backgroundMedium,
@@ -71,6 +53,7 @@ const tableColumns = [
   },
   {
     id: 'revenue',
+    sortable: true,
     label: 'Revenue',
     align: 'right' as const,
     renderCell: (value: number) => (
@@ -81,6 +64,7 @@ const tableColumns = [
   },
   {
     id: 'orders',
+    sortable: true,
     label: 'Orders',
     align: 'right' as const,
     renderCell: (value: number) => (
@@ -91,21 +75,60 @@ const tableColumns = [
   },
   {
     id: 'growth',
+    sortable: true,
     label: 'Growth',
     align: 'right' as const,
     renderCell: renderGrowth
   }
 ];
 
-const SalesModule: React.FC = () => {
+interface SalesModuleProps {
+  refreshKey?: number;
+}
+
+const hasSalesData = (data: SalesData) => {
+  return data.monthlyDetails.some(detail => detail.orders > 0 || detail.revenue > 0);
+};
+
+const SalesModule: React.FC<SalesModuleProps> = ({ refreshKey = 0 }) => {
   const { width } = Dimensions.get('window');
+  const { data, loading, error, reload } = useModuleData('sales', odooDataService.getSalesData, refreshKey);
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const filters = useAppSelector(state => selectModuleFilters(state, 'sales'));
+  // Growth compares with the same number of months before the chosen range
+  const hasDateRange = !!(filters.dateFrom || filters.dateTo);
+
+  // Month whose orders are listed, to open one of them
+  const [openMonth, setOpenMonth] = useState<SalesMonthDetail | null>(null);
+  const loadMonthOrders = useCallback(
+    () => (openMonth ? odooDataService.getMonthOrders(openMonth, filters) : Promise.resolve([])),
+    [openMonth, filters]
+  );
+
+  const openOrder = useCallback((order: RecordSummary) => {
+    setOpenMonth(null);
+    navigation.navigate('RecordDetail', { model: order.model, id: order.id, title: order.name });
+  }, [navigation]);
+
+  if (!data) {
+    return (
+      <ModuleTemplate
+        title="Sales Performance"
+        chart={null}
+        table={null}
+        loading={loading}
+        error={error}
+        onRetry={reload}
+      />
+    );
+  }
   
   // Format data for line chart
   const lineChartData = {
-    labels: SALES_DATA.monthlySales.labels,
+    labels: data.monthlySales.labels,
     datasets: [
       {
-        data: SALES_DATA.monthlySales.data,
+        data: data.monthlySales.data,
         color: (opacity = 1) => `rgba(108, 99, 255, ${opacity})`,
         strokeWidth: 3
       }
@@ -138,16 +161,18 @@ const SalesModule: React.FC = () => {
   const renderSummary = () => (
     <View style={styles.statsContainer}>
       <View style={styles.statItem}>
-        <Text style={styles.statValue}>{formatCurrency(SALES_DATA.monthlySales.totalRevenue)}</Text>
+        <Text style={styles.statValue}>{formatCurrency(data.monthlySales.totalRevenue)}</Text>
         <Text style={styles.statLabel}>Total Revenue</Text>
       </View>
       <View style={styles.statItem}>
-        <Text style={styles.statValue}>{formatCurrency(SALES_DATA.monthlySales.currentValue)}</Text>
-        <Text style={styles.statLabel}>{SALES_DATA.monthlySales.currentMonth}</Text>
+        <Text style={styles.statValue}>{formatCurrency(data.monthlySales.currentValue)}</Text>
+        <Text style={styles.statLabel}>{data.monthlySales.currentMonth}</Text>
       </View>
       <View style={styles.statItem}>
-        <Text style={[styles.statValue, { color: colors.accent }]}>+{SALES_DATA.monthlySales.yearGrowth}%</Text>
-        <Text style={styles.statLabel}>YoY Growth</Text>
+        <Text style={[styles.statValue, { color: data.monthlySales.yearGrowth >= 0 ? colors.accent : colors.error }]}>
+          {data.monthlySales.yearGrowth >= 0 ? '+' : ''}{data.monthlySales.yearGrowth}%
+        </Text>
+        <Text style={styles.statLabel}>{hasDateRange ? 'vs. Prior Period' : 'YoY Growth'}</Text>
       </View>
     </View>
   );
@@ -156,18 +181,36 @@ const SalesModule: React.FC = () => {
   const renderTable = () => (
     <DataTable
       columns={tableColumns}
-      data={SALES_DATA.monthlyDetails}
+      data={data.monthlyDetails}
       horizontalScrollEnabled={true}
+      keyExtractor={(row: SalesMonthDetail) => row.start}
+      onRowPress={setOpenMonth}
     />
   );
 
   return (
-    <ModuleTemplate
-      title="Sales Performance"
-      chart={renderChart()}
-      summary={renderSummary()}
-      table={renderTable()}
-    />
+    <>
+      <ModuleTemplate
+        title="Sales Performance"
+        chart={renderChart()}
+        summary={renderSummary()}
+        table={renderTable()}
+        loading={loading}
+        error={error}
+        isEmpty={!hasSalesData(data)}
+        emptyMessage={getFilterKey(filters)
+          ? 'No confirmed sales orders match the filters'
+          : 'No confirmed sales orders in the last 12 months'}
+        onRetry={reload}
+      />
+      <RecordListDialog
+        title={openMonth && `${openMonth.month} orders`}
+        load={loadMonthOrders}
+        emptyMessage="No confirmed orders this month"
+        onSelect={openOrder}
+        onDismiss={() => setOpenMonth(null)}
+      />
+    </>
   );
 };
 
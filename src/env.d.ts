@@ -1,6 +1,4 @@
 declare module '@env' {
-  export const PROXY_URL: string;
-  export const API_URL: string;
   export const TEST_USER_URL: string;
   export const TEST_USER_USERNAME: string;
   export const TEST_USER_PASSWORD: string;
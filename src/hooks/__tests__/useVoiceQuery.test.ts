@@ -0,0 +1,185 @@
+import { renderHook, act } from '@testing-library/react-native';
+import { useVoiceQuery } from '../useVoiceQuery';
+import { mcpService } from '../../api/mcpService';
+import { SpeechRecognizer, SpeechRecognizerEvent, SpeechRecognizerListener } from '../../voice/speechRecognizer';
+
+jest.mock('../../voice/speechRecognizer', () => ({
+  speechRecognizer: null,
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../../api/mcpService', () => ({
+  ...jest.requireActual('../../api/mcpService'),
+  mcpService: {
+    processQuery: jest.fn(),
+  },
+}));
+
+// In-memory recognizer driven by the test
+const createFakeRecognizer = () => {
+  const listeners: SpeechRecognizerListener[] = [];
+  const recognizer: SpeechRecognizer & { emit: (event: SpeechRecognizerEvent) => void } = {
+    isAvailable: jest.fn(async () => true),
+    start: jest.fn(async () => {}),
+    stop: jest.fn(async () => {}),
+    cancel: jest.fn(async () => {}),
+    destroy: jest.fn(async () => {}),
+    addListener: (listener) => {
+      listeners.push(listener);
+      return () => {
+        listeners.splice(listeners.indexOf(listener), 1);
+      };
+    },
+    emit: (event) => listeners.forEach(listener => listener(event)),
+  };
+  return recognizer;
+};
+
+const processQuery = mcpService.processQuery as jest.Mock;
+
+describe('useVoiceQuery', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    processQuery.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends the final transcript to the MCP service', async () => {
+    const recognizer = createFakeRecognizer();
+    const onResponse = jest.fn();
+    processQuery.mockResolvedValue({ type: 'text', content: 'Revenue is up' });
+
+    const { result } = renderHook(() => useVoiceQuery({ recognizer, onResponse }));
+
+    await act(async () => {
+      await result.current.start();
+    });
+    expect(recognizer.start).toHaveBeenCalledWith('en-US');
+    expect(result.current.recordingState).toBe('listening');
+
+    act(() => {
+      recognizer.emit({ type: 'start' });
+      recognizer.emit({ type: 'partial', transcript: 'show sales' });
+      recognizer.emit({ type: 'result', transcript: 'show sales this month' });
+      recognizer.emit({ type: 'end' });
+    });
+    expect(result.current.transcript).toBe('show sales this month');
+
+    await act(async () => {
+      jest.runAllTimers();
+    });
+
+    expect(processQuery).toHaveBeenCalledWith('show sales this month', { signal: expect.any(Object) });
+    expect(result.current.response).toEqual({ type: 'text', content: 'Revenue is up' });
+    expect(onResponse).toHaveBeenCalledWith('show sales this month', { type: 'text', content: 'Revenue is up' });
+    expect(result.current.recordingState).toBe('idle');
+  });
+
+  it('submits immediately when a result arrives after the recognizer ended', async () => {
+    const recognizer = createFakeRecognizer();
+    processQuery.mockResolvedValue({ type: 'text', content: 'ok' });
+
+    const { result } = renderHook(() => useVoiceQuery({ recognizer }));
+
+    await act(async () => {
+      await result.current.start();
+    });
+    await act(async () => {
+      recognizer.emit({ type: 'end' });
+      recognizer.emit({ type: 'result', transcript: 'low stock items' });
+    });
+
+    expect(processQuery).toHaveBeenCalledTimes(1);
+    expect(processQuery).toHaveBeenCalledWith('low stock items', { signal: expect.any(Object) });
+  });
+
+  it('returns to idle without querying when nothing was recognized', async () => {
+    const recognizer = createFakeRecognizer();
+    const { result } = renderHook(() => useVoiceQuery({ recognizer }));
+
+    await act(async () => {
+      await result.current.start();
+    });
+    await act(async () => {
+      recognizer.emit({ type: 'end' });
+      jest.runAllTimers();
+    });
+
+    expect(processQuery).not.toHaveBeenCalled();
+    expect(result.current.recordingState).toBe('idle');
+  });
+
+  it('reports recognizer errors', async () => {
+    const recognizer = createFakeRecognizer();
+    const { result } = renderHook(() => useVoiceQuery({ recognizer }));
+
+    await act(async () => {
+      await result.current.start();
+    });
+    act(() => {
+      recognizer.emit({ type: 'error', message: 'Please grant microphone permission to use voice input', code: 'permissions' });
+    });
+
+    expect(result.current.error).toBe('Please grant microphone permission to use voice input');
+    expect(result.current.recordingState).toBe('idle');
+  });
+
+  it('does not report a query queued while offline as an error', async () => {
+    const recognizer = createFakeRecognizer();
+    const queued = { type: 'error', content: 'You are offline.', code: 'QUEUED' };
+    processQuery.mockResolvedValue(queued);
+
+    const { result } = renderHook(() => useVoiceQuery({ recognizer }));
+
+    await act(async () => {
+      await result.current.start();
+    });
+    await act(async () => {
+      recognizer.emit({ type: 'result', transcript: 'sales today' });
+      recognizer.emit({ type: 'end' });
+      jest.runAllTimers();
+    });
+
+    expect(result.current.response).toEqual(queued);
+    expect(result.current.error).toBeNull();
+    expect(result.current.recordingState).toBe('idle');
+  });
+
+  it('aborts the pending query when cancelled while processing', async () => {
+    const recognizer = createFakeRecognizer();
+    let resolveQuery: (value: any) => void = () => {};
+    processQuery.mockReturnValue(new Promise(resolve => { resolveQuery = resolve; }));
+
+    const { result } = renderHook(() => useVoiceQuery({ recognizer }));
+
+    await act(async () => {
+      await result.current.start();
+    });
+    await act(async () => {
+      recognizer.emit({ type: 'result', transcript: 'top customers' });
+      recognizer.emit({ type: 'end' });
+      jest.runAllTimers();
+    });
+    expect(result.current.recordingState).toBe('processing');
+
+    const { signal } = processQuery.mock.calls[0][1];
+    expect(signal.aborted).toBe(false);
+
+    await act(async () => {
+      result.current.toggle();
+    });
+    expect(result.current.recordingState).toBe('idle');
+    expect(signal.aborted).toBe(true);
+
+    await act(async () => {
+      resolveQuery({ type: 'text', content: 'late answer' });
+    });
+    expect(result.current.response).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAppDispatch } from './useAppDispatch';
+import { useAppSelector } from './useAppSelector';
+import { moduleDataLoaded, selectCachedModuleData, ModuleDataMap } from '../state/slices/dashboardSlice';
+import { selectActiveSessionId } from '../state/slices/authSlice';
+import { selectModuleFilters, getFilterKey, ModuleFiltersMap } from '../state/slices/filtersSlice';
+import { ModuleType } from '../state/slices/uiSlice';
+
+export interface ModuleDataState<T> {
+  data: T | null;
+  loading: boolean;
+  error: string | null;
+  reload: () => void;
+}
+
+/**
+ * Loads dashboard data for a module and tracks loading/error state.
+ * Data saved in the dashboard cache is shown right away and refreshed in the background.
+ * The module's filters from the store are passed to the loader; changing them reloads.
+ * @param module Module the data belongs to, used as the cache key
+ * @param loader Async function fetching the module data
+ * @param refreshKey Changing this value triggers a reload
+ */
+export const useModuleData = <K extends ModuleType>(
+  module: K,
+  loader: (filters: ModuleFiltersMap[K]) => Promise<ModuleDataMap[K]>,
+  refreshKey: number = 0
+): ModuleDataState<ModuleDataMap[K]> => {
+  const dispatch = useAppDispatch();
+  const sessionId = useAppSelector(selectActiveSessionId);
+  const filters = useAppSelector(state => selectModuleFilters(state, module));
+  const filterKey = getFilterKey(filters);
+  const cached = useAppSelector(state => selectCachedModuleData(state, module));
+
+  const [data, setData] = useState<ModuleDataMap[K] | null>(cached?.data ?? null);
+  const [loading, setLoading] = useState(!cached);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Keep the latest loader without re-triggering the effect on every render
+  const loaderRef = useRef(loader);
+  loaderRef.current = loader;
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+
+  // The first load only refreshes cached data, without the loading state
+  const backgroundRefreshRef = useRef(!!cached);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const background = backgroundRefreshRef.current;
+      backgroundRefreshRef.current = false;
+      if (!background) {
+        setLoading(true);
+      }
+      setError(null);
+
+      try {
+        const result = await loaderRef.current(filtersRef.current);
+        if (!cancelled) {
+          setData(result);
+          if (sessionId) {
+            dispatch(moduleDataLoaded({ sessionId, module, data: result, fetchedAt: Date.now(), filterKey }));
+          }
+        }
+      } catch (err) {
+        console.error('Failed to load module data:', err);
+        // Keep showing the cached data when it cannot be refreshed
+        if (!cancelled && !background) {
+          setError(err instanceof Error ? err.message : 'Failed to load data');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, reloadCount, filterKey]);
+
+  const reload = useCallback(() => {
+    setReloadCount(count => count + 1);
+  }, []);
+
+  return { data, loading, error, reload };
+};
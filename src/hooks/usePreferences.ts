@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { settingsStore, AppPreferences } from '../api/settingsStore';
+
+/**
+ * Current app preferences, updated whenever they are changed or reset
+ */
+export const usePreferences = (): AppPreferences => {
+  const [preferences, setPreferences] = useState(settingsStore.getPreferences);
+
+  useEffect(() => {
+    // Catch changes made between the first render and subscribing
+    setPreferences(settingsStore.getPreferences());
+    return settingsStore.addPreferencesListener(setPreferences);
+  }, []);
+
+  return preferences;
+};
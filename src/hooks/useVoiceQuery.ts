@@ -0,0 +1,242 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { mcpService, MCPResponse, isQueuedResponse } from '../api/mcpService';
+import { speechRecognizer as defaultRecognizer, SpeechRecognizer, SpeechRecognizerEvent } from '../voice/speechRecognizer';
+import { RecordingState } from '../state/slices/uiSlice';
+
+// Grace period after the recognizer ends for a late final result (Android sends results after end)
+const DEFAULT_RESULT_SETTLE_MS = 600;
+
+interface UseVoiceQueryOptions {
+  recognizer?: SpeechRecognizer;
+  locale?: string;
+  resultSettleMs?: number;
+  processQuery?: (query: string, signal: AbortSignal) => Promise<MCPResponse>;
+  onQuery?: (query: string) => void;
+  onResponse?: (query: string, response: MCPResponse) => void;
+}
+
+export interface VoiceQueryState {
+  recordingState: RecordingState;
+  isAvailable: boolean;
+  transcript: string;
+  response: MCPResponse | null;
+  error: string | null;
+  start: () => Promise<void>;
+  stop: () => Promise<void>;
+  cancel: () => Promise<void>;
+  toggle: () => void;
+  clearError: () => void;
+}
+
+/**
+ * Voice pipeline: captures speech with a recognizer, then sends the transcript
+ * through mcpService.processQuery. RecordingState follows recognizer and query events.
+ */
+export const useVoiceQuery = ({
+  recognizer = defaultRecognizer,
+  locale = 'en-US',
+  resultSettleMs = DEFAULT_RESULT_SETTLE_MS,
+  processQuery,
+  onQuery,
+  onResponse,
+}: UseVoiceQueryOptions = {}): VoiceQueryState => {
+  const [recordingState, setRecordingState] = useState<RecordingState>('idle');
+  const [isAvailable, setIsAvailable] = useState(false);
+  const [transcript, setTranscript] = useState('');
+  const [response, setResponse] = useState<MCPResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refs hold the session state read from recognizer callbacks
+  const stateRef = useRef<RecordingState>('idle');
+  const transcriptRef = useRef('');
+  const settleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Incremented on every new session so stale query results are ignored
+  const sessionRef = useRef(0);
+  // Aborts the query of the current session
+  const queryControllerRef = useRef<AbortController | null>(null);
+  const callbacksRef = useRef({ processQuery, onQuery, onResponse });
+  callbacksRef.current = { processQuery, onQuery, onResponse };
+
+  const updateState = useCallback((next: RecordingState) => {
+    stateRef.current = next;
+    setRecordingState(next);
+  }, []);
+
+  const clearSettleTimer = useCallback(() => {
+    if (settleTimerRef.current) {
+      clearTimeout(settleTimerRef.current);
+      settleTimerRef.current = null;
+    }
+  }, []);
+
+  const submitQuery = useCallback(async () => {
+    clearSettleTimer();
+    const query = transcriptRef.current.trim();
+
+    if (!query) {
+      updateState('idle');
+      return;
+    }
+
+    const session = sessionRef.current;
+    const controller = new AbortController();
+    queryControllerRef.current = controller;
+    updateState('processing');
+    callbacksRef.current.onQuery?.(query);
+
+    try {
+      const { processQuery: submit } = callbacksRef.current;
+      const result = submit
+        ? await submit(query, controller.signal)
+        : await mcpService.processQuery(query, { signal: controller.signal });
+      if (session !== sessionRef.current) return;
+
+      setResponse(result);
+      callbacksRef.current.onResponse?.(query, result);
+      // A query waiting in the offline outbox has not failed
+      if (result.type === 'error' && !isQueuedResponse(result)) {
+        setError(result.content);
+      }
+    } catch (err) {
+      if (session !== sessionRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to process voice command');
+    } finally {
+      if (queryControllerRef.current === controller) {
+        queryControllerRef.current = null;
+      }
+      if (session === sessionRef.current) {
+        updateState('idle');
+      }
+    }
+  }, [clearSettleTimer, updateState]);
+
+  const handleEvent = useCallback((event: SpeechRecognizerEvent) => {
+    if (stateRef.current !== 'listening') return;
+
+    switch (event.type) {
+      case 'partial':
+      case 'result':
+        transcriptRef.current = event.transcript;
+        setTranscript(event.transcript);
+        // A final result after the recognizer ended completes the capture
+        if (event.type === 'result' && settleTimerRef.current) {
+          submitQuery();
+        }
+        break;
+      case 'end':
+        clearSettleTimer();
+        settleTimerRef.current = setTimeout(submitQuery, resultSettleMs);
+        break;
+      case 'error':
+        clearSettleTimer();
+        setError(event.message);
+        updateState('idle');
+        break;
+      default:
+        break;
+    }
+  }, [submitQuery, clearSettleTimer, updateState, resultSettleMs]);
+
+  // Subscribe to recognizer events
+  useEffect(() => {
+    let mounted = true;
+
+    recognizer.isAvailable().then((available) => {
+      if (mounted) setIsAvailable(available);
+    });
+
+    const removeListener = recognizer.addListener(handleEvent);
+
+    return () => {
+      mounted = false;
+      removeListener();
+    };
+  }, [recognizer, handleEvent]);
+
+  // Stop any capture when the component using the pipeline unmounts
+  useEffect(() => {
+    return () => {
+      sessionRef.current += 1;
+      clearSettleTimer();
+      queryControllerRef.current?.abort();
+      if (stateRef.current === 'listening') {
+        recognizer.cancel().catch(() => {});
+      }
+    };
+  }, [recognizer, clearSettleTimer]);
+
+  const start = useCallback(async () => {
+    if (stateRef.current !== 'idle') return;
+
+    sessionRef.current += 1;
+    transcriptRef.current = '';
+    setTranscript('');
+    setError(null);
+    updateState('listening');
+
+    try {
+      await recognizer.start(locale);
+    } catch (err) {
+      console.error('Error starting voice recognition:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start voice recognition');
+      updateState('idle');
+    }
+  }, [recognizer, locale, updateState]);
+
+  const stop = useCallback(async () => {
+    if (stateRef.current !== 'listening') return;
+
+    try {
+      await recognizer.stop();
+    } catch (err) {
+      console.error('Error stopping voice recognition:', err);
+    }
+    // Some recognizers never emit 'end' after a manual stop
+    if (stateRef.current === 'listening' && !settleTimerRef.current) {
+      settleTimerRef.current = setTimeout(submitQuery, resultSettleMs);
+    }
+  }, [recognizer, submitQuery, resultSettleMs]);
+
+  const cancel = useCallback(async () => {
+    sessionRef.current += 1;
+    clearSettleTimer();
+    // Cancel the pending query, not just the local state
+    queryControllerRef.current?.abort();
+    queryControllerRef.current = null;
+
+    if (stateRef.current === 'listening') {
+      try {
+        await recognizer.cancel();
+      } catch (err) {
+        console.error('Error cancelling voice recognition:', err);
+      }
+    }
+    updateState('idle');
+  }, [recognizer, clearSettleTimer, updateState]);
+
+  // Microphone button behaviour: start, stop capture, or cancel while processing
+  const toggle = useCallback(() => {
+    if (stateRef.current === 'idle') {
+      start();
+    } else if (stateRef.current === 'listening') {
+      stop();
+    } else {
+      cancel();
+    }
+  }, [start, stop, cancel]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    recordingState,
+    isAvailable,
+    transcript,
+    response,
+    error,
+    start,
+    stop,
+    cancel,
+    toggle,
+    clearError,
+  };
+};
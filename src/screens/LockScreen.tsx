@@ -0,0 +1,352 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  View,
+  StatusBar,
+  Keyboard,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { Text, Button, Switch, SegmentedButtons, Icon } from 'react-native-paper';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { RootStackParamList } from '../App';
+import { useAppDispatch } from '../hooks/useAppDispatch';
+import { useAppSelector } from '../hooks/useAppSelector';
+import { unlockWithPin, unlockWithBiometrics } from '../state/slices/authSlice';
+import { appLockService, validatePin } from '../api/appLockService';
+import { colors, spacing } from '../utils/theme';
+import { LOCK_TIMEOUT_OPTIONS_MS } from '../utils/config';
+
+import FloatingInput from '../components/FloatingInput';
+import AnimatedBackground from '../components/AnimatedBackground';
+
+type LockScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Lock'>;
+
+const TIMEOUT_BUTTONS = LOCK_TIMEOUT_OPTIONS_MS.map((ms) => ({
+  value: String(ms),
+  label: ms === 0 ? 'Now' : `${ms / 60000} min`,
+}));
+
+/**
+ * App lock. In 'unlock' mode it stands between a saved session and the Main route;
+ * in 'setup' mode it sets or changes the PIN and lock options.
+ */
+const LockScreen = () => {
+  const navigation = useNavigation<LockScreenNavigationProp>();
+  const route = useRoute<RouteProp<RootStackParamList, 'Lock'>>();
+  const mode = route.params?.mode || 'unlock';
+  const dispatch = useAppDispatch();
+  const { username, unlockAttemptsLeft, isLoggedIn } = useAppSelector(state => state.auth);
+
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [pinError, setPinError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [lockEnabled, setLockEnabled] = useState(false);
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+  const [biometricsEnabled, setBiometricsEnabled] = useState(false);
+  const [timeoutMs, setTimeoutMs] = useState(LOCK_TIMEOUT_OPTIONS_MS[1]);
+
+  const handleBiometrics = useCallback(async () => {
+    const result = await dispatch(unlockWithBiometrics());
+    if (unlockWithBiometrics.fulfilled.match(result) && result.payload) {
+      navigation.replace('Main');
+    }
+  }, [dispatch, navigation]);
+
+  // Load the current options, and offer biometrics right away when unlocking
+  useEffect(() => {
+    const init = async () => {
+      const [settings, available, enabled] = await Promise.all([
+        appLockService.getSettings(),
+        appLockService.isBiometricAvailable(),
+        appLockService.isEnabled(),
+      ]);
+      setLockEnabled(enabled);
+      setBiometricsAvailable(available);
+      setBiometricsEnabled(settings.biometricsEnabled);
+      setTimeoutMs(settings.timeoutMs);
+
+      if (mode === 'unlock' && settings.biometricsEnabled && available) {
+        handleBiometrics();
+      }
+    };
+    init();
+  }, [mode, handleBiometrics]);
+
+  // Go to Login when too many wrong PINs wiped the session
+  useEffect(() => {
+    if (mode !== 'unlock') return;
+    if (!isLoggedIn) {
+      navigation.replace('Login');
+    }
+  }, [isLoggedIn, mode, navigation]);
+
+  const handleUnlock = useCallback(async () => {
+    Keyboard.dismiss();
+    if (!pin) {
+      setPinError('Enter your PIN');
+      return;
+    }
+
+    setSubmitting(true);
+    const result = await dispatch(unlockWithPin(pin));
+    setSubmitting(false);
+    setPin('');
+
+    if (unlockWithPin.fulfilled.match(result)) {
+      if (result.payload.unlocked) {
+        navigation.replace('Main');
+      } else if (!result.payload.wiped) {
+        const { attemptsLeft } = result.payload;
+        setPinError(`Incorrect PIN. ${attemptsLeft} ${attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`);
+      }
+    } else {
+      setPinError('Could not check your PIN. Please try again.');
+    }
+  }, [pin, dispatch, navigation]);
+
+  const handleSave = useCallback(async () => {
+    Keyboard.dismiss();
+
+    // The PIN is optional when only changing options on an enabled lock
+    if (pin || !lockEnabled) {
+      const error = validatePin(pin);
+      if (error) {
+        setPinError(error);
+        return;
+      }
+      if (pin !== confirmPin) {
+        setPinError('PINs do not match');
+        return;
+      }
+    }
+
+    setSubmitting(true);
+    try {
+      if (pin) {
+        await appLockService.setPin(pin);
+      }
+      await appLockService.updateSettings({ biometricsEnabled, timeoutMs });
+      navigation.goBack();
+    } catch (err) {
+      setPinError(err instanceof Error ? err.message : 'Could not save the app lock');
+    } finally {
+      setSubmitting(false);
+    }
+  }, [pin, confirmPin, lockEnabled, biometricsEnabled, timeoutMs, navigation]);
+
+  const handleDisable = useCallback(async () => {
+    await appLockService.disable();
+    navigation.goBack();
+  }, [navigation]);
+
+  const renderUnlock = () => (
+    <>
+      <Icon source="lock-outline" size={48} color={colors.primary} />
+      <Text style={styles.title}>Enter your PIN</Text>
+      {username && <Text style={styles.subtitle}>Signed in as {username}</Text>}
+
+      <FloatingInput
+        label="PIN"
+        value={pin}
+        onChangeText={(text) => {
+          setPin(text);
+          setPinError('');
+        }}
+        keyboardType="number-pad"
+        secureTextEntry
+        autoFocus
+        error={pinError}
+        hint={unlockAttemptsLeft !== null && !pinError ? `${unlockAttemptsLeft} attempts left` : undefined}
+        returnKeyType="done"
+        onSubmitEditing={handleUnlock}
+        containerStyle={styles.input}
+      />
+
+      <Button
+        mode="contained"
+        onPress={handleUnlock}
+        loading={submitting}
+        disabled={submitting}
+        style={styles.primaryButton}
+      >
+        Unlock
+      </Button>
+
+      {biometricsEnabled && biometricsAvailable && (
+        <Button
+          mode="text"
+          icon="fingerprint"
+          onPress={handleBiometrics}
+          textColor={colors.textSecondary}
+        >
+          Use biometrics
+        </Button>
+      )}
+    </>
+  );
+
+  const renderSetup = () => (
+    <>
+      <Icon source="shield-lock-outline" size={48} color={colors.primary} />
+      <Text style={styles.title}>App Lock</Text>
+      <Text style={styles.subtitle}>
+        {lockEnabled ? 'Change your PIN or lock options' : 'Choose a PIN to protect your Odoo data'}
+      </Text>
+
+      <FloatingInput
+        label={lockEnabled ? 'New PIN (optional)' : 'New PIN'}
+        value={pin}
+        onChangeText={(text) => {
+          setPin(text);
+          setPinError('');
+        }}
+        keyboardType="number-pad"
+        secureTextEntry
+        error={pinError}
+        containerStyle={styles.input}
+      />
+      <FloatingInput
+        label="Confirm PIN"
+        value={confirmPin}
+        onChangeText={(text) => {
+          setConfirmPin(text);
+          setPinError('');
+        }}
+        keyboardType="number-pad"
+        secureTextEntry
+        containerStyle={styles.input}
+      />
+
+      <Text style={styles.optionLabel}>Lock after time in background</Text>
+      <SegmentedButtons
+        value={String(timeoutMs)}
+        onValueChange={(value) => setTimeoutMs(Number(value))}
+        buttons={TIMEOUT_BUTTONS}
+        style={styles.timeouts}
+      />
+
+      {biometricsAvailable && (
+        <View style={styles.switchRow}>
+          <Text style={styles.optionLabel}>Unlock with biometrics</Text>
+          <Switch
+            value={biometricsEnabled}
+            onValueChange={setBiometricsEnabled}
+            color={colors.primary}
+          />
+        </View>
+      )}
+
+      <Button
+        mode="contained"
+        onPress={handleSave}
+        loading={submitting}
+        disabled={submitting}
+        style={styles.primaryButton}
+      >
+        Save
+      </Button>
+      {lockEnabled && (
+        <Button mode="text" onPress={handleDisable} textColor={colors.error}>
+          Turn off app lock
+        </Button>
+      )}
+      <Button mode="text" onPress={() => navigation.goBack()} textColor={colors.textSecondary}>
+        Cancel
+      </Button>
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.backgroundDark} />
+      <AnimatedBackground />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContainer}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.card}>
+            {mode === 'setup' ? renderSetup() : renderUnlock()}
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.backgroundDark,
+  },
+  container: {
+    flex: 1,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: spacing.lg,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    alignSelf: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderRadius: 16,
+    backgroundColor: 'rgba(15, 23, 42, 0.75)',
+  },
+  title: {
+    marginTop: spacing.md,
+    fontSize: 22,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    marginTop: spacing.xs,
+    marginBottom: spacing.lg,
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  input: {
+    width: '100%',
+  },
+  optionLabel: {
+    alignSelf: 'flex-start',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  timeouts: {
+    marginBottom: spacing.md,
+  },
+  switchRow: {
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 6,
+  },
+});
+
+export default LockScreen;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { 
   StyleSheet, 
   View, 
@@ -15,9 +15,11 @@ import {
   Text, 
   Snackbar,
   IconButton,
-  Button
+  Button,
+  Menu,
+  ActivityIndicator
 } from 'react-native-paper';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Video, ResizeMode } from 'expo-av';
@@ -25,26 +27,46 @@ import { Video, ResizeMode } from 'expo-av';
 import { RootStackParamList } from '../App';
 import { useAppDispatch } from '../hooks/useAppDispatch';
 import { useAppSelector } from '../hooks/useAppSelector';
-import { login, clearError } from '../state/slices/authSlice';
-import { AuthError } from '../api/authService';
+import { login, clearError, verifyTwoFactor, cancelTwoFactor } from '../state/slices/authSlice';
+import { authService, ServerInfo, RecentServer, isTwoFactorChallenge } from '../api/authService';
+import { getErrorGuidance, getErrorKind } from '../api/errors';
 import { colors, spacing } from '../utils/theme';
-import { PROXY_URL as PROXY_SERVER_URL, DEFAULT_ODOO_URL, SKIP_AUTH_ENABLED } from '../utils/config';
+import { SKIP_AUTH_ENABLED } from '../utils/config';
+import { settingsStore } from '../api/settingsStore';
 
 // Import components
 import FloatingInput from '../components/FloatingInput';
+import ProxySettingsDialog from '../components/ProxySettingsDialog';
 
 type LoginScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Login'>;
 
 const LoginScreen = () => {
   const navigation = useNavigation<LoginScreenNavigationProp>();
+  const route = useRoute<RouteProp<RootStackParamList, 'Login'>>();
+  // Opened from the account switcher while another account stays signed in
+  const addAccount = !!route.params?.addAccount;
   const dispatch = useAppDispatch();
-  const { loading, error } = useAppSelector(state => state.auth);
+  const { loading, error, errorCode, twoFactorChallenge } = useAppSelector(state => state.auth);
 
   // Form state
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
-  const [serverUrl, setServerUrl] = useState(DEFAULT_ODOO_URL);
+  const [serverUrl, setServerUrl] = useState(() => settingsStore.getPreferences().defaultServerUrl);
   const [showPassword, setShowPassword] = useState(false);
+  const [proxyUrl, setProxyUrl] = useState(settingsStore.getProxyUrl());
+  const [showProxySettings, setShowProxySettings] = useState(false);
+
+  // Server discovery state
+  const [recentServers, setRecentServers] = useState<RecentServer[]>([]);
+  const [serverInfo, setServerInfo] = useState<ServerInfo | null>(null);
+  const [discovering, setDiscovering] = useState(false);
+  const [database, setDatabase] = useState('');
+  const [showDatabaseMenu, setShowDatabaseMenu] = useState(false);
+  const discoveredUrl = useRef<string | null>(null);
+
+  // Two-factor step state
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [twoFactorError, setTwoFactorError] = useState('');
   
   // Validation state
   const [usernameError, setUsernameError] = useState('');
@@ -53,13 +75,73 @@ const LoginScreen = () => {
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
 
-  // Show error snackbar instead of alert for better UX
+  // Show error snackbar instead of alert for better UX.
+  // Validation errors are shown next to their field instead.
   useEffect(() => {
-    if (error) {
+    if (error && getErrorKind(errorCode || undefined) !== 'validation') {
       setSnackbarMessage(error);
       setSnackbarVisible(true);
     }
-  }, [error]);
+  }, [error, errorCode]);
+
+  // Ask the proxy which databases the server offers. Login still works when this fails,
+  // the server then picks its default database.
+  const discoverServer = useCallback(async (url: string) => {
+    const target = url.trim();
+    if (!/^https?:\/\/.+/i.test(target) || target === discoveredUrl.current) {
+      return;
+    }
+
+    discoveredUrl.current = target;
+    setServerInfo(null);
+    setDiscovering(true);
+    try {
+      const [info, recent] = await Promise.all([
+        authService.discoverServer(target),
+        authService.getRecentServers(),
+      ]);
+      if (discoveredUrl.current !== target) return;
+
+      // Prefer the database used last time on this server
+      const lastDatabase = recent.find(server => server.url === target)?.database;
+      setServerInfo(info);
+      setDatabase(
+        lastDatabase && info.databases.includes(lastDatabase)
+          ? lastDatabase
+          : info.databases.length === 1 ? info.databases[0] : ''
+      );
+    } catch (err) {
+      if (discoveredUrl.current !== target) return;
+      console.warn('Server discovery failed:', err);
+      setDatabase('');
+    } finally {
+      if (discoveredUrl.current === target) {
+        setDiscovering(false);
+      }
+    }
+  }, []);
+
+  // Offer recent servers and discover the prefilled one
+  useEffect(() => {
+    authService.getRecentServers().then(setRecentServers);
+    discoverServer(settingsStore.getPreferences().defaultServerUrl);
+  }, [discoverServer]);
+
+  const handleServerUrlChange = (text: string) => {
+    setServerUrl(text);
+    setServerUrlError('');
+    if (discoveredUrl.current !== text.trim()) {
+      discoveredUrl.current = null;
+      setServerInfo(null);
+      setDiscovering(false);
+      setDatabase('');
+    }
+  };
+
+  const handleSelectServer = (url: string) => {
+    handleServerUrlChange(url);
+    discoverServer(url);
+  };
 
   // Form validation
   const validateForm = (): boolean => {
@@ -89,6 +171,9 @@ const LoginScreen = () => {
     } else if (!/^https?:\/\/.+/i.test(serverUrl)) {
       setServerUrlError('URL must start with http:// or https://');
       isValid = false;
+    } else if (serverInfo && serverInfo.databases.length > 1 && !database) {
+      setServerUrlError('Select a database');
+      isValid = false;
     }
 
     return isValid;
@@ -108,62 +193,66 @@ const LoginScreen = () => {
       // While the user enters the actual Odoo server URL, we send our request
       // to the proxy server with the Odoo server URL as a parameter
       
-      console.log(`Authenticating with proxy at ${PROXY_SERVER_URL}`);
+      console.log(`Authenticating with proxy at ${proxyUrl}`);
       console.log(`Username: ${username}, Target Odoo server: ${serverUrl}`);
       
       // Use the login thunk action
       const resultAction = await dispatch(login({
         username,
         password,
-        serverUrl  // This is the actual Odoo server the user wants to connect to
+        serverUrl,  // This is the actual Odoo server the user wants to connect to
+        database: database || undefined
       }));
       
       // Check if the login was successful
-      if (login.fulfilled.match(resultAction)) {
+      if (login.fulfilled.match(resultAction) && isTwoFactorChallenge(resultAction.payload)) {
+        // The code entry view replaces the form until the code is verified
+        setTwoFactorCode('');
+        setTwoFactorError('');
+      } else if (login.fulfilled.match(resultAction)) {
         console.log('Authentication successful');
         // Navigate to main screen
         navigation.replace('Main');
       } else if (login.rejected.match(resultAction) && resultAction.payload) {
-        // Handle field-specific errors
-        const errorMsg = resultAction.payload as string;
-        console.error('Authentication failed:', errorMsg);
+        // Field errors are shown inline; everything else goes to the snackbar
+        const { field, message } = resultAction.payload;
+        console.error('Authentication failed:', message);
         
-        if (errorMsg.includes('Username')) {
-          setUsernameError(errorMsg);
-        } else if (errorMsg.includes('Password')) {
-          setPasswordError(errorMsg);
-        } else if (errorMsg.includes('Server') || errorMsg.includes('URL')) {
-          setServerUrlError(errorMsg);
-        } else if (errorMsg.includes('Network') || errorMsg.includes('connect')) {
-          // Connection issues
-          setSnackbarMessage(errorMsg);
-          setSnackbarVisible(true);
-        } else {
-          // General error
-          setSnackbarMessage(errorMsg);
-          setSnackbarVisible(true);
+        if (field === 'username') {
+          setUsernameError(message);
+        } else if (field === 'password') {
+          setPasswordError(message);
+        } else if (field === 'serverUrl') {
+          setServerUrlError(message);
         }
       }
     } catch (err) {
       console.error('Login error:', err);
-      
-      // Handle typed errors
-      if (err instanceof Error) {
-        const authError = err as AuthError;
-        
-        // Show field-specific errors
-        if (authError.code === 'INVALID_INPUT') {
-          if (authError.message.includes('Username')) {
-            setUsernameError(authError.message);
-          } else if (authError.message.includes('Password')) {
-            setPasswordError(authError.message);
-          } else if (authError.message.includes('Server')) {
-            setServerUrlError(authError.message);
-          }
-        }
-      }
     }
-  }, [username, password, serverUrl, dispatch, navigation]);
+  }, [username, password, serverUrl, database, serverInfo, proxyUrl, dispatch, navigation]);
+
+  const handleVerifyCode = useCallback(async () => {
+    Keyboard.dismiss();
+
+    if (!/^\d{6}$/.test(twoFactorCode.replace(/\s/g, ''))) {
+      setTwoFactorError('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    const resultAction = await dispatch(verifyTwoFactor(twoFactorCode));
+    if (verifyTwoFactor.fulfilled.match(resultAction)) {
+      navigation.replace('Main');
+    } else if (resultAction.payload?.code === 'INVALID_2FA_CODE' || resultAction.payload?.kind === 'validation') {
+      setTwoFactorCode('');
+      setTwoFactorError(resultAction.payload.message);
+    }
+  }, [twoFactorCode, dispatch, navigation]);
+
+  const handleCancelTwoFactor = () => {
+    setTwoFactorCode('');
+    setTwoFactorError('');
+    dispatch(cancelTwoFactor());
+  };
 
   // Dismiss error snackbar
   const dismissSnackbar = () => {
@@ -171,6 +260,31 @@ const LoginScreen = () => {
     dispatch(clearError());
   };
 
+  // Snackbar action offered for the current error
+  const guidance = getErrorGuidance(errorCode || undefined);
+  const snackbarAction = (() => {
+    switch (guidance.action) {
+      case 'retry':
+        return {
+          label: 'Retry',
+          onPress: () => {
+            dismissSnackbar();
+            twoFactorChallenge ? handleVerifyCode() : handleLogin();
+          },
+        };
+      case 'settings':
+        return {
+          label: 'Settings',
+          onPress: () => {
+            dismissSnackbar();
+            setShowProxySettings(true);
+          },
+        };
+      default:
+        return { label: 'Dismiss', onPress: dismissSnackbar };
+    }
+  })();
+
   // Render logo without animation
   const renderLogo = () => {
     return (
@@ -181,6 +295,72 @@ const LoginScreen = () => {
     );
   };
 
+  // Describe what discovery found below the server URL
+  const getServerHint = (): string | undefined => {
+    if (discovering) return 'Looking for Odoo databases...';
+    if (!serverInfo) return undefined;
+
+    const version = serverInfo.version ? `Odoo ${serverInfo.version}` : 'Odoo';
+    const count = serverInfo.databases.length;
+    if (count === 0) return version;
+    if (count === 1) return `${version} · database ${serverInfo.databases[0]}`;
+    return `${version} · ${count} databases`;
+  };
+
+  // Code entry view for users with two-factor authentication
+  const renderTwoFactor = () => {
+    return (
+      <View style={styles.formWrapper}>
+        <View style={styles.formBackground} />
+        <View style={styles.formContainer}>
+          <Text style={styles.twoFactorTitle}>Two-factor authentication</Text>
+          <Text style={styles.twoFactorText}>
+            Enter the 6-digit code from your authenticator app
+            {twoFactorChallenge ? ` for ${twoFactorChallenge.username}` : ''}.
+          </Text>
+
+          <FloatingInput
+            label="Verification code"
+            value={twoFactorCode}
+            onChangeText={(text) => {
+              setTwoFactorCode(text);
+              setTwoFactorError('');
+            }}
+            keyboardType="number-pad"
+            textContentType="oneTimeCode"
+            autoComplete="one-time-code"
+            maxLength={6}
+            autoFocus
+            error={twoFactorError}
+            returnKeyType="done"
+            onSubmitEditing={handleVerifyCode}
+          />
+
+          <View style={styles.buttonContainer}>
+            <Button
+              mode="contained"
+              onPress={handleVerifyCode}
+              loading={loading}
+              disabled={loading}
+              style={styles.loginButton}
+            >
+              {loading ? "Verifying..." : "Verify"}
+            </Button>
+          </View>
+
+          <Button
+            mode="text"
+            onPress={handleCancelTwoFactor}
+            disabled={loading}
+            textColor={colors.textSecondary}
+          >
+            Back
+          </Button>
+        </View>
+      </View>
+    );
+  };
+
   // Render the entire login form
   const renderForm = () => {
     return (
@@ -227,18 +407,54 @@ const LoginScreen = () => {
         <FloatingInput 
           label="Odoo Server URL"
           value={serverUrl}
-          onChangeText={(text) => {
-            setServerUrl(text);
-            setServerUrlError('');
-          }}
+          onChangeText={handleServerUrlChange}
+          suggestions={recentServers.map(server => server.url)}
+          onSelectSuggestion={handleSelectServer}
+          onBlur={() => discoverServer(serverUrl)}
           autoCapitalize="none"
           keyboardType="url"
           error={serverUrlError}
+          hint={getServerHint()}
+          rightIcon={discovering ? <ActivityIndicator size={16} color={colors.textSecondary} style={styles.discoveringIndicator} /> : undefined}
           returnKeyType="done"
           onSubmitEditing={handleLogin}
           blurOnSubmit={true}
         />
         
+        {/* Database picker, shown when the server offers several */}
+        {serverInfo && serverInfo.databases.length > 1 && (
+          <Menu
+            visible={showDatabaseMenu}
+            onDismiss={() => setShowDatabaseMenu(false)}
+            anchor={
+              <TouchableOpacity
+                style={styles.databasePicker}
+                onPress={() => setShowDatabaseMenu(true)}
+                disabled={loading}
+              >
+                <Text style={styles.databaseLabel}>Database</Text>
+                <Text style={database ? styles.databaseValue : styles.databasePlaceholder} numberOfLines={1}>
+                  {database || 'Select a database'}
+                </Text>
+                <IconButton icon="menu-down" size={20} iconColor={colors.textSecondary} style={styles.databaseIcon} />
+              </TouchableOpacity>
+            }
+          >
+            {serverInfo.databases.map((name) => (
+              <Menu.Item
+                key={name}
+                title={name}
+                leadingIcon={name === database ? 'check' : 'database-outline'}
+                onPress={() => {
+                  setDatabase(name);
+                  setServerUrlError('');
+                  setShowDatabaseMenu(false);
+                }}
+              />
+            ))}
+          </Menu>
+        )}
+        
         {/* Login Button */}
         <View style={styles.buttonContainer}>
           <Button
@@ -252,10 +468,21 @@ const LoginScreen = () => {
           </Button>
         </View>
         
-        {/* Proxy Info */}
-        <TouchableOpacity>
+        {addAccount && (
+          <Button
+            mode="text"
+            onPress={() => navigation.replace('Main')}
+            disabled={loading}
+            textColor={colors.textSecondary}
+          >
+            Cancel
+          </Button>
+        )}
+        
+        {/* Proxy Info, tap to change the proxy */}
+        <TouchableOpacity onPress={() => setShowProxySettings(true)}>
           <Text style={styles.noteText}>
-            Connecting via proxy at {PROXY_SERVER_URL}
+            {proxyUrl ? `Connecting via proxy at ${proxyUrl}` : 'No proxy configured'} · Change
           </Text>
         </TouchableOpacity>
       </View>
@@ -298,7 +525,7 @@ const LoginScreen = () => {
           showsVerticalScrollIndicator={false}
         >
           {renderLogo()}
-          {renderForm()}
+          {twoFactorChallenge ? renderTwoFactor() : renderForm()}
           
           {SKIP_AUTH_ENABLED && (
             <View style={styles.devContainer}>
@@ -319,16 +546,27 @@ const LoginScreen = () => {
           visible={snackbarVisible}
           onDismiss={dismissSnackbar}
           action={{
-            label: 'Dismiss',
-            onPress: dismissSnackbar,
+            ...snackbarAction,
             labelStyle: { color: colors.primary }
           }}
           duration={4000}
           style={styles.errorSnackbar}
         >
-          {snackbarMessage}
+          <RNText style={styles.snackbarMessage}>
+            <RNText style={styles.snackbarTitle}>{guidance.title}{'\n'}</RNText>
+            {snackbarMessage}
+            {errorCode && guidance.message !== snackbarMessage && (
+              <RNText style={styles.snackbarHint}>{'\n'}{guidance.message}</RNText>
+            )}
+          </RNText>
         </Snackbar>
       </KeyboardAvoidingView>
+
+      <ProxySettingsDialog
+        visible={showProxySettings}
+        onDismiss={() => setShowProxySettings(false)}
+        onSaved={setProxyUrl}
+      />
     </SafeAreaView>
   );
 };
@@ -410,6 +648,46 @@ const styles = StyleSheet.create({
     width: '100%',
     padding: spacing.md,
   },
+  discoveringIndicator: {
+    marginRight: spacing.sm,
+  },
+  databasePicker: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+    paddingLeft: spacing.md,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  databaseLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginRight: spacing.md,
+  },
+  databaseValue: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.textPrimary,
+  },
+  databasePlaceholder: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  databaseIcon: {
+    margin: 0,
+  },
+  twoFactorTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  twoFactorText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
   buttonContainer: {
     marginTop: spacing.md,
   },
@@ -425,6 +703,17 @@ const styles = StyleSheet.create({
     marginBottom: spacing.md,
     marginHorizontal: spacing.md,
   },
+  snackbarMessage: {
+    flex: 1,
+    color: colors.textPrimary,
+  },
+  snackbarTitle: {
+    fontWeight: '600',
+  },
+  snackbarHint: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
   noteText: {
     textAlign: 'center',
     fontSize: 12,
@@ -24,20 +24,64 @@ import Animated, {
 import { RootStackParamList } from "../App";
 import { useAppDispatch } from "../hooks/useAppDispatch";
 import { useAppSelector } from "../hooks/useAppSelector";
-import { logoutThunk } from "../state/slices/authSlice";
-import { mcpService } from "../api/mcpService";
+import {
+  logoutThunk,
+  loadSessions,
+  switchSession,
+  selectSessions,
+  selectActiveSessionId,
+} from "../state/slices/authSlice";
+import {
+  loadConversation,
+  runQuery,
+  cancelQuery,
+  resolveAction,
+  clearConversation,
+  panelToggled,
+  panelShown,
+  panelHidden,
+  selectConversationTurns,
+  selectConversationPanelVisible,
+} from "../state/slices/conversationSlice";
+import {
+  connectMCP,
+  disconnectMCP,
+  clearConnectionError,
+  selectConnectionError,
+} from "../state/slices/connectionSlice";
+import {
+  refreshRequested,
+  recordingStateChanged,
+  errorShown,
+  errorDismissed,
+  noticeDismissed,
+  selectCurrentModule,
+  selectRefreshKey,
+  selectUIError,
+  selectNotice,
+} from "../state/slices/uiSlice";
+import { selectCachedModuleData } from "../state/slices/dashboardSlice";
+import { tokenRefreshScheduler } from "../api/tokenRefreshScheduler";
+import { useVoiceQuery } from "../hooks/useVoiceQuery";
+import { usePreferences } from "../hooks/usePreferences";
 import AnimatedBackground from "../components/AnimatedBackground";
 import GlassCard from "../components/GlassCard";
 import AnimatedButton from "../components/AnimatedButton";
+import ConversationPanel from "../components/ConversationPanel";
+import SessionSwitcher from "../components/SessionSwitcher";
+import ExportDialog from "../components/ExportDialog";
+import FilterSheet from "../components/FilterSheet";
+import FilterChips from "../components/FilterChips";
 
 // Import module components
 import SalesModule from "../components/modules/SalesModule";
 import InventoryModule from "../components/modules/InventoryModule";
 import CustomersModule from "../components/modules/CustomersModule";
 
-// Import action bar and its types
-import ActionBar, { ModuleType, RecordingState } from "../components/ActionBar";
+// Import action bar
+import ActionBar from "../components/ActionBar";
 import { colors, spacing, createShadow } from "../utils/theme";
+import { buildModuleExport, ExportDocument } from "../utils/exportData";
 
 // Module names to display titles
 const MODULE_NAMES = {
@@ -57,57 +101,97 @@ const MainScreen = () => {
   const { token, username, serverUrl, user } = useAppSelector(
     (state) => state.auth
   );
-
-  // State
-  const [isMCPConnected, setIsMCPConnected] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const sessions = useAppSelector(selectSessions);
+  const activeSessionId = useAppSelector(selectActiveSessionId);
+
+  // Shared state
+  const currentModule = useAppSelector(selectCurrentModule);
+  const refreshKey = useAppSelector(selectRefreshKey);
+  const showConversation = useAppSelector(selectConversationPanelVisible);
+  const conversationTurns = useAppSelector(selectConversationTurns);
+  const error = useAppSelector(selectUIError);
+  const connectionError = useAppSelector(selectConnectionError);
+  const notice = useAppSelector(selectNotice);
+  const moduleData = useAppSelector((state) => selectCachedModuleData(state, currentModule));
+
+  // Local state
   const [showLogoutDialog, setShowLogoutDialog] = useState(false);
-  const [currentModule, setCurrentModule] = useState<ModuleType>('sales');
-  const [recordingState, setRecordingState] = useState<RecordingState>('idle');
+  const [exportDocument, setExportDocument] = useState<ExportDocument | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+
+  const showError = useCallback((message: string) => {
+    dispatch(errorShown(message));
+  }, [dispatch]);
+
+  const dismissError = useCallback(() => {
+    dispatch(errorDismissed());
+    dispatch(clearConnectionError());
+  }, [dispatch]);
+
+  // Send a query through the conversation so it is recorded in the history.
+  // Aborting the signal aborts the thunk, which cancels the MCP query.
+  const submitQuery = useCallback(
+    (query: string, signal?: AbortSignal) => {
+      const request = dispatch(runQuery(query));
+      signal?.addEventListener("abort", () => request.abort());
+      return request.unwrap();
+    },
+    [dispatch]
+  );
 
-  // Get device dimensions for responsive layout
-  const windowWidth = Dimensions.get("window").width;
+  // Voice pipeline: speech recognition -> MCP query
+  const { voiceLanguage } = usePreferences();
+  const voice = useVoiceQuery({
+    locale: voiceLanguage,
+    processQuery: submitQuery,
+    onQuery: () => dispatch(panelShown()),
+  });
+  const { recordingState } = voice;
 
-  // Connect to MCP service when the component mounts
+  // Share the recording state with the action bar
   useEffect(() => {
-    const connectToMCP = async () => {
-      if (token && serverUrl) {
-        setIsConnecting(true);
-        setError(null);
-
-        try {
-          // Connect to MCP service
-          const connected = await mcpService.connect(serverUrl, token);
-          setIsMCPConnected(connected);
-
-          if (!connected) {
-            setError(
-              "Unable to connect to the MCP service. Using fallback mode."
-            );
-          }
-        } catch (err) {
-          console.error("Failed to connect to MCP service", err);
-          setError("Connection error: Failed to connect to MCP service");
-        } finally {
-          setIsConnecting(false);
-        }
-      }
-    };
+    dispatch(recordingStateChanged(recordingState));
+  }, [recordingState, dispatch]);
 
-    // Set up connection listener
-    const removeListener = mcpService.addConnectionListener((connected) => {
-      setIsMCPConnected(connected);
-    });
+  // Get device dimensions for responsive layout
+  const windowWidth = Dimensions.get("window").width;
 
-    connectToMCP();
+  // Connect to MCP service for the active session.
+  // Refreshed tokens are handed to the socket by the MCP service, so they do not reconnect here.
+  // Connection changes reach the store through the listeners bound in App.
+  useEffect(() => {
+    if (token && serverUrl) {
+      dispatch(connectMCP({
+        serverUrl,
+        token,
+        sessionId: activeSessionId || undefined,
+      }));
+    }
 
     // Clean up
     return () => {
-      mcpService.disconnect();
-      if (removeListener) removeListener();
+      dispatch(disconnectMCP());
     };
-  }, [token, serverUrl]);
+  }, [serverUrl, activeSessionId]);
+
+  // Refresh the access token before it expires while signed in
+  useEffect(() => {
+    if (!token) return;
+    tokenRefreshScheduler.start();
+    return () => tokenRefreshScheduler.stop();
+  }, [token]);
+
+  // Load the saved conversation for the active session
+  useEffect(() => {
+    if (activeSessionId) {
+      dispatch(loadConversation(activeSessionId));
+    }
+  }, [activeSessionId, dispatch]);
+
+  // Saved accounts for the switcher
+  useEffect(() => {
+    dispatch(loadSessions());
+  }, [dispatch]);
 
   // Handle logout
   const handleLogout = useCallback(async () => {
@@ -115,81 +199,105 @@ const MainScreen = () => {
 
     try {
       // Disconnect from MCP service
-      await mcpService.disconnect();
+      await dispatch(disconnectMCP());
 
       // Dispatch logout action
-      await dispatch(logoutThunk());
+      const result = await dispatch(logoutThunk());
+
+      // Continue with the most recently used account still signed in
+      const remaining = logoutThunk.fulfilled.match(result) ? result.payload : [];
+      const next = [...remaining].sort((a, b) => b.lastUsedAt - a.lastUsedAt)[0];
+      if (next && switchSession.fulfilled.match(await dispatch(switchSession(next.id)))) {
+        return;
+      }
 
       // Navigate to login screen
       navigation.replace("Login");
     } catch (err) {
       console.error("Logout error", err);
-      setError("Failed to logout. Please try again.");
+      showError("Failed to logout. Please try again.");
     }
-  }, [dispatch, navigation]);
+  }, [dispatch, navigation, showError]);
+  
+  // Make another saved account active; the connection and data follow the new session
+  const handleSwitchSession = useCallback(async (sessionId: string) => {
+    try {
+      await dispatch(switchSession(sessionId)).unwrap();
+      dispatch(panelHidden());
+    } catch (err) {
+      showError(typeof err === "string" ? err : "Could not switch account");
+    }
+  }, [dispatch, showError]);
+
+  // Sign in to another account or server without logging out of this one
+  const handleAddAccount = useCallback(() => {
+    navigation.replace("Login", { addAccount: true });
+  }, [navigation]);
   
   // Action Bar handlers
   const handleRefresh = useCallback(() => {
-    console.log(`Refreshing ${currentModule} data...`);
-    // In a real app, you would fetch fresh data here
-  }, [currentModule]);
+    // Bumping the key makes the active module reload its data provider
+    dispatch(refreshRequested());
+  }, [dispatch]);
 
+  // Export the data the module last loaded, as shown on screen
   const handleExport = useCallback(() => {
-    console.log(`Exporting ${currentModule} data...`);
-    // In a real app, you would implement export functionality
-  }, [currentModule]);
+    if (!moduleData) {
+      showError("Nothing to export yet. Wait for the data to load.");
+      return;
+    }
+    setExportDocument(buildModuleExport(currentModule, moduleData.data));
+  }, [currentModule, moduleData, showError]);
 
   const handleFilter = useCallback(() => {
-    console.log(`Opening ${currentModule} filters...`);
-    // In a real app, you would show a filter dialog
-  }, [currentModule]);
+    setShowFilters(true);
+  }, []);
+
+  const handleRerunQuery = useCallback((query: string) => {
+    submitQuery(query);
+  }, [submitQuery]);
+
+  const handleCancelQuery = useCallback((turnId: string) => {
+    dispatch(cancelQuery(turnId));
+  }, [dispatch]);
+
+  // Approve or reject a write proposed by the assistant
+  const handleActionDecision = useCallback((turnId: string, approved: boolean) => {
+    dispatch(resolveAction({ turnId, approved }));
+  }, [dispatch]);
+
+  const handleClearConversation = useCallback(() => {
+    dispatch(clearConversation());
+  }, [dispatch]);
 
   const handleSettings = useCallback(() => {
-    console.log("Opening settings...");
-    // In a real app, you would navigate to settings screen
-  }, []);
+    navigation.navigate("Settings");
+  }, [navigation]);
   
-  // Microphone handler
+  // Microphone handler: start capture, stop capture, or cancel the pending query
   const handleMicrophonePress = useCallback(() => {
-    if (recordingState === 'idle') {
-      // Start recording
-      setRecordingState('listening');
-      console.log('Started listening...');
-      
-      // Simulate processing after 3 seconds
-      setTimeout(() => {
-        setRecordingState('processing');
-        console.log('Processing voice command...');
-        
-        // Return to idle state after 2 more seconds
-        setTimeout(() => {
-          setRecordingState('idle');
-          console.log('Voice command processed');
-        }, 2000);
-      }, 3000);
-    } else {
-      // Cancel recording if already in progress
-      setRecordingState('idle');
-      console.log('Recording cancelled');
-    }
-  }, [recordingState]);
+    voice.toggle();
+  }, [voice.toggle]);
 
-  // Module change handler
-  const handleModuleChange = useCallback((module: ModuleType) => {
-    setCurrentModule(module);
-  }, []);
+  // Surface recognizer and query errors in the snackbar
+  useEffect(() => {
+    if (voice.error) {
+      showError(voice.error);
+      voice.clearError();
+    }
+  }, [voice.error, voice.clearError, showError]);
 
   // Render the current module content
   const renderModuleContent = () => {
     switch (currentModule) {
       case 'sales':
-        return <SalesModule />;
+        return <SalesModule refreshKey={refreshKey} />;
       case 'inventory':
-        return <InventoryModule />;
+        return <InventoryModule refreshKey={refreshKey} />;
       case 'customers':
-        return <CustomersModule />;
+        return <CustomersModule refreshKey={refreshKey} />;
       default:
-        return <SalesModule />;
+        return <SalesModule refreshKey={refreshKey} />;
     }
   };
 
@@ -203,43 +311,106 @@ const MainScreen = () => {
       {/* Animated Background */}
       <AnimatedBackground />
 
+      {/* Header with the account switcher */}
+      <GlassCard style={styles.appBar} animated={false} pulseGlow={false}>
+        <View style={styles.appBarContent}>
+          <View style={styles.appBarLeft}>
+            <SessionSwitcher
+              sessions={sessions}
+              activeSessionId={activeSessionId}
+              username={username}
+              serverUrl={serverUrl}
+              onSwitch={handleSwitchSession}
+              onAddAccount={handleAddAccount}
+              onAppLock={() => navigation.navigate("Lock", { mode: "setup" })}
+              onLogout={() => setShowLogoutDialog(true)}
+            />
+          </View>
+          <View style={styles.appBarRight}>
+            <Text style={styles.appBarTitle} numberOfLines={1}>
+              {MODULE_NAMES[currentModule]}
+            </Text>
+          </View>
+        </View>
+      </GlassCard>
 
       {/* Main Content - Dynamic Module Content */}
       <Animated.View 
         style={styles.contentContainer}
         entering={FadeIn.duration(300)}
-        key={currentModule} // This forces re-render/re-animation when module changes
+        key={`${activeSessionId}:${currentModule}`} // This forces re-render/re-animation when module or account changes
       >
+        <FilterChips module={currentModule} onPress={handleFilter} />
         {renderModuleContent()}
       </Animated.View>
 
+      {/* Conversation history */}
+      {showConversation && (
+        <ConversationPanel
+          turns={conversationTurns}
+          onRerun={handleRerunQuery}
+          onCancel={handleCancelQuery}
+          onActionDecision={handleActionDecision}
+          onClear={handleClearConversation}
+          onClose={() => dispatch(panelHidden())}
+        />
+      )}
+
+      {/* Live transcript while capturing or processing a voice command */}
+      {recordingState !== 'idle' && (
+        <Animated.View entering={FadeInDown.duration(200)} style={styles.transcriptContainer}>
+          <Text style={styles.transcriptText} numberOfLines={3}>
+            {voice.transcript || (recordingState === 'listening' ? 'Listening...' : 'Processing...')}
+          </Text>
+        </Animated.View>
+      )}
+
       {/* Action Bar with Module Selector */}
       <ActionBar 
         onRefresh={handleRefresh}
         onExport={handleExport}
         onFilter={handleFilter}
         onSettings={handleSettings}
-        currentModule={currentModule}
-        onModuleChange={handleModuleChange}
-        recordingState={recordingState}
+        onHistory={() => dispatch(panelToggled())}
         onMicrophonePress={handleMicrophonePress}
       />
 
       {/* Error snackbar */}
       <Snackbar
-        visible={!!error}
-        onDismiss={() => setError(null)}
+        visible={!!(error || connectionError)}
+        onDismiss={dismissError}
         action={{
           label: "Dismiss",
-          onPress: () => setError(null),
+          onPress: dismissError,
           labelStyle: { color: colors.primary },
         }}
         duration={4000}
         style={styles.errorSnackbar}
       >
-        {error}
+        {error || connectionError}
       </Snackbar>
 
+      {/* Outcome of bulk actions and other user actions */}
+      <Snackbar
+        visible={!!notice && !(error || connectionError)}
+        onDismiss={() => dispatch(noticeDismissed())}
+        duration={4000}
+        style={styles.noticeSnackbar}
+      >
+        {notice}
+      </Snackbar>
+
+      <FilterSheet
+        visible={showFilters}
+        module={currentModule}
+        onDismiss={() => setShowFilters(false)}
+      />
+
+      <ExportDialog
+        document={exportDocument}
+        onDismiss={() => setExportDocument(null)}
+      />
+
       {/* Logout confirmation dialog */}
       <Portal>
         <Dialog
@@ -323,6 +494,23 @@ const styles = StyleSheet.create({
     marginRight: spacing.sm,
     backgroundColor: "transparent",
   },
+  // Voice transcript
+  transcriptContainer: {
+    position: "absolute",
+    left: spacing.md,
+    right: spacing.md,
+    bottom: 96,
+    padding: spacing.md,
+    borderRadius: 12,
+    backgroundColor: `${colors.backgroundMedium}F0`,
+    borderWidth: 1,
+    borderColor: `${colors.accent}40`,
+    ...createShadow(6, "rgba(0,0,0,0.3)"),
+  },
+  transcriptText: {
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
   // Error
   errorSnackbar: {
     backgroundColor: colors.backgroundMedium,
@@ -331,6 +519,13 @@ const styles = StyleSheet.create({
     marginBottom: spacing.md,
     marginHorizontal: spacing.md,
   },
+  noticeSnackbar: {
+    backgroundColor: colors.backgroundMedium,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.success,
+    marginBottom: spacing.md,
+    marginHorizontal: spacing.md,
+  },
 });
 
 export default MainScreen;
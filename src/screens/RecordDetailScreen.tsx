@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  View,
+  StatusBar,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Text, Button, IconButton, Portal, Dialog } from 'react-native-paper';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { RootStackParamList } from '../App';
+import { useAppDispatch } from '../hooks/useAppDispatch';
+import { runQuery, panelShown } from '../state/slices/conversationSlice';
+import { odooDataService, RecordDetail } from '../api/odooDataService';
+import { toAppError } from '../api/errors';
+import { colors, spacing, createShadow } from '../utils/theme';
+
+import FloatingInput from '../components/FloatingInput';
+import AnimatedBackground from '../components/AnimatedBackground';
+
+type RecordDetailScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'RecordDetail'>;
+
+/**
+ * Opening of a query about a record. The assistant gets the model and id to look the record up,
+ * and the fields on screen so short questions need no further lookup.
+ */
+const recordQuery = (detail: RecordDetail) => {
+  const fields = detail.fields
+    .filter(field => field.value !== '—')
+    .map(field => `${field.label}: ${field.value}`)
+    .join(', ');
+  return `About the ${detail.kind.toLowerCase()} "${detail.name}" (${detail.model} id ${detail.id}; ${fields}): `;
+};
+
+/**
+ * Fields and related lines of a sale order, product or customer opened from a module table
+ */
+const RecordDetailScreen = () => {
+  const navigation = useNavigation<RecordDetailScreenNavigationProp>();
+  const route = useRoute<RouteProp<RootStackParamList, 'RecordDetail'>>();
+  const { model, id, title } = route.params;
+  const dispatch = useAppDispatch();
+
+  const [detail, setDetail] = useState<RecordDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [query, setQuery] = useState<string | null>(null); // Query being written; null while the dialog is closed
+
+  const load = useCallback(async (isCurrent: () => boolean = () => true) => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await odooDataService.getRecordDetail(model, id);
+      if (isCurrent()) setDetail(result);
+    } catch (err) {
+      if (isCurrent()) setError(toAppError(err, { message: 'Could not load this record' }).message);
+    } finally {
+      if (isCurrent()) setLoading(false);
+    }
+  }, [model, id]);
+
+  useEffect(() => {
+    let current = true;
+    load(() => current);
+    return () => {
+      current = false;
+    };
+  }, [load]);
+
+  // Ask on the main screen, where the conversation panel shows the answer
+  const handleAsk = useCallback(() => {
+    if (!query?.trim()) return;
+    dispatch(runQuery(query.trim()));
+    dispatch(panelShown());
+    setQuery(null);
+    navigation.goBack();
+  }, [query, dispatch, navigation]);
+
+  const renderBody = () => {
+    if (loading && !detail) {
+      return (
+        <View style={styles.message}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      );
+    }
+    if (error || !detail) {
+      return (
+        <View style={styles.message}>
+          <Text style={styles.errorText}>{error}</Text>
+          <Button mode="text" onPress={() => load()} textColor={colors.primary}>
+            Retry
+          </Button>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.scrollContainer} showsVerticalScrollIndicator={false}>
+        <View style={styles.card}>
+          {detail.fields.map(field => (
+            <View key={field.label} style={styles.fieldRow}>
+              <Text style={styles.fieldLabel}>{field.label}</Text>
+              <Text style={styles.fieldValue} selectable>{field.value}</Text>
+            </View>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>{detail.linesTitle}</Text>
+        <View style={styles.card}>
+          {detail.lines.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing to show</Text>
+          ) : detail.lines.map(line => (
+            <View key={line.id} style={styles.lineRow}>
+              <View style={styles.lineText}>
+                <Text style={styles.lineName}>{line.name}</Text>
+                <Text style={styles.lineDescription}>{line.description}</Text>
+              </View>
+              <Text style={styles.lineValue}>{line.value}</Text>
+            </View>
+          ))}
+        </View>
+
+        <Button
+          mode="contained"
+          icon="chat-question-outline"
+          onPress={() => setQuery(recordQuery(detail))}
+          style={styles.askButton}
+        >
+          Ask about this record
+        </Button>
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.backgroundDark} />
+      <AnimatedBackground />
+
+      <View style={styles.header}>
+        <IconButton
+          icon="arrow-left"
+          iconColor={colors.textPrimary}
+          onPress={() => navigation.goBack()}
+          accessibilityLabel="Back"
+        />
+        <View style={styles.headerText}>
+          <Text style={styles.kind}>{detail?.kind || ''}</Text>
+          <Text style={styles.title} numberOfLines={1}>{detail?.name || title || ''}</Text>
+        </View>
+        <IconButton
+          icon="refresh"
+          iconColor={colors.textSecondary}
+          onPress={() => load()}
+          disabled={loading}
+          accessibilityLabel="Reload"
+        />
+      </View>
+
+      {renderBody()}
+
+      <Portal>
+        <Dialog visible={query !== null} onDismiss={() => setQuery(null)} style={styles.dialog}>
+          <Dialog.Title style={styles.dialogTitle}>Ask about this record</Dialog.Title>
+          <Dialog.Content>
+            <FloatingInput
+              label="Question"
+              value={query || ''}
+              onChangeText={setQuery}
+              multiline
+              numberOfLines={5}
+              textAlignVertical="top"
+              autoFocus
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setQuery(null)} textColor={colors.textSecondary}>
+              Cancel
+            </Button>
+            <Button onPress={handleAsk} disabled={!query?.trim()} textColor={colors.primary}>
+              Ask
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.backgroundDark,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xs,
+    paddingVertical: spacing.sm,
+  },
+  headerText: {
+    flex: 1,
+  },
+  kind: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  scrollContainer: {
+    padding: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  message: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: spacing.lg,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  card: {
+    padding: spacing.md,
+    borderRadius: 16,
+    backgroundColor: 'rgba(15, 23, 42, 0.75)',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginRight: spacing.md,
+  },
+  fieldValue: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: colors.textPrimary,
+    textAlign: 'right',
+  },
+  sectionTitle: {
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: `${colors.textPrimary}10`,
+  },
+  lineText: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  lineName: {
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  lineDescription: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  lineValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  askButton: {
+    marginTop: spacing.lg,
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 6,
+  },
+  dialog: {
+    backgroundColor: colors.backgroundMedium,
+    borderRadius: 16,
+    ...createShadow(8, `${colors.primary}40`),
+  },
+  dialogTitle: {
+    color: colors.textPrimary,
+  },
+});
+
+export default RecordDetailScreen;
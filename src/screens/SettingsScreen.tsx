@@ -0,0 +1,452 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  View,
+  StatusBar,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import {
+  Text,
+  Button,
+  IconButton,
+  Portal,
+  Dialog,
+  Menu,
+  SegmentedButtons,
+  Snackbar,
+  Icon,
+} from 'react-native-paper';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { RootStackParamList } from '../App';
+import { useAppDispatch } from '../hooks/useAppDispatch';
+import { useAppSelector } from '../hooks/useAppSelector';
+import { usePreferences } from '../hooks/usePreferences';
+import {
+  switchSession,
+  removeSession,
+  resetAppData,
+  selectSessions,
+  selectActiveSessionId,
+} from '../state/slices/authSlice';
+import { disconnectMCP } from '../state/slices/connectionSlice';
+import { settingsStore, AppPreferences, ResponseVerbosity } from '../api/settingsStore';
+import { VOICE_LANGUAGES, HISTORY_SIZE_OPTIONS, ThemeName } from '../utils/config';
+import { colors, spacing, createShadow, themeAccents } from '../utils/theme';
+
+import FloatingInput from '../components/FloatingInput';
+import AnimatedBackground from '../components/AnimatedBackground';
+import ProxySettingsDialog from '../components/ProxySettingsDialog';
+import { formatServerHost } from '../components/SessionSwitcher';
+
+type SettingsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Settings'>;
+
+const VERBOSITY_BUTTONS: Array<{ value: ResponseVerbosity; label: string }> = [
+  { value: 'concise', label: 'Concise' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'detailed', label: 'Detailed' },
+];
+
+// Only the accent colors change; screens keep the default palette
+const THEME_BUTTONS: Array<{ value: ThemeName; label: string }> = [
+  { value: 'violet', label: 'Violet' },
+  { value: 'ocean', label: 'Ocean' },
+  { value: 'emerald', label: 'Emerald' },
+];
+
+const HISTORY_BUTTONS = HISTORY_SIZE_OPTIONS.map(size => ({ value: String(size), label: String(size) }));
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <>
+    <Text style={styles.sectionTitle}>{title}</Text>
+    <View style={styles.card}>{children}</View>
+  </>
+);
+
+/**
+ * Proxy and server, voice and response preferences, theme, saved history,
+ * and the accounts signed in on this device
+ */
+const SettingsScreen = () => {
+  const navigation = useNavigation<SettingsScreenNavigationProp>();
+  const dispatch = useAppDispatch();
+  const sessions = useAppSelector(selectSessions);
+  const activeSessionId = useAppSelector(selectActiveSessionId);
+  const preferences = usePreferences();
+
+  const [proxyUrl, setProxyUrl] = useState(settingsStore.getProxyUrl());
+  const [showProxySettings, setShowProxySettings] = useState(false);
+  const [serverUrl, setServerUrl] = useState(preferences.defaultServerUrl);
+  const [serverUrlError, setServerUrlError] = useState('');
+  const [languageMenuVisible, setLanguageMenuVisible] = useState(false);
+  const [showResetDialog, setShowResetDialog] = useState(false);
+  const [resetting, setResetting] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => settingsStore.addListener(() => setProxyUrl(settingsStore.getProxyUrl())), []);
+
+  useEffect(() => {
+    setServerUrl(preferences.defaultServerUrl);
+  }, [preferences.defaultServerUrl]);
+
+  const updatePreferences = useCallback(async (changes: Partial<AppPreferences>) => {
+    try {
+      await settingsStore.setPreferences(changes);
+    } catch (err) {
+      setMessage('Could not save the setting');
+    }
+  }, []);
+
+  const handleSaveServerUrl = () => {
+    const url = serverUrl.trim();
+    if (!/^https?:\/\/\S+$/i.test(url)) {
+      setServerUrlError('URL must start with http:// or https://');
+      return;
+    }
+    setServerUrlError('');
+    updatePreferences({ defaultServerUrl: url });
+    setMessage('Default server saved');
+  };
+
+  // Most recently used first
+  const orderedSessions = [...sessions].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+
+  const handleSwitchSession = async (sessionId: string) => {
+    try {
+      await dispatch(switchSession(sessionId)).unwrap();
+      setMessage('Switched account');
+    } catch (err) {
+      setMessage(typeof err === 'string' ? err : 'Could not switch account');
+    }
+  };
+
+  const handleRemoveSession = async (sessionId: string) => {
+    try {
+      await dispatch(removeSession(sessionId)).unwrap();
+    } catch (err) {
+      setMessage('Could not sign out of this account');
+    }
+  };
+
+  // Nothing is left to show afterwards, so the app starts over at Login
+  const handleReset = async () => {
+    setResetting(true);
+    try {
+      await dispatch(disconnectMCP());
+      await dispatch(resetAppData()).unwrap();
+      navigation.reset({ index: 0, routes: [{ name: 'Login' }] });
+    } catch (err) {
+      setResetting(false);
+      setShowResetDialog(false);
+      setMessage('Could not reset the app data');
+    }
+  };
+
+  const languageLabel = VOICE_LANGUAGES.find(language => language.value === preferences.voiceLanguage)?.label
+    || preferences.voiceLanguage;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.backgroundDark} />
+      <AnimatedBackground />
+
+      <View style={styles.header}>
+        <IconButton
+          icon="arrow-left"
+          iconColor={colors.textPrimary}
+          onPress={() => navigation.goBack()}
+          accessibilityLabel="Back"
+        />
+        <Text style={styles.title}>Settings</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContainer} showsVerticalScrollIndicator={false}>
+        <Section title="Connection">
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() => setShowProxySettings(true)}
+            accessibilityRole="button"
+            activeOpacity={0.7}
+          >
+            <View style={styles.rowText}>
+              <Text style={styles.label}>Proxy server</Text>
+              <Text style={styles.value} numberOfLines={1}>{proxyUrl || 'Not configured'}</Text>
+            </View>
+            <Icon source="chevron-right" size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+          <FloatingInput
+            label="Default Odoo server"
+            value={serverUrl}
+            onChangeText={(text) => {
+              setServerUrl(text);
+              setServerUrlError('');
+            }}
+            error={serverUrlError}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <Button
+            onPress={handleSaveServerUrl}
+            disabled={serverUrl.trim() === preferences.defaultServerUrl}
+            textColor={colors.primary}
+            style={styles.inlineButton}
+          >
+            Save
+          </Button>
+        </Section>
+
+        <Section title="Voice and responses">
+          <Menu
+            visible={languageMenuVisible}
+            onDismiss={() => setLanguageMenuVisible(false)}
+            contentStyle={styles.menu}
+            anchor={
+              <TouchableOpacity
+                style={styles.row}
+                onPress={() => setLanguageMenuVisible(true)}
+                accessibilityRole="button"
+                activeOpacity={0.7}
+              >
+                <View style={styles.rowText}>
+                  <Text style={styles.label}>Voice language</Text>
+                  <Text style={styles.value}>{languageLabel}</Text>
+                </View>
+                <Icon source="chevron-down" size={20} color={colors.textSecondary} />
+              </TouchableOpacity>
+            }
+          >
+            {VOICE_LANGUAGES.map(language => (
+              <Menu.Item
+                key={language.value}
+                title={language.label}
+                titleStyle={{ color: colors.textPrimary }}
+                leadingIcon={language.value === preferences.voiceLanguage ? 'check' : undefined}
+                onPress={() => {
+                  setLanguageMenuVisible(false);
+                  updatePreferences({ voiceLanguage: language.value });
+                }}
+              />
+            ))}
+          </Menu>
+          <Text style={styles.label}>Response detail</Text>
+          <SegmentedButtons
+            value={preferences.verbosity}
+            onValueChange={(value) => updatePreferences({ verbosity: value as ResponseVerbosity })}
+            buttons={VERBOSITY_BUTTONS}
+            style={styles.segmented}
+          />
+        </Section>
+
+        <Section title="Appearance">
+          <Text style={styles.label}>Accent color</Text>
+          <Text style={[styles.value, styles.hint]}>Used by buttons, switches and other controls</Text>
+          <SegmentedButtons
+            value={preferences.theme}
+            onValueChange={(value) => updatePreferences({ theme: value as ThemeName })}
+            buttons={THEME_BUTTONS.map(button => ({
+              ...button,
+              icon: 'circle',
+              checkedColor: themeAccents[button.value].primary,
+            }))}
+            style={styles.segmented}
+          />
+        </Section>
+
+        <Section title="Storage">
+          <Text style={styles.label}>Conversation turns kept on this device</Text>
+          <SegmentedButtons
+            value={String(preferences.historySize)}
+            onValueChange={(value) => updatePreferences({ historySize: Number(value) })}
+            buttons={HISTORY_BUTTONS}
+            style={styles.segmented}
+          />
+        </Section>
+
+        <Section title="Accounts">
+          {orderedSessions.map(session => {
+            const active = session.id === activeSessionId;
+            return (
+              <View key={session.id} style={styles.row}>
+                <TouchableOpacity
+                  style={styles.rowText}
+                  onPress={active ? undefined : () => handleSwitchSession(session.id)}
+                  disabled={active}
+                  accessibilityRole="button"
+                  accessibilityLabel={active ? undefined : `Switch to ${session.username}`}
+                >
+                  <Text style={styles.label}>{session.username}</Text>
+                  <Text style={styles.value} numberOfLines={1}>
+                    {formatServerHost(session.serverUrl)}
+                    {session.database ? ` / ${session.database}` : ''}
+                    {active ? ' · Active' : ''}
+                  </Text>
+                </TouchableOpacity>
+                {!active && (
+                  <IconButton
+                    icon="logout"
+                    iconColor={colors.textSecondary}
+                    onPress={() => handleRemoveSession(session.id)}
+                    accessibilityLabel={`Sign out of ${session.username}`}
+                  />
+                )}
+              </View>
+            );
+          })}
+          <View style={styles.actions}>
+            <Button
+              icon="account-plus-outline"
+              onPress={() => navigation.replace('Login', { addAccount: true })}
+              textColor={colors.primary}
+            >
+              Add account
+            </Button>
+            <Button
+              icon="shield-lock-outline"
+              onPress={() => navigation.navigate('Lock', { mode: 'setup' })}
+              textColor={colors.primary}
+            >
+              App lock
+            </Button>
+          </View>
+        </Section>
+
+        <Button
+          mode="outlined"
+          icon="delete-forever-outline"
+          onPress={() => setShowResetDialog(true)}
+          textColor={colors.error}
+          style={styles.resetButton}
+        >
+          Reset app data
+        </Button>
+      </ScrollView>
+
+      <ProxySettingsDialog
+        visible={showProxySettings}
+        onDismiss={() => setShowProxySettings(false)}
+      />
+
+      <Portal>
+        <Dialog
+          visible={showResetDialog}
+          onDismiss={resetting ? undefined : () => setShowResetDialog(false)}
+          style={styles.dialog}
+        >
+          <Dialog.Title style={styles.dialogTitle}>Reset app data?</Dialog.Title>
+          <Dialog.Content>
+            <Text style={styles.dialogText}>
+              Every account is signed out and the settings, app lock, saved conversations and cached data are
+              removed from this device.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowResetDialog(false)} disabled={resetting} textColor={colors.textSecondary}>
+              Cancel
+            </Button>
+            <Button onPress={handleReset} loading={resetting} disabled={resetting} textColor={colors.error}>
+              Reset
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      <Snackbar visible={!!message} onDismiss={() => setMessage('')} duration={3000} style={styles.snackbar}>
+        {message}
+      </Snackbar>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.backgroundDark,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xs,
+    paddingVertical: spacing.sm,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  scrollContainer: {
+    padding: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  sectionTitle: {
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  card: {
+    padding: spacing.md,
+    borderRadius: 16,
+    backgroundColor: 'rgba(15, 23, 42, 0.75)',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  label: {
+    fontSize: 14,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  value: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  hint: {
+    marginBottom: spacing.sm,
+  },
+  inlineButton: {
+    alignSelf: 'flex-end',
+  },
+  segmented: {
+    marginBottom: spacing.sm,
+  },
+  menu: {
+    backgroundColor: colors.backgroundMedium,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.xs,
+  },
+  resetButton: {
+    marginTop: spacing.lg,
+    borderColor: colors.error,
+    borderRadius: 8,
+  },
+  dialog: {
+    backgroundColor: colors.backgroundMedium,
+    borderRadius: 16,
+    ...createShadow(8, `${colors.primary}40`),
+  },
+  dialogTitle: {
+    color: colors.textPrimary,
+  },
+  dialogText: {
+    color: colors.textSecondary,
+  },
+  snackbar: {
+    backgroundColor: colors.backgroundLight,
+  },
+});
+
+export default SettingsScreen;
@@ -1,31 +1,72 @@
 import React from 'react';
 import { render, fireEvent, waitFor } from '@testing-library/react-native';
 import { Provider } from 'react-redux';
-import { NavigationContainer } from '@react-navigation/native';
+import { Provider as PaperProvider } from 'react-native-paper';
 import { configureStore } from '@reduxjs/toolkit';
 import authReducer from '../../state/slices/authSlice';
+import { authService } from '../../api/authService';
+import { createError } from '../../api/errors';
+import { secureStorage, createMemoryStorage } from '../../api/secureStorage';
+import { DEFAULT_ODOO_URL } from '../../utils/config';
 import LoginScreen from '../LoginScreen';
 
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The native font loader is not mocked by the preset; icon fonts count as loaded
+jest.mock('expo-font', () => ({
+  ...jest.requireActual('expo-font'),
+  isLoaded: () => true,
+}));
+
+// The background video is not part of the repository
+jest.mock('../../../assets/video.mp4', () => 1, { virtual: true });
+
 // Create a mock navigation
-const mockNavigate = jest.fn();
+const mockReplace = jest.fn();
 jest.mock('@react-navigation/native', () => {
   const actualNav = jest.requireActual('@react-navigation/native');
   return {
     ...actualNav,
     useNavigation: () => ({
-      navigate: mockNavigate,
+      navigate: jest.fn(),
+      replace: mockReplace,
     }),
+    useRoute: () => ({ params: undefined }),
   };
 });
 
-// Mock the auth service
-jest.mock('../../api/authService', () => ({
-  authService: {
-    login: jest.fn().mockImplementation(() => Promise.resolve({ token: 'test-token' })),
-  },
-}));
+const signedIn = { accessToken: 'test-token', user: { id: 2, name: 'Test User', username: 'testuser' } };
+const challenge = {
+  twoFactorRequired: true as const,
+  challengeToken: 'challenge-1',
+  username: 'testuser',
+  serverUrl: DEFAULT_ODOO_URL,
+  database: 'main',
+};
 
 describe('LoginScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    secureStorage.setAdapter(createMemoryStorage());
+
+    // The prefilled server has one database, the other one two
+    jest.spyOn(authService, 'discoverServer').mockImplementation(async (serverUrl) => ({
+      serverUrl,
+      version: '17.0',
+      databases: serverUrl === DEFAULT_ODOO_URL ? ['main'] : ['sales', 'stock'],
+    }));
+    jest.spyOn(authService, 'getRecentServers').mockResolvedValue([]);
+    jest.spyOn(authService, 'getSessions').mockResolvedValue([]);
+    jest.spyOn(authService, 'login').mockResolvedValue(signedIn);
+    jest.spyOn(authService, 'verifyTwoFactor').mockResolvedValue(signedIn);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   const renderComponent = () => {
     const store = configureStore({
       reducer: {
@@ -35,50 +76,125 @@ describe('LoginScreen', () => {
 
     return render(
       <Provider store={store}>
-        <NavigationContainer>
+        <PaperProvider>
           <LoginScreen />
-        </NavigationContainer>
+        </PaperProvider>
       </Provider>
     );
   };
 
-  it('renders correctly', () => {
-    const { getByText, getAllByText } = renderComponent();
-    
+  const fillCredentials = (getByLabelText: ReturnType<typeof renderComponent>['getByLabelText']) => {
+    fireEvent.changeText(getByLabelText('Username'), 'testuser');
+    fireEvent.changeText(getByLabelText('Password'), 'password123');
+  };
+
+  it('renders correctly', async () => {
+    const { getByText, findByText } = renderComponent();
+
     // Check if title is rendered
     expect(getByText('Odoo')).toBeTruthy();
     expect(getByText('Voice Assistant')).toBeTruthy();
-    
+
     // Check if login button is rendered
     expect(getByText('Login')).toBeTruthy();
+
+    // The prefilled server is discovered right away
+    expect(await findByText('Odoo 17.0 · database main')).toBeTruthy();
   });
 
   it('shows validation errors for empty fields', async () => {
-    const { getByText } = renderComponent();
-    
+    const { getByText, findByText } = renderComponent();
+
     // Tap login without entering data
     fireEvent.press(getByText('Login'));
-    
-    // Check for validation error (we're using Alert.alert in the component)
+
+    expect(await findByText('Username is required')).toBeTruthy();
+    expect(getByText('Password is required')).toBeTruthy();
+    expect(authService.login).not.toHaveBeenCalled();
+    expect(mockReplace).not.toHaveBeenCalled();
+  });
+
+  it('logs in to the discovered database', async () => {
+    const { getByText, getByLabelText, findByText } = renderComponent();
+    await findByText('Odoo 17.0 · database main');
+
+    // Fill in the form and submit it
+    fillCredentials(getByLabelText);
+    fireEvent.press(getByText('Login'));
+
     await waitFor(() => {
-      expect(mockNavigate).not.toHaveBeenCalled();
+      expect(mockReplace).toHaveBeenCalledWith('Main');
     });
+    expect(authService.login).toHaveBeenCalledWith('testuser', 'password123', DEFAULT_ODOO_URL, 'main');
   });
 
-  it('attempts login with valid inputs', async () => {
-    const { getByText, getByLabelText } = renderComponent();
-    
-    // Fill in the form
-    fireEvent.changeText(getByLabelText('Username'), 'testuser');
-    fireEvent.changeText(getByLabelText('Password'), 'password123');
-    fireEvent.changeText(getByLabelText('Server URL'), 'https://test.odoo.com');
-    
-    // Submit the form
+  it('asks for a database when the server offers several', async () => {
+    const { getByText, getByLabelText, findByText, findAllByText } = renderComponent();
+    await findByText('Odoo 17.0 · database main');
+
+    fillCredentials(getByLabelText);
+    const serverInput = getByLabelText('Odoo Server URL');
+    fireEvent.changeText(serverInput, 'https://multi.example.com');
+    fireEvent(serverInput, 'blur');
+    await findByText('Odoo 17.0 · 2 databases');
+
+    fireEvent.press(getByText('Login'));
+    // Shown both as the picker placeholder and as the field error
+    expect(await findAllByText('Select a database')).toHaveLength(2);
+    expect(authService.login).not.toHaveBeenCalled();
+
+    // Open the picker and choose a database
+    fireEvent.press(getByText('Database'));
+    fireEvent.press(await findByText('stock'));
+    fireEvent.press(getByText('Login'));
+
+    await waitFor(() => {
+      expect(authService.login).toHaveBeenCalledWith('testuser', 'password123', 'https://multi.example.com', 'stock');
+    });
+  });
+
+  it('asks for the two-factor code before signing in', async () => {
+    jest.mocked(authService.login).mockResolvedValue(challenge);
+    const { getByText, getByLabelText, findByText } = renderComponent();
+    await findByText('Odoo 17.0 · database main');
+
+    fillCredentials(getByLabelText);
     fireEvent.press(getByText('Login'));
-    
-    // Check that navigation occurred after successful login
+    expect(await findByText('Two-factor authentication')).toBeTruthy();
+
+    // Codes are checked locally before being sent
+    fireEvent.changeText(getByLabelText('Verification code'), '123');
+    fireEvent.press(getByText('Verify'));
+    expect(await findByText('Enter the 6-digit code from your authenticator app')).toBeTruthy();
+    expect(authService.verifyTwoFactor).not.toHaveBeenCalled();
+
+    fireEvent.changeText(getByLabelText('Verification code'), '123456');
+    fireEvent.press(getByText('Verify'));
+
     await waitFor(() => {
-      expect(mockNavigate).toHaveBeenCalledWith('Main');
+      expect(mockReplace).toHaveBeenCalledWith('Main');
     });
+    expect(authService.verifyTwoFactor).toHaveBeenCalledWith(challenge, '123456');
+  });
+
+  it('returns to the password step when the code request has expired', async () => {
+    jest.mocked(authService.login).mockResolvedValue(challenge);
+    jest.mocked(authService.verifyTwoFactor).mockRejectedValue(
+      createError('TWO_FACTOR_EXPIRED', 'The verification code request has expired. Please log in again.')
+    );
+    const { getByText, getByLabelText, findByText, queryByText } = renderComponent();
+    await findByText('Odoo 17.0 · database main');
+
+    fillCredentials(getByLabelText);
+    fireEvent.press(getByText('Login'));
+    await findByText('Two-factor authentication');
+
+    fireEvent.changeText(getByLabelText('Verification code'), '123456');
+    fireEvent.press(getByText('Verify'));
+
+    expect(await findByText('Code request expired')).toBeTruthy();
+    expect(getByText('Login')).toBeTruthy();
+    expect(queryByText('Two-factor authentication')).toBeNull();
+    expect(mockReplace).not.toHaveBeenCalled();
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,188 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import authReducer from '../slices/authSlice';
+import connectionReducer from '../slices/connectionSlice';
+import conversationReducer from '../slices/conversationSlice';
+import dashboardReducer, { moduleDataLoaded, selectCachedModuleData } from '../slices/dashboardSlice';
+import filtersReducer from '../slices/filtersSlice';
+import uiReducer, { moduleChanged } from '../slices/uiSlice';
+import { migrateSnapshot, statePersistence, PERSIST_VERSION, Migration } from '../persistence';
+import { ConversationTurn } from '../../api/conversationStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const createStore = () => configureStore({
+  reducer: {
+    auth: authReducer,
+    connection: connectionReducer,
+    conversation: conversationReducer,
+    dashboard: dashboardReducer,
+    filters: filtersReducer,
+    ui: uiReducer,
+  },
+});
+
+const turn = (id: string, status: ConversationTurn['status'] = 'complete'): ConversationTurn => ({
+  id,
+  query: `query ${id}`,
+  response: status === 'complete' ? { type: 'text', content: `answer ${id}` } : null,
+  status,
+  createdAt: 1700000000000,
+});
+
+const inventoryData = {
+  summary: { totalProducts: 3, lowStock: 1, outOfStock: 0, incomingShipments: 2 },
+  stockLevels: { categories: [], values: [], details: [] },
+  itemsData: [],
+};
+
+describe('migrateSnapshot', () => {
+  it('restores a snapshot of the current version', () => {
+    const state = migrateSnapshot({
+      version: PERSIST_VERSION,
+      state: {
+        ui: { currentModule: 'inventory' },
+        dashboard: { sessionId: 'alice@a', modules: { inventory: { data: inventoryData, fetchedAt: 5 } } },
+      },
+    });
+
+    expect(state).toEqual({
+      ui: { currentModule: 'inventory' },
+      dashboard: { sessionId: 'alice@a', modules: { inventory: { data: inventoryData, fetchedAt: 5 } } },
+    });
+  });
+
+  it('runs every migration above the snapshot version, in order', () => {
+    const migrations: Record<number, Migration> = {
+      // v2 renamed ui.module to ui.currentModule
+      2: ({ ui, ...rest }) => ({ ...rest, ui: { currentModule: ui.module } }),
+      // v3 moved the cached modules under dashboard
+      3: ({ cache, ...rest }) => ({ ...rest, dashboard: { sessionId: cache.session, modules: cache.modules } }),
+    };
+    const v1 = { version: 1, state: { ui: { module: 'customers' }, cache: { session: 'alice@a', modules: {} } } };
+    const v2 = { version: 2, state: { ui: { currentModule: 'sales' }, cache: { session: 'bob@b', modules: {} } } };
+
+    expect(migrateSnapshot(v1, migrations, 3)).toEqual({
+      ui: { currentModule: 'customers' },
+      dashboard: { sessionId: 'alice@a', modules: {} },
+    });
+    expect(migrateSnapshot(v2, migrations, 3)).toEqual({
+      ui: { currentModule: 'sales' },
+      dashboard: { sessionId: 'bob@b', modules: {} },
+    });
+  });
+
+  it('leaves conversation turns to the conversation storage', () => {
+    const state = migrateSnapshot({
+      version: 3,
+      state: {
+        ui: { currentModule: 'inventory' },
+        conversation: { sessionId: 'alice@a', turns: [turn('1')] },
+      },
+    });
+
+    expect(state).toEqual({ ui: { currentModule: 'inventory' } });
+  });
+
+  it('drops module data cached before its shape changed', () => {
+    const state = migrateSnapshot({
+      version: 1,
+      state: {
+        ui: { currentModule: 'customers' },
+        dashboard: {
+          sessionId: 'alice@a',
+          modules: {
+            sales: { data: { monthlyDetails: [{ month: 'March' }] }, fetchedAt: 5 },
+            inventory: { data: inventoryData, fetchedAt: 5 },
+            customers: { data: { detailedData: [{ segment: 'Retail' }] }, fetchedAt: 5 },
+          },
+        },
+      },
+    });
+
+    expect(state).toEqual({
+      ui: { currentModule: 'customers' },
+      dashboard: { sessionId: 'alice@a', modules: { inventory: { data: inventoryData, fetchedAt: 5 } } },
+    });
+  });
+
+  it('discards snapshots it cannot read', () => {
+    expect(migrateSnapshot(null)).toBeNull();
+    expect(migrateSnapshot({ ui: { currentModule: 'sales' } })).toBeNull();
+    expect(migrateSnapshot({ version: PERSIST_VERSION + 1, state: { ui: { currentModule: 'sales' } } })).toBeNull();
+    expect(migrateSnapshot({ version: 1, state: {} }, { 2: () => null }, 2)).toBeNull();
+  });
+
+  it('drops values the current slices cannot use', () => {
+    const state = migrateSnapshot({
+      version: PERSIST_VERSION,
+      state: {
+        ui: { currentModule: 'purchases' },
+        dashboard: { sessionId: 'alice@a', modules: { sales: { data: null, fetchedAt: 5 }, inventory: 'stale' } },
+      },
+    });
+
+    expect(state).toEqual({
+      dashboard: { sessionId: 'alice@a', modules: {} },
+    });
+  });
+});
+
+describe('statePersistence', () => {
+  afterEach(async () => {
+    jest.useRealTimers();
+    await AsyncStorage.clear();
+  });
+
+  it('saves changes and restores them in a new store', async () => {
+    jest.useFakeTimers();
+    const store = createStore();
+    const stop = statePersistence.start(store);
+
+    store.dispatch(moduleChanged('inventory'));
+    store.dispatch(moduleDataLoaded({ sessionId: 'alice@a', module: 'inventory', data: inventoryData, fetchedAt: 5 }));
+    await jest.runOnlyPendingTimersAsync();
+    stop();
+
+    const restored = createStore();
+    await statePersistence.rehydrate(restored.dispatch);
+
+    expect(restored.getState().ui.currentModule).toBe('inventory');
+    expect(restored.getState().dashboard.modules.inventory).toEqual({ data: inventoryData, fetchedAt: 5 });
+  });
+
+  it('keeps data loaded with filters apart from unfiltered data after a restart', async () => {
+    jest.useFakeTimers();
+    const store = createStore();
+    const stop = statePersistence.start(store);
+
+    store.dispatch(moduleDataLoaded({
+      sessionId: 'alice@a',
+      module: 'inventory',
+      data: inventoryData,
+      fetchedAt: 5,
+      filterKey: '[["status","Low"]]',
+    }));
+    await jest.runOnlyPendingTimersAsync();
+    stop();
+
+    const restored = createStore();
+    await statePersistence.rehydrate(restored.dispatch);
+    const state = restored.getState();
+
+    expect(state.dashboard.modules.inventory?.filterKey).toBe('[["status","Low"]]');
+    // The filters themselves start empty, so the filtered data is not shown as the whole inventory
+    expect(selectCachedModuleData({ ...state, auth: { ...state.auth, activeSessionId: 'alice@a' } }, 'inventory'))
+      .toBeNull();
+  });
+
+  it('keeps the defaults when nothing was saved', async () => {
+    const store = createStore();
+    await statePersistence.rehydrate(store.dispatch);
+
+    expect(store.getState().ui.currentModule).toBe('sales');
+    expect(store.getState().conversation.turns).toEqual([]);
+  });
+});
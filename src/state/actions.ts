@@ -0,0 +1,10 @@
+import { createAction } from '@reduxjs/toolkit';
+import { PersistedState } from './persistence';
+
+// Actions handled by several slices
+
+// Restores the state saved by the previous launch; slices missing from the payload keep their defaults
+export const stateRehydrated = createAction<PersistedState>('persist/rehydrated');
+
+// Everything saved on the device was wiped; slices return to their defaults
+export const appDataReset = createAction('app/dataReset');
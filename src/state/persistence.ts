@@ -0,0 +1,197 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { stateRehydrated } from './actions';
+import { UIState, MODULE_TYPES } from './slices/uiSlice';
+import { DashboardState, ModuleDataMap } from './slices/dashboardSlice';
+import { PERSIST_DEBOUNCE_MS } from '../utils/config';
+import type { store as appStore, RootState, AppDispatch } from './store';
+
+// Bump whenever the persisted shape changes, and add a migration producing the new shape
+export const PERSIST_VERSION = 4;
+
+const STORAGE_KEY = 'redux_state';
+
+// The parts of the store kept between launches.
+// Conversation turns are not among them: conversationStorage saves them per session.
+export interface PersistedState {
+  ui?: Pick<UIState, 'currentModule'>;
+  dashboard?: DashboardState;
+}
+
+export interface PersistedSnapshot {
+  version: number;
+  state: PersistedState;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Turns a snapshot of the previous version into one of the version it is registered under
+export type Migration = (state: any) => any;
+
+// Drops a module's cached data whose shape has changed; the next refresh loads it again
+const dropCachedModule = (state: any, module: string) => {
+  if (!isObject(state.dashboard?.modules?.[module])) {
+    return state;
+  }
+  const { [module]: dropped, ...modules } = state.dashboard.modules;
+  return { ...state, dashboard: { ...state.dashboard, modules } };
+};
+
+/**
+ * Migrations by the version they produce. A snapshot is upgraded
+ * by running every migration above its version, in order.
+ */
+export const MIGRATIONS: Record<number, Migration> = {
+  // Customer segments gained the industry ids bulk emails are sent by
+  2: (state) => dropCachedModule(state, 'customers'),
+  // Sales months gained the date range their orders are listed by
+  3: (state) => dropCachedModule(state, 'sales'),
+  // The conversation is only kept by conversationStorage
+  4: ({ conversation, ...state }) => state,
+};
+
+/**
+ * Drops whatever a snapshot holds that the current slices cannot use
+ */
+const sanitize = (state: Record<string, any>): PersistedState => {
+  const result: PersistedState = {};
+  const { ui, dashboard } = state;
+
+  if (isObject(ui) && MODULE_TYPES.includes(ui.currentModule)) {
+    result.ui = { currentModule: ui.currentModule };
+  }
+  if (isObject(dashboard) && typeof dashboard.sessionId === 'string' && isObject(dashboard.modules)) {
+    const modules: DashboardState['modules'] = {};
+    for (const module of MODULE_TYPES) {
+      const entry = dashboard.modules[module];
+      if (isObject(entry) && isObject(entry.data) && typeof entry.fetchedAt === 'number') {
+        modules[module] = {
+          data: entry.data as ModuleDataMap[typeof module],
+          fetchedAt: entry.fetchedAt,
+          // Filters are not restored, so data loaded with some must not pass for unfiltered data
+          ...(typeof entry.filterKey === 'string' && entry.filterKey ? { filterKey: entry.filterKey } : {}),
+        };
+      }
+    }
+    result.dashboard = { sessionId: dashboard.sessionId, modules };
+  }
+  return result;
+};
+
+/**
+ * Upgrades a saved snapshot to the current version
+ * @param snapshot Parsed snapshot, as saved by any app version
+ * @param migrations Migrations by the version they produce
+ * @param version Version to upgrade to
+ * @returns State to restore, or null when the snapshot is unusable
+ */
+export const migrateSnapshot = (
+  snapshot: unknown,
+  migrations: Record<number, Migration> = MIGRATIONS,
+  version: number = PERSIST_VERSION
+): PersistedState | null => {
+  if (!isObject(snapshot) || typeof snapshot.version !== 'number' || !isObject(snapshot.state)) {
+    return null;
+  }
+  // Written by a newer app version; its shape cannot be known
+  if (snapshot.version > version) {
+    return null;
+  }
+
+  let state = snapshot.state;
+  for (let next = snapshot.version + 1; next <= version; next++) {
+    const migrate = migrations[next];
+    if (migrate) {
+      state = migrate(state);
+    }
+    if (!isObject(state)) {
+      return null;
+    }
+  }
+  return sanitize(state);
+};
+
+/**
+ * Picks the persisted parts of the store
+ */
+export const selectPersistedState = (state: RootState): PersistedState => ({
+  ui: { currentModule: state.ui.currentModule },
+  dashboard: state.dashboard,
+});
+
+// References whose change means the persisted state changed
+const getPersistedInputs = (state: RootState) => [
+  state.ui.currentModule,
+  state.dashboard,
+];
+
+/**
+ * Saves selected slices in AsyncStorage and restores them on launch
+ */
+export const statePersistence = {
+  /**
+   * Restores the saved state; call before the first screen renders
+   */
+  rehydrate: async (dispatch: AppDispatch): Promise<void> => {
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEY);
+      if (!json) {
+        return;
+      }
+      const state = migrateSnapshot(JSON.parse(json));
+      if (state) {
+        dispatch(stateRehydrated(state));
+      }
+    } catch (error) {
+      console.error('Error restoring saved state:', error);
+    }
+  },
+
+  /**
+   * Saves the persisted slices whenever they change
+   * @returns Function stopping the saves
+   */
+  start: (store: typeof appStore): (() => void) => {
+    let inputs = getPersistedInputs(store.getState());
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const save = async () => {
+      timer = null;
+      const snapshot: PersistedSnapshot = {
+        version: PERSIST_VERSION,
+        state: selectPersistedState(store.getState()),
+      };
+      try {
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+      } catch (error) {
+        console.error('Error saving state:', error);
+      }
+    };
+
+    const unsubscribe = store.subscribe(() => {
+      const next = getPersistedInputs(store.getState());
+      if (next.every((value, index) => value === inputs[index])) {
+        return;
+      }
+      inputs = next;
+      if (!timer) {
+        timer = setTimeout(save, PERSIST_DEBOUNCE_MS);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    };
+  },
+
+  /**
+   * Removes the saved state
+   */
+  clear: async (): Promise<void> => {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  },
+};
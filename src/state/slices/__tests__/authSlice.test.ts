@@ -0,0 +1,264 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { AppState, AppStateStatus } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import authReducer, {
+  login,
+  verifyTwoFactor,
+  cancelTwoFactor,
+  resetAppData,
+  subscribeToAppLock,
+  unlockWithPin,
+  appLocked,
+} from '../authSlice';
+import connectionReducer from '../connectionSlice';
+import conversationReducer from '../conversationSlice';
+import dashboardReducer from '../dashboardSlice';
+import filtersReducer from '../filtersSlice';
+import uiReducer, { moduleChanged } from '../uiSlice';
+import { authService, getSessionId, TwoFactorChallenge } from '../../../api/authService';
+import { appLockService } from '../../../api/appLockService';
+import { exportService } from '../../../api/exportService';
+import { settingsStore } from '../../../api/settingsStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const createStore = () => configureStore({
+  reducer: {
+    auth: authReducer,
+    connection: connectionReducer,
+    conversation: conversationReducer,
+    dashboard: dashboardReducer,
+    filters: filtersReducer,
+    ui: uiReducer,
+  },
+});
+
+const credentials = {
+  username: 'alice',
+  password: 'secret',
+  serverUrl: 'https://a.example.com',
+  database: 'prod',
+};
+
+const challenge: TwoFactorChallenge = {
+  twoFactorRequired: true,
+  challengeToken: 'challenge-1',
+  username: 'alice',
+  serverUrl: 'https://a.example.com',
+  database: 'prod',
+};
+
+const authResponse = {
+  accessToken: 'access-1',
+  refreshToken: 'refresh-1',
+  user: { id: 7, name: 'Alice', username: 'alice' },
+};
+
+describe('authSlice two-factor login', () => {
+  beforeEach(() => {
+    jest.spyOn(authService, 'getSessions').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('signs in directly when no code is needed', async () => {
+    jest.spyOn(authService, 'login').mockResolvedValue(authResponse);
+    const store = createStore();
+
+    await store.dispatch(login(credentials));
+
+    const { auth } = store.getState();
+    expect(auth.isLoggedIn).toBe(true);
+    expect(auth.token).toBe('access-1');
+    expect(auth.twoFactorChallenge).toBeNull();
+    expect(auth.activeSessionId).toBe(getSessionId('alice', 'https://a.example.com', 'prod'));
+  });
+
+  it('waits for a code when the proxy sends a challenge', async () => {
+    jest.spyOn(authService, 'login').mockResolvedValue(challenge);
+    const store = createStore();
+
+    await store.dispatch(login(credentials));
+
+    const { auth } = store.getState();
+    expect(auth.isLoggedIn).toBe(false);
+    expect(auth.loading).toBe(false);
+    expect(auth.twoFactorChallenge).toEqual(challenge);
+  });
+
+  it('signs in once the code is accepted', async () => {
+    jest.spyOn(authService, 'login').mockResolvedValue(challenge);
+    const verify = jest.spyOn(authService, 'verifyTwoFactor').mockResolvedValue(authResponse);
+    const store = createStore();
+
+    await store.dispatch(login(credentials));
+    await store.dispatch(verifyTwoFactor('123456'));
+
+    expect(verify).toHaveBeenCalledWith(challenge, '123456');
+    const { auth } = store.getState();
+    expect(auth.isLoggedIn).toBe(true);
+    expect(auth.username).toBe('alice');
+    expect(auth.database).toBe('prod');
+    expect(auth.twoFactorChallenge).toBeNull();
+  });
+
+  it('keeps the challenge after a wrong code', async () => {
+    jest.spyOn(authService, 'login').mockResolvedValue(challenge);
+    jest.spyOn(authService, 'verifyTwoFactor').mockRejectedValue(
+      Object.assign(new Error('Invalid verification code'), { code: 'INVALID_2FA_CODE' })
+    );
+    const store = createStore();
+
+    await store.dispatch(login(credentials));
+    const result = await store.dispatch(verifyTwoFactor('000000'));
+
+    expect(result.payload).toEqual({ code: 'INVALID_2FA_CODE', kind: 'auth', message: 'Invalid verification code' });
+    const { auth } = store.getState();
+    expect(auth.isLoggedIn).toBe(false);
+    expect(auth.error).toBe('Invalid verification code');
+    expect(auth.twoFactorChallenge).toEqual(challenge);
+  });
+
+  it('returns to the password step when the challenge expired', async () => {
+    jest.spyOn(authService, 'login').mockResolvedValue(challenge);
+    jest.spyOn(authService, 'verifyTwoFactor').mockRejectedValue(
+      Object.assign(new Error('Code expired'), { code: 'TWO_FACTOR_EXPIRED' })
+    );
+    const store = createStore();
+
+    await store.dispatch(login(credentials));
+    await store.dispatch(verifyTwoFactor('123456'));
+
+    expect(store.getState().auth.twoFactorChallenge).toBeNull();
+    expect(store.getState().auth.error).toBe('Code expired');
+    expect(store.getState().auth.errorCode).toBe('TWO_FACTOR_EXPIRED');
+  });
+
+  it('rejects a code when no challenge is pending', async () => {
+    const verify = jest.spyOn(authService, 'verifyTwoFactor');
+    const store = createStore();
+
+    const result = await store.dispatch(verifyTwoFactor('123456'));
+
+    expect(verifyTwoFactor.rejected.match(result)).toBe(true);
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it('drops the challenge when the user goes back', async () => {
+    jest.spyOn(authService, 'login').mockResolvedValue(challenge);
+    const store = createStore();
+
+    await store.dispatch(login(credentials));
+    store.dispatch(cancelTwoFactor());
+
+    expect(store.getState().auth.twoFactorChallenge).toBeNull();
+  });
+});
+
+describe('authSlice app data reset', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('signs out everywhere, wipes saved data and resets the store', async () => {
+    jest.spyOn(authService, 'login').mockResolvedValue(authResponse);
+    jest.spyOn(authService, 'getSessions').mockResolvedValue([]);
+    const logoutAll = jest.spyOn(authService, 'logoutAll').mockRejectedValue(new Error('offline'));
+    const disableLock = jest.spyOn(appLockService, 'disable').mockResolvedValue();
+    jest.spyOn(exportService, 'clear').mockResolvedValue();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = createStore();
+    await store.dispatch(login(credentials));
+    store.dispatch(moduleChanged('customers'));
+    await settingsStore.setPreferences({ verbosity: 'detailed' });
+
+    await store.dispatch(resetAppData()).unwrap();
+
+    // A failed logout does not stop the reset
+    expect(logoutAll).toHaveBeenCalled();
+    expect(disableLock).toHaveBeenCalled();
+    expect(await AsyncStorage.getAllKeys()).toEqual([]);
+    expect(settingsStore.getPreferences().verbosity).toBe('normal');
+    expect(store.getState().auth.isLoggedIn).toBe(false);
+    expect(store.getState().ui.currentModule).toBe('sales');
+  });
+});
+
+describe('authSlice app lock', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('replaces the whole stack with the lock screen when a detail screen is on top', async () => {
+    let changeHandler: (state: AppStateStatus) => Promise<void> = async () => {};
+    const remove = jest.fn();
+    jest.spyOn(AppState, 'addEventListener').mockImplementation((_, handler) => {
+      changeHandler = handler as typeof changeHandler;
+      return { remove } as any;
+    });
+    jest.spyOn(appLockService, 'shouldLockOnResume').mockResolvedValue(true);
+    jest.spyOn(authService, 'login').mockResolvedValue(authResponse);
+    jest.spyOn(authService, 'getSessions').mockResolvedValue([]);
+    const store = createStore();
+    await store.dispatch(login(credentials));
+
+    // Main with a record opened on top
+    let routes: Array<{ name: string }> = [{ name: 'Main' }, { name: 'RecordDetail' }];
+    const navigator = {
+      isReady: () => true,
+      reset: jest.fn((state: { routes: Array<{ name: string }> }) => {
+        routes = state.routes;
+      }),
+    };
+    const unsubscribe = store.dispatch(subscribeToAppLock(navigator));
+
+    await changeHandler('background');
+    await changeHandler('active');
+
+    expect(store.getState().auth.isLocked).toBe(true);
+    expect(routes).toEqual([{ name: 'Lock' }]);
+
+    unsubscribe();
+    expect(remove).toHaveBeenCalled();
+  });
+
+  it('signs out after the last failed PIN attempt even when logging out fails', async () => {
+    jest.spyOn(authService, 'login').mockResolvedValue(authResponse);
+    jest.spyOn(authService, 'getSessions').mockResolvedValue([]);
+    jest.spyOn(authService, 'logoutAll').mockRejectedValue(new Error('Storage unavailable'));
+    jest.spyOn(appLockService, 'verifyPin').mockResolvedValue({ unlocked: false, attemptsLeft: 0 });
+    const disableLock = jest.spyOn(appLockService, 'disable').mockResolvedValue();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = createStore();
+    await store.dispatch(login(credentials));
+
+    const result = await store.dispatch(unlockWithPin('0000')).unwrap();
+
+    expect(result.wiped).toBe(true);
+    expect(disableLock).toHaveBeenCalled();
+    expect(store.getState().auth).toMatchObject({ isLoggedIn: false, isLocked: false, token: null });
+  });
+
+  it('reports a PIN check that fails and stays locked', async () => {
+    jest.spyOn(authService, 'login').mockResolvedValue(authResponse);
+    jest.spyOn(authService, 'getSessions').mockResolvedValue([]);
+    jest.spyOn(appLockService, 'verifyPin').mockRejectedValue(new Error('Secure storage unavailable'));
+    const store = createStore();
+    await store.dispatch(login(credentials));
+    store.dispatch(appLocked());
+
+    const result = await store.dispatch(unlockWithPin('1234'));
+
+    expect(unlockWithPin.rejected.match(result)).toBe(true);
+    expect(store.getState().auth).toMatchObject({
+      isLoggedIn: true,
+      isLocked: true,
+      loading: false,
+      error: 'Secure storage unavailable',
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { configureStore } from '@reduxjs/toolkit';
+import authReducer, { AuthState } from '../authSlice';
+import connectionReducer, {
+  connectMCP,
+  disconnectMCP,
+  subscribeToMCPService,
+  selectConnectionStatus,
+  selectConnectionError,
+} from '../connectionSlice';
+import conversationReducer from '../conversationSlice';
+import dashboardReducer from '../dashboardSlice';
+import filtersReducer from '../filtersSlice';
+import uiReducer from '../uiSlice';
+import { mcpService } from '../../../api/mcpService';
+import { settingsStore } from '../../../api/settingsStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const createStore = (auth?: Partial<AuthState>) => configureStore({
+  preloadedState: auth ? { auth: { ...authReducer(undefined, { type: 'init' }), ...auth } } : undefined,
+  reducer: {
+    auth: authReducer,
+    connection: connectionReducer,
+    conversation: conversationReducer,
+    dashboard: dashboardReducer,
+    filters: filtersReducer,
+    ui: uiReducer,
+  },
+});
+
+const server = { serverUrl: 'https://a.example.com', token: 'access-1' };
+
+describe('connectionSlice', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('tracks a connection attempt', async () => {
+    jest.spyOn(mcpService, 'connect').mockResolvedValue(true);
+    const store = createStore();
+
+    const request = store.dispatch(connectMCP(server));
+    expect(selectConnectionStatus(store.getState())).toBe('connecting');
+
+    await request;
+    expect(selectConnectionStatus(store.getState())).toBe('connected');
+    expect(store.getState().connection.lastConnectedAt).not.toBeNull();
+  });
+
+  it('reports the fallback mode when the socket cannot connect', async () => {
+    jest.spyOn(mcpService, 'connect').mockResolvedValue(false);
+    const store = createStore();
+
+    await store.dispatch(connectMCP(server));
+    expect(selectConnectionStatus(store.getState())).toBe('disconnected');
+    expect(selectConnectionError(store.getState())).toMatch(/fallback mode/);
+  });
+
+  it('ignores an attempt finishing after a disconnect', async () => {
+    jest.spyOn(mcpService, 'disconnect').mockResolvedValue();
+    let finish: (connected: boolean) => void = () => {};
+    jest.spyOn(mcpService, 'connect').mockReturnValue(new Promise(resolve => { finish = resolve; }));
+    const store = createStore();
+
+    const request = store.dispatch(connectMCP(server));
+    await store.dispatch(disconnectMCP());
+    finish(false);
+    await request;
+
+    expect(selectConnectionStatus(store.getState())).toBe('disconnected');
+    expect(selectConnectionError(store.getState())).toBeNull();
+  });
+
+  it('follows the MCP service connection listeners', () => {
+    const store = createStore();
+    const unsubscribe = store.dispatch(subscribeToMCPService());
+
+    (mcpService as any).isConnected = true;
+    (mcpService as any).notifyConnectionListeners();
+    expect(selectConnectionStatus(store.getState())).toBe('connected');
+
+    unsubscribe();
+    (mcpService as any).isConnected = false;
+    (mcpService as any).notifyConnectionListeners();
+    expect(selectConnectionStatus(store.getState())).toBe('connected');
+  });
+
+  it('reconnects to the new proxy when the proxy URL changes', async () => {
+    const connect = jest.spyOn(mcpService, 'connect').mockResolvedValue(true);
+    const disconnect = jest.spyOn(mcpService, 'disconnect').mockResolvedValue();
+    const store = createStore({ isLoggedIn: true, token: 'access-2', serverUrl: server.serverUrl, activeSessionId: 'alice@a' });
+    const unsubscribe = store.dispatch(subscribeToMCPService());
+    await store.dispatch(connectMCP(server));
+
+    await settingsStore.setProxySettings({ customUrl: 'https://proxy-2.example.com' });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(disconnect).toHaveBeenCalledTimes(1);
+    expect(connect).toHaveBeenLastCalledWith(server.serverUrl, 'access-2', { sessionId: 'alice@a' });
+    expect(selectConnectionStatus(store.getState())).toBe('connected');
+
+    // Nothing to reconnect once disconnected
+    await store.dispatch(disconnectMCP());
+    await settingsStore.setProxySettings({ customUrl: 'https://proxy-3.example.com' });
+    expect(connect).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    settingsStore.reset();
+  });
+});
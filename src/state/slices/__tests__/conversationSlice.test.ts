@@ -0,0 +1,62 @@
+import { configureStore } from '@reduxjs/toolkit';
+import authReducer from '../authSlice';
+import connectionReducer from '../connectionSlice';
+import conversationReducer, { runQuery } from '../conversationSlice';
+import dashboardReducer from '../dashboardSlice';
+import filtersReducer from '../filtersSlice';
+import uiReducer from '../uiSlice';
+import { mcpService, MCPResponse } from '../../../api/mcpService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const createStore = () => configureStore({
+  reducer: {
+    auth: authReducer,
+    connection: connectionReducer,
+    conversation: conversationReducer,
+    dashboard: dashboardReducer,
+    filters: filtersReducer,
+    ui: uiReducer,
+  },
+});
+
+const answerWith = (response: MCPResponse) =>
+  jest.spyOn(mcpService, 'streamQuery').mockImplementation((_, options) => ({
+    requestId: options?.requestId || 'req',
+    response: Promise.resolve(response),
+    cancel: () => true,
+  }));
+
+describe('conversationSlice runQuery', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps a query queued while offline as a waiting turn with a notice', async () => {
+    answerWith({ type: 'error', content: 'You are offline. Your query will be sent later.', code: 'QUEUED' });
+    const store = createStore();
+
+    await store.dispatch(runQuery('sales today'));
+
+    expect(store.getState().conversation.turns).toEqual([
+      expect.objectContaining({ query: 'sales today', status: 'queued', response: null }),
+    ]);
+    expect(store.getState().ui.notice).toBe('You are offline. Your query will be sent later.');
+  });
+
+  it('drops the turn of a query that is already queued', async () => {
+    answerWith({ type: 'error', content: 'You are offline. Your query will be sent later.', code: 'QUEUED' });
+    const store = createStore();
+    await store.dispatch(runQuery('sales today'));
+
+    answerWith({ type: 'error', content: 'This query is already waiting to be sent', code: 'ALREADY_QUEUED' });
+    await store.dispatch(runQuery('Sales today'));
+
+    const { turns } = store.getState().conversation;
+    expect(turns).toHaveLength(1);
+    expect(turns[0]).toMatchObject({ query: 'sales today', status: 'queued' });
+    expect(store.getState().ui.notice).toBe('This query is already waiting to be sent');
+  });
+});
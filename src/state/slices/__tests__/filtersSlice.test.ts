@@ -0,0 +1,75 @@
+import filtersReducer, {
+  filtersApplied,
+  filterRemoved,
+  filtersCleared,
+  getFilterKey,
+  describeFilters,
+  selectModuleFilters,
+  FiltersState,
+} from '../filtersSlice';
+import dashboardReducer, { moduleDataLoaded, selectCachedModuleData } from '../dashboardSlice';
+import { RootState } from '../../store';
+
+const desk = { id: 3, name: 'Main Warehouse' };
+
+const rootState = (filters: FiltersState, activeSessionId = 'alice@a', dashboard = dashboardReducer(undefined, { type: 'init' })) =>
+  ({ auth: { activeSessionId }, filters, dashboard } as unknown as RootState);
+
+describe('filtersSlice', () => {
+  it('applies, removes and clears the filters of a module', () => {
+    let state = filtersReducer(undefined, filtersApplied({
+      sessionId: 'alice@a',
+      module: 'inventory',
+      filters: { warehouse: desk, status: 'Low' },
+    }));
+    expect(state.modules.inventory).toEqual({ warehouse: desk, status: 'Low' });
+
+    state = filtersReducer(state, filterRemoved({ module: 'inventory', key: 'status' }));
+    expect(state.modules.inventory).toEqual({ warehouse: desk });
+
+    state = filtersReducer(state, filtersCleared('inventory'));
+    expect(state.modules.inventory).toEqual({});
+  });
+
+  it('keeps filters to the account they were set for', () => {
+    let state = filtersReducer(undefined, filtersApplied({
+      sessionId: 'alice@a',
+      module: 'customers',
+      filters: { country: { id: 21, name: 'Belgium' } },
+    }));
+    expect(selectModuleFilters(rootState(state), 'customers')).toEqual({ country: { id: 21, name: 'Belgium' } });
+    expect(selectModuleFilters(rootState(state, 'bob@b'), 'customers')).toEqual({});
+
+    state = filtersReducer(state, filtersApplied({ sessionId: 'bob@b', module: 'sales', filters: { dateFrom: '2025-01-01' } }));
+    expect(state.modules.customers).toEqual({});
+  });
+
+  it('keys filters by value and describes them', () => {
+    expect(getFilterKey({})).toBe('');
+    expect(getFilterKey({ dateTo: undefined })).toBe('');
+    expect(getFilterKey({ status: 'Low', warehouse: desk }))
+      .toBe(getFilterKey({ warehouse: { id: 3, name: 'Renamed' }, status: 'Low' }));
+
+    expect(describeFilters('sales', { dateFrom: '2025-01-01', salesperson: { id: 2, name: 'Mitchell Admin' } })).toEqual([
+      { key: 'dateFrom', label: 'From 2025-01-01' },
+      { key: 'salesperson', label: 'Mitchell Admin' },
+    ]);
+    expect(describeFilters('inventory', { status: 'Out' })).toEqual([{ key: 'status', label: 'Out stock' }]);
+  });
+
+  it('only serves cached module data loaded with the current filters', () => {
+    const filters = filtersReducer(undefined, filtersApplied({ sessionId: 'alice@a', module: 'inventory', filters: { warehouse: desk } }));
+    const data = { summary: {}, stockLevels: {}, itemsData: [] } as any;
+    const unfiltered = dashboardReducer(undefined, moduleDataLoaded({ sessionId: 'alice@a', module: 'inventory', data, fetchedAt: 1 }));
+    const filtered = dashboardReducer(undefined, moduleDataLoaded({
+      sessionId: 'alice@a',
+      module: 'inventory',
+      data,
+      fetchedAt: 1,
+      filterKey: getFilterKey({ warehouse: desk }),
+    }));
+
+    expect(selectCachedModuleData(rootState(filters, 'alice@a', unfiltered), 'inventory')).toBeNull();
+    expect(selectCachedModuleData(rootState(filters, 'alice@a', filtered), 'inventory')).not.toBeNull();
+  });
+});
@@ -1,6 +1,22 @@
 import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
-import { authService, AuthResponse } from '../../api/authService';
-import { RootState } from '../store';
+import { AppState } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  authService,
+  AuthResponse,
+  AuthStatus,
+  SavedSession,
+  TwoFactorChallenge,
+  getSessionId,
+  isTwoFactorChallenge,
+} from '../../api/authService';
+import { ErrorInfo, toErrorInfo } from '../../api/errors';
+import { appLockService, UnlockResult } from '../../api/appLockService';
+import { RefreshedTokens } from '../../api/authEvents';
+import { settingsStore } from '../../api/settingsStore';
+import { exportService } from '../../api/exportService';
+import { appDataReset } from '../actions';
+import { AppDispatch, RootState } from '../store';
 
 export interface AuthState {
   isLoggedIn: boolean;
@@ -8,9 +24,16 @@ export interface AuthState {
   refreshToken: string | null;
   username: string | null;
   serverUrl: string | null;
+  database: string | null;
   user: any | null;
+  activeSessionId: string | null;
+  sessions: SavedSession[];
+  isLocked: boolean; // App lock screen must be passed before Main
+  unlockAttemptsLeft: number | null;
+  twoFactorChallenge: TwoFactorChallenge | null; // Set while waiting for the 2FA code
   loading: boolean;
   error: string | null;
+  errorCode: string | null; // Code of the error, for guidance and retry actions
 }
 
 const initialState: AuthState = {
@@ -19,36 +42,72 @@ const initialState: AuthState = {
   refreshToken: null,
   username: null,
   serverUrl: null,
+  database: null,
   user: null,
+  activeSessionId: null,
+  sessions: [],
+  isLocked: false,
+  unlockAttemptsLeft: null,
+  twoFactorChallenge: null,
   loading: false,
   error: null,
+  errorCode: null,
 };
 
+type SignedInResponse = AuthResponse & { sessions: SavedSession[] };
+
 // Async thunks
+// Resolves with a two-factor challenge instead of a session when the user has 2FA enabled
 export const login = createAsyncThunk<
-  AuthResponse, 
-  { username: string; password: string; serverUrl: string },
-  { rejectValue: string }
+  SignedInResponse | TwoFactorChallenge, 
+  { username: string; password: string; serverUrl: string; database?: string },
+  { rejectValue: ErrorInfo }
 >(
   'auth/login',
-  async ({ username, password, serverUrl }, { rejectWithValue }) => {
+  async ({ username, password, serverUrl, database }, { rejectWithValue }) => {
     try {
-      return await authService.login(username, password, serverUrl);
-    } catch (error) {
-      if (error instanceof Error) {
-        return rejectWithValue(error.message);
+      const response = await authService.login(username, password, serverUrl, database);
+      if (isTwoFactorChallenge(response)) {
+        return response;
       }
-      return rejectWithValue('Login failed');
+      const sessions = await authService.getSessions();
+      return { ...response, sessions };
+    } catch (error) {
+      return rejectWithValue(toErrorInfo(error, { code: 'AUTH_FAILED', message: 'Login failed' }));
+    }
+  }
+);
+
+// Second login step, answering the pending two-factor challenge
+export const verifyTwoFactor = createAsyncThunk<
+  SignedInResponse & { challenge: TwoFactorChallenge },
+  string,
+  { state: RootState; rejectValue: ErrorInfo }
+>(
+  'auth/verifyTwoFactor',
+  async (code, { getState, rejectWithValue }) => {
+    const challenge = getState().auth.twoFactorChallenge;
+    if (!challenge) {
+      return rejectWithValue({ code: 'TWO_FACTOR_EXPIRED', kind: 'auth', message: 'Please log in again.' });
+    }
+
+    try {
+      const response = await authService.verifyTwoFactor(challenge, code);
+      const sessions = await authService.getSessions();
+      return { ...response, sessions, challenge };
+    } catch (error) {
+      return rejectWithValue(toErrorInfo(error, { code: 'AUTH_FAILED', message: 'Verification failed' }));
     }
   }
 );
 
+// Resolves with the sessions that remain signed in after the active one logs out
 export const logoutThunk = createAsyncThunk(
   'auth/logout',
   async (_, { rejectWithValue }) => {
     try {
       await authService.logout();
-      return true;
+      return await authService.getSessions();
     } catch (error) {
       if (error instanceof Error) {
         return rejectWithValue(error.message);
@@ -58,11 +117,14 @@ export const logoutThunk = createAsyncThunk(
   }
 );
 
+// A signed-in user still has to pass the app lock when it is turned on
 export const checkAuthStatus = createAsyncThunk(
   'auth/checkStatus',
   async (_, { rejectWithValue }) => {
     try {
-      return await authService.checkAuthStatus();
+      const status = await authService.checkAuthStatus();
+      const isLocked = status.isLoggedIn && await appLockService.isEnabled();
+      return { ...status, isLocked };
     } catch (error) {
       if (error instanceof Error) {
         return rejectWithValue(error.message);
@@ -72,6 +134,125 @@ export const checkAuthStatus = createAsyncThunk(
   }
 );
 
+// Signs out after the proxy refused to refresh the session
+export const expireSession = createAsyncThunk(
+  'auth/expireSession',
+  async () => {
+    try {
+      await authService.logout();
+    } catch (error) {
+      console.warn('Logout after session expiry failed:', error);
+    }
+    return await authService.getSessions();
+  }
+);
+
+export const loadSessions = createAsyncThunk(
+  'auth/loadSessions',
+  async () => {
+    return await authService.getSessions();
+  }
+);
+
+export const switchSession = createAsyncThunk<
+  { status: AuthStatus; sessions: SavedSession[] },
+  string,
+  { rejectValue: string }
+>(
+  'auth/switchSession',
+  async (sessionId, { rejectWithValue }) => {
+    try {
+      const status = await authService.switchSession(sessionId);
+      const sessions = await authService.getSessions();
+      return { status, sessions };
+    } catch (error) {
+      if (error instanceof Error) {
+        return rejectWithValue(error.message);
+      }
+      return rejectWithValue('Could not switch account');
+    }
+  }
+);
+
+export const removeSession = createAsyncThunk(
+  'auth/removeSession',
+  async (sessionId: string) => {
+    await authService.removeSession(sessionId);
+    return await authService.getSessions();
+  }
+);
+
+/**
+ * Checks a PIN on the lock screen.
+ * When the attempts run out every saved session is wiped and the lock turned off.
+ */
+export const unlockWithPin = createAsyncThunk<UnlockResult & { wiped: boolean }, string>(
+  'auth/unlockWithPin',
+  async (pin) => {
+    const result = await appLockService.verifyPin(pin);
+    if (result.unlocked || result.attemptsLeft > 0) {
+      return { ...result, wiped: false };
+    }
+
+    // The store is signed out even when logging out fails, so the lock screen is never left pending
+    try {
+      await authService.logoutAll();
+    } catch (error) {
+      console.warn('Logout after too many PIN attempts failed:', error);
+    }
+    await appLockService.disable();
+    return { ...result, wiped: true };
+  }
+);
+
+/**
+ * Signs out of every account and wipes what the app saved on this device:
+ * AsyncStorage, the app lock and exported files. Disconnect the socket first.
+ */
+export const resetAppData = createAsyncThunk(
+  'auth/resetAppData',
+  async (_, { dispatch }) => {
+    try {
+      await authService.logoutAll();
+    } catch (error) {
+      console.warn('Logout before resetting app data failed:', error);
+    }
+    await appLockService.disable();
+    await exportService.clear().catch(error => console.warn('Could not delete exported files:', error));
+    await AsyncStorage.clear();
+    settingsStore.reset();
+    dispatch(appDataReset());
+  }
+);
+
+export const unlockWithBiometrics = createAsyncThunk(
+  'auth/unlockWithBiometrics',
+  async () => {
+    return await appLockService.authenticateWithBiometrics();
+  }
+);
+
+// Applies a completed login to the state
+const signIn = (
+  state: AuthState,
+  response: SignedInResponse,
+  { username, serverUrl, database }: { username: string; serverUrl: string; database?: string }
+) => {
+  state.isLoggedIn = true;
+  state.token = response.accessToken;
+  state.refreshToken = response.refreshToken || null;
+  state.username = username;
+  state.serverUrl = serverUrl;
+  state.database = database || null;
+  state.user = response.user;
+  state.activeSessionId = getSessionId(username, serverUrl, database);
+  state.sessions = response.sessions;
+  state.twoFactorChallenge = null;
+  state.loading = false;
+  state.error = null;
+  state.errorCode = null;
+};
+
 export const authSlice = createSlice({
   name: 'auth',
   initialState,
@@ -105,44 +286,153 @@ export const authSlice = createSlice({
     },
     clearError: (state) => {
       state.error = null;
+      state.errorCode = null;
+    },
+    cancelTwoFactor: (state) => {
+      state.twoFactorChallenge = null;
+      state.error = null;
+      state.errorCode = null;
+    },
+    tokenRefreshed: (state, action: PayloadAction<RefreshedTokens>) => {
+      if (state.isLoggedIn) {
+        state.token = action.payload.accessToken;
+        state.refreshToken = action.payload.refreshToken || state.refreshToken;
+      }
+    },
+    appLocked: (state) => {
+      if (state.isLoggedIn) {
+        state.isLocked = true;
+      }
     },
   },
   extraReducers: (builder) => {
+    builder.addCase(appDataReset, () => initialState);
+
     // Login
     builder.addCase(login.pending, (state) => {
       state.loading = true;
       state.error = null;
+      state.errorCode = null;
     });
     builder.addCase(login.fulfilled, (state, action) => {
-      state.isLoggedIn = true;
-      state.token = action.payload.accessToken;
-      state.refreshToken = action.payload.refreshToken || null;
-      state.username = action.payload.user.username;
-      state.user = action.payload.user;
+      if (isTwoFactorChallenge(action.payload)) {
+        state.twoFactorChallenge = action.payload;
+        state.loading = false;
+        return;
+      }
+      signIn(state, action.payload, action.meta.arg);
+    });
+    builder.addCase(login.rejected, (state, action) => {
       state.loading = false;
+      state.error = action.payload?.message || 'Login failed';
+      state.errorCode = action.payload?.code || null;
+    });
+
+    // Two-factor authentication
+    builder.addCase(verifyTwoFactor.pending, (state) => {
+      state.loading = true;
       state.error = null;
+      state.errorCode = null;
     });
-    builder.addCase(login.rejected, (state, action) => {
+    builder.addCase(verifyTwoFactor.fulfilled, (state, action) => {
+      signIn(state, action.payload, action.payload.challenge);
+    });
+    builder.addCase(verifyTwoFactor.rejected, (state, action) => {
       state.loading = false;
-      state.error = action.payload || 'Login failed';
+      state.error = action.payload?.message || 'Verification failed';
+      state.errorCode = action.payload?.code || null;
+      // An expired challenge sends the user back to the password step
+      if (action.payload?.code === 'TWO_FACTOR_EXPIRED') {
+        state.twoFactorChallenge = null;
+      }
     });
 
     // Logout
     builder.addCase(logoutThunk.pending, (state) => {
       state.loading = true;
     });
-    builder.addCase(logoutThunk.fulfilled, () => {
-      return initialState;
+    builder.addCase(logoutThunk.fulfilled, (state, action) => {
+      return {
+        ...initialState,
+        sessions: action.payload,
+      };
     });
     builder.addCase(logoutThunk.rejected, (state, action) => {
       state.error = action.payload as string || 'Logout failed';
       // Still logout the user locally even if server logout fails
       return {
         ...initialState,
+        sessions: state.sessions.filter(session => session.id !== state.activeSessionId),
         error: state.error,
       };
     });
 
+    builder.addCase(expireSession.fulfilled, (state, action) => {
+      return {
+        ...initialState,
+        sessions: action.payload,
+        error: 'Your session has expired. Please log in again.',
+        errorCode: 'SESSION_EXPIRED',
+      };
+    });
+
+    // Sessions
+    builder.addCase(loadSessions.fulfilled, (state, action) => {
+      state.sessions = action.payload;
+    });
+    builder.addCase(switchSession.pending, (state) => {
+      state.loading = true;
+      state.error = null;
+    });
+    builder.addCase(switchSession.fulfilled, (state, action) => {
+      const { status, sessions } = action.payload;
+      state.isLoggedIn = true;
+      state.token = status.token || null;
+      state.refreshToken = status.refreshToken || null;
+      state.username = status.username || null;
+      state.serverUrl = status.serverUrl || null;
+      state.database = status.database || null;
+      state.user = status.user || null;
+      state.activeSessionId = status.sessionId || null;
+      state.sessions = sessions;
+      state.loading = false;
+    });
+    builder.addCase(switchSession.rejected, (state, action) => {
+      state.loading = false;
+      state.error = action.payload || 'Could not switch account';
+    });
+    builder.addCase(removeSession.fulfilled, (state, action) => {
+      state.sessions = action.payload;
+    });
+
+    // App lock
+    builder.addCase(unlockWithPin.pending, (state) => {
+      state.loading = true;
+      state.error = null;
+    });
+    builder.addCase(unlockWithPin.fulfilled, (state, action) => {
+      const { unlocked, attemptsLeft, wiped } = action.payload;
+      if (wiped) {
+        return {
+          ...initialState,
+          error: 'Too many incorrect PIN attempts. You have been signed out.',
+        };
+      }
+      state.loading = false;
+      state.isLocked = !unlocked;
+      state.unlockAttemptsLeft = unlocked ? null : attemptsLeft;
+    });
+    builder.addCase(unlockWithPin.rejected, (state, action) => {
+      state.loading = false;
+      state.error = action.error.message || 'Could not check your PIN';
+    });
+    builder.addCase(unlockWithBiometrics.fulfilled, (state, action) => {
+      if (action.payload) {
+        state.isLocked = false;
+        state.unlockAttemptsLeft = null;
+      }
+    });
+
     // Check Auth Status
     builder.addCase(checkAuthStatus.pending, (state) => {
       state.loading = true;
@@ -154,7 +444,10 @@ export const authSlice = createSlice({
         state.refreshToken = action.payload.refreshToken || null;
         state.username = action.payload.username || null;
         state.serverUrl = action.payload.serverUrl || null;
+        state.database = action.payload.database || null;
         state.user = action.payload.user || null;
+        state.activeSessionId = action.payload.sessionId || null;
+        state.isLocked = action.payload.isLocked;
       }
       state.loading = false;
     });
@@ -167,7 +460,55 @@ export const authSlice = createSlice({
 });
 
 // Regular actions
-export const { loginStart, loginSuccess, loginFailure, logout, clearError } = authSlice.actions;
+export const {
+  loginStart,
+  loginSuccess,
+  loginFailure,
+  logout,
+  clearError,
+  cancelTwoFactor,
+  tokenRefreshed,
+  appLocked,
+} = authSlice.actions;
+
+// Navigation container, or anything that can replace the whole stack
+export interface LockNavigator {
+  isReady: () => boolean;
+  reset: (state: { index: number; routes: Array<{ name: 'Lock' }> }) => void;
+}
+
+/**
+ * Locks the app when it returns from the background after the configured timeout.
+ * The whole stack is replaced by the lock screen, so no screen opened on top of Main stays reachable.
+ * @returns Function removing the listener
+ */
+export const subscribeToAppLock = (navigator: LockNavigator) => (dispatch: AppDispatch, getState: () => RootState) => {
+  let backgroundedAt: number | null = null;
+
+  const subscription = AppState.addEventListener('change', async (nextState) => {
+    if (nextState === 'background') {
+      backgroundedAt = Date.now();
+      return;
+    }
+
+    if (nextState === 'active' && backgroundedAt !== null) {
+      const since = backgroundedAt;
+      backgroundedAt = null;
+      const { isLoggedIn, isLocked } = getState().auth;
+      if (!isLoggedIn || isLocked) {
+        return;
+      }
+      if (await appLockService.shouldLockOnResume(since)) {
+        dispatch(appLocked());
+        if (navigator.isReady()) {
+          navigator.reset({ index: 0, routes: [{ name: 'Lock' }] });
+        }
+      }
+    }
+  });
+
+  return () => subscription.remove();
+};
 
 // Selectors
 export const selectAuth = (state: RootState) => state.auth;
@@ -176,5 +517,10 @@ export const selectUser = (state: RootState) => state.auth.user;
 export const selectUsername = (state: RootState) => state.auth.username;
 export const selectAuthLoading = (state: RootState) => state.auth.loading;
 export const selectAuthError = (state: RootState) => state.auth.error;
+export const selectAuthErrorCode = (state: RootState) => state.auth.errorCode;
+export const selectSessions = (state: RootState) => state.auth.sessions;
+export const selectActiveSessionId = (state: RootState) => state.auth.activeSessionId;
+export const selectIsLocked = (state: RootState) => state.auth.isLocked;
+export const selectTwoFactorChallenge = (state: RootState) => state.auth.twoFactorChallenge;
 
 export default authSlice.reducer;
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
+import { mcpService } from '../../api/mcpService';
+import { settingsStore } from '../../api/settingsStore';
+import { toErrorInfo } from '../../api/errors';
+import { applyOutboxUpdate } from './conversationSlice';
+import { AppDispatch, RootState } from '../store';
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  serverUrl: string | null;
+  error: string | null;
+  errorCode: string | null;
+  lastConnectedAt: number | null;
+}
+
+const initialState: ConnectionState = {
+  status: 'disconnected',
+  serverUrl: null,
+  error: null,
+  errorCode: null,
+  lastConnectedAt: null,
+};
+
+// Async thunks
+export const connectMCP = createAsyncThunk<
+  boolean,
+  { serverUrl: string; token: string; sessionId?: string },
+  { rejectValue: { message: string; code: string } }
+>(
+  'connection/connect',
+  async ({ serverUrl, token, sessionId }, { rejectWithValue }) => {
+    try {
+      return await mcpService.connect(serverUrl, token, { sessionId });
+    } catch (error) {
+      const { message, code } = toErrorInfo(error, {
+        code: 'NOT_CONNECTED',
+        message: 'Connection error: Failed to connect to MCP service',
+      });
+      return rejectWithValue({ message, code });
+    }
+  }
+);
+
+export const disconnectMCP = createAsyncThunk(
+  'connection/disconnect',
+  async () => {
+    await mcpService.disconnect();
+  }
+);
+
+/**
+ * Forwards MCP service events into the store: connection changes to this slice
+ * and offline outbox results to the conversation.
+ * Reconnects to the new proxy when the proxy URL changes while a connection is wanted.
+ * @returns Function removing the listeners
+ */
+export const subscribeToMCPService = () => (dispatch: AppDispatch, getState: () => RootState) => {
+  const removeConnectionListener = mcpService.addConnectionListener((connected) => {
+    dispatch(connectionChanged(connected));
+  });
+  const removeOutboxListener = mcpService.addOutboxListener((item) => {
+    dispatch(applyOutboxUpdate(item));
+  });
+
+  // The socket keeps talking to the proxy it was opened for
+  let proxyUrl = settingsStore.getProxyUrl();
+  const removeSettingsListener = settingsStore.addListener(async () => {
+    const previousUrl = proxyUrl;
+    proxyUrl = settingsStore.getProxyUrl();
+
+    const { connection, auth } = getState();
+    if (proxyUrl === previousUrl || !connection.serverUrl || !auth.token || !auth.serverUrl) return;
+
+    const target = { serverUrl: auth.serverUrl, token: auth.token, sessionId: auth.activeSessionId || undefined };
+    await dispatch(disconnectMCP());
+    dispatch(connectMCP(target));
+  });
+
+  return () => {
+    removeConnectionListener();
+    removeOutboxListener();
+    removeSettingsListener();
+  };
+};
+
+export const connectionSlice = createSlice({
+  name: 'connection',
+  initialState,
+  reducers: {
+    connectionChanged: (state, action: PayloadAction<boolean>) => {
+      // Disconnects while a connection attempt is running are settled by connectMCP
+      if (state.status === 'connecting' && !action.payload) return;
+
+      state.status = action.payload ? 'connected' : 'disconnected';
+      if (action.payload) {
+        state.lastConnectedAt = Date.now();
+        state.error = null;
+        state.errorCode = null;
+      }
+    },
+    clearConnectionError: (state) => {
+      state.error = null;
+      state.errorCode = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(connectMCP.pending, (state, action) => {
+      state.status = 'connecting';
+      state.serverUrl = action.meta.arg.serverUrl;
+      state.error = null;
+      state.errorCode = null;
+    });
+    builder.addCase(connectMCP.fulfilled, (state, action) => {
+      // Ignore attempts for a server that is no longer current
+      if (state.serverUrl !== action.meta.arg.serverUrl) return;
+
+      if (action.payload) {
+        state.status = 'connected';
+        state.lastConnectedAt = Date.now();
+      } else {
+        state.status = 'disconnected';
+        state.error = 'Unable to connect to the MCP service. Using fallback mode.';
+        state.errorCode = 'NOT_CONNECTED';
+      }
+    });
+    builder.addCase(connectMCP.rejected, (state, action) => {
+      if (state.serverUrl !== action.meta.arg.serverUrl) return;
+
+      state.status = 'disconnected';
+      state.error = action.payload?.message || 'Connection error: Failed to connect to MCP service';
+      state.errorCode = action.payload?.code || 'NOT_CONNECTED';
+    });
+    // Reset right away, so a connection started next is not overwritten
+    builder.addCase(disconnectMCP.pending, () => initialState);
+  },
+});
+
+// Regular actions
+export const { connectionChanged, clearConnectionError } = connectionSlice.actions;
+
+// Selectors
+export const selectConnectionStatus = (state: RootState) => state.connection.status;
+export const selectIsConnected = (state: RootState) => state.connection.status === 'connected';
+export const selectIsConnecting = (state: RootState) => state.connection.status === 'connecting';
+export const selectConnectionError = (state: RootState) => state.connection.error;
+
+export default connectionSlice.reducer;
@@ -0,0 +1,272 @@
+import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
+import { mcpService, MCPResponse, MCPOutboxItem, toMCPErrorResponse, isQueuedResponse } from '../../api/mcpService';
+import { conversationStorage, ConversationTurn } from '../../api/conversationStorage';
+import { appDataReset } from '../actions';
+import { noticeShown } from './uiSlice';
+import { RootState } from '../store';
+
+export interface ConversationState {
+  turns: ConversationTurn[];
+  sessionId: string | null;
+  loading: boolean;
+  panelVisible: boolean;
+}
+
+const initialState: ConversationState = {
+  turns: [],
+  sessionId: null,
+  loading: false,
+  panelVisible: false,
+};
+
+// Persist the history for the current session
+const saveTurns = async (state: RootState) => {
+  const { conversation } = state;
+  if (conversation.sessionId) {
+    await conversationStorage.save(conversation.sessionId, conversation.turns);
+  }
+};
+
+// Async thunks
+export const loadConversation = createAsyncThunk(
+  'conversation/load',
+  async (sessionId: string) => {
+    const turns = await conversationStorage.load(sessionId);
+    return { sessionId, turns };
+  }
+);
+
+/**
+ * Sends a query through the MCP service and records it as a conversation turn.
+ * Partial responses are streamed into the turn as they arrive.
+ * The turn id doubles as the MCP request id, and aborting the thunk cancels the query.
+ * While offline the query is queued in the MCP outbox and the turn stays 'queued';
+ * a repeat of a query already queued drops its turn.
+ * Resolves with the final MCP response (errors are returned as error responses).
+ */
+export const runQuery = createAsyncThunk<MCPResponse, string, { state: RootState }>(
+  'conversation/runQuery',
+  async (query, { dispatch, getState, requestId, signal }) => {
+    dispatch(turnStarted({ id: requestId, query, createdAt: Date.now() }));
+
+    let response: MCPResponse;
+    try {
+      const stream = mcpService.streamQuery(query, {
+        requestId,
+        signal,
+        queueIfOffline: true,
+        onUpdate: (partial) => dispatch(turnUpdated({ id: requestId, response: partial })),
+      });
+      response = await stream.response;
+    } catch (error) {
+      response = toMCPErrorResponse(error, { code: 'PROCESSING_ERROR', message: 'Failed to process your query' });
+    }
+
+    dispatch(turnCompleted({ id: requestId, response }));
+    await saveTurns(getState());
+
+    // Waiting for the connection is not a failure; say so instead of showing an error
+    if (response.type === 'error' && isQueuedResponse(response)) {
+      dispatch(noticeShown(response.content));
+    }
+
+    return response;
+  }
+);
+
+/**
+ * Completes a queued turn once the outbox has sent (or given up on) its query
+ * @param item Outbox item reported by the MCP service
+ */
+export const applyOutboxUpdate = createAsyncThunk<void, MCPOutboxItem, { state: RootState }>(
+  'conversation/outboxUpdate',
+  async (item, { dispatch, getState }) => {
+    if (item.status === 'queued' || !item.response) return;
+
+    dispatch(turnCompleted({ id: item.id, response: item.response }));
+    await saveTurns(getState());
+  }
+);
+
+/**
+ * Sends the user's approval or rejection of a proposed write for a turn
+ * The decision is recorded on the turn so the card cannot be submitted twice.
+ */
+export const resolveAction = createAsyncThunk<
+  MCPResponse,
+  { turnId: string; approved: boolean },
+  { state: RootState }
+>(
+  'conversation/resolveAction',
+  async ({ turnId, approved }, { dispatch, getState }) => {
+    const turn = getState().conversation.turns.find(item => item.id === turnId);
+    if (!turn || turn.response?.type !== 'action') {
+      throw new Error('No action to confirm for this turn');
+    }
+
+    const result = await mcpService.confirmAction(turn.response.content, approved);
+    dispatch(actionResolved({ id: turnId, approved, result }));
+    await saveTurns(getState());
+
+    return result;
+  },
+  {
+    // Only one decision per action
+    condition: ({ turnId }, { getState }) => {
+      const turn = getState().conversation.turns.find(item => item.id === turnId);
+      return !turn?.actionState || turn.actionState.status === 'failed';
+    },
+  }
+);
+
+/**
+ * Cancels a turn that is still waiting for (or streaming) its response
+ * @param turnId Id of the pending turn
+ */
+export const cancelQuery = (turnId: string) => () => {
+  mcpService.cancelQuery(turnId);
+};
+
+export const clearConversation = createAsyncThunk<void, void, { state: RootState }>(
+  'conversation/clear',
+  async (_, { getState }) => {
+    const { sessionId } = getState().conversation;
+    if (sessionId) {
+      await conversationStorage.clear(sessionId);
+    }
+  }
+);
+
+export const conversationSlice = createSlice({
+  name: 'conversation',
+  initialState,
+  reducers: {
+    panelToggled: (state) => {
+      state.panelVisible = !state.panelVisible;
+    },
+    panelShown: (state) => {
+      state.panelVisible = true;
+    },
+    panelHidden: (state) => {
+      state.panelVisible = false;
+    },
+    turnStarted: (state, action: PayloadAction<{ id: string; query: string; createdAt: number }>) => {
+      state.turns.push({
+        ...action.payload,
+        response: null,
+        status: 'pending',
+      });
+    },
+    turnUpdated: (state, action: PayloadAction<{ id: string; response: MCPResponse }>) => {
+      const turn = state.turns.find(item => item.id === action.payload.id);
+      if (turn && turn.status === 'pending') {
+        turn.response = action.payload.response;
+      }
+    },
+    turnCompleted: (state, action: PayloadAction<{ id: string; response: MCPResponse }>) => {
+      const turn = state.turns.find(item => item.id === action.payload.id);
+      if (!turn) return;
+
+      const { response } = action.payload;
+      if (response.type === 'error' && response.code === 'QUEUED') {
+        // The outbox reports the answer later through applyOutboxUpdate
+        turn.status = 'queued';
+        turn.outboxStatus = 'queued';
+        turn.response = null;
+      } else if (response.type === 'error' && response.code === 'ALREADY_QUEUED') {
+        // The earlier turn for the same query gets the answer
+        state.turns = state.turns.filter(item => item.id !== turn.id);
+      } else if (response.type === 'error' && response.code === 'CANCELLED') {
+        // Keep whatever was streamed before the user cancelled
+        turn.status = 'cancelled';
+        turn.response = turn.response || response;
+      } else {
+        turn.response = response;
+        turn.status = response.type === 'error' ? 'error' : 'complete';
+        if (turn.outboxStatus) {
+          turn.outboxStatus = response.type === 'error' ? 'failed' : 'sent';
+        }
+      }
+    },
+    actionResolved: (state, action: PayloadAction<{ id: string; approved: boolean; result: MCPResponse }>) => {
+      const turn = state.turns.find(item => item.id === action.payload.id);
+      if (!turn) return;
+
+      const { approved, result } = action.payload;
+      turn.actionState = {
+        status: result.type === 'error' ? 'failed' : approved ? 'approved' : 'rejected',
+        result,
+      };
+    },
+  },
+  extraReducers: (builder) => {
+    // Restore the history shown when the app was closed
+    builder.addCase(appDataReset, () => initialState);
+
+    // Load
+    builder.addCase(loadConversation.pending, (state, action) => {
+      state.loading = true;
+      // Turns already started for the same session stay while its history loads
+      if (state.sessionId !== action.meta.arg) {
+        state.sessionId = action.meta.arg;
+        state.turns = [];
+      }
+    });
+    builder.addCase(loadConversation.fulfilled, (state, action) => {
+      // Ignore results for a server that is no longer current
+      if (state.sessionId === action.payload.sessionId) {
+        // Keep turns started while the history was loading
+        const loadedIds = new Set(action.payload.turns.map(turn => turn.id));
+        state.turns = [...action.payload.turns, ...state.turns.filter(turn => !loadedIds.has(turn.id))];
+      }
+      state.loading = false;
+    });
+    builder.addCase(loadConversation.rejected, (state) => {
+      state.loading = false;
+    });
+
+    // Action confirmation
+    builder.addCase(resolveAction.pending, (state, action) => {
+      const turn = state.turns.find(item => item.id === action.meta.arg.turnId);
+      if (turn) {
+        turn.actionState = { status: 'submitting' };
+      }
+    });
+    builder.addCase(resolveAction.rejected, (state, action) => {
+      const turn = state.turns.find(item => item.id === action.meta.arg.turnId);
+      if (turn) {
+        turn.actionState = {
+          status: 'failed',
+          result: { type: 'error', content: action.error.message || 'Failed to send your decision' },
+        };
+      }
+    });
+
+    // Clear
+    builder.addCase(clearConversation.fulfilled, (state) => {
+      // Turns still waiting for an answer stay visible
+      state.turns = state.turns.filter(turn => turn.status === 'pending' || turn.status === 'queued');
+    });
+  },
+});
+
+// Regular actions
+export const {
+  panelToggled,
+  panelShown,
+  panelHidden,
+  turnStarted,
+  turnUpdated,
+  turnCompleted,
+  actionResolved,
+} = conversationSlice.actions;
+
+// Selectors
+export const selectConversationTurns = (state: RootState) => state.conversation.turns;
+export const selectLatestTurn = (state: RootState) =>
+  state.conversation.turns.length > 0 ? state.conversation.turns[state.conversation.turns.length - 1] : null;
+export const selectHasPendingTurns = (state: RootState) =>
+  state.conversation.turns.some(turn => turn.status === 'pending');
+export const selectConversationPanelVisible = (state: RootState) => state.conversation.panelVisible;
+
+export default conversationSlice.reducer;
@@ -0,0 +1,72 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { SalesData, InventoryData, CustomersData } from '../../api/odooDataService';
+import { ModuleType } from './uiSlice';
+import { selectFilterKey } from './filtersSlice';
+import { stateRehydrated, appDataReset } from '../actions';
+import { RootState } from '../store';
+
+export interface ModuleDataMap {
+  sales: SalesData;
+  inventory: InventoryData;
+  customers: CustomersData;
+}
+
+export interface CachedModuleData<T> {
+  data: T;
+  fetchedAt: number;
+  filterKey?: string; // Filters the data was loaded with, from getFilterKey; unfiltered when missing
+}
+
+export interface DashboardState {
+  sessionId: string | null; // Session the cached data was loaded for
+  modules: Partial<Record<ModuleType, CachedModuleData<ModuleDataMap[ModuleType]>>>;
+}
+
+const initialState: DashboardState = {
+  sessionId: null,
+  modules: {},
+};
+
+export const dashboardSlice = createSlice({
+  name: 'dashboard',
+  initialState,
+  reducers: {
+    moduleDataLoaded: (
+      state,
+      action: PayloadAction<{
+        sessionId: string;
+        module: ModuleType;
+        data: ModuleDataMap[ModuleType];
+        fetchedAt: number;
+        filterKey?: string;
+      }>
+    ) => {
+      const { sessionId, module, data, fetchedAt, filterKey } = action.payload;
+      // Data of another account is never shown, so it is dropped
+      if (state.sessionId !== sessionId) {
+        state.sessionId = sessionId;
+        state.modules = {};
+      }
+      state.modules[module] = { data, fetchedAt, filterKey };
+    },
+    dashboardCleared: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder.addCase(stateRehydrated, (state, action) => action.payload.dashboard || state);
+    builder.addCase(appDataReset, () => initialState);
+  },
+});
+
+// Regular actions
+export const { moduleDataLoaded, dashboardCleared } = dashboardSlice.actions;
+
+// Selectors
+// Data cached for the active account and the module's current filters
+export const selectCachedModuleData = <K extends ModuleType>(state: RootState, module: K) => {
+  const cached = state.dashboard.sessionId === state.auth.activeSessionId
+    ? (state.dashboard.modules[module] as CachedModuleData<ModuleDataMap[K]> | undefined)
+    : undefined;
+  return cached && (cached.filterKey || '') === selectFilterKey(state, module) ? cached : null;
+};
+
+export default dashboardSlice.reducer;
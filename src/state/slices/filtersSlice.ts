@@ -0,0 +1,111 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { SalesFilters, InventoryFilters, CustomersFilters } from '../../api/odooDataService';
+import { ModuleType } from './uiSlice';
+import { appDataReset } from '../actions';
+import { RootState } from '../store';
+
+export interface ModuleFiltersMap {
+  sales: SalesFilters;
+  inventory: InventoryFilters;
+  customers: CustomersFilters;
+}
+
+// Filter fields of a module, e.g. 'salesperson'
+export type FilterKey<K extends ModuleType = ModuleType> = keyof ModuleFiltersMap[K] & string;
+
+export interface FiltersState {
+  sessionId: string | null; // Account the filters belong to; record ids mean nothing on another server
+  modules: ModuleFiltersMap;
+}
+
+const initialState: FiltersState = {
+  sessionId: null,
+  modules: {
+    sales: {},
+    inventory: {},
+    customers: {},
+  },
+};
+
+export const filtersSlice = createSlice({
+  name: 'filters',
+  initialState,
+  reducers: {
+    filtersApplied: (
+      state,
+      action: PayloadAction<{ sessionId: string; module: ModuleType; filters: ModuleFiltersMap[ModuleType] }>
+    ) => {
+      const { sessionId, module, filters } = action.payload;
+      // Filters of another account are dropped
+      if (state.sessionId !== sessionId) {
+        state.sessionId = sessionId;
+        state.modules = initialState.modules;
+      }
+      state.modules[module] = filters;
+    },
+    filterRemoved: (state, action: PayloadAction<{ module: ModuleType; key: string }>) => {
+      const { module, key } = action.payload;
+      delete (state.modules[module] as Record<string, unknown>)[key];
+    },
+    filtersCleared: (state, action: PayloadAction<ModuleType>) => {
+      state.modules[action.payload] = {};
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(appDataReset, () => initialState);
+  },
+});
+
+// Regular actions
+export const { filtersApplied, filterRemoved, filtersCleared } = filtersSlice.actions;
+
+const NO_FILTERS = {};
+
+/**
+ * Cache key of a set of filters: the same for equal filters, empty when nothing is filtered
+ */
+export const getFilterKey = (filters: object): string => {
+  const entries = Object.entries(filters)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    // Options are identified by id; their names may change
+    .map(([key, value]) => [key, typeof value === 'object' && value !== null ? value.id : value]);
+  return entries.length > 0 ? JSON.stringify(entries) : '';
+};
+
+/**
+ * Short labels of the active filters, for chips
+ */
+export const describeFilters = <K extends ModuleType>(
+  module: K,
+  filters: ModuleFiltersMap[K]
+): Array<{ key: FilterKey<K>; label: string }> => {
+  const labels: Array<{ key: string; label: string }> = [];
+  if (module === 'sales') {
+    const sales = filters as SalesFilters;
+    if (sales.dateFrom) labels.push({ key: 'dateFrom', label: `From ${sales.dateFrom}` });
+    if (sales.dateTo) labels.push({ key: 'dateTo', label: `Until ${sales.dateTo}` });
+    if (sales.salesperson) labels.push({ key: 'salesperson', label: sales.salesperson.name });
+  } else if (module === 'inventory') {
+    const inventory = filters as InventoryFilters;
+    if (inventory.warehouse) labels.push({ key: 'warehouse', label: inventory.warehouse.name });
+    if (inventory.category) labels.push({ key: 'category', label: inventory.category.name });
+    if (inventory.status) labels.push({ key: 'status', label: `${inventory.status} stock` });
+  } else {
+    const customers = filters as CustomersFilters;
+    if (customers.segment) labels.push({ key: 'segment', label: customers.segment.name });
+    if (customers.country) labels.push({ key: 'country', label: customers.country.name });
+  }
+  return labels as Array<{ key: FilterKey<K>; label: string }>;
+};
+
+// Selectors
+export const selectModuleFilters = <K extends ModuleType>(state: RootState, module: K): ModuleFiltersMap[K] =>
+  state.filters.sessionId === state.auth.activeSessionId
+    ? state.filters.modules[module]
+    : (NO_FILTERS as ModuleFiltersMap[K]);
+
+export const selectFilterKey = (state: RootState, module: ModuleType) =>
+  getFilterKey(selectModuleFilters(state, module));
+
+export default filtersSlice.reducer;
@@ -0,0 +1,80 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { stateRehydrated, appDataReset } from '../actions';
+import { RootState } from '../store';
+
+export type ModuleType = 'sales' | 'inventory' | 'customers';
+export const MODULE_TYPES: ModuleType[] = ['sales', 'inventory', 'customers'];
+export type RecordingState = 'idle' | 'listening' | 'processing';
+
+export interface UIState {
+  currentModule: ModuleType;
+  refreshKey: number; // Bumped to make the active module reload its data
+  recordingState: RecordingState;
+  error: string | null; // Shown in the main screen snackbar
+  notice: string | null; // Outcome of a user action, shown the same way
+}
+
+const initialState: UIState = {
+  currentModule: 'sales',
+  refreshKey: 0,
+  recordingState: 'idle',
+  error: null,
+  notice: null,
+};
+
+export const uiSlice = createSlice({
+  name: 'ui',
+  initialState,
+  reducers: {
+    moduleChanged: (state, action: PayloadAction<ModuleType>) => {
+      state.currentModule = action.payload;
+    },
+    refreshRequested: (state) => {
+      state.refreshKey += 1;
+    },
+    recordingStateChanged: (state, action: PayloadAction<RecordingState>) => {
+      state.recordingState = action.payload;
+    },
+    errorShown: (state, action: PayloadAction<string>) => {
+      state.error = action.payload;
+    },
+    errorDismissed: (state) => {
+      state.error = null;
+    },
+    noticeShown: (state, action: PayloadAction<string>) => {
+      state.notice = action.payload;
+    },
+    noticeDismissed: (state) => {
+      state.notice = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Reopen the module used last
+    builder.addCase(stateRehydrated, (state, action) => {
+      if (action.payload.ui) {
+        state.currentModule = action.payload.ui.currentModule;
+      }
+    });
+    builder.addCase(appDataReset, () => initialState);
+  },
+});
+
+// Regular actions
+export const {
+  moduleChanged,
+  refreshRequested,
+  recordingStateChanged,
+  errorShown,
+  errorDismissed,
+  noticeShown,
+  noticeDismissed,
+} = uiSlice.actions;
+
+// Selectors
+export const selectCurrentModule = (state: RootState) => state.ui.currentModule;
+export const selectRefreshKey = (state: RootState) => state.ui.refreshKey;
+export const selectRecordingState = (state: RootState) => state.ui.recordingState;
+export const selectUIError = (state: RootState) => state.ui.error;
+export const selectNotice = (state: RootState) => state.ui.notice;
+
+export default uiSlice.reducer;
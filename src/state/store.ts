@@ -1,9 +1,19 @@
 import { configureStore } from '@reduxjs/toolkit';
 import authReducer from './slices/authSlice';
+import connectionReducer from './slices/connectionSlice';
+import conversationReducer from './slices/conversationSlice';
+import dashboardReducer from './slices/dashboardSlice';
+import filtersReducer from './slices/filtersSlice';
+import uiReducer from './slices/uiSlice';
 
 export const store = configureStore({
   reducer: {
     auth: authReducer,
+    connection: connectionReducer,
+    conversation: conversationReducer,
+    dashboard: dashboardReducer,
+    filters: filtersReducer,
+    ui: uiReducer,
   },
 });
 
@@ -0,0 +1,56 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { buildModuleExport, exportFileName, toCSV, toXLSX, toReportHTML, ExportDocument } from '../exportData';
+import { InventoryData } from '../../api/odooDataService';
+
+const inventory: InventoryData = {
+  summary: { totalProducts: 2, lowStock: 1, outOfStock: 0, incomingShipments: 3 },
+  stockLevels: { categories: [], values: [], details: [] },
+  itemsData: [
+    { id: 1, name: 'Desk, "large"', category: 'Office', stock: 4, status: 'Low', reorder: 5 },
+    { id: 2, name: '=SUM(A1)', category: 'Tools & <Parts>', stock: 10, status: 'Good', reorder: 2 },
+  ],
+};
+
+const document: ExportDocument = buildModuleExport('inventory', inventory, new Date(2025, 2, 15, 9, 5));
+
+describe('exportData', () => {
+  it('builds a document from module data', () => {
+    expect(document.title).toBe('Inventory Status');
+    expect(document.columns.map(column => column.label)).toEqual(['Product', 'Category', 'Stock', 'Status', 'Reorder point']);
+    expect(document.rows[0]).toEqual({ name: 'Desk, "large"', category: 'Office', stock: 4, status: 'Low', reorder: 5 });
+    expect(document.summary).toContainEqual({ label: 'Incoming shipments', value: 3 });
+    expect(exportFileName(document, 'xlsx')).toBe('inventory-status-20250315-0905.xlsx');
+  });
+
+  it('quotes CSV cells and neutralizes formulas', () => {
+    expect(toCSV(document)).toBe(
+      '\uFEFFProduct,Category,Stock,Status,Reorder point\r\n'
+      + '"Desk, ""large""",Office,4,Low,5\r\n'
+      + '\'=SUM(A1),Tools & <Parts>,10,Good,2\r\n'
+    );
+  });
+
+  it('writes the table and summary sheets of an XLSX workbook', () => {
+    const files = unzipSync(toXLSX(document));
+    const sheet = strFromU8(files['xl/worksheets/sheet1.xml']);
+    const summary = strFromU8(files['xl/worksheets/sheet2.xml']);
+    const workbook = strFromU8(files['xl/workbook.xml']);
+
+    expect(Object.keys(files)).toEqual(expect.arrayContaining(['[Content_Types].xml', '_rels/.rels', 'xl/styles.xml']));
+    expect(workbook).toContain('<sheet name="Inventory Status" sheetId="1" r:id="rId1"/>');
+    expect(sheet).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Product</t></is></c>');
+    expect(sheet).toContain('<c r="C2"><v>4</v></c>');
+    expect(sheet).toContain('<t xml:space="preserve">Tools &amp; &lt;Parts&gt;</t>');
+    expect(summary).toContain('<c r="B5"><v>3</v></c>');
+    expect(summary).toContain('2025-03-15 09:05');
+  });
+
+  it('renders an escaped HTML report', () => {
+    const html = toReportHTML(document);
+
+    expect(html).toContain('<h1>Inventory Status</h1>');
+    expect(html).toContain('<td class="">Tools &amp; &lt;Parts&gt;</td>');
+    expect(html).toContain('<td class="number">10</td>');
+    expect(html).toContain('<div class="label">Low stock</div>');
+  });
+});
@@ -0,0 +1,56 @@
+import { sortRows, filterRows, nextSort, paginate, TableColumnOptions } from '../tableData';
+
+const columns: TableColumnOptions[] = [
+  { id: 'name', sortable: true },
+  { id: 'stock', sortable: true, filter: false },
+  {
+    id: 'status',
+    sortable: true,
+    comparator: (a, b) => ['Out', 'Low', 'Good'].indexOf(a) - ['Out', 'Low', 'Good'].indexOf(b),
+  },
+];
+
+const rows = [
+  { name: 'Item 10', stock: 5, status: 'Low' },
+  { name: 'Item 2', stock: 0, status: 'Out' },
+  { name: 'Chair', stock: null, status: 'Good' },
+  { name: 'item 1', stock: 12, status: 'Good' },
+];
+
+describe('tableData', () => {
+  it('sorts text naturally and numbers by value, with empty values last', () => {
+    expect(sortRows(rows, columns, { columnId: 'name', direction: 'asc' }).map(row => row.name))
+      .toEqual(['Chair', 'item 1', 'Item 2', 'Item 10']);
+    expect(sortRows(rows, columns, { columnId: 'stock', direction: 'desc' }).map(row => row.stock))
+      .toEqual([12, 5, 0, null]);
+  });
+
+  it('sorts with a column comparator and keeps the order of equal rows', () => {
+    expect(sortRows(rows, columns, { columnId: 'status', direction: 'asc' }).map(row => row.name))
+      .toEqual(['Item 2', 'Item 10', 'Chair', 'item 1']);
+    expect(sortRows(rows, columns, null)).toBe(rows);
+  });
+
+  it('searches the columns that allow it, ignoring case', () => {
+    expect(filterRows(rows, columns, ' ITEM ').map(row => row.name)).toEqual(['Item 10', 'Item 2', 'item 1']);
+    expect(filterRows(rows, columns, '12')).toEqual([]);
+    expect(filterRows(rows, [{ id: 'stock', filter: (value, query) => String(value) === query }], '12'))
+      .toEqual([rows[3]]);
+  });
+
+  it('cycles the sort of a header: ascending, descending, none', () => {
+    const asc = nextSort(null, 'name');
+    expect(asc).toEqual({ columnId: 'name', direction: 'asc' });
+    const desc = nextSort(asc, 'name');
+    expect(desc).toEqual({ columnId: 'name', direction: 'desc' });
+    expect(nextSort(desc, 'name')).toBeNull();
+    expect(nextSort(desc, 'stock')).toEqual({ columnId: 'stock', direction: 'asc' });
+  });
+
+  it('pages rows and clamps the page', () => {
+    const items = Array.from({ length: 23 }, (_, index) => index);
+    expect(paginate(items, 1, 10)).toEqual({ rows: [10, 11, 12, 13, 14, 15, 16, 17, 18, 19], page: 1, pageCount: 3 });
+    expect(paginate(items, 5, 10)).toEqual({ rows: [20, 21, 22], page: 2, pageCount: 3 });
+    expect(paginate([], 0, 10)).toEqual({ rows: [], page: 0, pageCount: 1 });
+  });
+});
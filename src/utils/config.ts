@@ -4,13 +4,56 @@
  */
 
 // Server configuration
-// In a production environment, you would set this to your actual production server
-export const PROXY_URL = 'http://172.31.174.192:3000';
-export const API_URL = `${PROXY_URL}/api`;
-export const SOCKET_URL = PROXY_URL;
+// Proxy endpoint for each environment profile. Set EXPO_PUBLIC_<PROFILE>_PROXY_URL at build time;
+// users can switch profiles or enter their own proxy from the login screen (see api/settingsStore).
+export type EnvironmentProfile = 'dev' | 'staging' | 'prod';
+
+export const PROXY_PROFILES: Record<EnvironmentProfile, string> = {
+  dev: process.env.EXPO_PUBLIC_DEV_PROXY_URL || 'http://localhost:3000',
+  staging: process.env.EXPO_PUBLIC_STAGING_PROXY_URL || '',
+  prod: process.env.EXPO_PUBLIC_PROD_PROXY_URL || '',
+};
+
+// Timeout for the proxy health check
+export const PROXY_HEALTH_TIMEOUT_MS = 5000;
 
 // Authentication
 export const DEFAULT_ODOO_URL = 'https://meraik-enterprise-ed.odoo.com';
+export const TOKEN_REFRESH_MARGIN_MS = 60 * 1000; // Refresh access tokens this long before they expire
+export const TOKEN_REFRESH_RETRY_MS = 30 * 1000; // Retry delay after a refresh fails for network reasons
+export const MAX_RECENT_SERVERS = 5; // Offered as suggestions on the login screen
+
+// Voice
+export const DEFAULT_VOICE_LANGUAGE = 'en-US';
+export const VOICE_LANGUAGES = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'fr-FR', label: 'Français' },
+  { value: 'de-DE', label: 'Deutsch' },
+  { value: 'es-ES', label: 'Español' },
+  { value: 'nl-NL', label: 'Nederlands' },
+];
+
+// Appearance
+export type ThemeName = 'violet' | 'ocean' | 'emerald';
+export const DEFAULT_THEME: ThemeName = 'violet';
+
+// App lock
+export const MIN_PIN_LENGTH = 4;
+export const MAX_UNLOCK_ATTEMPTS = 5; // The saved sessions are wiped after this many wrong PINs
+export const DEFAULT_LOCK_TIMEOUT_MS = 60 * 1000; // Time in background before the PIN is asked again
+export const LOCK_TIMEOUT_OPTIONS_MS = [0, 60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000];
+
+// Conversation history
+export const MAX_PERSISTED_TURNS = 20; // Default; users can keep more or fewer in the settings
+export const HISTORY_SIZE_OPTIONS = [10, 20, 50];
+
+// Data tables
+export const TABLE_PAGE_SIZE_OPTIONS = [10, 25, 50];
+export const TABLE_MAX_HEIGHT = 480; // Height of a table body that scrolls by itself
+
+// State persistence
+export const PERSIST_DEBOUNCE_MS = 1000; // Store changes are written at most this often
 
 // App information
 export const APP_VERSION = '1.0.0';
@@ -18,4 +61,5 @@ export const APP_NAME = 'Odoo Voice Assistant';
 
 // Development configuration
 export const __DEV__ = process.env.NODE_ENV === 'development';
-export const SKIP_AUTH_ENABLED = __DEV__;
\ No newline at end of file
+export const SKIP_AUTH_ENABLED = __DEV__;
+export const DEFAULT_PROFILE: EnvironmentProfile = __DEV__ ? 'dev' : 'prod';
\ No newline at end of file
@@ -0,0 +1,335 @@
+import { zipSync, strToU8 } from 'fflate';
+import { ModuleType } from '../state/slices/uiSlice';
+import { ModuleDataMap } from '../state/slices/dashboardSlice';
+
+/**
+ * Serialization of a module's summary and table to CSV, XLSX and the HTML of a PDF report.
+ * Writing and sharing the files is left to the export service.
+ */
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+// Numbers stay numbers so spreadsheets can compute with them
+export type ExportValue = string | number;
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+}
+
+export interface ExportDocument {
+  title: string;
+  generatedAt: Date;
+  summary: Array<{ label: string; value: ExportValue }>;
+  columns: ExportColumn[];
+  rows: Array<Record<string, ExportValue>>;
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Export document of a module's dashboard data
+ * @param data Data last loaded by the module
+ */
+export const buildModuleExport = <M extends ModuleType>(
+  module: M,
+  data: ModuleDataMap[M],
+  generatedAt: Date = new Date()
+): ExportDocument => {
+  switch (module) {
+    case 'sales': {
+      const sales = data as ModuleDataMap['sales'];
+      return {
+        title: 'Sales Performance',
+        generatedAt,
+        summary: [
+          { label: 'Total revenue', value: sales.monthlySales.totalRevenue },
+          { label: `${sales.monthlySales.currentMonth} revenue`, value: sales.monthlySales.currentValue },
+          { label: 'YoY growth (%)', value: sales.monthlySales.yearGrowth },
+        ],
+        columns: [
+          { id: 'month', label: 'Month' },
+          { id: 'revenue', label: 'Revenue' },
+          { id: 'orders', label: 'Orders' },
+          { id: 'growth', label: 'Growth (%)' },
+        ],
+        rows: sales.monthlyDetails.map(({ month, revenue, orders, growth }) => ({ month, revenue, orders, growth })),
+      };
+    }
+    case 'inventory': {
+      const inventory = data as ModuleDataMap['inventory'];
+      return {
+        title: 'Inventory Status',
+        generatedAt,
+        summary: [
+          { label: 'Total products', value: inventory.summary.totalProducts },
+          { label: 'Low stock', value: inventory.summary.lowStock },
+          { label: 'Out of stock', value: inventory.summary.outOfStock },
+          { label: 'Incoming shipments', value: inventory.summary.incomingShipments },
+        ],
+        columns: [
+          { id: 'name', label: 'Product' },
+          { id: 'category', label: 'Category' },
+          { id: 'stock', label: 'Stock' },
+          { id: 'status', label: 'Status' },
+          { id: 'reorder', label: 'Reorder point' },
+        ],
+        rows: inventory.itemsData.map(({ name, category, stock, status, reorder }) => ({
+          name, category, stock, status, reorder,
+        })),
+      };
+    }
+    default: {
+      const customers = data as ModuleDataMap['customers'];
+      return {
+        title: 'Customer Segments',
+        generatedAt,
+        summary: [
+          { label: 'Total customers', value: customers.summary.totalCustomers },
+          { label: 'New this month', value: customers.summary.newThisMonth },
+          { label: 'Active customers', value: customers.summary.activeCustomers },
+          { label: 'Retention rate (%)', value: customers.summary.retentionRate },
+          { label: 'Lifetime value', value: customers.summary.lifetimeValue },
+        ],
+        columns: [
+          { id: 'segment', label: 'Segment' },
+          { id: 'count', label: 'Customers' },
+          { id: 'revenue', label: 'Revenue' },
+          { id: 'avgValue', label: 'Avg. value' },
+          { id: 'growth', label: 'Growth (%)' },
+        ],
+        rows: customers.detailedData.map(({ segment, count, revenue, avgValue, growth }) => ({
+          segment, count, revenue, avgValue, growth,
+        })),
+      };
+    }
+  }
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * File name from the title and local time, e.g. "sales-performance-20250315-0930.csv"
+ */
+export const exportFileName = (document: ExportDocument, format: ExportFormat): string => {
+  const date = document.generatedAt;
+  const slug = document.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `${slug}-${stamp}.${format}`;
+};
+
+const formatTimestamp = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const cellValue = (row: Record<string, ExportValue>, column: ExportColumn): ExportValue => row[column.id] ?? '';
+
+// CSV
+
+const csvCell = (value: ExportValue): string => {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  // Text starting like a formula would be evaluated by spreadsheets
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The table as CSV (RFC 4180), with a byte order mark so spreadsheets read it as UTF-8
+ */
+export const toCSV = (document: ExportDocument): string => {
+  const lines = [
+    document.columns.map(column => csvCell(column.label)),
+    ...document.rows.map(row => document.columns.map(column => csvCell(cellValue(row, column)))),
+  ];
+  return `\uFEFF${lines.map(line => line.join(',')).join('\r\n')}\r\n`;
+};
+
+// XLSX
+
+const escapeXml = (text: string): string =>
+  text
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Spreadsheet column name of a zero-based index: A, B, ..., Z, AA, ...
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Style 1 of styles.xml is bold, for header cells
+const xlsxCell = (value: ExportValue, reference: string, bold = false): string => {
+  const style = bold ? ' s="1"' : '';
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${reference}"${style}><v>${value}</v></c>`;
+  }
+  return `<c r="${reference}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const xlsxSheet = (rows: ExportValue[][]): string => {
+  const rowsXml = rows
+    .map((cells, rowIndex) => {
+      const cellsXml = cells
+        .map((value, columnIndex) => xlsxCell(value, `${columnName(columnIndex)}${rowIndex + 1}`, rowIndex === 0))
+        .join('');
+      return `<row r="${rowIndex + 1}">${cellsXml}</row>`;
+    })
+    .join('');
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + `<sheetData>${rowsXml}</sheetData></worksheet>`;
+};
+
+// Sheet names are limited to 31 characters, without []:*?/\
+const sheetName = (title: string) => title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Data';
+
+const XLSX_STYLES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+  + '</styleSheet>';
+
+/**
+ * A workbook with the table on the first sheet and the summary on a second one
+ */
+export const toXLSX = (document: ExportDocument): Uint8Array => {
+  const sheets = [
+    {
+      name: sheetName(document.title),
+      rows: [
+        document.columns.map(column => column.label),
+        ...document.rows.map(row => document.columns.map(column => cellValue(row, column))),
+      ],
+    },
+    {
+      name: 'Summary',
+      rows: [
+        ['Metric', 'Value'],
+        ...document.summary.map(item => [item.label, item.value]),
+        ['Generated', formatTimestamp(document.generatedAt)],
+      ],
+    },
+  ];
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+      + sheets.map((_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      ).join('')
+      + '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" '
+      + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>'
+      + sheets.map((sheet, index) =>
+        `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+      ).join('')
+      + '</sheets></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + sheets.map((_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      ).join('')
+      + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+      + '</Relationships>'
+    ),
+    'xl/styles.xml': strToU8(XLSX_STYLES),
+  };
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(xlsxSheet(sheet.rows));
+  });
+
+  return zipSync(files);
+};
+
+// PDF report
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatReportValue = (value: ExportValue) =>
+  escapeHtml(typeof value === 'number' ? value.toLocaleString('en-US', { maximumFractionDigits: 2 }) : value);
+
+/**
+ * HTML of a printable report: title, summary figures and the table
+ */
+export const toReportHTML = (document: ExportDocument): string => {
+  const summary = document.summary
+    .map(item => `<div class="metric"><div class="value">${formatReportValue(item.value)}</div><div class="label">${escapeHtml(item.label)}</div></div>`)
+    .join('');
+  const header = document.columns.map(column => `<th>${escapeHtml(column.label)}</th>`).join('');
+  const rows = document.rows
+    .map(row => {
+      const cells = document.columns
+        .map(column => {
+          const value = cellValue(row, column);
+          return `<td class="${typeof value === 'number' ? 'number' : ''}">${formatReportValue(value)}</td>`;
+        })
+        .join('');
+      return `<tr>${cells}</tr>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(document.title)}</title>
+<style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #0f172a; margin: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .generated { color: #64748b; font-size: 12px; margin-bottom: 24px; }
+  .summary { display: flex; flex-wrap: wrap; gap: 12px; margin-bottom: 24px; }
+  .metric { border: 1px solid #e2e8f0; border-radius: 8px; padding: 8px 12px; min-width: 120px; }
+  .metric .value { font-size: 18px; font-weight: 600; }
+  .metric .label { font-size: 12px; color: #64748b; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { text-align: left; border-bottom: 2px solid #cbd5e1; padding: 6px 8px; }
+  td { border-bottom: 1px solid #e2e8f0; padding: 6px 8px; }
+  td.number { text-align: right; }
+  tr:nth-child(even) td { background: #f8fafc; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(document.title)}</h1>
+<div class="generated">Generated ${formatTimestamp(document.generatedAt)}</div>
+<div class="summary">${summary}</div>
+<table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>
+</body>
+</html>`;
+};
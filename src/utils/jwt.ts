@@ -0,0 +1,34 @@
+/**
+ * Helpers for reading JWT access tokens issued by the proxy.
+ * Tokens are only decoded, never verified; the proxy remains the authority.
+ */
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  return atob(padded);
+};
+
+/**
+ * Reads the expiry of a JWT
+ * @returns Expiry time in milliseconds, or null for opaque or malformed tokens
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    const { exp } = JSON.parse(decodeBase64Url(payload));
+    return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether a token expires within the given margin; tokens without a readable expiry never do
+ */
+export const isTokenExpiring = (token: string, marginMs: number, now: number = Date.now()): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - marginMs <= now;
+};
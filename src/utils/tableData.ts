@@ -0,0 +1,110 @@
+/**
+ * Sorting, searching and paging of table rows, kept apart from DataTable so it can be tested
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortState {
+  columnId: string;
+  direction: SortDirection;
+}
+
+// Compares two cell values; negative when a comes first in ascending order
+export type CellComparator = (a: any, b: any, rowA: any, rowB: any) => number;
+
+// Whether a row matches the search text (already trimmed and lower-cased) through this column
+export type CellFilter = (value: any, query: string, row: any) => boolean;
+
+// Column options the row helpers use
+export interface TableColumnOptions {
+  id: string;
+  sortable?: boolean;
+  comparator?: CellComparator;
+  filter?: boolean | CellFilter; // false leaves the column out of the search
+}
+
+const isEmptyValue = (value: any) => value === null || value === undefined || value === '';
+
+/**
+ * Default order: numbers and dates by value, text naturally ("Item 2" before "Item 10")
+ */
+export const compareValues = (a: any, b: any): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+/**
+ * Sorts rows by a column. Empty values always go last.
+ * @returns New array; rows with equal values keep their order
+ */
+export const sortRows = <T extends Record<string, unknown>>(rows: T[], columns: TableColumnOptions[], sort: SortState | null): T[] => {
+  const column = sort && columns.find(item => item.id === sort.columnId);
+  if (!sort || !column) {
+    return rows;
+  }
+
+  const comparator = column.comparator || compareValues;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      const valueA = a.row[column.id];
+      const valueB = b.row[column.id];
+      if (isEmptyValue(valueA) || isEmptyValue(valueB)) {
+        return Number(isEmptyValue(valueA)) - Number(isEmptyValue(valueB)) || a.index - b.index;
+      }
+      return factor * comparator(valueA, valueB, a.row, b.row) || a.index - b.index;
+    })
+    .map(item => item.row);
+};
+
+/**
+ * Keeps the rows where any searchable column contains the query, ignoring case
+ */
+export const filterRows = <T extends Record<string, unknown>>(rows: T[], columns: TableColumnOptions[], query: string): T[] => {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) {
+    return rows;
+  }
+
+  const searchable = columns.filter(column => column.filter !== false);
+  return rows.filter(row =>
+    searchable.some(column => {
+      const value = row[column.id];
+      if (typeof column.filter === 'function') {
+        return column.filter(value, normalized, row);
+      }
+      return !isEmptyValue(value) && String(value).toLowerCase().includes(normalized);
+    })
+  );
+};
+
+/**
+ * Next sort after tapping a column header: ascending, descending, then unsorted
+ */
+export const nextSort = (current: SortState | null, columnId: string): SortState | null => {
+  if (!current || current.columnId !== columnId) {
+    return { columnId, direction: 'asc' };
+  }
+  return current.direction === 'asc' ? { columnId, direction: 'desc' } : null;
+};
+
+/**
+ * Rows of one page
+ * @param page Zero-based page index, clamped to the last page
+ */
+export const paginate = <T>(rows: T[], page: number, pageSize: number) => {
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+  const current = Math.min(Math.max(page, 0), pageCount - 1);
+  return {
+    rows: rows.slice(current * pageSize, (current + 1) * pageSize),
+    page: current,
+    pageCount,
+  };
+};
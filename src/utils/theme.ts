@@ -1,5 +1,6 @@
 import { MD3DarkTheme as DefaultTheme } from 'react-native-paper';
 import type { MD3Theme } from 'react-native-paper';
+import type { ThemeName } from './config';
 
 // Color palette based on theming.md
 export const colors = {
@@ -89,33 +90,49 @@ export const components = {
   },
 };
 
-// Main theme object that extends React Native Paper's theme
-export const theme: MD3Theme = {
-  ...DefaultTheme,
-  colors: {
-    ...DefaultTheme.colors,
-    primary: colors.primary,
-    secondary: colors.secondary,
-    tertiary: colors.accent,
-    background: colors.backgroundDark,
-    surface: colors.backgroundMedium,
-    surfaceVariant: colors.backgroundLight,
-    error: colors.error,
-    onPrimary: colors.textPrimary,
-    onSecondary: colors.textPrimary,
-    onBackground: colors.textPrimary,
-    onSurface: colors.textPrimary,
-    onSurfaceVariant: colors.textSecondary,
-    onError: colors.textPrimary,
-    // Override other react-native-paper colors as needed
-  },
-  fonts: {
-    ...DefaultTheme.fonts,
-    // Will customize when we add custom fonts
-  },
-  // Add other theme properties as needed
+// Accent colors of each theme, applied to Paper components and navigation.
+// Screen styles are created once and keep the default palette.
+export const themeAccents: Record<ThemeName, Pick<typeof colors, 'primary' | 'secondary' | 'accent'>> = {
+  violet: { primary: colors.primary, secondary: colors.secondary, accent: colors.accent },
+  ocean: { primary: '#3ABFF8', secondary: '#6C63FF', accent: '#2DD4BF' },
+  emerald: { primary: '#36D399', secondary: '#3ABFF8', accent: '#FBBD23' },
 };
 
+/**
+ * React Native Paper theme with the accents of a theme
+ */
+export const createTheme = (name: ThemeName): MD3Theme => {
+  const accents = themeAccents[name] || themeAccents.violet;
+  return {
+    ...DefaultTheme,
+    colors: {
+      ...DefaultTheme.colors,
+      primary: accents.primary,
+      secondary: accents.secondary,
+      tertiary: accents.accent,
+      background: colors.backgroundDark,
+      surface: colors.backgroundMedium,
+      surfaceVariant: colors.backgroundLight,
+      error: colors.error,
+      onPrimary: colors.textPrimary,
+      onSecondary: colors.textPrimary,
+      onBackground: colors.textPrimary,
+      onSurface: colors.textPrimary,
+      onSurfaceVariant: colors.textSecondary,
+      onError: colors.textPrimary,
+      // Override other react-native-paper colors as needed
+    },
+    fonts: {
+      ...DefaultTheme.fonts,
+      // Will customize when we add custom fonts
+    },
+    // Add other theme properties as needed
+  };
+};
+
+// Main theme object that extends React Native Paper's theme
+export const theme: MD3Theme = createTheme('violet');
+
 // Export a shadowGenerator function to create consistent shadows
 export const createShadow = (elevation: number, color = 'rgba(108, 99, 255, 0.5)') => {
   return {
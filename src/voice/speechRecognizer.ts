@@ -0,0 +1,154 @@
+import { Platform } from 'react-native';
+import type {
+  SpeechResultsEvent,
+  SpeechErrorEvent,
+} from '@react-native-voice/voice';
+
+// Events emitted by a speech recognizer during a capture session
+export type SpeechRecognizerEvent =
+  | { type: 'start' }
+  | { type: 'partial'; transcript: string }
+  | { type: 'result'; transcript: string }
+  | { type: 'end' }
+  | { type: 'error'; message: string; code?: string };
+
+export type SpeechRecognizerListener = (event: SpeechRecognizerEvent) => void;
+
+/**
+ * Speech recognition backend used by the voice pipeline.
+ * Implementations must report lifecycle changes through listeners
+ * so the UI can be driven by real recognizer events (and faked in tests).
+ */
+export interface SpeechRecognizer {
+  isAvailable(): Promise<boolean>;
+  start(locale: string): Promise<void>;
+  stop(): Promise<void>;
+  cancel(): Promise<void>;
+  addListener(listener: SpeechRecognizerListener): () => void;
+  destroy(): Promise<void>;
+}
+
+// Import the native voice module lazily so the app still runs where it is not linked (Expo Go, web)
+let Voice: any = null;
+try {
+  // Using require instead of import to avoid crashing when the native module is missing
+  const voiceModule = require('@react-native-voice/voice');
+  Voice = voiceModule.default || voiceModule;
+} catch (error) {
+  console.warn('Failed to import @react-native-voice/voice:', error);
+}
+
+/**
+ * Maps native speech errors to user-facing messages
+ */
+const getErrorMessage = (e: SpeechErrorEvent): string => {
+  if (e.error?.code === 'permissions') {
+    return 'Please grant microphone permission to use voice input';
+  }
+  if (e.error?.code === 'not-available') {
+    return 'Speech recognition is not available on this device';
+  }
+  return e.error?.message || 'Speech recognition failed';
+};
+
+/**
+ * Creates a recognizer backed by @react-native-voice/voice
+ */
+export const createNativeSpeechRecognizer = (): SpeechRecognizer => {
+  const listeners: SpeechRecognizerListener[] = [];
+  let handlersAttached = false;
+
+  const emit = (event: SpeechRecognizerEvent) => {
+    for (const listener of [...listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[Voice] Error in recognizer listener:', error);
+      }
+    }
+  };
+
+  const firstTranscript = (e: SpeechResultsEvent) => (e.value && e.value.length > 0 ? e.value[0] : '');
+
+  // The native module supports a single handler per event, so we fan out to our own listeners
+  const attachHandlers = () => {
+    if (!Voice || handlersAttached) return;
+    Voice.onSpeechStart = () => emit({ type: 'start' });
+    Voice.onSpeechEnd = () => emit({ type: 'end' });
+    Voice.onSpeechPartialResults = (e: SpeechResultsEvent) => {
+      const transcript = firstTranscript(e);
+      if (transcript) emit({ type: 'partial', transcript });
+    };
+    Voice.onSpeechResults = (e: SpeechResultsEvent) => {
+      const transcript = firstTranscript(e);
+      if (transcript) emit({ type: 'result', transcript });
+    };
+    Voice.onSpeechError = (e: SpeechErrorEvent) => {
+      console.error('Speech recognition error:', e.error);
+      emit({ type: 'error', message: getErrorMessage(e), code: e.error?.code });
+    };
+    handlersAttached = true;
+  };
+
+  return {
+    isAvailable: async () => {
+      if (!Voice) return false;
+      try {
+        return !!(await Voice.isAvailable());
+      } catch (error) {
+        console.error('Voice recognition setup error:', error);
+        return false;
+      }
+    },
+
+    start: async (locale: string) => {
+      if (!Voice) {
+        throw new Error('Speech recognition is not available on this device');
+      }
+      attachHandlers();
+
+      if (Platform.OS === 'android') {
+        // Android-specific options
+        await Voice.start(locale, {
+          EXTRA_LANGUAGE_MODEL: 'LANGUAGE_MODEL_FREE_FORM',
+          EXTRA_MAX_RESULTS: 5,
+          EXTRA_PARTIAL_RESULTS: true,
+        });
+      } else {
+        // iOS and other platforms
+        await Voice.start(locale);
+      }
+    },
+
+    stop: async () => {
+      if (!Voice) return;
+      await Voice.stop();
+    },
+
+    cancel: async () => {
+      if (!Voice) return;
+      await Voice.cancel();
+    },
+
+    addListener: (listener: SpeechRecognizerListener) => {
+      listeners.push(listener);
+      return () => {
+        const index = listeners.indexOf(listener);
+        if (index !== -1) {
+          listeners.splice(index, 1);
+        }
+      };
+    },
+
+    destroy: async () => {
+      listeners.length = 0;
+      if (!Voice) return;
+      await Voice.destroy();
+      Voice.removeAllListeners();
+      handlersAttached = false;
+    },
+  };
+};
+
+// Shared recognizer instance for the app
+export const speechRecognizer = createNativeSpeechRecognizer();